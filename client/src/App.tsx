@@ -5,17 +5,23 @@ import { Toaster } from "@/components/ui/toaster";
 import { TooltipProvider } from "@/components/ui/tooltip";
 import NotFound from "@/pages/not-found";
 import HomePage from "@/pages/HomePage";
+import DashboardPage from "@/pages/DashboardPage";
 import ConfigPage from "@/pages/ConfigPage";
 import BuilderPage from "@/pages/BuilderPage";
 import RulesPage from "@/pages/RulesPage";
+import SurveyRuntimePage from "@/pages/SurveyRuntimePage";
+import PrintPage from "@/pages/PrintPage";
 
 function Router() {
   return (
     <Switch>
       <Route path="/" component={HomePage} />
+      <Route path="/dashboard" component={DashboardPage} />
       <Route path="/config" component={ConfigPage} />
       <Route path="/builder/:id" component={BuilderPage} />
       <Route path="/rules/:id" component={RulesPage} />
+      <Route path="/s/:id" component={SurveyRuntimePage} />
+      <Route path="/print/:id" component={PrintPage} />
       <Route component={NotFound} />
     </Switch>
   );
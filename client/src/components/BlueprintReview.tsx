@@ -22,6 +22,8 @@ import {
 } from "./ui/dialog";
 import { Textarea } from "./ui/textarea";
 import { Label } from "./ui/label";
+import { SurveyBurdenSummary } from "./SurveyBurdenSummary";
+import { estimatePlanBurden, estimateSurveyBurden } from "@/lib/surveyBurden";
 
 interface BlueprintReviewProps {
   plan: GenerateSurveyResponse | SurveyPlanResponse;
@@ -129,6 +131,9 @@ export function BlueprintReview({ plan, onApprove, onRetry, onReject, threadId,
               Attempt: {plannerPlan.attempt}:3
             </Badge>
           </div>
+
+          {/* Estimated completion time - warns when the final counts are too much for respondents */}
+          <SurveyBurdenSummary burden={estimatePlanBurden(planData)} className="mt-4" />
         </div>
 
         {/* Plan Overview - Collapsible */}
@@ -685,6 +690,7 @@ export function BlueprintReview({ plan, onApprove, onRetry, onReject, threadId,
             We've generated a structure based on your prompt. Review and approve to build the full survey.
           </p>
         </div>
+        <SurveyBurdenSummary burden={estimateSurveyBurden(legacyPlan.sections)} className="mt-4" />
       </div>
 
       <div className="space-y-6">
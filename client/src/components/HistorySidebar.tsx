@@ -1,7 +1,14 @@
-import { ChevronRight, Clock, MoreVertical, FileText } from "lucide-react";
+import { ChevronRight, Clock, MoreVertical, FileText, Copy, ExternalLink } from "lucide-react";
+import { Link, useLocation } from "wouter";
 import { cn } from "@/lib/utils";
 import { format } from "date-fns";
-import { useSurveys } from "@/hooks/use-surveys";
+import { useSurveys, useDuplicateSurvey } from "@/hooks/use-surveys";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from "./ui/dropdown-menu";
 
 interface HistorySidebarProps {
   isOpen: boolean;
@@ -9,7 +16,21 @@ interface HistorySidebarProps {
 }
 
 export function HistorySidebar({ isOpen, onToggle }: HistorySidebarProps) {
-  const { data: surveys } = useSurveys();
+  // Most recently edited first; the full list is on the dashboard
+  const { data } = useSurveys({ sort: "updatedAt", pageSize: 20 });
+  const surveys = data?.items;
+  const duplicateSurvey = useDuplicateSurvey();
+  const [, setLocation] = useLocation();
+
+  const handleDuplicate = async (id: number) => {
+    try {
+      const copy = await duplicateSurvey.mutateAsync({ id });
+      setLocation(`/builder/${copy.id}`);
+    } catch (error) {
+      // Error toast is shown by the hook
+      console.error("Failed to duplicate survey:", error);
+    }
+  };
 
   return (
     <div 
@@ -34,6 +55,9 @@ export function HistorySidebar({ isOpen, onToggle }: HistorySidebarProps) {
         <h3 className="font-display font-bold text-lg text-secondary flex items-center gap-2">
           <Clock className="w-5 h-5" /> Survey History
         </h3>
+        <Link href="/dashboard" className="text-sm font-medium text-primary hover:underline">
+          View all
+        </Link>
       </div>
 
       {/* Content */}
@@ -49,9 +73,21 @@ export function HistorySidebar({ isOpen, onToggle }: HistorySidebarProps) {
                   <span className="text-xs font-semibold px-2 py-1 rounded-full bg-primary/10 text-primary">
                     V{survey.id}
                   </span>
-                  <button className="text-muted-foreground hover:text-foreground">
-                    <MoreVertical className="w-4 h-4" />
-                  </button>
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <button className="text-muted-foreground hover:text-foreground" aria-label={`Actions for ${survey.name}`}>
+                        <MoreVertical className="w-4 h-4" />
+                      </button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      <DropdownMenuItem onSelect={() => setLocation(`/builder/${survey.id}`)}>
+                        <ExternalLink className="w-4 h-4 mr-2" /> Open in builder
+                      </DropdownMenuItem>
+                      <DropdownMenuItem onSelect={() => handleDuplicate(survey.id)} disabled={duplicateSurvey.isPending}>
+                        <Copy className="w-4 h-4 mr-2" /> Duplicate
+                      </DropdownMenuItem>
+                    </DropdownMenuContent>
+                  </DropdownMenu>
                 </div>
                 <h4 className="font-semibold text-foreground mb-1 line-clamp-2">{survey.name}</h4>
                 <div className="flex items-center gap-2 text-xs text-muted-foreground">
@@ -0,0 +1,231 @@
+import type { ReactNode } from "react";
+import { normalizeQuestionType } from "@shared/answers";
+import type { Survey } from "@shared/schema";
+import { getBothLanguages, getText, type BilingualText, type UserLanguage } from "@/lib/bilingual";
+import { getDisplayLanguage } from "@/lib/questionDisplay";
+import { buildPaperQuestionnaire, type PaperQuestion, type PaperText } from "@/lib/paperQuestionnaire";
+import { cn } from "@/lib/utils";
+
+const BOX = "☐";
+
+const LABELS: Record<UserLanguage, {
+  tickOne: string;
+  tickAll: string;
+  rank: (count: number) => string;
+  stars: string;
+  yes: string;
+}> = {
+  en: {
+    tickOne: "Tick one",
+    tickAll: "Tick all that apply",
+    rank: count => `Number the items from 1 (first choice) to ${count}`,
+    stars: "Tick one (1 = lowest, 5 = highest)",
+    yes: "Yes",
+  },
+  ar: {
+    tickOne: "ضع علامة على إجابة واحدة",
+    tickAll: "ضع علامة على كل ما ينطبق",
+    rank: count => `رقّم العناصر من 1 (الخيار الأول) إلى ${count}`,
+    stars: "ضع علامة على رقم واحد (1 = الأدنى، 5 = الأعلى)",
+    yes: "نعم",
+  },
+};
+
+const WRITE_IN_LINES: Record<string, number> = { text_area: 4, text_field: 1, email: 1, number: 1 };
+
+interface PaperLayout {
+  langs: UserLanguage[];
+  isBilingual: boolean;
+}
+
+const textFor = (value: unknown, lang: UserLanguage, layout: PaperLayout) =>
+  layout.isBilingual ? getBothLanguages(value as BilingualText)[lang] : getText(value as BilingualText, lang);
+
+/**
+ * One line of the questionnaire in every language: side by side for bilingual
+ * surveys (English left, Arabic right), with an optional tick box between them.
+ */
+function Line({ layout, box, className, children }: {
+  layout: PaperLayout;
+  box?: ReactNode;
+  className?: string;
+  children: (lang: UserLanguage) => ReactNode;
+}) {
+  if (!layout.isBilingual) {
+    return (
+      <div className={cn("flex items-start gap-2", className)}>
+        {box}
+        <div className="flex-1">{children(layout.langs[0])}</div>
+      </div>
+    );
+  }
+  return (
+    <div className={cn("grid grid-cols-[1fr_auto_1fr] items-start gap-4", className)}>
+      <div dir="ltr" lang="en">{children("en")}</div>
+      <div className="min-w-4 text-center">{box}</div>
+      <div dir="rtl" lang="ar">{children("ar")}</div>
+    </div>
+  );
+}
+
+function ScaleAnswer({ question, layout, min, max }: { question: PaperQuestion["question"]; layout: PaperLayout; min: number; max: number }) {
+  const labels = question.scale?.labels ?? {};
+  const endLabel = (value: unknown) => layout.langs.map(lang => textFor(value, lang, layout)).filter(Boolean).join(" / ");
+  const points = Array.from({ length: max - min + 1 }, (_, idx) => min + idx);
+  return (
+    <div className="space-y-1">
+      <div className="flex gap-6">
+        {points.map(point => (
+          <div key={point} className="flex flex-col items-center text-sm">
+            <span>{point}</span>
+            <span className="text-xl leading-none">{BOX}</span>
+          </div>
+        ))}
+      </div>
+      {(labels.min || labels.max) && (
+        <div className="flex justify-between text-xs text-muted-foreground max-w-md">
+          <span>{min} = {endLabel(labels.min)}</span>
+          <span>{max} = {endLabel(labels.max)}</span>
+        </div>
+      )}
+    </div>
+  );
+}
+
+function QuestionAnswer({ item, layout }: { item: PaperQuestion; layout: PaperLayout }) {
+  const { question } = item;
+  const type = normalizeQuestionType(question.type);
+  const options = question.options ?? [];
+  const hint = (text: (lang: UserLanguage) => string) => (
+    <Line layout={layout} className="text-xs italic text-muted-foreground">{text}</Line>
+  );
+
+  switch (type) {
+    case "radio":
+    case "dropdown_list":
+    case "checkbox_list":
+      return (
+        <div className="space-y-1">
+          {hint(lang => type === "checkbox_list" ? LABELS[lang].tickAll : LABELS[lang].tickOne)}
+          {options.map((option, idx) => (
+            <Line key={idx} layout={layout} box={<span className="text-lg leading-none">{BOX}</span>}>
+              {lang => textFor(option, lang, layout)}
+            </Line>
+          ))}
+        </div>
+      );
+    case "rank":
+      return (
+        <div className="space-y-1">
+          {hint(lang => LABELS[lang].rank(options.length))}
+          {options.map((option, idx) => (
+            <Line key={idx} layout={layout} box={<span className="inline-block w-8 h-6 border border-foreground" />}>
+              {lang => textFor(option, lang, layout)}
+            </Line>
+          ))}
+        </div>
+      );
+    case "scale":
+    case "emoji_question": {
+      const min = Number(question.scale?.min);
+      const max = Number(question.scale?.max);
+      const valid = Number.isInteger(min) && Number.isInteger(max) && min < max;
+      return (
+        <div className="space-y-2">
+          {hint(lang => LABELS[lang].tickOne)}
+          <ScaleAnswer question={question} layout={layout} min={valid ? min : 1} max={valid ? max : 5} />
+        </div>
+      );
+    }
+    case "star_rating":
+      return (
+        <div className="space-y-2">
+          {hint(lang => LABELS[lang].stars)}
+          <ScaleAnswer question={question} layout={layout} min={1} max={5} />
+        </div>
+      );
+    case "checkbox":
+      return (
+        <Line layout={layout} box={<span className="text-lg leading-none">{BOX}</span>}>
+          {lang => LABELS[lang].yes}
+        </Line>
+      );
+    default:
+      // Write-in answers
+      return (
+        <div className="space-y-1">
+          {Array.from({ length: WRITE_IN_LINES[type] ?? 1 }, (_, idx) => (
+            <div key={idx} className={cn("h-8 border-b border-foreground/60", type === "number" && "max-w-[10rem]")} />
+          ))}
+        </div>
+      );
+  }
+}
+
+function Instructions({ items, layout, className, arrow = false }: {
+  items: PaperText[];
+  layout: PaperLayout;
+  className: string;
+  arrow?: boolean;
+}) {
+  return (
+    <>
+      {items.map((item, idx) => (
+        <Line key={idx} layout={layout} className={className}>
+          {lang => <>{arrow && (lang === "ar" ? "← " : "→ ")}{item[lang]}</>}
+        </Line>
+      ))}
+    </>
+  );
+}
+
+interface PaperQuestionnaireProps {
+  survey: Survey;
+}
+
+/**
+ * PaperQuestionnaire - Print layout of a survey for paper collection
+ *
+ * Tick boxes for choice questions, numbered scales, write-in lines for text
+ * answers and the skip instructions from buildPaperQuestionnaire. Arabic
+ * surveys are laid out right to left; bilingual surveys print English and
+ * Arabic side by side with one set of tick boxes between them. Every page of
+ * the survey starts on a new sheet.
+ */
+export function PaperQuestionnaire({ survey }: PaperQuestionnaireProps) {
+  const pages = buildPaperQuestionnaire(survey.structure, survey.rules);
+  const display = getDisplayLanguage(survey.language, pages[0]?.questions[0]?.question.text);
+  const layout: PaperLayout = display.isBilingual
+    ? { langs: ["en", "ar"], isBilingual: true }
+    : { langs: [display.userLang], isBilingual: false };
+  const isRtl = !layout.isBilingual && layout.langs[0] === "ar";
+
+  return (
+    <article
+      dir={isRtl ? "rtl" : "ltr"}
+      lang={isRtl ? "ar" : "en"}
+      className={cn("mx-auto bg-white text-foreground", layout.isBilingual ? "max-w-5xl" : "max-w-3xl")}
+    >
+      <h1 className="text-2xl font-bold mb-6">{survey.name}</h1>
+      {pages.map((page, pageIdx) => (
+        <section key={pageIdx} className={cn("space-y-6", pageIdx > 0 && "mt-10 print:mt-0 print:break-before-page")}>
+          {page.title && (
+            <Line layout={layout} className="text-lg font-semibold border-b-2 border-foreground pb-1">
+              {lang => textFor(page.title, lang, layout)}
+            </Line>
+          )}
+          {page.questions.map(item => (
+            <div key={item.key} className="space-y-2 break-inside-avoid">
+              <Line layout={layout} className="font-medium">
+                {lang => <>{item.number}. {textFor(item.question.text, lang, layout)}{item.question.required && " *"}</>}
+              </Line>
+              <Instructions items={item.notes} layout={layout} className="text-xs italic text-muted-foreground" />
+              <QuestionAnswer item={item} layout={layout} />
+              <Instructions items={item.instructions} layout={layout} className="text-sm font-semibold" arrow />
+            </div>
+          ))}
+        </section>
+      ))}
+    </article>
+  );
+}
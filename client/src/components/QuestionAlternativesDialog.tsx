@@ -0,0 +1,183 @@
+import { useEffect, useState, type ReactNode } from "react";
+import { Check, Loader2, RefreshCw, Sparkles } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "./ui/dialog";
+import { useQuestionAlternatives } from "@/hooks/use-surveys";
+import { getBothLanguages, getText, type BilingualText } from "@/lib/bilingual";
+import type { QuestionAlternative } from "@shared/routes";
+import type { SurveyQuestion } from "@shared/schema";
+
+interface QuestionAlternativesDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  surveyId: number;
+  /**
+   * Question as stored in the survey structure; must have a spec_id
+   */
+  question: SurveyQuestion | null;
+  isBilingual: boolean;
+  /**
+   * Called with the question after the chosen alternative was swapped in
+   */
+  onApply: (question: SurveyQuestion) => void | Promise<void>;
+  isApplying?: boolean;
+}
+
+function QuestionColumn({
+  title,
+  text,
+  options,
+  rationale,
+  isBilingual,
+  action,
+}: {
+  title: string;
+  text: BilingualText;
+  options?: BilingualText[];
+  rationale?: string;
+  isBilingual: boolean;
+  action?: ReactNode;
+}) {
+  const both = getBothLanguages(text);
+  return (
+    <div className="rounded-lg border border-border p-3 flex flex-col gap-2 text-sm">
+      <p className="text-xs font-semibold uppercase tracking-wide text-muted-foreground">{title}</p>
+      <p className="font-medium text-foreground">{both.en}</p>
+      {isBilingual && both.ar && <p className="text-muted-foreground" dir="rtl">{both.ar}</p>}
+      {options && options.length > 0 && (
+        <ul className="list-disc list-inside text-muted-foreground space-y-0.5">
+          {options.map((option, idx) => (
+            <li key={idx}>
+              {getText(option, "en")}
+              {isBilingual && getText(option, "ar") && <span dir="rtl"> · {getText(option, "ar")}</span>}
+            </li>
+          ))}
+        </ul>
+      )}
+      {rationale && <p className="text-xs italic text-muted-foreground">{rationale}</p>}
+      {action && <div className="mt-auto pt-2">{action}</div>}
+    </div>
+  );
+}
+
+/**
+ * QuestionAlternativesDialog - AI alternatives for a single question
+ *
+ * Fetches three alternative wordings (and option sets) when opened and shows
+ * them next to the current question. Using one replaces only the question's
+ * text and options; its type, spec_id and other settings stay as they are.
+ */
+export function QuestionAlternativesDialog({
+  open,
+  onOpenChange,
+  surveyId,
+  question,
+  isBilingual,
+  onApply,
+  isApplying = false,
+}: QuestionAlternativesDialogProps) {
+  const suggest = useQuestionAlternatives();
+  const [alternatives, setAlternatives] = useState<QuestionAlternative[]>([]);
+  const [instructions, setInstructions] = useState("");
+  const specId = question?.spec_id;
+
+  const fetchAlternatives = async (extraInstructions?: string) => {
+    if (!specId) return;
+    try {
+      const result = await suggest.mutateAsync({ surveyId, specId, instructions: extraInstructions || undefined });
+      setAlternatives(result.alternatives);
+    } catch (error) {
+      // Error toast is shown by the hook
+      console.error("Failed to suggest alternatives:", error);
+    }
+  };
+
+  // Fresh suggestions each time the dialog opens for a question
+  useEffect(() => {
+    if (!open || !specId) return;
+    setAlternatives([]);
+    setInstructions("");
+    fetchAlternatives();
+  }, [open, specId]);
+
+  const handleUse = async (alternative: QuestionAlternative) => {
+    if (!question) return;
+    await onApply({
+      ...question,
+      text: isBilingual ? alternative.text : getText(alternative.text, "en"),
+      options: alternative.options
+        ? alternative.options.map(option => (isBilingual ? option : getText(option, "en")))
+        : question.options,
+    } as SurveyQuestion);
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <Sparkles className="w-5 h-5" /> Suggest alternatives
+          </DialogTitle>
+          <DialogDescription>
+            Compare other ways to ask this question and use the one you prefer. The rest of the survey is not changed.
+          </DialogDescription>
+        </DialogHeader>
+
+        {question && (
+          <div className="grid grid-cols-1 md:grid-cols-2 xl:grid-cols-4 gap-3 overflow-y-auto min-h-0 flex-1">
+            <QuestionColumn title="Current" text={question.text} options={question.options} isBilingual={isBilingual} />
+            {suggest.isPending ? (
+              <div className="md:col-span-1 xl:col-span-3 flex items-center justify-center py-10">
+                <Loader2 className="w-6 h-6 animate-spin text-primary" />
+              </div>
+            ) : alternatives.length === 0 ? (
+              <p className="md:col-span-1 xl:col-span-3 py-10 text-center text-sm text-muted-foreground">
+                No suggestions yet. Try again, optionally with instructions below.
+              </p>
+            ) : (
+              alternatives.map((alternative, idx) => (
+                <QuestionColumn
+                  key={idx}
+                  title={`Alternative ${idx + 1}`}
+                  text={alternative.text}
+                  options={alternative.options ?? question.options}
+                  rationale={alternative.rationale}
+                  isBilingual={isBilingual}
+                  action={
+                    <Button size="sm" className="w-full" onClick={() => handleUse(alternative)} disabled={isApplying}>
+                      {isApplying ? <Loader2 className="w-4 h-4 mr-2 animate-spin" /> : <Check className="w-4 h-4 mr-2" />}
+                      Use this
+                    </Button>
+                  }
+                />
+              ))
+            )}
+          </div>
+        )}
+
+        <DialogFooter className="flex-col sm:flex-row gap-2">
+          <Input
+            value={instructions}
+            onChange={(e) => setInstructions(e.target.value)}
+            placeholder="Optional instructions, e.g. simpler wording or fewer options"
+            maxLength={500}
+            className="sm:flex-1"
+            aria-label="Instructions for new suggestions"
+          />
+          <Button variant="outline" onClick={() => fetchAlternatives(instructions.trim())} disabled={suggest.isPending || !specId}>
+            <RefreshCw className="w-4 h-4 mr-2" /> Try again
+          </Button>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,203 @@
+import { useEffect, useState } from "react";
+import { Library, Loader2, Plus, Search, Trash2, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Badge } from "./ui/badge";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  Sheet,
+  SheetContent,
+  SheetHeader,
+  SheetTitle,
+  SheetDescription,
+} from "./ui/sheet";
+import { useQuestionBank, useDeleteQuestionBankItem } from "@/hooks/use-surveys";
+import { getText } from "@/lib/bilingual";
+import { SURVEY_LANGUAGES, type QuestionBankItem } from "@shared/schema";
+
+const ALL_LANGUAGES = "all";
+
+interface QuestionBankPanelProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /**
+   * Page titles of the current survey, used as insert targets
+   */
+  sectionTitles: string[];
+  /**
+   * Language of the current survey - the initial language filter
+   */
+  surveyLanguage: string;
+  /**
+   * Insert a copy of the bank question at the end of the given (0-based) section
+   */
+  onInsert: (item: QuestionBankItem, sectionIdx: number) => void | Promise<void>;
+  isInserting?: boolean;
+}
+
+/**
+ * QuestionBankPanel - Search saved questions and insert them into the survey
+ *
+ * Filters by text, tag and language on the server. Clicking a tag filters by
+ * it. Inserted questions are copies with a new spec_id.
+ */
+export function QuestionBankPanel({
+  open,
+  onOpenChange,
+  sectionTitles,
+  surveyLanguage,
+  onInsert,
+  isInserting = false,
+}: QuestionBankPanelProps) {
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [tag, setTag] = useState<string | null>(null);
+  const [language, setLanguage] = useState<string>(surveyLanguage);
+  const [targetSection, setTargetSection] = useState("0");
+  const deleteItem = useDeleteQuestionBankItem();
+
+  // Debounce typing so every keystroke doesn't hit the server
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  useEffect(() => {
+    setLanguage(surveyLanguage);
+  }, [surveyLanguage]);
+
+  // Default to the last page, where new questions usually go
+  useEffect(() => {
+    if (open) setTargetSection(String(Math.max(0, sectionTitles.length - 1)));
+  }, [open, sectionTitles.length]);
+
+  const { data: items, isLoading } = useQuestionBank(
+    {
+      search: search || undefined,
+      tag: tag || undefined,
+      language: language === ALL_LANGUAGES ? undefined : (language as typeof SURVEY_LANGUAGES[number]),
+    },
+    { enabled: open },
+  );
+
+  return (
+    <Sheet open={open} onOpenChange={onOpenChange}>
+      <SheetContent className="w-full sm:max-w-lg flex flex-col">
+        <SheetHeader>
+          <SheetTitle className="flex items-center gap-2">
+            <Library className="w-5 h-5" /> Question bank
+          </SheetTitle>
+          <SheetDescription>Reuse questions saved from any survey.</SheetDescription>
+        </SheetHeader>
+
+        <div className="space-y-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search questions"
+              className="pl-9"
+              aria-label="Search questions"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={language} onValueChange={setLanguage}>
+              <SelectTrigger className="w-40">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ALL_LANGUAGES}>All languages</SelectItem>
+                {SURVEY_LANGUAGES.map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {tag && (
+              <Badge variant="secondary" className="gap-1">
+                #{tag}
+                <button type="button" onClick={() => setTag(null)} aria-label="Clear tag filter">
+                  <X className="w-3 h-3" />
+                </button>
+              </Badge>
+            )}
+          </div>
+          {sectionTitles.length > 0 && (
+            <div className="flex items-center gap-2 text-sm">
+              <span className="text-muted-foreground">Insert into</span>
+              <Select value={targetSection} onValueChange={setTargetSection}>
+                <SelectTrigger className="flex-1">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {sectionTitles.map((title, idx) => (
+                    <SelectItem key={idx} value={String(idx)}>
+                      Page {idx + 1}{title ? `: ${title}` : ""}
+                    </SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          )}
+        </div>
+
+        <div className="flex-1 overflow-y-auto space-y-2 pr-1">
+          {isLoading ? (
+            <div className="py-10 flex justify-center">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : !items?.length ? (
+            <p className="py-10 text-center text-sm text-muted-foreground">
+              {search || tag ? "No saved questions match." : "No saved questions yet. Use the bookmark on a question to save it."}
+            </p>
+          ) : (
+            items.map(item => (
+              <div key={item.id} className="rounded-lg border border-border p-3 space-y-2">
+                <p className="text-sm font-medium text-foreground">{getText(item.question.text, "en")}</p>
+                <div className="flex flex-wrap items-center gap-1 text-xs text-muted-foreground">
+                  <span>{item.question.type}</span>
+                  <span>· {item.language}</span>
+                  {item.tags.map(itemTag => (
+                    <button
+                      key={itemTag}
+                      type="button"
+                      onClick={() => setTag(itemTag)}
+                      className="rounded bg-muted px-1.5 py-0.5 hover:bg-primary/10 hover:text-primary"
+                    >
+                      #{itemTag}
+                    </button>
+                  ))}
+                </div>
+                <div className="flex justify-end gap-2">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    onClick={() => deleteItem.mutate(item.id)}
+                    disabled={deleteItem.isPending}
+                    className="text-destructive hover:text-destructive"
+                    aria-label="Delete from bank"
+                  >
+                    <Trash2 className="w-4 h-4" />
+                  </Button>
+                  <Button
+                    size="sm"
+                    onClick={() => onInsert(item, Number(targetSection))}
+                    disabled={isInserting || sectionTitles.length === 0}
+                  >
+                    <Plus className="w-4 h-4 mr-1" /> Insert
+                  </Button>
+                </div>
+              </div>
+            ))
+          )}
+        </div>
+      </SheetContent>
+    </Sheet>
+  );
+}
@@ -1,7 +1,10 @@
-import { useState } from "react";
-import { Trash2 } from "lucide-react";
+import { useState, useId } from "react";
+import { Trash2, Pencil, Sparkles, BookmarkPlus } from "lucide-react";
 import { StarRating } from "./StarRating";
+import { QuestionEditor } from "./QuestionEditor";
 import { getBothLanguages } from "@/lib/bilingual";
+import type { AnswerValue } from "@shared/answers";
+import type { SurveyQuestion } from "@shared/schema";
 import { Input } from "./ui/input";
 import { Textarea } from "./ui/textarea";
 import { RadioGroup, RadioGroupItem } from "./ui/radio-group";
@@ -25,7 +28,7 @@ import {
 } from "./ui/accordion";
 
 // All supported question types from the API
-type QuestionType =
+export type QuestionType =
   | "scale"
   | "radio"
   | "text_field"
@@ -112,6 +115,47 @@ interface QuestionCardProps {
    * Whether the delete action is in progress
    */
   isDeleting?: boolean;
+  /**
+   * Question as stored in the survey structure - required for inline editing
+   */
+  editableQuestion?: SurveyQuestion;
+  /**
+   * Save an edited question. When provided (with editableQuestion), an edit
+   * button switches the card to an inline QuestionEditor.
+   */
+  onSaveEdit?: (question: SurveyQuestion) => void | Promise<void>;
+  /**
+   * Open the inline editor on first render (e.g. for a question just added)
+   */
+  initiallyEditing?: boolean;
+  /**
+   * Ask the AI for alternative wordings of this question.
+   * Only shown if this prop is provided
+   */
+  onSuggestAlternatives?: () => void;
+  /**
+   * Save a copy of this question to the question bank.
+   * Only shown if this prop is provided
+   */
+  onSaveToBank?: () => void;
+  /**
+   * Controlled answer value (used by the respondent runtime).
+   * When onChange is provided, the card reports answers to the parent
+   * instead of keeping them in its own local preview state.
+   */
+  value?: AnswerValue;
+  /**
+   * Callback called whenever the answer changes (enables controlled mode)
+   */
+  onChange?: (value: AnswerValue) => void;
+  /**
+   * Validation error shown below the input (e.g. "This question is required")
+   */
+  error?: string | null;
+  /**
+   * Render the input read-only (e.g. disabled by a survey rule)
+   */
+  disabled?: boolean;
 }
 
 /**
@@ -155,7 +199,16 @@ export function QuestionCard({
   scale,
   showMetadata = false,
   onDelete,
-  isDeleting = false
+  isDeleting = false,
+  editableQuestion,
+  onSaveEdit,
+  initiallyEditing = false,
+  onSuggestAlternatives,
+  onSaveToBank,
+  value,
+  onChange,
+  error,
+  disabled = false,
 }: QuestionCardProps) {
   // Map legacy types to new types for backward compatibility
   const normalizedType: QuestionType = 
@@ -173,10 +226,24 @@ export function QuestionCard({
   const [selectedDropdown, setSelectedDropdown] = useState<string>("");
   const [emojiValue, setEmojiValue] = useState<number | undefined>();
   const [rankedItems, setRankedItems] = useState<string[]>([]);
-  const [numberValue, setNumberValue] = useState<string>("");
+  const [numberValue, setNumberValue] = useState<string>(typeof value === "number" ? String(value) : "");
   const [emailValue, setEmailValue] = useState<string>("");
   const [checkboxValue, setCheckboxValue] = useState<boolean>(false);
 
+  // Unique prefix for input ids so several cards can be rendered on the same page
+  const idPrefix = useId();
+
+  // Inline editing state
+  const [isEditing, setIsEditing] = useState(initiallyEditing);
+  const [isSavingEdit, setIsSavingEdit] = useState(false);
+  const canEdit = !!editableQuestion && !!onSaveEdit;
+
+  // Controlled mode: the parent owns the answer and we only report changes
+  const isControlled = onChange !== undefined;
+  const numberAnswer = typeof value === "number" ? value : undefined;
+  const stringAnswer = typeof value === "string" ? value : "";
+  const listAnswer = Array.isArray(value) ? value : [];
+
   // Extract scale configuration
   const scaleMin = scale?.min ?? 1;
   const scaleMax = scale?.max ?? 5;
@@ -190,6 +257,18 @@ export function QuestionCard({
   const scaleLabelMinAr = scaleLabelMinBilingual.ar;
   const scaleLabelMaxAr = scaleLabelMaxBilingual.ar;
 
+  // Current answer per input type - read from the controlled value when the parent owns the answers
+  const currentRating = isControlled ? numberAnswer : rating;
+  const currentText = isControlled ? stringAnswer : textValue;
+  const currentChoice = isControlled ? stringAnswer : selectedChoice;
+  const currentScale = isControlled ? [numberAnswer ?? scaleMin] : scaleValue;
+  const currentCheckboxes = isControlled ? listAnswer : selectedCheckboxes;
+  const currentDropdown = isControlled ? stringAnswer : selectedDropdown;
+  const currentEmoji = isControlled ? numberAnswer : emojiValue;
+  const currentRanked = isControlled ? listAnswer : rankedItems;
+  const currentEmail = isControlled ? stringAnswer : emailValue;
+  const currentCheckbox = isControlled ? value === true : checkboxValue;
+
   // Get max length from validation
   const maxLength = validation?.max_length;
 
@@ -198,19 +277,43 @@ export function QuestionCard({
 
   // Handle checkbox list selection
   const handleCheckboxToggle = (option: string) => {
-    setSelectedCheckboxes(prev => 
-      prev.includes(option)
-        ? prev.filter(item => item !== option)
-        : [...prev, option]
-    );
+    const next = currentCheckboxes.includes(option)
+      ? currentCheckboxes.filter(item => item !== option)
+      : [...currentCheckboxes, option];
+    if (isControlled) {
+      onChange(next);
+    } else {
+      setSelectedCheckboxes(next);
+    }
   };
 
   // Handle rank question - simple implementation with buttons
   const handleRankItem = (item: string) => {
-    if (!rankedItems.includes(item)) {
-      setRankedItems(prev => [...prev, item]);
+    const next = currentRanked.includes(item)
+      ? currentRanked.filter(i => i !== item)
+      : [...currentRanked, item];
+    if (isControlled) {
+      onChange(next);
     } else {
-      setRankedItems(prev => prev.filter(i => i !== item));
+      setRankedItems(next);
+    }
+  };
+
+  // Setters shared by the single-value inputs - route to the parent in controlled mode
+  const handleRatingChange = (next: number) => isControlled ? onChange(next) : setRating(next);
+  const handleTextChange = (next: string) => isControlled ? onChange(next) : setTextValue(next);
+  const handleChoiceChange = (next: string) => isControlled ? onChange(next) : setSelectedChoice(next);
+  const handleScaleChange = (next: number[]) => isControlled ? onChange(next[0]) : setScaleValue(next);
+  const handleDropdownChange = (next: string) => isControlled ? onChange(next) : setSelectedDropdown(next);
+  const handleEmojiChange = (next: number) => isControlled ? onChange(next) : setEmojiValue(next);
+  const handleEmailChange = (next: string) => isControlled ? onChange(next) : setEmailValue(next);
+  const handleCheckboxChange = (next: boolean) => isControlled ? onChange(next) : setCheckboxValue(next);
+  const handleNumberChange = (next: string) => {
+    // Keep the raw text locally so partial input like "-" or "1." stays editable
+    setNumberValue(next);
+    if (isControlled) {
+      const parsed = Number(next);
+      onChange(next.trim() === "" || Number.isNaN(parsed) ? null : parsed);
     }
   };
 
@@ -229,7 +332,45 @@ export function QuestionCard({
 
   // Check if this is an Arabic-only card (no question number means it's the Arabic version of a bilingual question)
   const isArabicOnly = isBilingual === false && questionNumber === null && question && /[\u0600-\u06FF]/.test(question);
-  
+
+  const handleSaveEdit = async (edited: SurveyQuestion) => {
+    if (!onSaveEdit) return;
+    setIsSavingEdit(true);
+    try {
+      await onSaveEdit(edited);
+      setIsEditing(false);
+    } catch (error) {
+      // Keep the editor open so the changes are not lost
+      console.error("Failed to save question:", error);
+    } finally {
+      setIsSavingEdit(false);
+    }
+  };
+
+  // Inline editor replaces the preview while editing
+  if (isEditing && canEdit) {
+    return (
+      <div className="bg-white rounded-xl shadow-sm border border-primary p-6">
+        <div className="flex items-start gap-3">
+          {questionNumber && (
+            <div className="w-8 h-8 rounded-lg bg-primary/10 text-primary flex items-center justify-center flex-shrink-0 font-bold text-sm">
+              {questionNumber}
+            </div>
+          )}
+          <div className="flex-1 min-w-0">
+            <QuestionEditor
+              question={editableQuestion}
+              isBilingual={isBilingual || !!questionBilingual}
+              onSave={handleSaveEdit}
+              onCancel={() => setIsEditing(false)}
+              isSaving={isSavingEdit}
+            />
+          </div>
+        </div>
+      </div>
+    );
+  }
+
   return (
     <div className={`bg-white rounded-xl shadow-sm border border-border p-6 space-y-4 ${isArabicOnly ? 'border-r-4 border-r-green-500' : ''}`} dir={isArabicOnly ? 'rtl' : undefined}>
       {/* Question Text */}
@@ -241,10 +382,54 @@ export function QuestionCard({
         )}
         <div className="flex-1">
           <h3 className="text-lg font-semibold text-secondary">
-            {question}
+            {isBilingual && questionBilingual ? questionBilingual.en : question}
             {required && <span className="text-destructive ml-1">*</span>}
           </h3>
+          {/* Arabic line for single-card bilingual rendering */}
+          {isBilingual && questionBilingual?.ar && questionBilingual.ar !== questionBilingual.en && (
+            <p className="text-base text-muted-foreground mt-1" dir="rtl">
+              {questionBilingual.ar}
+            </p>
+          )}
         </div>
+        {/* Edit button - only shown if the question can be edited inline */}
+        {canEdit && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={() => setIsEditing(true)}
+            className="flex-shrink-0"
+            aria-label="Edit question"
+          >
+            <Pencil className="w-4 h-4" />
+          </Button>
+        )}
+        {/* Alternatives button - only shown if onSuggestAlternatives callback is provided */}
+        {onSuggestAlternatives && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onSuggestAlternatives}
+            className="text-primary flex-shrink-0"
+            aria-label="Suggest alternatives"
+            title="Suggest alternatives"
+          >
+            <Sparkles className="w-4 h-4" />
+          </Button>
+        )}
+        {/* Save to bank button - only shown if onSaveToBank callback is provided */}
+        {onSaveToBank && (
+          <Button
+            variant="ghost"
+            size="sm"
+            onClick={onSaveToBank}
+            className="flex-shrink-0"
+            aria-label="Save to question bank"
+            title="Save to question bank"
+          >
+            <BookmarkPlus className="w-4 h-4" />
+          </Button>
+        )}
         {/* Delete button - only shown if onDelete callback is provided */}
         {onDelete && (
           <Button
@@ -264,14 +449,15 @@ export function QuestionCard({
         )}
       </div>
 
-      {/* Question Input Based on Type */}
-      <div className="pl-11">
+      {/* Question Input Based on Type - fieldset so `disabled` reaches every native input/button */}
+      <fieldset className={`pl-11 min-w-0 ${disabled ? "opacity-60" : ""}`} disabled={disabled}>
         {/* Scale Question - Slider with labels */}
         {normalizedType === "scale" && (
           <div className="space-y-3">
             <Slider
-              value={scaleValue}
-              onValueChange={setScaleValue}
+              value={currentScale}
+              onValueChange={handleScaleChange}
+              disabled={disabled}
               min={scaleMin}
               max={scaleMax}
               step={1}
@@ -290,7 +476,7 @@ export function QuestionCard({
               )}
             </div>
             <div className="text-center text-sm font-medium">
-              Selected: {scaleValue[0]}
+              Selected: {isControlled && numberAnswer === undefined ? "—" : currentScale[0]}
             </div>
           </div>
         )}
@@ -298,14 +484,14 @@ export function QuestionCard({
         {/* Radio Question - Radio button group */}
         {normalizedType === "radio" && (
           (isBilingual && optionsBilingual.length > 0 ? (
-            <RadioGroup value={selectedChoice} onValueChange={setSelectedChoice}>
+            <RadioGroup value={currentChoice} onValueChange={handleChoiceChange}>
               <div className="space-y-3">
                 {optionsBilingual.map((option, idx) => (
                   <div key={idx} className="space-y-1">
                     <div className="flex items-center space-x-2">
-                      <RadioGroupItem value={option.en} id={`option-${idx}`} />
+                      <RadioGroupItem value={option.en} id={`${idPrefix}-option-${idx}`} />
                       <Label
-                        htmlFor={`option-${idx}`}
+                        htmlFor={`${idPrefix}-option-${idx}`}
                         className="text-base font-normal cursor-pointer"
                       >
                         {option.en}
@@ -321,13 +507,13 @@ export function QuestionCard({
               </div>
             </RadioGroup>
           ) : options.length > 0 ? (
-            <RadioGroup value={selectedChoice} onValueChange={setSelectedChoice}>
+            <RadioGroup value={currentChoice} onValueChange={handleChoiceChange}>
               <div className="space-y-3">
                 {options.map((option, idx) => (
                   <div key={idx} className="flex items-center space-x-2">
-                    <RadioGroupItem value={option} id={`option-${idx}`} />
+                    <RadioGroupItem value={option} id={`${idPrefix}-option-${idx}`} />
                     <Label
-                      htmlFor={`option-${idx}`}
+                      htmlFor={`${idPrefix}-option-${idx}`}
                       className="text-base font-normal cursor-pointer"
                     >
                       {option}
@@ -343,8 +529,8 @@ export function QuestionCard({
         {normalizedType === "text_field" && (
           <Input
             type="text"
-            value={textValue}
-            onChange={(e) => setTextValue(e.target.value)}
+            value={currentText}
+            onChange={(e) => handleTextChange(e.target.value)}
             placeholder="Type your answer here..."
             maxLength={maxLength}
             required={required}
@@ -355,8 +541,8 @@ export function QuestionCard({
         {normalizedType === "text_area" && (
           <div className="space-y-2">
             <Textarea
-              value={textValue}
-              onChange={(e) => setTextValue(e.target.value)}
+              value={currentText}
+              onChange={(e) => handleTextChange(e.target.value)}
               placeholder="Type your answer here..."
               className="min-h-[100px] resize-none"
               maxLength={maxLength}
@@ -364,7 +550,7 @@ export function QuestionCard({
             />
             {maxLength && (
               <div className="text-xs text-muted-foreground text-right">
-                {textValue.length} / {maxLength} characters
+                {currentText.length} / {maxLength} characters
               </div>
             )}
           </div>
@@ -376,12 +562,12 @@ export function QuestionCard({
             <div className="space-y-2">
               <div className="flex items-center space-x-2">
                 <Checkbox
-                  id="checkbox-single"
-                  checked={checkboxValue}
-                  onCheckedChange={(checked) => setCheckboxValue(checked === true)}
+                  id={`${idPrefix}-checkbox-single`}
+                  checked={currentCheckbox}
+                  onCheckedChange={(checked) => handleCheckboxChange(checked === true)}
                 />
                 <Label
-                  htmlFor="checkbox-single"
+                  htmlFor={`${idPrefix}-checkbox-single`}
                   className="text-base font-normal cursor-pointer"
                 >
                   {optionsBilingual[0].en}
@@ -396,12 +582,12 @@ export function QuestionCard({
           ) : (
             <div className="flex items-center space-x-2">
               <Checkbox
-                id="checkbox-single"
-                checked={checkboxValue}
-                onCheckedChange={(checked) => setCheckboxValue(checked === true)}
+                id={`${idPrefix}-checkbox-single`}
+                checked={currentCheckbox}
+                onCheckedChange={(checked) => handleCheckboxChange(checked === true)}
               />
               <Label
-                htmlFor="checkbox-single"
+                htmlFor={`${idPrefix}-checkbox-single`}
                 className="text-base font-normal cursor-pointer"
               >
                 {options[0] || "I agree"}
@@ -418,12 +604,12 @@ export function QuestionCard({
                 <div key={idx} className="space-y-1">
                   <div className="flex items-center space-x-2">
                     <Checkbox
-                      id={`checkbox-${idx}`}
-                      checked={selectedCheckboxes.includes(option.en)}
+                      id={`${idPrefix}-checkbox-${idx}`}
+                      checked={currentCheckboxes.includes(option.en)}
                       onCheckedChange={() => handleCheckboxToggle(option.en)}
                     />
                     <Label
-                      htmlFor={`checkbox-${idx}`}
+                      htmlFor={`${idPrefix}-checkbox-${idx}`}
                       className="text-base font-normal cursor-pointer"
                     >
                       {option.en}
@@ -442,12 +628,12 @@ export function QuestionCard({
               {options.map((option, idx) => (
                 <div key={idx} className="flex items-center space-x-2">
                   <Checkbox
-                    id={`checkbox-${idx}`}
-                    checked={selectedCheckboxes.includes(option)}
+                    id={`${idPrefix}-checkbox-${idx}`}
+                    checked={currentCheckboxes.includes(option)}
                     onCheckedChange={() => handleCheckboxToggle(option)}
                   />
                   <Label
-                    htmlFor={`checkbox-${idx}`}
+                    htmlFor={`${idPrefix}-checkbox-${idx}`}
                     className="text-base font-normal cursor-pointer"
                   >
                     {option}
@@ -462,7 +648,7 @@ export function QuestionCard({
         {normalizedType === "dropdown_list" && (
           (isBilingual && optionsBilingual.length > 0 ? (
             <div className="space-y-2">
-              <Select value={selectedDropdown} onValueChange={setSelectedDropdown}>
+              <Select value={currentDropdown} onValueChange={handleDropdownChange}>
                 <SelectTrigger className="w-full">
                   <SelectValue placeholder="Select an option..." />
                 </SelectTrigger>
@@ -476,7 +662,7 @@ export function QuestionCard({
               </Select>
             </div>
           ) : options.length > 0 ? (
-            <Select value={selectedDropdown} onValueChange={setSelectedDropdown}>
+            <Select value={currentDropdown} onValueChange={handleDropdownChange}>
               <SelectTrigger className="w-full">
                 <SelectValue placeholder="Select an option..." />
               </SelectTrigger>
@@ -494,8 +680,8 @@ export function QuestionCard({
         {/* Star Rating - Interactive star rating component */}
         {normalizedType === "star_rating" && (
           <StarRating
-            value={rating}
-            onChange={setRating}
+            value={currentRating}
+            onChange={handleRatingChange}
             readOnly={false}
           />
         )}
@@ -515,9 +701,9 @@ export function QuestionCard({
                   <button
                     key={value}
                     type="button"
-                    onClick={() => setEmojiValue(value)}
+                    onClick={() => handleEmojiChange(value)}
                     className={`text-4xl transition-transform hover:scale-110 ${
-                      emojiValue === value ? "scale-125" : ""
+                      currentEmoji === value ? "scale-125" : ""
                     }`}
                   >
                     {emoji}
@@ -552,13 +738,13 @@ export function QuestionCard({
                         type="button"
                         onClick={() => handleRankItem(option.en)}
                         className={`px-4 py-2 rounded-md border transition-colors ${
-                          rankedItems.includes(option.en)
+                          currentRanked.includes(option.en)
                             ? "bg-primary text-primary-foreground border-primary"
                             : "bg-background border-border hover:bg-accent"
                         }`}
                       >
-                        {rankedItems.indexOf(option.en) !== -1
-                          ? `Rank ${rankedItems.indexOf(option.en) + 1}`
+                        {currentRanked.indexOf(option.en) !== -1
+                          ? `Rank ${currentRanked.indexOf(option.en) + 1}`
                           : "Select"}
                       </button>
                       <span className="flex-1">{option.en}</span>
@@ -569,9 +755,9 @@ export function QuestionCard({
                   </div>
                 ))}
               </div>
-              {rankedItems.length > 0 && (
+              {currentRanked.length > 0 && (
                 <div className="text-sm text-muted-foreground">
-                  Ranked: {rankedItems.join(" → ")}
+                  Ranked: {currentRanked.join(" → ")}
                 </div>
               )}
             </div>
@@ -584,22 +770,22 @@ export function QuestionCard({
                       type="button"
                       onClick={() => handleRankItem(option)}
                       className={`px-4 py-2 rounded-md border transition-colors ${
-                        rankedItems.includes(option)
+                        currentRanked.includes(option)
                           ? "bg-primary text-primary-foreground border-primary"
                           : "bg-background border-border hover:bg-accent"
                       }`}
                     >
-                      {rankedItems.indexOf(option) !== -1
-                        ? `Rank ${rankedItems.indexOf(option) + 1}`
+                      {currentRanked.indexOf(option) !== -1
+                        ? `Rank ${currentRanked.indexOf(option) + 1}`
                         : "Select"}
                     </button>
                     <span className="flex-1">{option}</span>
                   </div>
                 ))}
               </div>
-              {rankedItems.length > 0 && (
+              {currentRanked.length > 0 && (
                 <div className="text-sm text-muted-foreground">
-                  Ranked: {rankedItems.join(" → ")}
+                  Ranked: {currentRanked.join(" → ")}
                 </div>
               )}
             </div>
@@ -611,7 +797,7 @@ export function QuestionCard({
           <Input
             type="number"
             value={numberValue}
-            onChange={(e) => setNumberValue(e.target.value)}
+            onChange={(e) => handleNumberChange(e.target.value)}
             placeholder="Enter a number..."
             required={required}
           />
@@ -621,13 +807,20 @@ export function QuestionCard({
         {normalizedType === "email" && (
           <Input
             type="email"
-            value={emailValue}
-            onChange={(e) => setEmailValue(e.target.value)}
+            value={currentEmail}
+            onChange={(e) => handleEmailChange(e.target.value)}
             placeholder="Enter your email..."
             required={required}
           />
         )}
-      </div>
+
+        {/* Validation error (runtime only) */}
+        {error && (
+          <p className="text-sm text-destructive mt-2" role="alert">
+            {error}
+          </p>
+        )}
+      </fieldset>
 
       {/* Expandable Metadata Section */}
       {hasMetadata && (
@@ -0,0 +1,220 @@
+import { useState } from "react";
+import { ArrowDown, ArrowUp, Loader2, Plus, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import type { QuestionType } from "./QuestionCard";
+import { getBothLanguages, getText, isBilingualContent, type BilingualText } from "@/lib/bilingual";
+import { SCALE_TYPES } from "@/lib/questionTemplates";
+import { OPTION_TYPES, normalizeQuestionType } from "@shared/answers";
+import type { SurveyQuestion } from "@shared/schema";
+
+// Question types that can be picked in the editor (legacy types are converted on save)
+export const EDITABLE_QUESTION_TYPES: { value: QuestionType; label: string }[] = [
+  { value: "radio", label: "Single choice" },
+  { value: "checkbox_list", label: "Multiple choice" },
+  { value: "dropdown_list", label: "Dropdown" },
+  { value: "rank", label: "Ranking" },
+  { value: "scale", label: "Scale" },
+  { value: "star_rating", label: "Star rating" },
+  { value: "emoji_question", label: "Emoji scale" },
+  { value: "text_field", label: "Short text" },
+  { value: "text_area", label: "Long text" },
+  { value: "number", label: "Number" },
+  { value: "email", label: "Email" },
+  { value: "checkbox", label: "Single checkbox" },
+];
+
+type BilingualValue = { en: string; ar: string };
+
+interface QuestionEditorProps {
+  /**
+   * Question as stored in the survey structure (plain or bilingual text)
+   */
+  question: SurveyQuestion;
+  /**
+   * Edit English and Arabic text separately
+   */
+  isBilingual: boolean;
+  onSave: (question: SurveyQuestion) => void | Promise<void>;
+  onCancel: () => void;
+  isSaving?: boolean;
+}
+
+/**
+ * QuestionEditor - Inline form for editing one structure question
+ *
+ * Edits wording (both languages for bilingual surveys), type, options,
+ * scale and the required flag. Other fields (spec_id, validation, skip_logic)
+ * are kept as they are.
+ */
+export function QuestionEditor({ question, isBilingual: surveyIsBilingual, onSave, onCancel, isSaving = false }: QuestionEditorProps) {
+  const isBilingual = surveyIsBilingual || isBilingualContent(question.text);
+  const toValue = (field: BilingualText | undefined): BilingualValue =>
+    isBilingual ? getBothLanguages(field) : { en: getText(field, "en"), ar: "" };
+
+  const [text, setText] = useState<BilingualValue>(() => toValue(question.text));
+  const [type, setType] = useState<string>(() => normalizeQuestionType(question.type));
+  const [options, setOptions] = useState<BilingualValue[]>(() => (question.options || []).map(toValue));
+  const [required, setRequired] = useState<boolean>(!!question.required);
+  const [scaleMin, setScaleMin] = useState<string>(String(question.scale?.min ?? 1));
+  const [scaleMax, setScaleMax] = useState<string>(String(question.scale?.max ?? 5));
+  const [labelMin, setLabelMin] = useState<BilingualValue>(() => toValue(question.scale?.labels?.min));
+  const [labelMax, setLabelMax] = useState<BilingualValue>(() => toValue(question.scale?.labels?.max));
+  const [errors, setErrors] = useState<string[]>([]);
+
+  const hasOptions = OPTION_TYPES.includes(type);
+  const hasScale = SCALE_TYPES.includes(type);
+
+  // Bilingual surveys store {en, ar}; others keep plain strings
+  const fromValue = (value: BilingualValue): any =>
+    isBilingual ? { en: value.en.trim(), ar: value.ar.trim() } : value.en.trim();
+  const isEmpty = (value: BilingualValue) => !value.en.trim() || (isBilingual && !value.ar.trim());
+
+  const updateOption = (idx: number, patch: Partial<BilingualValue>) =>
+    setOptions(prev => prev.map((option, i) => (i === idx ? { ...option, ...patch } : option)));
+  const moveOption = (idx: number, step: -1 | 1) =>
+    setOptions(prev => {
+      const next = [...prev];
+      [next[idx], next[idx + step]] = [next[idx + step], next[idx]];
+      return next;
+    });
+
+  const handleSave = () => {
+    const problems: string[] = [];
+    if (isEmpty(text)) problems.push(isBilingual ? "Question text is required in English and Arabic." : "Question text is required.");
+    if (hasOptions) {
+      if (options.length === 0) problems.push("Add at least one option.");
+      if (options.some(isEmpty)) problems.push("Options cannot be empty.");
+      const labels = options.map(option => option.en.trim().toLowerCase());
+      if (new Set(labels).size !== labels.length) problems.push("Options must be unique.");
+    }
+    const min = Number(scaleMin);
+    const max = Number(scaleMax);
+    if (hasScale && (!Number.isInteger(min) || !Number.isInteger(max) || min >= max)) {
+      problems.push("Scale minimum and maximum must be whole numbers, with the minimum below the maximum.");
+    }
+    setErrors(problems);
+    if (problems.length > 0) return;
+
+    const labels = {
+      ...(labelMin.en.trim() ? { min: fromValue(labelMin) } : {}),
+      ...(labelMax.en.trim() ? { max: fromValue(labelMax) } : {}),
+    };
+    onSave({
+      ...question,
+      text: fromValue(text),
+      type,
+      options: hasOptions ? options.map(fromValue) : undefined,
+      scale: hasScale ? { ...question.scale, min, max, labels } : undefined,
+      required,
+    });
+  };
+
+  const renderBilingualInputs = (
+    value: BilingualValue,
+    onChange: (patch: Partial<BilingualValue>) => void,
+    placeholder: string,
+    id?: string,
+  ) => (
+    <div className={isBilingual ? "grid grid-cols-1 md:grid-cols-2 gap-2 flex-1" : "flex-1"}>
+      <Input id={id} value={value.en} onChange={(e) => onChange({ en: e.target.value })} placeholder={isBilingual ? `${placeholder} (English)` : placeholder} />
+      {isBilingual && (
+        <Input value={value.ar} onChange={(e) => onChange({ ar: e.target.value })} placeholder={`${placeholder} (Arabic)`} dir="rtl" />
+      )}
+    </div>
+  );
+
+  return (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor={`question-text-${question.spec_id || "new"}`}>Question</Label>
+        {renderBilingualInputs(text, patch => setText(prev => ({ ...prev, ...patch })), "Question text", `question-text-${question.spec_id || "new"}`)}
+      </div>
+
+      <div className="flex flex-wrap items-end gap-6">
+        <div className="space-y-2 w-56">
+          <Label>Type</Label>
+          <Select value={type} onValueChange={setType}>
+            <SelectTrigger>
+              <SelectValue />
+            </SelectTrigger>
+            <SelectContent>
+              {EDITABLE_QUESTION_TYPES.map(option => (
+                <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+              ))}
+            </SelectContent>
+          </Select>
+        </div>
+        <div className="flex items-center gap-2 pb-2">
+          <Switch id={`question-required-${question.spec_id || "new"}`} checked={required} onCheckedChange={setRequired} />
+          <Label htmlFor={`question-required-${question.spec_id || "new"}`}>Required</Label>
+        </div>
+      </div>
+
+      {hasOptions && (
+        <div className="space-y-2">
+          <Label>Options</Label>
+          {options.map((option, idx) => (
+            <div key={idx} className="flex items-center gap-2">
+              {renderBilingualInputs(option, patch => updateOption(idx, patch), `Option ${idx + 1}`)}
+              <Button type="button" variant="ghost" size="icon" onClick={() => moveOption(idx, -1)} disabled={idx === 0} aria-label="Move option up">
+                <ArrowUp className="w-4 h-4" />
+              </Button>
+              <Button type="button" variant="ghost" size="icon" onClick={() => moveOption(idx, 1)} disabled={idx === options.length - 1} aria-label="Move option down">
+                <ArrowDown className="w-4 h-4" />
+              </Button>
+              <Button
+                type="button"
+                variant="ghost"
+                size="icon"
+                onClick={() => setOptions(prev => prev.filter((_, i) => i !== idx))}
+                className="text-destructive hover:text-destructive"
+                aria-label="Remove option"
+              >
+                <X className="w-4 h-4" />
+              </Button>
+            </div>
+          ))}
+          <Button type="button" variant="outline" size="sm" onClick={() => setOptions(prev => [...prev, { en: "", ar: "" }])}>
+            <Plus className="w-4 h-4 mr-2" /> Add option
+          </Button>
+        </div>
+      )}
+
+      {hasScale && (
+        <div className="space-y-2">
+          <Label>Scale</Label>
+          <div className="grid grid-cols-2 gap-2 max-w-xs">
+            <Input type="number" value={scaleMin} onChange={(e) => setScaleMin(e.target.value)} aria-label="Scale minimum" />
+            <Input type="number" value={scaleMax} onChange={(e) => setScaleMax(e.target.value)} aria-label="Scale maximum" />
+          </div>
+          {renderBilingualInputs(labelMin, patch => setLabelMin(prev => ({ ...prev, ...patch })), "Minimum label")}
+          {renderBilingualInputs(labelMax, patch => setLabelMax(prev => ({ ...prev, ...patch })), "Maximum label")}
+        </div>
+      )}
+
+      {errors.length > 0 && (
+        <ul className="text-sm text-destructive list-disc list-inside" role="alert">
+          {errors.map(problem => <li key={problem}>{problem}</li>)}
+        </ul>
+      )}
+
+      <div className="flex justify-end gap-2">
+        <Button type="button" variant="outline" onClick={onCancel} disabled={isSaving}>Cancel</Button>
+        <Button type="button" onClick={handleSave} disabled={isSaving}>
+          {isSaving && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+          Save question
+        </Button>
+      </div>
+    </div>
+  );
+}
@@ -0,0 +1,83 @@
+import { useState } from "react";
+import {
+  AlignLeft,
+  CheckSquare,
+  CircleDot,
+  Hash,
+  ListChecks,
+  ListOrdered,
+  Mail,
+  Plus,
+  SlidersHorizontal,
+  Smile,
+  SquareChevronDown,
+  Star,
+  Type,
+  type LucideIcon,
+} from "lucide-react";
+import { Button } from "./ui/button";
+import { Popover, PopoverContent, PopoverTrigger } from "./ui/popover";
+import { EDITABLE_QUESTION_TYPES } from "./QuestionEditor";
+import type { QuestionType } from "./QuestionCard";
+
+const TYPE_ICONS: Partial<Record<QuestionType, LucideIcon>> = {
+  radio: CircleDot,
+  checkbox_list: ListChecks,
+  dropdown_list: SquareChevronDown,
+  rank: ListOrdered,
+  scale: SlidersHorizontal,
+  star_rating: Star,
+  emoji_question: Smile,
+  text_field: Type,
+  text_area: AlignLeft,
+  number: Hash,
+  email: Mail,
+  checkbox: CheckSquare,
+};
+
+interface QuestionPaletteProps {
+  /**
+   * Called with the picked question type
+   */
+  onSelect: (type: QuestionType) => void;
+  disabled?: boolean;
+}
+
+/**
+ * QuestionPalette - "Add question" button with a grid of every question type
+ */
+export function QuestionPalette({ onSelect, disabled = false }: QuestionPaletteProps) {
+  const [open, setOpen] = useState(false);
+
+  return (
+    <Popover open={open} onOpenChange={setOpen}>
+      <PopoverTrigger asChild>
+        <Button variant="outline" size="sm" className="border-dashed" disabled={disabled}>
+          <Plus className="w-4 h-4 mr-2" /> Add question
+        </Button>
+      </PopoverTrigger>
+      <PopoverContent className="w-96 p-3" align="start">
+        <p className="text-xs font-medium uppercase tracking-wider text-muted-foreground mb-2">Question type</p>
+        <div className="grid grid-cols-2 gap-1">
+          {EDITABLE_QUESTION_TYPES.map(({ value, label }) => {
+            const Icon = TYPE_ICONS[value] || Plus;
+            return (
+              <button
+                key={value}
+                type="button"
+                onClick={() => {
+                  onSelect(value);
+                  setOpen(false);
+                }}
+                className="flex items-center gap-2 rounded-md px-2 py-2 text-sm text-left hover:bg-muted focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+              >
+                <Icon className="w-4 h-4 text-primary" />
+                {label}
+              </button>
+            );
+          })}
+        </div>
+      </PopoverContent>
+    </Popover>
+  );
+}
@@ -0,0 +1,120 @@
+import { useRef } from "react";
+import { AlertTriangle, FileSpreadsheet, Loader2, Upload, X } from "lucide-react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { useParseQuestionnaire } from "@/hooks/use-surveys";
+import { useToast } from "@/hooks/use-toast";
+import { MAX_IMPORT_FILE_SIZE, type ImportQuestionnaireResult } from "@shared/routes";
+
+export type ImportedQuestionnaire = ImportQuestionnaireResult & { fileName: string };
+
+interface QuestionnaireImportProps {
+  value: ImportedQuestionnaire | null;
+  onChange: (value: ImportedQuestionnaire | null) => void;
+}
+
+// File contents as base64, without the data URL prefix
+function readAsBase64(file: File): Promise<string> {
+  return new Promise((resolve, reject) => {
+    const reader = new FileReader();
+    reader.onload = () => resolve(String(reader.result).split(",")[1] ?? "");
+    reader.onerror = () => reject(reader.error);
+    reader.readAsDataURL(file);
+  });
+}
+
+/**
+ * QuestionnaireImport - Upload an XLSForm or CSV question list for the config wizard
+ *
+ * The file is parsed right away so the author sees how many questions came
+ * through and what was left out (skip logic, unsupported types) before the
+ * survey is created.
+ */
+export function QuestionnaireImport({ value, onChange }: QuestionnaireImportProps) {
+  const inputRef = useRef<HTMLInputElement>(null);
+  const parseQuestionnaire = useParseQuestionnaire();
+  const { toast } = useToast();
+
+  const handleFileChange = async (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    // Allow picking the same file again after removing it
+    event.target.value = "";
+    if (!file) return;
+    if (file.size > MAX_IMPORT_FILE_SIZE) {
+      toast({ title: "Import failed", description: "The file is larger than 2 MB", variant: "destructive" });
+      return;
+    }
+    try {
+      const content = await readAsBase64(file);
+      const result = await parseQuestionnaire.mutateAsync({ fileName: file.name, content });
+      onChange({ ...result, fileName: file.name });
+    } catch (error) {
+      // Error toast is shown by the hook
+      console.error("Failed to import questionnaire:", error);
+    }
+  };
+
+  const questionCount = value?.structure.sections.reduce((total, section) => total + section.questions.length, 0) ?? 0;
+  const pageCount = value?.structure.sections.length ?? 0;
+
+  return (
+    <div className="space-y-3">
+      <input
+        ref={inputRef}
+        type="file"
+        accept=".xlsx,.xls,.csv"
+        className="hidden"
+        onChange={handleFileChange}
+      />
+
+      {value ? (
+        <div className="rounded-xl border-2 border-primary bg-primary/5 p-4 space-y-3">
+          <div className="flex items-start justify-between gap-2">
+            <span className="flex items-center gap-2 font-semibold text-secondary min-w-0">
+              <FileSpreadsheet className="w-4 h-4 text-primary flex-shrink-0" />
+              <span className="truncate">{value.fileName}</span>
+            </span>
+            <Button type="button" variant="ghost" size="sm" onClick={() => onChange(null)} aria-label="Remove imported file">
+              <X className="w-4 h-4" />
+            </Button>
+          </div>
+          <div className="flex flex-wrap gap-1">
+            <Badge variant="secondary" className="text-xs">{questionCount} question{questionCount === 1 ? "" : "s"}</Badge>
+            <Badge variant="outline" className="text-xs">{pageCount} page{pageCount === 1 ? "" : "s"}</Badge>
+            <Badge variant="outline" className="text-xs">{value.language}</Badge>
+          </div>
+          {value.issues.length > 0 && (
+            <div className="space-y-1">
+              <p className="text-sm font-medium text-amber-800 flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4 text-amber-500" />
+                {value.issues.length} thing{value.issues.length === 1 ? "" : "s"} couldn't be imported as-is:
+              </p>
+              <ul className="max-h-48 overflow-y-auto list-disc pl-6 space-y-1 text-sm text-foreground">
+                {value.issues.map((issue, idx) => (
+                  <li key={idx}>{issue.row ? `Row ${issue.row}: ` : ""}{issue.message}</li>
+                ))}
+              </ul>
+            </div>
+          )}
+        </div>
+      ) : (
+        <button
+          type="button"
+          onClick={() => inputRef.current?.click()}
+          disabled={parseQuestionnaire.isPending}
+          className="w-full rounded-xl border-2 border-dashed border-border hover:border-primary/40 p-4 text-left transition-all"
+        >
+          <span className="flex items-center gap-2 font-semibold text-secondary">
+            {parseQuestionnaire.isPending
+              ? <Loader2 className="w-4 h-4 animate-spin text-primary" />
+              : <Upload className="w-4 h-4 text-primary" />}
+            {parseQuestionnaire.isPending ? "Reading questionnaire..." : "Upload XLSForm or CSV"}
+          </span>
+          <p className="text-sm text-muted-foreground mt-1">
+            An XLSForm (.xlsx) from ODK or KoboToolbox, or a CSV with the columns section, question, type, options (separated by |) and required.
+          </p>
+        </button>
+      )}
+    </div>
+  );
+}
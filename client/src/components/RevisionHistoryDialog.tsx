@@ -0,0 +1,227 @@
+import { useEffect, useMemo, useState } from "react";
+import { format } from "date-fns";
+import { History, RotateCcw, Loader2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "./ui/dialog";
+import { useSurveyRevisions, useRestoreSurveyRevision } from "@/hooks/use-surveys";
+import { getText } from "@/lib/bilingual";
+import { diffStructures, summarizeDiff, type QuestionDiff } from "@/lib/structureDiff";
+import { cn } from "@/lib/utils";
+import type { RevisionSource, Survey, SurveyQuestion, SurveyStructure } from "@shared/schema";
+
+interface RevisionHistoryDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  surveyId: number;
+  /**
+   * Structure currently shown in the builder, compared against the selected revision
+   */
+  currentStructure: SurveyStructure | null;
+  currentVersion: number;
+  /**
+   * Called with the updated survey after a revision was restored
+   */
+  onRestored: (survey: Survey) => void;
+}
+
+const SOURCE_LABELS: Record<RevisionSource, string> = {
+  manual: "Manual edit",
+  ai_update: "AI update",
+  regenerate: "Regenerated",
+  delete_page: "Page deleted",
+  delete_question: "Question deleted",
+  restore: "Restored",
+  undo: "Undo",
+  redo: "Redo",
+  reorder: "Reordered",
+  template: "Created from template",
+  duplicate: "Duplicated",
+  import: "Imported from file",
+};
+
+function QuestionCell({ question, diff, side }: { question?: SurveyQuestion; diff: QuestionDiff; side: "before" | "after" }) {
+  if (!question) {
+    return <div className="rounded-md border border-dashed border-border p-2 min-h-[2.5rem]" />;
+  }
+  const highlight =
+    diff.status === "removed" ? "bg-red-50 border-red-200" :
+    diff.status === "added" ? "bg-green-50 border-green-200" :
+    diff.status === "changed" ? "bg-amber-50 border-amber-200" :
+    "border-border";
+  return (
+    <div className={cn("rounded-md border p-2 text-sm space-y-1", highlight)}>
+      <p className="text-foreground">{getText(question.text, "en")}</p>
+      <div className="flex flex-wrap gap-1 text-xs text-muted-foreground">
+        <span>{question.type}</span>
+        {question.spec_id && <span className="font-mono">· {question.spec_id}</span>}
+        {question.required && <span>· required</span>}
+        {side === "after" && diff.status === "changed" && (
+          <span className="text-amber-700">· changed: {diff.changes.join(", ")}</span>
+        )}
+      </div>
+    </div>
+  );
+}
+
+/**
+ * RevisionHistoryDialog - Browse, compare and restore structure revisions
+ *
+ * Lists the revisions the server recorded for a survey and shows the selected
+ * one side by side with the current structure. Restoring writes the old
+ * structure back as a new revision, so nothing is lost by restoring.
+ */
+export function RevisionHistoryDialog({
+  open,
+  onOpenChange,
+  surveyId,
+  currentStructure,
+  currentVersion,
+  onRestored,
+}: RevisionHistoryDialogProps) {
+  const { data: revisions, isLoading } = useSurveyRevisions(surveyId, { enabled: open });
+  const restoreRevision = useRestoreSurveyRevision();
+  const [selectedId, setSelectedId] = useState<number | null>(null);
+
+  // Select the newest revision that differs from what is on screen
+  useEffect(() => {
+    if (!open || !revisions?.length) return;
+    if (selectedId !== null && revisions.some(r => r.id === selectedId)) return;
+    const candidate = revisions.find(r => r.structureVersion !== currentVersion) || revisions[0];
+    setSelectedId(candidate.id);
+  }, [open, revisions, selectedId, currentVersion]);
+
+  const selected = revisions?.find(r => r.id === selectedId);
+  const diff = useMemo(
+    () => (selected ? diffStructures(selected.structure, currentStructure) : []),
+    [selected, currentStructure],
+  );
+  const summary = summarizeDiff(diff);
+  const isIdentical = selected ? diff.every(section => section.status === "unchanged") : true;
+
+  const handleRestore = async () => {
+    if (!selected) return;
+    try {
+      const survey = await restoreRevision.mutateAsync({ id: surveyId, revisionId: selected.id });
+      onRestored(survey);
+      onOpenChange(false);
+    } catch (error) {
+      // Error toast is shown by the hook
+      console.error("Failed to restore revision:", error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-6xl max-h-[90vh] flex flex-col">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <History className="w-5 h-5" /> Revision history
+          </DialogTitle>
+          <DialogDescription>
+            Every change to the questions is saved as a revision. Compare a revision with the current survey and restore it if something was lost.
+          </DialogDescription>
+        </DialogHeader>
+
+        {isLoading ? (
+          <div className="py-10 flex justify-center">
+            <Loader2 className="w-6 h-6 animate-spin text-primary" />
+          </div>
+        ) : !revisions?.length ? (
+          <p className="py-10 text-center text-sm text-muted-foreground">
+            No revisions yet. They are recorded from the next change to the questions.
+          </p>
+        ) : (
+          <div className="grid grid-cols-[14rem_1fr] gap-4 min-h-0 flex-1">
+            {/* Revision list */}
+            <div className="space-y-2 overflow-y-auto pr-1">
+              {revisions.map(revision => (
+                <button
+                  key={revision.id}
+                  type="button"
+                  onClick={() => setSelectedId(revision.id)}
+                  className={cn(
+                    "w-full text-left rounded-lg border p-3 transition-colors",
+                    revision.id === selectedId ? "border-primary bg-primary/5" : "border-border hover:bg-gray-50",
+                  )}
+                >
+                  <div className="flex items-center justify-between gap-2">
+                    <span className="text-sm font-semibold text-secondary">v{revision.structureVersion}</span>
+                    {revision.structureVersion === currentVersion && (
+                      <Badge variant="secondary" className="text-xs">Current</Badge>
+                    )}
+                  </div>
+                  <p className="text-sm text-foreground">{SOURCE_LABELS[revision.source]}</p>
+                  <p className="text-xs text-muted-foreground">
+                    {revision.createdAt ? format(new Date(revision.createdAt), "MMM d, h:mm a") : "Unknown"}
+                    {revision.author && ` · ${revision.author}`}
+                  </p>
+                </button>
+              ))}
+            </div>
+
+            {/* Side-by-side diff */}
+            <div className="overflow-y-auto space-y-4 pr-1">
+              {selected && (
+                <>
+                  <div className="flex flex-wrap items-center gap-2 text-sm">
+                    {isIdentical ? (
+                      <span className="text-muted-foreground">This revision matches the current questions.</span>
+                    ) : (
+                      <>
+                        <Badge className="bg-green-100 text-green-800 hover:bg-green-100">{summary.added} only in current</Badge>
+                        <Badge className="bg-red-100 text-red-800 hover:bg-red-100">{summary.removed} only in v{selected.structureVersion}</Badge>
+                        <Badge className="bg-amber-100 text-amber-800 hover:bg-amber-100">{summary.changed} changed</Badge>
+                      </>
+                    )}
+                  </div>
+                  <div className="grid grid-cols-2 gap-3 text-xs font-semibold uppercase tracking-wide text-muted-foreground sticky top-0 bg-background py-1">
+                    <span>Revision v{selected.structureVersion}</span>
+                    <span>Current (v{currentVersion})</span>
+                  </div>
+                  {diff.map((section, sectionIdx) => (
+                    <div key={sectionIdx} className="space-y-2">
+                      <div className="grid grid-cols-2 gap-3 text-sm font-medium text-secondary">
+                        <span className={cn(section.status === "removed" && "text-red-700")}>
+                          {section.before ? getText(section.before.title, "en") || "Untitled page" : "—"}
+                        </span>
+                        <span className={cn(section.status === "added" && "text-green-700", section.titleChanged && "text-amber-700")}>
+                          {section.after ? getText(section.after.title, "en") || "Untitled page" : "—"}
+                        </span>
+                      </div>
+                      {section.questions.map((question, qIdx) => (
+                        <div key={qIdx} className="grid grid-cols-2 gap-3">
+                          <QuestionCell question={question.before} diff={question} side="before" />
+                          <QuestionCell question={question.after} diff={question} side="after" />
+                        </div>
+                      ))}
+                    </div>
+                  ))}
+                </>
+              )}
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Close</Button>
+          <Button onClick={handleRestore} disabled={!selected || isIdentical || restoreRevision.isPending}>
+            {restoreRevision.isPending ? (
+              <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+            ) : (
+              <RotateCcw className="w-4 h-4 mr-2" />
+            )}
+            {selected ? `Restore v${selected.structureVersion}` : "Restore"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
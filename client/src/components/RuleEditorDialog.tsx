@@ -0,0 +1,428 @@
+import { useEffect, useMemo, useState } from "react";
+import { Plus, Trash2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Checkbox } from "./ui/checkbox";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "./ui/dialog";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import { getText, getBothLanguages, type BilingualText } from "@/lib/bilingual";
+import { getQuestionKey, normalizeQuestionType } from "@shared/answers";
+import {
+  RULE_ACTION_TYPES,
+  getOperatorsForQuestionType,
+  normalizeOperator,
+  type RuleAction,
+  type RuleCondition,
+  type SurveyRule,
+} from "@shared/rules";
+import type { SurveySection, SurveyQuestion } from "@shared/schema";
+
+interface RuleEditorDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /**
+   * Rule to edit, or null to create a new one
+   */
+  rule: SurveyRule | null;
+  /**
+   * Survey sections to pick questions and options from
+   */
+  sections: SurveySection[];
+  /**
+   * rule_ids already in use (excluding the edited rule) - used to suggest and check ids
+   */
+  existingRuleIds: string[];
+  onSave: (rule: SurveyRule) => void;
+}
+
+const CHOICE_TYPES = ["radio", "dropdown_list", "checkbox_list", "rank"];
+const NUMERIC_TYPES = ["number", "scale", "star_rating", "emoji_question"];
+const MESSAGE_ACTIONS = ["error_message", "warning_message"];
+const OPTION_ACTIONS = ["hide_answer", "show_answer"];
+
+const formatLabel = (value: string) => value.replace(/_/g, " ").replace(/\b\w/g, l => l.toUpperCase());
+
+// English text of an option, which is also what the runtime submits for bilingual surveys
+const getOptionLabel = (option: BilingualText) => getBothLanguages(option).en;
+
+const emptyCondition = (): RuleCondition => ({
+  left_side: { type: "question", question_id: "" },
+  operator: "equals",
+  right_side: { type: "value", value: "" },
+});
+
+const emptyAction = (): RuleAction => ({ type: "hide_question", action_element: "" });
+
+function getNextRuleId(existingRuleIds: string[]): string {
+  const numbers = existingRuleIds.map(id => Number(id.match(/^R(\d+)$/i)?.[1] ?? 0));
+  return `R${Math.max(0, ...numbers) + 1}`;
+}
+
+/**
+ * RuleEditorDialog - Author or edit a single survey rule by hand
+ *
+ * Conditions pick a question from the current structure, an operator that fits
+ * the question type and a value (from the question's options where it has any).
+ * Actions pick a type, a target question and, depending on the type, an option
+ * or bilingual messages. The rule_type is taken from the first action.
+ */
+export function RuleEditorDialog({
+  open,
+  onOpenChange,
+  rule,
+  sections,
+  existingRuleIds,
+  onSave,
+}: RuleEditorDialogProps) {
+  const [ruleId, setRuleId] = useState("");
+  const [descriptionEn, setDescriptionEn] = useState("");
+  const [descriptionAr, setDescriptionAr] = useState("");
+  const [conditions, setConditions] = useState<RuleCondition[]>([]);
+  const [actions, setActions] = useState<RuleAction[]>([]);
+  const [error, setError] = useState<string | null>(null);
+
+  // Reset the form whenever the dialog opens for another rule
+  useEffect(() => {
+    if (!open) return;
+    setRuleId(rule?.meta_rule.rule_id ?? getNextRuleId(existingRuleIds));
+    setDescriptionEn(rule?.meta_rule.description_en ?? "");
+    setDescriptionAr(rule?.meta_rule.description_ar ?? "");
+    setConditions(rule?.conditions?.length ? rule.conditions.map(c => ({ ...c })) : [emptyCondition()]);
+    setActions(rule?.actions?.length ? rule.actions.map(a => ({ ...a })) : [emptyAction()]);
+    setError(null);
+  }, [open, rule]);
+
+  // All questions of the survey keyed by question key (spec_id)
+  const questions = useMemo(() => {
+    const list: { key: string; label: string; question: SurveyQuestion }[] = [];
+    sections.forEach((section, sectionIdx) => section.questions.forEach((question, questionIdx) => {
+      const key = getQuestionKey(question, sectionIdx, questionIdx);
+      const text = getText(question.text, "en");
+      list.push({ key, label: `${key} — ${text.length > 60 ? `${text.slice(0, 60)}…` : text}`, question });
+    }));
+    return list;
+  }, [sections]);
+  const findQuestion = (key: string) => questions.find(q => q.key === key)?.question;
+
+  const updateCondition = (idx: number, patch: Partial<RuleCondition>) => {
+    setConditions(prev => prev.map((c, i) => (i === idx ? { ...c, ...patch } : c)));
+  };
+  const updateAction = (idx: number, patch: Partial<RuleAction>) => {
+    setActions(prev => prev.map((a, i) => (i === idx ? { ...a, ...patch } : a)));
+  };
+
+  const handleConditionQuestionChange = (idx: number, key: string) => {
+    const question = findQuestion(key);
+    const operators = question ? getOperatorsForQuestionType(question.type) : [];
+    const current = normalizeOperator(conditions[idx].operator);
+    updateCondition(idx, {
+      left_side: { type: "question", question_id: key },
+      // Keep the operator if it still fits the new question type
+      operator: current && operators.includes(current) ? current : operators[0] ?? "equals",
+      right_side: { type: "value", value: "" },
+    });
+  };
+
+  const handleSave = () => {
+    const id = ruleId.trim();
+    if (!id) return setError("Rule ID is required.");
+    if (existingRuleIds.includes(id)) return setError(`Rule ID "${id}" is already used by another rule.`);
+    if (conditions.some(c => !c.left_side.question_id || !c.operator)) {
+      return setError("Every condition needs a question and an operator.");
+    }
+    if (actions.length === 0) return setError("Add at least one action.");
+    if (actions.some(a => !a.action_element)) return setError("Every action needs a target question.");
+    if (actions.some(a => OPTION_ACTIONS.includes(a.type) && !a.action_answer)) {
+      return setError("Pick the option each hide/show answer action applies to.");
+    }
+    if (actions.some(a => MESSAGE_ACTIONS.includes(a.type) && !a.message_en?.trim())) {
+      return setError("Message actions need an English message.");
+    }
+
+    onSave({
+      meta_rule: {
+        rule_id: id,
+        rule_type: actions[0].type,
+        description_en: descriptionEn.trim(),
+        description_ar: descriptionAr.trim(),
+      },
+      conditions,
+      actions: actions.map((action, idx) => {
+        // Only keep the fields that belong to the action type
+        const cleaned: RuleAction = { type: action.type, action_element: action.action_element, sequence: idx + 1 };
+        if (OPTION_ACTIONS.includes(action.type)) cleaned.action_answer = action.action_answer;
+        if (MESSAGE_ACTIONS.includes(action.type)) {
+          cleaned.message_en = action.message_en?.trim();
+          cleaned.message_ar = action.message_ar?.trim() || undefined;
+        }
+        return cleaned;
+      }),
+    });
+  };
+
+  const renderValueInput = (condition: RuleCondition, idx: number) => {
+    const question = findQuestion(condition.left_side.question_id);
+    const operator = normalizeOperator(condition.operator);
+    if (!question || operator === "is_empty" || operator === "is_not_empty") return null;
+
+    const type = normalizeQuestionType(question.type);
+    const value = condition.right_side.value;
+    const setValue = (next: any) => updateCondition(idx, { right_side: { type: "value", value: next } });
+    const options = (question.options || []).map(getOptionLabel);
+
+    // Several options
+    if (CHOICE_TYPES.includes(type) && options.length > 0 && (operator === "in" || operator === "not_in")) {
+      const selected: string[] = Array.isArray(value) ? value : [];
+      return (
+        <div className="flex flex-wrap gap-3">
+          {options.map(option => (
+            <label key={option} className="flex items-center gap-2 text-sm">
+              <Checkbox
+                checked={selected.includes(option)}
+                onCheckedChange={(checked) =>
+                  setValue(checked ? [...selected, option] : selected.filter(item => item !== option))
+                }
+              />
+              {option}
+            </label>
+          ))}
+        </div>
+      );
+    }
+
+    // One option
+    if (CHOICE_TYPES.includes(type) && options.length > 0) {
+      return (
+        <Select value={typeof value === "string" && value ? value : undefined} onValueChange={setValue}>
+          <SelectTrigger><SelectValue placeholder="Select an option" /></SelectTrigger>
+          <SelectContent>
+            {options.map(option => <SelectItem key={option} value={option}>{option}</SelectItem>)}
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    if (type === "checkbox") {
+      return (
+        <Select value={value === true || value === "true" ? "true" : value === false || value === "false" ? "false" : undefined} onValueChange={v => setValue(v === "true")}>
+          <SelectTrigger><SelectValue placeholder="Checked?" /></SelectTrigger>
+          <SelectContent>
+            <SelectItem value="true">Checked</SelectItem>
+            <SelectItem value="false">Not checked</SelectItem>
+          </SelectContent>
+        </Select>
+      );
+    }
+
+    if (NUMERIC_TYPES.includes(type) && operator === "between") {
+      const [min, max] = Array.isArray(value) ? value : ["", ""];
+      const toNumber = (raw: string) => (raw === "" ? "" : Number(raw));
+      return (
+        <div className="flex items-center gap-2">
+          <Input type="number" value={min ?? ""} onChange={e => setValue([toNumber(e.target.value), max])} placeholder="Min" />
+          <span className="text-sm text-muted-foreground">and</span>
+          <Input type="number" value={max ?? ""} onChange={e => setValue([min, toNumber(e.target.value)])} placeholder="Max" />
+        </div>
+      );
+    }
+
+    if (NUMERIC_TYPES.includes(type)) {
+      return (
+        <Input
+          type="number"
+          value={value ?? ""}
+          onChange={e => setValue(e.target.value === "" ? "" : Number(e.target.value))}
+          placeholder="Value"
+        />
+      );
+    }
+
+    return <Input value={value ?? ""} onChange={e => setValue(e.target.value)} placeholder="Value" />;
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-3xl max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{rule ? `Edit rule ${rule.meta_rule.rule_id}` : "Add rule"}</DialogTitle>
+          <DialogDescription>
+            When all conditions hold, the actions are applied to the target questions.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-6 py-2">
+          {/* Meta */}
+          <div className="grid grid-cols-1 md:grid-cols-[120px_1fr] gap-4">
+            <div className="space-y-2">
+              <Label htmlFor="rule-id">Rule ID</Label>
+              <Input id="rule-id" value={ruleId} onChange={e => setRuleId(e.target.value)} />
+            </div>
+            <div className="space-y-2">
+              <Label htmlFor="rule-description-en">Description (English)</Label>
+              <Input id="rule-description-en" value={descriptionEn} onChange={e => setDescriptionEn(e.target.value)} />
+            </div>
+            <div className="hidden md:block" />
+            <div className="space-y-2">
+              <Label htmlFor="rule-description-ar">Description (Arabic)</Label>
+              <Input id="rule-description-ar" dir="rtl" value={descriptionAr} onChange={e => setDescriptionAr(e.target.value)} />
+            </div>
+          </div>
+
+          {/* Conditions */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium text-secondary">Conditions (all must hold)</p>
+              <Button variant="outline" size="sm" onClick={() => setConditions(prev => [...prev, emptyCondition()])}>
+                <Plus className="w-4 h-4 mr-1" /> Condition
+              </Button>
+            </div>
+            {conditions.length === 0 && (
+              <p className="text-sm text-muted-foreground">No conditions - the actions always apply.</p>
+            )}
+            {conditions.map((condition, idx) => {
+              const question = findQuestion(condition.left_side.question_id);
+              const operators = question ? getOperatorsForQuestionType(question.type) : [];
+              const operator = normalizeOperator(condition.operator);
+              return (
+                <div key={idx} className="rounded-md border border-border p-3 space-y-2">
+                  <div className="grid grid-cols-1 md:grid-cols-[1fr_180px_auto] gap-2">
+                    <Select
+                      value={condition.left_side.question_id || undefined}
+                      onValueChange={key => handleConditionQuestionChange(idx, key)}
+                    >
+                      <SelectTrigger><SelectValue placeholder="Question" /></SelectTrigger>
+                      <SelectContent>
+                        {questions.map(q => <SelectItem key={q.key} value={q.key}>{q.label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={operator ?? undefined}
+                      onValueChange={op => updateCondition(idx, { operator: op, right_side: { type: "value", value: "" } })}
+                      disabled={!question}
+                    >
+                      <SelectTrigger><SelectValue placeholder="Operator" /></SelectTrigger>
+                      <SelectContent>
+                        {operators.map(op => <SelectItem key={op} value={op}>{formatLabel(op)}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setConditions(prev => prev.filter((_, i) => i !== idx))}
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                      aria-label="Remove condition"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+                  {renderValueInput(condition, idx)}
+                </div>
+              );
+            })}
+          </div>
+
+          {/* Actions */}
+          <div className="space-y-3">
+            <div className="flex items-center justify-between">
+              <p className="text-sm font-medium text-secondary">Actions</p>
+              <Button variant="outline" size="sm" onClick={() => setActions(prev => [...prev, emptyAction()])}>
+                <Plus className="w-4 h-4 mr-1" /> Action
+              </Button>
+            </div>
+            {actions.map((action, idx) => {
+              const target = findQuestion(action.action_element);
+              return (
+                <div key={idx} className="rounded-md border border-border p-3 space-y-2">
+                  <div className="grid grid-cols-1 md:grid-cols-[180px_1fr_auto] gap-2">
+                    <Select value={action.type} onValueChange={type => updateAction(idx, { type })}>
+                      <SelectTrigger><SelectValue placeholder="Action" /></SelectTrigger>
+                      <SelectContent>
+                        {RULE_ACTION_TYPES.map(type => <SelectItem key={type} value={type}>{formatLabel(type)}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <Select
+                      value={action.action_element || undefined}
+                      onValueChange={key => updateAction(idx, { action_element: key, action_answer: undefined })}
+                    >
+                      <SelectTrigger><SelectValue placeholder="Target question" /></SelectTrigger>
+                      <SelectContent>
+                        {questions.map(q => <SelectItem key={q.key} value={q.key}>{q.label}</SelectItem>)}
+                      </SelectContent>
+                    </Select>
+                    <Button
+                      variant="ghost"
+                      size="sm"
+                      onClick={() => setActions(prev => prev.filter((_, i) => i !== idx))}
+                      className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                      aria-label="Remove action"
+                    >
+                      <Trash2 className="w-4 h-4" />
+                    </Button>
+                  </div>
+
+                  {OPTION_ACTIONS.includes(action.type) && (
+                    <Select
+                      value={action.action_answer || undefined}
+                      onValueChange={answer => updateAction(idx, { action_answer: answer })}
+                      disabled={!target?.options?.length}
+                    >
+                      <SelectTrigger><SelectValue placeholder={target?.options?.length ? "Option" : "Target has no options"} /></SelectTrigger>
+                      <SelectContent>
+                        {(target?.options || []).map(getOptionLabel).map(option => (
+                          <SelectItem key={option} value={option}>{option}</SelectItem>
+                        ))}
+                      </SelectContent>
+                    </Select>
+                  )}
+
+                  {MESSAGE_ACTIONS.includes(action.type) && (
+                    <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                      <Input
+                        value={action.message_en ?? ""}
+                        onChange={e => updateAction(idx, { message_en: e.target.value })}
+                        placeholder="Message (English)"
+                      />
+                      <Input
+                        dir="rtl"
+                        value={action.message_ar ?? ""}
+                        onChange={e => updateAction(idx, { message_ar: e.target.value })}
+                        placeholder="الرسالة (عربي)"
+                      />
+                    </div>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+
+          {error && (
+            <p className="text-sm text-destructive" role="alert">{error}</p>
+          )}
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>
+            Cancel
+          </Button>
+          <Button onClick={handleSave} className="btn-primary">
+            {rule ? "Save rule" : "Add rule"}
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
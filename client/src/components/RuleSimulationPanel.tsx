@@ -0,0 +1,193 @@
+import { useMemo } from "react";
+import { FlaskConical, RotateCcw, EyeOff, Lock, Zap } from "lucide-react";
+import { QuestionCard } from "./QuestionCard";
+import { Badge } from "./ui/badge";
+import { Button } from "./ui/button";
+import { getText } from "@/lib/bilingual";
+import { getQuestionCardProps, type DisplayLanguage } from "@/lib/questionDisplay";
+import { getQuestionKey, type AnswerSet, type AnswerValue } from "@shared/answers";
+import {
+  getActionTargets,
+  getActionType,
+  isOptionHidden,
+  type RuleAction,
+  type RuleEvaluation,
+  type SurveyRule,
+} from "@shared/rules";
+import type { SurveySection } from "@shared/schema";
+
+interface RuleSimulationPanelProps {
+  /**
+   * Survey sections whose questions are rendered for sample answers
+   */
+  sections: SurveySection[];
+  /**
+   * Rules being simulated
+   */
+  rules: SurveyRule[];
+  /**
+   * Result of evaluateRules() for the current sample answers
+   */
+  evaluation: RuleEvaluation;
+  /**
+   * Sample answers keyed by question key (spec_id)
+   */
+  answers: AnswerSet;
+  onAnswerChange: (key: string, value: AnswerValue) => void;
+  /**
+   * Clear all sample answers
+   */
+  onReset: () => void;
+  display: DisplayLanguage;
+}
+
+/**
+ * Describe what a fired action did, e.g. "Hid Q2" or "Hid option “C” on Q3".
+ */
+function describeAction(action: RuleAction, rule: SurveyRule): string {
+  const type = getActionType(action, rule);
+  const targets = getActionTargets(action).join(", ") || "survey";
+  switch (type) {
+    case "hide_question": return `Hid ${targets}`;
+    case "show_question": return `Showed ${targets}`;
+    case "disable_question": return `Disabled ${targets}`;
+    case "enable_question": return `Enabled ${targets}`;
+    case "require_question": return `Made ${targets} required`;
+    case "optional_question": return `Made ${targets} optional`;
+    case "hide_answer": return `Hid option “${action.action_answer ?? ""}” on ${targets}`;
+    case "show_answer": return `Showed option “${action.action_answer ?? ""}” on ${targets}`;
+    case "error_message": return `Error on ${targets}: ${action.message_en || rule.meta_rule.description_en}`;
+    case "warning_message": return `Warning on ${targets}: ${action.message_en || rule.meta_rule.description_en}`;
+    default: return `${type.replace(/_/g, " ")} on ${targets} (not applied by the runtime)`;
+  }
+}
+
+/**
+ * RuleSimulationPanel - Try survey rules against sample answers
+ *
+ * Renders the survey's questions with QuestionCard so sample answers can be
+ * entered, and shows which rules fire and what each of their actions did.
+ * Unlike the respondent runtime, hidden questions stay on screen (dimmed)
+ * so their effect is visible while testing.
+ */
+export function RuleSimulationPanel({
+  sections,
+  rules,
+  evaluation,
+  answers,
+  onAnswerChange,
+  onReset,
+  display,
+}: RuleSimulationPanelProps) {
+  const firedRules = useMemo(
+    () => rules.filter(rule => evaluation.firedRuleIds.includes(rule.meta_rule.rule_id)),
+    [rules, evaluation.firedRuleIds],
+  );
+
+  // Fired rule ids per target question, for the badges next to each question
+  const firedByTarget = useMemo(() => {
+    const map = new Map<string, string[]>();
+    firedRules.forEach(rule => rule.actions.forEach(action => {
+      getActionTargets(action).forEach(target => {
+        const ids = map.get(target) || [];
+        if (!ids.includes(rule.meta_rule.rule_id)) ids.push(rule.meta_rule.rule_id);
+        map.set(target, ids);
+      });
+    }));
+    return map;
+  }, [firedRules]);
+
+  let questionNumber = 0;
+
+  return (
+    <div className="bg-white rounded-xl shadow-sm border border-border p-6 space-y-6">
+      <div className="flex items-center justify-between">
+        <h2 className="text-xl font-semibold text-secondary flex items-center gap-2">
+          <FlaskConical className="w-5 h-5 text-primary" /> Simulate
+        </h2>
+        <Button variant="outline" size="sm" onClick={onReset} disabled={Object.keys(answers).length === 0}>
+          <RotateCcw className="w-4 h-4 mr-2" /> Reset answers
+        </Button>
+      </div>
+
+      {/* Fired rules and their effects */}
+      <div className="rounded-lg border border-border bg-[#F5F7FA] p-4 space-y-2">
+        <p className="text-sm font-medium text-secondary flex items-center gap-2">
+          <Zap className="w-4 h-4 text-primary" />
+          Fired rules ({firedRules.length} of {rules.length})
+        </p>
+        {firedRules.length === 0 ? (
+          <p className="text-sm text-muted-foreground">No rule matches the sample answers yet.</p>
+        ) : (
+          <ul className="space-y-2">
+            {firedRules.map(rule => (
+              <li key={rule.meta_rule.rule_id} className="text-sm">
+                <span className="font-medium">{rule.meta_rule.rule_id}</span>
+                <ul className="list-disc list-inside text-muted-foreground">
+                  {rule.actions.map((action, idx) => (
+                    <li key={idx}>{describeAction(action, rule)}</li>
+                  ))}
+                </ul>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+
+      {/* Questions with sample answers */}
+      {sections.map((section, sectionIdx) => (
+        <div key={sectionIdx} className="space-y-4">
+          {section.title && (
+            <h3 className="text-sm font-semibold uppercase tracking-wide text-muted-foreground">
+              {getText(section.title, "en")}
+            </h3>
+          )}
+          {section.questions.map((question, qIdx) => {
+            const key = getQuestionKey(question, sectionIdx, qIdx);
+            const state = evaluation.questions[key];
+            const isHidden = state ? !state.visible : false;
+            const isDisabled = state ? !state.enabled : false;
+            const visibleQuestion = {
+              ...question,
+              required: state ? state.required : question.required,
+              options: question.options?.filter(option => !isOptionHidden(state, option)),
+            };
+            const errorMessage = evaluation.messages.find(m => m.level === "error" && m.spec_id === key);
+            const warningMessage = evaluation.messages.find(m => m.level === "warning" && m.spec_id === key);
+            const firedIds = firedByTarget.get(key) || [];
+            if (!isHidden) questionNumber++;
+
+            return (
+              <div key={key} className={isHidden ? "opacity-40" : undefined}>
+                <div className="flex flex-wrap items-center gap-2 mb-2">
+                  <Badge variant="outline" className="font-mono text-xs">{key}</Badge>
+                  {isHidden && (
+                    <Badge variant="secondary" className="gap-1"><EyeOff className="w-3 h-3" /> Hidden</Badge>
+                  )}
+                  {isDisabled && (
+                    <Badge variant="secondary" className="gap-1"><Lock className="w-3 h-3" /> Disabled</Badge>
+                  )}
+                  {state && state.hiddenOptions.length > 0 && (
+                    <Badge variant="secondary">{state.hiddenOptions.length} option(s) hidden</Badge>
+                  )}
+                  {firedIds.map(id => (
+                    <Badge key={id} className="bg-primary/10 text-primary hover:bg-primary/10">{id}</Badge>
+                  ))}
+                </div>
+                <QuestionCard
+                  {...getQuestionCardProps(visibleQuestion, display)}
+                  questionNumber={isHidden ? undefined : questionNumber}
+                  spec_id={question.spec_id}
+                  value={answers[key]}
+                  onChange={(value) => onAnswerChange(key, value)}
+                  error={errorMessage?.message_en || warningMessage?.message_en}
+                  disabled={isHidden || isDisabled}
+                />
+              </div>
+            );
+          })}
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,105 @@
+import { useEffect, useState } from "react";
+import { LayoutTemplate, Loader2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import { Switch } from "./ui/switch";
+import { Textarea } from "./ui/textarea";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "./ui/dialog";
+import { useSaveSurveyAsTemplate } from "@/hooks/use-surveys";
+import type { Survey } from "@shared/schema";
+
+interface SaveAsTemplateDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  survey: Survey;
+}
+
+/**
+ * SaveAsTemplateDialog - Save the survey's current questions as a reusable template
+ *
+ * The template is a copy: later edits to the survey don't change it.
+ */
+export function SaveAsTemplateDialog({ open, onOpenChange, survey }: SaveAsTemplateDialogProps) {
+  const saveTemplate = useSaveSurveyAsTemplate();
+  const [name, setName] = useState("");
+  const [description, setDescription] = useState("");
+  const [includeRules, setIncludeRules] = useState(true);
+  const hasRules = !!survey.rules?.length;
+
+  useEffect(() => {
+    if (!open) return;
+    setName(survey.name);
+    setDescription("");
+    setIncludeRules(true);
+  }, [open, survey.name]);
+
+  const handleSave = async () => {
+    try {
+      await saveTemplate.mutateAsync({
+        surveyId: survey.id,
+        name: name.trim(),
+        description: description.trim(),
+        includeRules: hasRules && includeRules,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      // Error toast is shown by the hook
+      console.error("Failed to save template:", error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <LayoutTemplate className="w-5 h-5" /> Save as template
+          </DialogTitle>
+          <DialogDescription>
+            New surveys can start from this template in the first step of survey creation.
+          </DialogDescription>
+        </DialogHeader>
+
+        <div className="space-y-4">
+          <div className="space-y-2">
+            <Label htmlFor="template-name">Name</Label>
+            <Input id="template-name" value={name} onChange={(e) => setName(e.target.value)} maxLength={200} />
+          </div>
+          <div className="space-y-2">
+            <Label htmlFor="template-description">Description</Label>
+            <Textarea
+              id="template-description"
+              value={description}
+              onChange={(e) => setDescription(e.target.value)}
+              placeholder="What the template is for"
+              maxLength={500}
+              rows={3}
+            />
+          </div>
+          <div className="flex items-center gap-2">
+            <Switch id="template-rules" checked={hasRules && includeRules} onCheckedChange={setIncludeRules} disabled={!hasRules} />
+            <Label htmlFor="template-rules">
+              Include rules{!hasRules && " (this survey has none)"}
+            </Label>
+          </div>
+        </div>
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={name.trim().length < 3 || saveTemplate.isPending}>
+            {saveTemplate.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save template
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,131 @@
+import { useEffect, useState } from "react";
+import { BookmarkPlus, Loader2 } from "lucide-react";
+import { Button } from "./ui/button";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "./ui/select";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "./ui/dialog";
+import { useCreateQuestionBankItem } from "@/hooks/use-surveys";
+import { getText, isBilingualContent } from "@/lib/bilingual";
+import { SURVEY_LANGUAGES, type SurveyQuestion } from "@shared/schema";
+
+type BankLanguage = typeof SURVEY_LANGUAGES[number];
+
+interface SaveToBankDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  /**
+   * Question as stored in the survey structure
+   */
+  question: SurveyQuestion | null;
+  /**
+   * Language of the survey the question comes from
+   */
+  surveyLanguage: string;
+}
+
+/**
+ * SaveToBankDialog - Save a copy of a question to the question bank
+ *
+ * Tags are entered comma-separated. The language defaults to Bilingual for
+ * questions with {en, ar} text and to the survey's language otherwise.
+ */
+export function SaveToBankDialog({ open, onOpenChange, question, surveyLanguage }: SaveToBankDialogProps) {
+  const createItem = useCreateQuestionBankItem();
+  const [tags, setTags] = useState("");
+  const [language, setLanguage] = useState<BankLanguage>("English");
+
+  useEffect(() => {
+    if (!open || !question) return;
+    setTags("");
+    setLanguage(
+      isBilingualContent(question.text)
+        ? "Bilingual"
+        : (SURVEY_LANGUAGES as readonly string[]).includes(surveyLanguage) && surveyLanguage !== "Bilingual"
+          ? (surveyLanguage as BankLanguage)
+          : "English",
+    );
+  }, [open, question, surveyLanguage]);
+
+  const handleSave = async () => {
+    if (!question) return;
+    try {
+      await createItem.mutateAsync({
+        question,
+        tags: tags.split(",").map(tag => tag.trim()).filter(Boolean),
+        language,
+      });
+      onOpenChange(false);
+    } catch (error) {
+      // Error toast is shown by the hook
+      console.error("Failed to save question to the bank:", error);
+    }
+  };
+
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-lg">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <BookmarkPlus className="w-5 h-5" /> Save to question bank
+          </DialogTitle>
+          <DialogDescription>
+            Save a copy of this question so it can be inserted into other surveys. Later edits here don't change the saved copy.
+          </DialogDescription>
+        </DialogHeader>
+
+        {question && (
+          <div className="space-y-4">
+            <p className="rounded-md border border-border bg-muted/40 p-3 text-sm text-foreground">
+              {getText(question.text, "en")}
+            </p>
+            <div className="space-y-2">
+              <Label htmlFor="bank-tags">Tags</Label>
+              <Input
+                id="bank-tags"
+                value={tags}
+                onChange={(e) => setTags(e.target.value)}
+                placeholder="e.g. demographics, nps"
+              />
+              <p className="text-xs text-muted-foreground">Separate tags with commas.</p>
+            </div>
+            <div className="space-y-2">
+              <Label>Language</Label>
+              <Select value={language} onValueChange={(value) => setLanguage(value as BankLanguage)}>
+                <SelectTrigger className="w-48">
+                  <SelectValue />
+                </SelectTrigger>
+                <SelectContent>
+                  {SURVEY_LANGUAGES.map(option => (
+                    <SelectItem key={option} value={option}>{option}</SelectItem>
+                  ))}
+                </SelectContent>
+              </Select>
+            </div>
+          </div>
+        )}
+
+        <DialogFooter>
+          <Button variant="outline" onClick={() => onOpenChange(false)}>Cancel</Button>
+          <Button onClick={handleSave} disabled={!question || createItem.isPending}>
+            {createItem.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+            Save
+          </Button>
+        </DialogFooter>
+      </DialogContent>
+    </Dialog>
+  );
+}
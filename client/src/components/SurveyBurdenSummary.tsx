@@ -0,0 +1,38 @@
+import { AlertTriangle, Clock } from "lucide-react";
+import { cn } from "@/lib/utils";
+import { getBurdenWarnings, type SurveyBurden } from "@/lib/surveyBurden";
+
+interface SurveyBurdenSummaryProps {
+  burden: SurveyBurden;
+  className?: string;
+}
+
+/**
+ * SurveyBurdenSummary - Completion time, question and page counts, and a
+ * warning for every burden threshold the survey goes over
+ */
+export function SurveyBurdenSummary({ burden, className }: SurveyBurdenSummaryProps) {
+  const warnings = getBurdenWarnings(burden);
+
+  return (
+    <div className={cn("rounded-xl border border-border bg-white px-4 py-3 text-sm", className)}>
+      <div className="flex flex-wrap items-center gap-x-4 gap-y-1 text-muted-foreground">
+        <span className="flex items-center gap-1 font-medium text-foreground">
+          <Clock className="w-4 h-4" /> About {burden.minutes} min to complete
+        </span>
+        <span>{burden.questionCount} question{burden.questionCount === 1 ? "" : "s"}</span>
+        <span>{burden.pageCount} page{burden.pageCount === 1 ? "" : "s"}</span>
+      </div>
+      {warnings.length > 0 && (
+        <ul className="mt-2 space-y-1 text-amber-800">
+          {warnings.map((warning) => (
+            <li key={warning} className="flex items-start gap-2">
+              <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0 text-amber-500" />
+              <span>{warning}. Long surveys get more drop-offs and rushed answers.</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
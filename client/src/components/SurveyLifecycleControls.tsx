@@ -0,0 +1,199 @@
+import { useEffect, useState } from "react";
+import { format } from "date-fns";
+import { AlertTriangle, CalendarClock, Loader2, Lock, RotateCcw, Send, Square } from "lucide-react";
+import { Button } from "./ui/button";
+import { Badge } from "./ui/badge";
+import { Input } from "./ui/input";
+import { Label } from "./ui/label";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogFooter,
+  DialogDescription,
+} from "./ui/dialog";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "./ui/alert-dialog";
+import { SurveyQualityReport } from "./SurveyQualityDialog";
+import { useSurveyTransition } from "@/hooks/use-surveys";
+import { checkSurveyQuality } from "@/lib/surveyQuality";
+import { getCollectionState, getPublishIssues, type CollectionState } from "@shared/lifecycle";
+import type { Survey } from "@shared/schema";
+
+const STATE_BADGES: Record<CollectionState, { label: string; variant: "default" | "secondary" | "outline" }> = {
+  draft: { label: "Draft", variant: "outline" },
+  scheduled: { label: "Scheduled", variant: "secondary" },
+  open: { label: "Collecting responses", variant: "default" },
+  closed: { label: "Closed", variant: "secondary" },
+};
+
+const formatTime = (value: Date | string) => format(new Date(value), "MMM d, yyyy h:mm a");
+
+interface SurveyLifecycleControlsProps {
+  survey: Survey;
+}
+
+/**
+ * SurveyLifecycleControls - Status badge with the publish / close / reopen actions
+ *
+ * Publishing opens a dialog that lists what still has to be fixed (the same
+ * checks the server runs) or lets the author schedule when collection opens
+ * and closes, next to the advisory quality report. Both times are optional.
+ */
+export function SurveyLifecycleControls({ survey }: SurveyLifecycleControlsProps) {
+  const transition = useSurveyTransition();
+  const [isPublishOpen, setIsPublishOpen] = useState(false);
+  const [isCloseConfirmOpen, setIsCloseConfirmOpen] = useState(false);
+  const [opensAt, setOpensAt] = useState("");
+  const [closesAt, setClosesAt] = useState("");
+
+  const state = getCollectionState(survey);
+  const issues = getPublishIssues(survey);
+  const scheduleError =
+    closesAt && new Date(closesAt) <= new Date() ? "The close time must be in the future." :
+    opensAt && closesAt && new Date(closesAt) <= new Date(opensAt) ? "The close time must be after the open time." :
+    null;
+
+  useEffect(() => {
+    if (!isPublishOpen) return;
+    setOpensAt("");
+    setClosesAt("");
+  }, [isPublishOpen]);
+
+  const schedule = [
+    survey.opensAt && state === "scheduled" && `Opens ${formatTime(survey.opensAt)}`,
+    survey.closesAt && state === "open" && `Closes ${formatTime(survey.closesAt)}`,
+    survey.closedAt && state === "closed" && `Closed ${formatTime(survey.closedAt)}`,
+  ].filter(Boolean).join(" · ");
+
+  const handlePublish = async () => {
+    try {
+      await transition.mutateAsync({
+        id: survey.id,
+        transition: "publish",
+        // datetime-local values are local time
+        opensAt: opensAt ? new Date(opensAt) : null,
+        closesAt: closesAt ? new Date(closesAt) : null,
+      });
+      setIsPublishOpen(false);
+    } catch (error) {
+      // Error toast is shown by the hook
+      console.error("Failed to publish survey:", error);
+    }
+  };
+
+  const handleTransition = async (name: "close" | "reopen") => {
+    try {
+      await transition.mutateAsync({ id: survey.id, transition: name });
+    } catch (error) {
+      // Error toast is shown by the hook
+      console.error(`Failed to ${name} survey:`, error);
+    }
+  };
+
+  return (
+    <div className="flex items-center gap-2">
+      <Badge variant={STATE_BADGES[state].variant} title={schedule || undefined} className="gap-1 whitespace-nowrap">
+        {state !== "draft" && <Lock className="w-3 h-3" />}
+        {STATE_BADGES[state].label}
+      </Badge>
+
+      {survey.status === "draft" && (
+        <Button size="sm" onClick={() => setIsPublishOpen(true)}>
+          <Send className="w-4 h-4 mr-2" /> Publish
+        </Button>
+      )}
+      {survey.status === "active" && (
+        <Button variant="outline" size="sm" onClick={() => setIsCloseConfirmOpen(true)} disabled={transition.isPending}>
+          <Square className="w-4 h-4 mr-2" /> Close
+        </Button>
+      )}
+      {survey.status === "completed" && (
+        <Button variant="outline" size="sm" onClick={() => handleTransition("reopen")} disabled={transition.isPending}>
+          <RotateCcw className="w-4 h-4 mr-2" /> Reopen
+        </Button>
+      )}
+
+      <Dialog open={isPublishOpen} onOpenChange={setIsPublishOpen}>
+        <DialogContent className="max-w-lg">
+          <DialogHeader>
+            <DialogTitle className="flex items-center gap-2">
+              <Send className="w-5 h-5" /> Publish survey
+            </DialogTitle>
+            <DialogDescription>
+              Once published, the questions are locked so every response answers the same survey.
+            </DialogDescription>
+          </DialogHeader>
+
+          {issues.length > 0 ? (
+            <div className="space-y-2">
+              <p className="text-sm font-medium text-destructive flex items-center gap-2">
+                <AlertTriangle className="w-4 h-4" /> Fix these before publishing:
+              </p>
+              <ul className="max-h-60 overflow-y-auto list-disc pl-6 space-y-1 text-sm text-foreground">
+                {issues.map((issue, idx) => (
+                  <li key={idx}>{issue.message}</li>
+                ))}
+              </ul>
+            </div>
+          ) : (
+            <div className="space-y-4">
+              <div className="space-y-2">
+                <Label htmlFor="publish-opens-at" className="flex items-center gap-2">
+                  <CalendarClock className="w-4 h-4" /> Open at
+                </Label>
+                <Input id="publish-opens-at" type="datetime-local" value={opensAt} onChange={(e) => setOpensAt(e.target.value)} />
+                <p className="text-xs text-muted-foreground">Leave empty to start collecting responses now.</p>
+              </div>
+              <div className="space-y-2">
+                <Label htmlFor="publish-closes-at" className="flex items-center gap-2">
+                  <CalendarClock className="w-4 h-4" /> Close at
+                </Label>
+                <Input id="publish-closes-at" type="datetime-local" value={closesAt} onChange={(e) => setClosesAt(e.target.value)} />
+                <p className="text-xs text-muted-foreground">Leave empty to keep it open until you close it.</p>
+              </div>
+              {scheduleError && <p className="text-sm text-destructive">{scheduleError}</p>}
+              {/* Advisory only - it never blocks publishing */}
+              <div className="space-y-2 border-t border-border pt-4">
+                <p className="text-sm font-medium text-secondary">Quality check</p>
+                <SurveyQualityReport report={checkSurveyQuality(survey)} />
+              </div>
+            </div>
+          )}
+
+          <DialogFooter>
+            <Button variant="outline" onClick={() => setIsPublishOpen(false)}>Cancel</Button>
+            <Button onClick={handlePublish} disabled={issues.length > 0 || !!scheduleError || transition.isPending}>
+              {transition.isPending && <Loader2 className="w-4 h-4 mr-2 animate-spin" />}
+              Publish
+            </Button>
+          </DialogFooter>
+        </DialogContent>
+      </Dialog>
+
+      <AlertDialog open={isCloseConfirmOpen} onOpenChange={setIsCloseConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Close survey?</AlertDialogTitle>
+            <AlertDialogDescription>
+              Respondents won't be able to submit answers anymore. You can reopen the survey later.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction onClick={() => handleTransition("close")}>Close survey</AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
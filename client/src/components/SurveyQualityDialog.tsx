@@ -0,0 +1,90 @@
+import { AlertCircle, AlertTriangle, CheckCircle2, ClipboardCheck, Clock } from "lucide-react";
+import { Badge } from "./ui/badge";
+import {
+  Dialog,
+  DialogContent,
+  DialogHeader,
+  DialogTitle,
+  DialogDescription,
+} from "./ui/dialog";
+import { cn } from "@/lib/utils";
+import type { QualityReport } from "@/lib/surveyQuality";
+
+interface SurveyQualityReportProps {
+  report: QualityReport;
+  className?: string;
+}
+
+/**
+ * SurveyQualityReport - Summary and issue list of a quality check (errors first)
+ */
+export function SurveyQualityReport({ report, className }: SurveyQualityReportProps) {
+  const errors = report.issues.filter(issue => issue.severity === "error");
+  const warnings = report.issues.filter(issue => issue.severity === "warning");
+
+  return (
+    <div className={cn("space-y-3", className)}>
+      <div className="flex flex-wrap items-center gap-2 text-sm">
+        {report.issue_count === 0 ? (
+          <span className="flex items-center gap-1 font-medium text-green-700">
+            <CheckCircle2 className="w-4 h-4" /> No quality issues found
+          </span>
+        ) : (
+          <>
+            {errors.length > 0 && (
+              <Badge variant="destructive">{errors.length} error{errors.length === 1 ? "" : "s"}</Badge>
+            )}
+            {warnings.length > 0 && (
+              <Badge variant="secondary">{warnings.length} warning{warnings.length === 1 ? "" : "s"}</Badge>
+            )}
+          </>
+        )}
+        <span className="ml-auto flex items-center gap-1 text-muted-foreground">
+          <Clock className="w-4 h-4" /> About {report.estimated_minutes} min to complete
+        </span>
+      </div>
+
+      {report.issue_count > 0 && (
+        <ul className="max-h-72 overflow-y-auto space-y-1 text-sm">
+          {[...errors, ...warnings].map((issue, idx) => (
+            <li key={idx} className="flex items-start gap-2">
+              {issue.severity === "error" ? (
+                <AlertCircle className="w-4 h-4 mt-0.5 flex-shrink-0 text-destructive" />
+              ) : (
+                <AlertTriangle className="w-4 h-4 mt-0.5 flex-shrink-0 text-amber-500" />
+              )}
+              <span>{issue.message}</span>
+            </li>
+          ))}
+        </ul>
+      )}
+    </div>
+  );
+}
+
+interface SurveyQualityDialogProps {
+  open: boolean;
+  onOpenChange: (open: boolean) => void;
+  report: QualityReport;
+}
+
+/**
+ * SurveyQualityDialog - Builder's "Check quality" report
+ */
+export function SurveyQualityDialog({ open, onOpenChange, report }: SurveyQualityDialogProps) {
+  return (
+    <Dialog open={open} onOpenChange={onOpenChange}>
+      <DialogContent className="max-w-2xl">
+        <DialogHeader>
+          <DialogTitle className="flex items-center gap-2">
+            <ClipboardCheck className="w-5 h-5" /> Quality check
+          </DialogTitle>
+          <DialogDescription>
+            Automated checks for problems respondents would run into. Errors should be fixed before publishing; warnings are worth a second look.
+          </DialogDescription>
+        </DialogHeader>
+        <SurveyQualityReport report={report} />
+      </DialogContent>
+    </Dialog>
+  );
+}
@@ -0,0 +1,79 @@
+import { Check, LayoutTemplate, Loader2 } from "lucide-react";
+import { Badge } from "./ui/badge";
+import { useSurveyTemplates } from "@/hooks/use-surveys";
+import { cn } from "@/lib/utils";
+import type { SurveyTemplate } from "@shared/schema";
+
+interface TemplatePickerProps {
+  selectedId: number | null;
+  /**
+   * Called with the clicked template, or null when the selected one is clicked again
+   */
+  onSelect: (template: SurveyTemplate | null) => void;
+}
+
+// "human_resources" -> "Human resources"
+function formatCategory(category: string): string {
+  const label = category.replace(/_/g, " ");
+  return label.charAt(0).toUpperCase() + label.slice(1);
+}
+
+/**
+ * TemplatePicker - Grid of survey templates for the config wizard's first step
+ *
+ * Shows the built-in catalog followed by templates saved from other surveys.
+ * Selecting a template is optional; clicking it again clears the selection.
+ */
+export function TemplatePicker({ selectedId, onSelect }: TemplatePickerProps) {
+  const { data: templates, isLoading, isError } = useSurveyTemplates();
+
+  if (isLoading) {
+    return (
+      <div className="py-6 flex justify-center">
+        <Loader2 className="w-5 h-5 animate-spin text-primary" />
+      </div>
+    );
+  }
+  if (isError || !templates?.length) {
+    return <p className="text-sm text-muted-foreground">No templates available.</p>;
+  }
+
+  return (
+    <div className="grid grid-cols-1 md:grid-cols-2 gap-3">
+      {templates.map(template => {
+        const selected = template.id === selectedId;
+        const questionCount = template.structure.sections.reduce((total, section) => total + section.questions.length, 0);
+        return (
+          <button
+            key={template.id}
+            type="button"
+            onClick={() => onSelect(selected ? null : template)}
+            aria-pressed={selected}
+            className={cn(
+              "text-left rounded-xl border-2 p-4 transition-all",
+              selected ? "border-primary bg-primary/5" : "border-border hover:border-primary/40",
+            )}
+          >
+            <div className="flex items-start justify-between gap-2">
+              <span className="flex items-center gap-2 font-semibold text-secondary">
+                <LayoutTemplate className="w-4 h-4 text-primary" /> {template.name}
+              </span>
+              {selected && <Check className="w-4 h-4 text-primary flex-shrink-0" />}
+            </div>
+            {template.description && (
+              <p className="text-sm text-muted-foreground mt-1">{template.description}</p>
+            )}
+            <div className="flex flex-wrap gap-1 mt-3">
+              <Badge variant="secondary" className="text-xs">{formatCategory(template.category)}</Badge>
+              <Badge variant="outline" className="text-xs">
+                {questionCount} question{questionCount === 1 ? "" : "s"}
+              </Badge>
+              {!!template.rules?.length && <Badge variant="outline" className="text-xs">Rules included</Badge>}
+              {!template.builtIn && <Badge variant="outline" className="text-xs">Saved</Badge>}
+            </div>
+          </button>
+        );
+      })}
+    </div>
+  );
+}
@@ -4,6 +4,21 @@ import {
   buildUrl,
   type CreateSurveyPlanRequest,
   type SurveyPlanResponse,
+  type SubmitResponseRequest,
+  type SaveSurveyRulesRequest,
+  type RevisionInfo,
+  type ListQuestionBankQuery,
+  type QuestionBankItemInput,
+  type ListSurveysQuery,
+  type BulkSurveyAction,
+  type PublishSurveyRequest,
+  type ReopenSurveyRequest,
+  type CreateSurveyFromTemplateRequest,
+  type SaveSurveyAsTemplateRequest,
+  type ImportQuestionnaireRequest,
+  type CreateSurveyFromImportRequest,
+  SKIPPED_RULES_HEADER,
+  skippedRulesHeaderSchema,
 } from "@shared/routes";
 import {
   type CreateSurveyRequest,
@@ -26,6 +41,7 @@ import {
 import { toPlannerLanguageCode } from "@/lib/language";
 import { PromptValidationError } from "@/lib/promptValidationError";
 import { RulesGenerationValidationError } from "@/lib/rulesGenerationError";
+import { ResponseValidationError } from "@/lib/responseValidationError";
 import { getText } from "@/lib/bilingual";
 
 // Export PromptValidationError for use in UI components
@@ -35,17 +51,85 @@ export { PromptValidationError } from "@/lib/promptValidationError";
 // SURVEY HOOKS
 // ============================================
 
-export function useSurveys() {
+// Server-managed fields for surveys built locally when the API is unavailable (frontend-only mode)
+const LOCAL_SURVEY_DEFAULTS = {
+  structureVersion: 1,
+  rules: null,
+  rulesMetadata: null,
+  rulesStructureVersion: null,
+  rulesStale: false,
+  archivedAt: null,
+  opensAt: null,
+  closesAt: null,
+  publishedAt: null,
+  closedAt: null,
+};
+
+/**
+ * One page of surveys from GET /api/surveys, filtered and sorted on the server.
+ * Unset filters are left out of the query string; archived surveys are excluded by default.
+ */
+export function useSurveys(query: Partial<ListSurveysQuery> = {}) {
   return useQuery({
-    queryKey: [api.surveys.list.path],
+    queryKey: [api.surveys.list.path, query],
     queryFn: async () => {
-      const res = await fetch(api.surveys.list.path);
+      const params = new URLSearchParams();
+      Object.entries(query).forEach(([key, value]) => {
+        if (value === undefined || value === null || value === "") return;
+        params.set(key, value instanceof Date ? value.toISOString() : String(value));
+      });
+      const search = params.toString();
+      const res = await fetch(`${buildUrl(api.surveys.list.path)}${search ? `?${search}` : ""}`);
       if (!res.ok) throw new Error("Failed to fetch surveys");
       return api.surveys.list.responses[200].parse(await res.json());
     },
   });
 }
 
+/**
+ * Archive, unarchive, delete or change the status of several surveys at once.
+ * Ids that no longer exist are skipped by the server and reported in `notFound`.
+ */
+export function useBulkSurveyAction() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: BulkSurveyAction) => {
+      const res = await fetch(buildUrl(api.surveys.bulk.path), {
+        method: api.surveys.bulk.method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        if (res.status === 400) {
+          const error = api.surveys.bulk.responses[400].parse(await res.json());
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to update surveys");
+      }
+      return api.surveys.bulk.responses[200].parse(await res.json());
+    },
+    onSuccess: (result, data) => {
+      queryClient.invalidateQueries({ queryKey: [api.surveys.list.path] });
+      result.affected.forEach(id => {
+        if (data.action === "delete") {
+          queryClient.removeQueries({ queryKey: [api.surveys.get.path, id] });
+        } else {
+          queryClient.invalidateQueries({ queryKey: [api.surveys.get.path, id] });
+        }
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Bulk action failed",
+        description: error instanceof Error ? error.message : "Failed to update surveys. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
 export function useSurvey(id: number | null) {
   return useQuery({
     queryKey: [api.surveys.get.path, id],
@@ -69,7 +153,8 @@ export function useSurvey(id: number | null) {
                 status: "draft" as const,
                 structure,
                 createdAt: new Date(),
-                updatedAt: new Date()
+                updatedAt: new Date(),
+                ...LOCAL_SURVEY_DEFAULTS,
               };
             }
           } catch (e) {
@@ -91,7 +176,8 @@ export function useSurvey(id: number | null) {
                 status: "draft" as const,
                 structure,
                 createdAt: new Date(),
-                updatedAt: new Date()
+                updatedAt: new Date(),
+                ...LOCAL_SURVEY_DEFAULTS,
               };
             }
           } catch (e) {
@@ -115,7 +201,8 @@ export function useSurvey(id: number | null) {
                 status: "draft" as const,
                 structure,
                 createdAt: new Date(),
-                updatedAt: new Date()
+                updatedAt: new Date(),
+                ...LOCAL_SURVEY_DEFAULTS,
               };
             }
           } catch (e) {
@@ -156,7 +243,8 @@ export function useCreateSurvey() {
             status: data.status || "draft",
             structure: null,
             createdAt: new Date(),
-            updatedAt: new Date()
+            updatedAt: new Date(),
+            ...LOCAL_SURVEY_DEFAULTS,
           };
         }
         return api.surveys.create.responses[201].parse(await res.json());
@@ -172,7 +260,8 @@ export function useCreateSurvey() {
             status: data.status || "draft",
             structure: null,
             createdAt: new Date(),
-            updatedAt: new Date()
+            updatedAt: new Date(),
+            ...LOCAL_SURVEY_DEFAULTS,
           };
         }
         // For validation errors (400), still throw them as they're user input issues
@@ -189,7 +278,8 @@ export function useCreateSurvey() {
           status: data.status || "draft",
           structure: null,
           createdAt: new Date(),
-          updatedAt: new Date()
+          updatedAt: new Date(),
+          ...LOCAL_SURVEY_DEFAULTS,
         };
       }
     },
@@ -213,66 +303,648 @@ export function useUpdateSurvey() {
   const { toast } = useToast();
 
   return useMutation({
-    mutationFn: async ({ id, ...updates }: { id: number } & UpdateSurveyRequest) => {
+    mutationFn: async ({ id, ...updates }: { id: number; revision?: RevisionInfo } & UpdateSurveyRequest) => {
+      // Stand-in for the saved survey when the server isn't available (frontend-only mode)
+      const mockSurvey = () => ({
+        id,
+        name: updates.name || "Untitled Survey",
+        language: updates.language || "English",
+        collectionMode: updates.collectionMode || "web",
+        status: updates.status || "draft",
+        structure: updates.structure || null,
+        createdAt: new Date(),
+        updatedAt: new Date(),
+        ...LOCAL_SURVEY_DEFAULTS,
+      });
+
+      let res: Response;
       try {
         const url = buildUrl(api.surveys.update.path, { id });
-        const res = await fetch(url, {
+        res = await fetch(url, {
           method: api.surveys.update.method,
           headers: { 'Content-Type': 'application/json' },
           body: JSON.stringify(updates),
         });
+      } catch (error) {
+        // Network error - return mock response instead of throwing
+        console.warn("Survey update network error, using mock response for frontend-only mode:", error);
+        return mockSurvey();
+      }
 
-        if (!res.ok) {
-          // If server is not available, return a mock response instead of throwing
-          console.warn("Survey update API failed, using mock response for frontend-only mode");
-          return {
-            id,
-            name: updates.name || "Untitled Survey",
-            language: updates.language || "English",
-            collectionMode: updates.collectionMode || "web",
-            status: updates.status || "draft",
-            structure: updates.structure || null,
-            createdAt: new Date(),
-            updatedAt: new Date()
-          };
-        }
+      // The server refused the change (locked structure, status change, invalid input) - it was not saved
+      if (res.status >= 400 && res.status < 500) {
+        const error = await res.json().catch(() => null);
+        throw new Error(error?.message || "The survey could not be saved.");
+      }
+      if (!res.ok) {
+        // If server is not available, return a mock response instead of throwing
+        console.warn("Survey update API failed, using mock response for frontend-only mode");
+        return mockSurvey();
+      }
+      try {
         return api.surveys.update.responses[200].parse(await res.json());
       } catch (error) {
-        // Network error or any other error - return mock response instead of throwing
-        if (error instanceof TypeError && error.message.includes('fetch')) {
-          console.warn("Survey update network error, using mock response for frontend-only mode");
-          return {
-            id,
-            name: updates.name || "Untitled Survey",
-            language: updates.language || "English",
-            collectionMode: updates.collectionMode || "web",
-            status: updates.status || "draft",
-            structure: updates.structure || null,
-            createdAt: new Date(),
-            updatedAt: new Date()
-          };
-        }
         // For other errors (like parsing), still return mock to prevent crashes
         console.warn("Survey update error, using mock response:", error);
-        return {
-          id,
-          name: updates.name || "Untitled Survey",
-          language: updates.language || "English",
-          collectionMode: updates.collectionMode || "web",
-          status: updates.status || "draft",
-          structure: updates.structure || null,
-          createdAt: new Date(),
-          updatedAt: new Date()
-        };
+        return mockSurvey();
       }
     },
     onSuccess: (data) => {
       queryClient.invalidateQueries({ queryKey: [api.surveys.list.path] });
       queryClient.invalidateQueries({ queryKey: [api.surveys.get.path, data.id] });
+      queryClient.invalidateQueries({ queryKey: [api.revisions.list.path, data.id] });
       // Only show success toast if API was actually available (we can't easily detect this, so we'll skip it in mock mode)
       // toast({ title: "Survey Updated", description: "Changes saved successfully." });
     },
-    // No onError handler - we always return mock data on failure, so it's treated as success
+    // Only changes the server refused get here; an unavailable server is treated as success (mock data)
+    onError: (error) => {
+      toast({
+        title: "Changes not saved",
+        description: error instanceof Error ? error.message : "The survey could not be saved.",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Copy a survey into a new draft using POST /api/surveys/{id}/duplicate.
+ *
+ * The server copies metadata, structure and rules. The planner thread is not
+ * shared: the copy is edited in the builder only, so changes to one survey
+ * never rewrite the other's plan.
+ */
+export function useDuplicateSurvey() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, name }: { id: number; name?: string }) => {
+      const res = await fetch(buildUrl(api.surveys.duplicate.path, { id }), {
+        method: api.surveys.duplicate.method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(name ? { name } : {}),
+      });
+      if (!res.ok) {
+        if (res.status === 400 || res.status === 404) {
+          const error = await res.json();
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to duplicate survey");
+      }
+      return api.surveys.duplicate.responses[201].parse(await res.json());
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [api.surveys.list.path] });
+      toast({ title: "Survey duplicated", description: `"${data.name}" was created as a draft.` });
+    },
+    onError: (error) => {
+      toast({
+        title: "Duplicate failed",
+        description: error instanceof Error ? error.message : "Failed to duplicate survey. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Publish, close or reopen a survey (POST /api/surveys/{id}/{transition}).
+ *
+ * The server refuses transitions the survey's status doesn't allow, and refuses
+ * to publish while getPublishIssues (@shared/lifecycle) finds problems.
+ */
+export function useSurveyTransition() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, transition, ...schedule }: { id: number } & (
+      | ({ transition: "publish" } & PublishSurveyRequest)
+      | { transition: "close" }
+      | ({ transition: "reopen" } & ReopenSurveyRequest)
+    )) => {
+      const endpoint = api.surveys[transition];
+      const res = await fetch(buildUrl(endpoint.path, { id }), {
+        method: endpoint.method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(schedule),
+      });
+      if (!res.ok) {
+        if (res.status === 400 || res.status === 404 || res.status === 409) {
+          const error = await res.json();
+          throw new Error(error.message);
+        }
+        throw new Error(`Failed to ${transition} survey`);
+      }
+      return endpoint.responses[200].parse(await res.json());
+    },
+    onSuccess: (survey, { transition }) => {
+      queryClient.invalidateQueries({ queryKey: [api.surveys.get.path, survey.id] });
+      queryClient.invalidateQueries({ queryKey: [api.surveys.list.path] });
+      const title = { publish: "Survey published", close: "Survey closed", reopen: "Survey reopened" }[transition];
+      toast({ title, description: `"${survey.name}" is now ${survey.status}.` });
+    },
+    onError: (error, { transition }) => {
+      toast({
+        title: `Couldn't ${transition} the survey`,
+        description: error instanceof Error ? error.message : "Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Save a survey's rules using PUT /api/surveys/{id}/rules.
+ *
+ * The server records the structure version the rules belong to and clears the
+ * stale flag; later structure changes through useUpdateSurvey mark them stale again.
+ * There is no mock fallback - unsaved rules stay on the page so they can be saved again.
+ */
+export function useSaveSurveyRules() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, ...data }: { id: number } & SaveSurveyRulesRequest) => {
+      const res = await fetch(buildUrl(api.surveys.saveRules.path, { id }), {
+        method: api.surveys.saveRules.method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        if (res.status === 400) {
+          const error = api.surveys.saveRules.responses[400].parse(await res.json());
+          throw new Error(error.message);
+        }
+        if (res.status === 404) {
+          throw new Error("This survey could not be found.");
+        }
+        if (res.status === 409) {
+          const error = api.surveys.saveRules.responses[409].parse(await res.json());
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to save rules");
+      }
+      return api.surveys.saveRules.responses[200].parse(await res.json());
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [api.surveys.get.path, data.id] });
+    },
+    onError: (error) => {
+      let message = "Failed to save rules. Please try again.";
+      if (error instanceof TypeError && error.message.includes("fetch")) {
+        message = "Could not reach the server. Your rules are still on this page - try saving again.";
+      } else if (error instanceof Error) {
+        message = error.message;
+      }
+      toast({ title: "Rules not saved", description: message, variant: "destructive" });
+    },
+  });
+}
+
+// ============================================
+// REVISION HOOKS
+// ============================================
+
+/**
+ * List a survey's structure revisions (newest first).
+ * Revisions are recorded by the server whenever useUpdateSurvey changes the structure.
+ */
+export function useSurveyRevisions(id: number | null, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: [api.revisions.list.path, id],
+    enabled: !!id && (options?.enabled ?? true),
+    queryFn: async () => {
+      if (!id) throw new Error("ID required");
+      const res = await fetch(buildUrl(api.revisions.list.path, { id }));
+      if (!res.ok) throw new Error("Failed to fetch revisions");
+      return api.revisions.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+/**
+ * Restore a survey's structure to an earlier revision.
+ *
+ * This hook calls POST /api/surveys/{id}/revisions/{revisionId}/restore.
+ * The restore is recorded as a new revision, so it can itself be undone.
+ */
+export function useRestoreSurveyRevision() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, revisionId }: { id: number; revisionId: number }) => {
+      const res = await fetch(buildUrl(api.revisions.restore.path, { id, revisionId }), {
+        method: api.revisions.restore.method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({}),
+      });
+      if (!res.ok) {
+        if (res.status === 404) {
+          const error = api.revisions.restore.responses[404].parse(await res.json());
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to restore revision");
+      }
+      return api.revisions.restore.responses[200].parse(await res.json());
+    },
+    onSuccess: (data) => {
+      queryClient.invalidateQueries({ queryKey: [api.surveys.get.path, data.id] });
+      queryClient.invalidateQueries({ queryKey: [api.revisions.list.path, data.id] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Restore failed",
+        description: error instanceof Error ? error.message : "Failed to restore revision. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// ============================================
+// TEMPLATE HOOKS
+// ============================================
+
+/**
+ * List survey templates: the built-in catalog first, then templates saved from surveys.
+ */
+export function useSurveyTemplates() {
+  return useQuery({
+    queryKey: [api.templates.list.path],
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.templates.list.path));
+      if (!res.ok) throw new Error("Failed to fetch templates");
+      return api.templates.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+/**
+ * Create a survey with a template's structure (and rules, if it has any).
+ *
+ * This hook calls POST /api/templates/{id}/surveys. Bilingual templates are
+ * converted to the requested survey language by the server.
+ */
+export function useCreateSurveyFromTemplate() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ templateId, ...data }: { templateId: number } & CreateSurveyFromTemplateRequest) => {
+      const res = await fetch(buildUrl(api.templates.createSurvey.path, { id: templateId }), {
+        method: api.templates.createSurvey.method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        if (res.status === 400 || res.status === 404) {
+          const error = await res.json();
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to create survey from template");
+      }
+      return api.templates.createSurvey.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.surveys.list.path] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Template unavailable",
+        description: error instanceof Error ? error.message : "Failed to create survey from template. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Save a survey's current structure (and optionally its rules) as a new template.
+ */
+export function useSaveSurveyAsTemplate() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ surveyId, ...data }: { surveyId: number } & Partial<SaveSurveyAsTemplateRequest> & { name: string }) => {
+      const res = await fetch(buildUrl(api.templates.saveFromSurvey.path, { id: surveyId }), {
+        method: api.templates.saveFromSurvey.method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        if (res.status === 400 || res.status === 404) {
+          const error = await res.json();
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to save template");
+      }
+      return api.templates.saveFromSurvey.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.templates.list.path] });
+      toast({ title: "Template saved", description: "It is now available when creating a survey." });
+    },
+    onError: (error) => {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : "Failed to save template. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// ============================================
+// IMPORT HOOKS
+// ============================================
+
+/**
+ * Parse an uploaded XLSForm or CSV question list into a structure, with
+ * everything that couldn't be imported listed in `issues`. Nothing is saved.
+ */
+export function useParseQuestionnaire() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: ImportQuestionnaireRequest) => {
+      const res = await fetch(buildUrl(api.surveys.parseImport.path), {
+        method: api.surveys.parseImport.method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        if (res.status === 400) {
+          const error = await res.json();
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to read the questionnaire");
+      }
+      return api.surveys.parseImport.responses[200].parse(await res.json());
+    },
+    onError: (error) => {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Failed to read the questionnaire. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Create a survey with an imported structure (see useParseQuestionnaire).
+ * Bilingual imports are converted to the requested survey language by the server.
+ */
+export function useCreateSurveyFromImport() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: CreateSurveyFromImportRequest) => {
+      const res = await fetch(buildUrl(api.surveys.createFromImport.path), {
+        method: api.surveys.createFromImport.method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        if (res.status === 400) {
+          const error = await res.json();
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to create survey from import");
+      }
+      return api.surveys.createFromImport.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.surveys.list.path] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Import failed",
+        description: error instanceof Error ? error.message : "Failed to create survey from import. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// ============================================
+// EXPORT HOOKS
+// ============================================
+
+/**
+ * List the formats surveys can be exported to (registered on the server).
+ */
+export function useExportFormats() {
+  return useQuery({
+    queryKey: [api.surveys.exportFormats.path],
+    queryFn: async () => {
+      const res = await fetch(buildUrl(api.surveys.exportFormats.path));
+      if (!res.ok) throw new Error("Failed to fetch export formats");
+      return api.surveys.exportFormats.responses[200].parse(await res.json());
+    },
+  });
+}
+
+/**
+ * Download a survey in an export format. Rules the format can't express are
+ * left out of the file; the server lists them in a header and they are shown
+ * in a toast so the export doesn't pass for complete.
+ */
+export function useExportSurvey() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ id, format }: { id: number; format: string }) => {
+      const res = await fetch(`${buildUrl(api.surveys.export.path, { id })}?format=${encodeURIComponent(format)}`);
+      if (!res.ok) {
+        if (res.status === 400 || res.status === 404) {
+          const error = await res.json();
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to export survey");
+      }
+      const header = res.headers.get(SKIPPED_RULES_HEADER);
+      const skippedRules = header ? skippedRulesHeaderSchema.parse(JSON.parse(decodeURIComponent(header))) : [];
+      const fileName = /filename="([^"]+)"/.exec(res.headers.get("Content-Disposition") ?? "")?.[1] ?? `survey-${id}`;
+
+      const url = URL.createObjectURL(await res.blob());
+      const link = document.createElement("a");
+      link.href = url;
+      link.download = fileName;
+      link.click();
+      URL.revokeObjectURL(url);
+      return { skippedRules };
+    },
+    onSuccess: ({ skippedRules }) => {
+      if (skippedRules.length === 0) return;
+      const listed = skippedRules.slice(0, 3).map(rule => `${rule.description}: ${rule.reason}`);
+      if (skippedRules.length > 3) listed.push(`and ${skippedRules.length - 3} more`);
+      toast({
+        title: `${skippedRules.length} rule${skippedRules.length === 1 ? "" : "s"} left out of the export`,
+        description: listed.join("; "),
+      });
+    },
+    onError: (error) => {
+      toast({
+        title: "Export failed",
+        description: error instanceof Error ? error.message : "Failed to export survey. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// ============================================
+// QUESTION BANK HOOKS
+// ============================================
+
+/**
+ * Search the question bank (most recently updated first).
+ * Empty filters are left out of the query string.
+ */
+export function useQuestionBank(filters: ListQuestionBankQuery, options?: { enabled?: boolean }) {
+  return useQuery({
+    queryKey: [api.questionBank.list.path, filters],
+    enabled: options?.enabled ?? true,
+    queryFn: async () => {
+      const params = new URLSearchParams();
+      Object.entries(filters).forEach(([key, value]) => {
+        if (value) params.set(key, value);
+      });
+      const query = params.toString();
+      const res = await fetch(`${buildUrl(api.questionBank.list.path)}${query ? `?${query}` : ""}`);
+      if (!res.ok) throw new Error("Failed to fetch question bank");
+      return api.questionBank.list.responses[200].parse(await res.json());
+    },
+  });
+}
+
+/**
+ * Save a copy of a question to the question bank.
+ */
+export function useCreateQuestionBankItem() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (data: QuestionBankItemInput) => {
+      const res = await fetch(buildUrl(api.questionBank.create.path), {
+        method: api.questionBank.create.method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(data),
+      });
+      if (!res.ok) {
+        if (res.status === 400) {
+          const error = api.questionBank.create.responses[400].parse(await res.json());
+          throw new Error(error.message);
+        }
+        throw new Error("Failed to save question to the bank");
+      }
+      return api.questionBank.create.responses[201].parse(await res.json());
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.questionBank.list.path] });
+      toast({ title: "Saved to question bank" });
+    },
+    onError: (error) => {
+      toast({
+        title: "Save failed",
+        description: error instanceof Error ? error.message : "Failed to save question to the bank. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+/**
+ * Remove a question from the question bank. Surveys it was inserted into keep their copy.
+ */
+export function useDeleteQuestionBankItem() {
+  const queryClient = useQueryClient();
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async (id: number) => {
+      const res = await fetch(buildUrl(api.questionBank.delete.path, { id }), {
+        method: api.questionBank.delete.method,
+      });
+      if (!res.ok && res.status !== 404) {
+        throw new Error("Failed to delete question from the bank");
+      }
+    },
+    onSuccess: () => {
+      queryClient.invalidateQueries({ queryKey: [api.questionBank.list.path] });
+    },
+    onError: (error) => {
+      toast({
+        title: "Delete failed",
+        description: error instanceof Error ? error.message : "Failed to delete question. Please try again.",
+        variant: "destructive",
+      });
+    },
+  });
+}
+
+// ============================================
+// RESPONSE HOOKS
+// ============================================
+
+/**
+ * Submit a respondent's answers using the responses API.
+ *
+ * This hook calls POST /api/surveys/{id}/responses.
+ * Unlike the survey CRUD hooks it does NOT fall back to a mock response:
+ * silently dropping a respondent's answers is worse than showing an error,
+ * so failures surface as a toast and the runtime keeps the answers for a retry.
+ *
+ * Server-side validation failures are thrown as ResponseValidationError so the
+ * runtime can mark the offending questions.
+ */
+export function useSubmitResponse() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ surveyId, answers }: { surveyId: number } & SubmitResponseRequest) => {
+      const url = buildUrl(api.responses.create.path, { id: surveyId });
+      const res = await fetch(url, {
+        method: api.responses.create.method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ answers }),
+      });
+
+      if (!res.ok) {
+        if (res.status === 400) {
+          const error = api.responses.create.responses[400].parse(await res.json());
+          throw new ResponseValidationError(error.message, error.issues);
+        }
+        if (res.status === 404) {
+          throw new Error("This survey could not be found.");
+        }
+        throw new Error(`Failed to submit response (${res.status})`);
+      }
+      return api.responses.create.responses[201].parse(await res.json());
+    },
+    onError: (error) => {
+      let message = "Failed to submit your answers. Please try again.";
+      if (error instanceof ResponseValidationError && error.issues.length > 0) {
+        message = "Some answers need your attention. Please review the highlighted questions.";
+      } else if (error instanceof TypeError && error.message.includes("fetch")) {
+        message = "Could not reach the server. Check your connection and try again.";
+      } else if (error instanceof Error) {
+        message = error.message;
+      }
+      toast({
+        title: "Submission failed",
+        description: message,
+        variant: "destructive",
+      });
+    },
   });
 }
 
@@ -631,6 +1303,47 @@ export function useRephrasePrompt() {
   });
 }
 
+/**
+ * Ask the model for alternative wordings of a single question.
+ *
+ * This hook calls POST /api/surveys/{id}/questions/{specId}/alternatives,
+ * which returns up to three alternatives (text, options and a short rationale)
+ * of the same question type. Nothing is saved; the caller swaps in the
+ * chosen alternative.
+ */
+export function useQuestionAlternatives() {
+  const { toast } = useToast();
+
+  return useMutation({
+    mutationFn: async ({ surveyId, specId, instructions }: { surveyId: number; specId: string; instructions?: string }) => {
+      const res = await fetch(buildUrl(api.ai.alternatives.path, { id: surveyId, specId }), {
+        method: api.ai.alternatives.method,
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify(instructions ? { instructions } : {}),
+        credentials: 'include',
+      });
+      if (!res.ok) {
+        let errorMessage = "Failed to suggest alternatives";
+        try {
+          const errorData = await res.json();
+          errorMessage = errorData.error || errorData.message || errorMessage;
+        } catch {
+          errorMessage = res.statusText || errorMessage;
+        }
+        throw new Error(errorMessage);
+      }
+      return api.ai.alternatives.responses[200].parse(await res.json());
+    },
+    onError: (error) => {
+      toast({
+        title: "Suggestions failed",
+        description: error instanceof Error ? error.message : "Failed to suggest alternatives. Please try again.",
+        variant: "destructive"
+      });
+    }
+  });
+}
+
 /**
  * Approve a survey plan using the planner API.
  * 
@@ -0,0 +1,70 @@
+import { useCallback, useEffect, useRef, useState } from "react";
+
+/**
+ * One undoable change: the value before and after it, plus a label for the UI.
+ */
+export interface UndoEntry<T> {
+  label: string;
+  before: T;
+  after: T;
+}
+
+const DEFAULT_LIMIT = 50;
+
+/**
+ * In-session undo/redo stacks.
+ *
+ * The hook only keeps track of entries - applying them (state, API calls) is up
+ * to the caller: `takeUndo()` / `takeRedo()` move the top entry to the other
+ * stack and return it. Recording a new change clears the redo stack.
+ * Both stacks are cleared when `resetKey` changes (e.g. another survey is opened).
+ */
+export function useUndoHistory<T>(resetKey: unknown, limit = DEFAULT_LIMIT) {
+  const pastRef = useRef<UndoEntry<T>[]>([]);
+  const futureRef = useRef<UndoEntry<T>[]>([]);
+  // Bumped on every stack change so components re-render with the new canUndo/canRedo
+  const [, setVersion] = useState(0);
+  const bump = () => setVersion(v => v + 1);
+
+  useEffect(() => {
+    pastRef.current = [];
+    futureRef.current = [];
+    bump();
+  }, [resetKey]);
+
+  const record = useCallback((entry: UndoEntry<T>) => {
+    pastRef.current = [...pastRef.current, entry].slice(-limit);
+    futureRef.current = [];
+    bump();
+  }, [limit]);
+
+  const takeUndo = useCallback((): UndoEntry<T> | undefined => {
+    const entry = pastRef.current[pastRef.current.length - 1];
+    if (!entry) return undefined;
+    pastRef.current = pastRef.current.slice(0, -1);
+    futureRef.current = [...futureRef.current, entry];
+    bump();
+    return entry;
+  }, []);
+
+  const takeRedo = useCallback((): UndoEntry<T> | undefined => {
+    const entry = futureRef.current[futureRef.current.length - 1];
+    if (!entry) return undefined;
+    futureRef.current = futureRef.current.slice(0, -1);
+    pastRef.current = [...pastRef.current, entry];
+    bump();
+    return entry;
+  }, []);
+
+  return {
+    record,
+    takeUndo,
+    takeRedo,
+    canUndo: pastRef.current.length > 0,
+    canRedo: futureRef.current.length > 0,
+    /** Label of the change the next undo reverts */
+    undoLabel: pastRef.current[pastRef.current.length - 1]?.label,
+    /** Label of the change the next redo re-applies */
+    redoLabel: futureRef.current[futureRef.current.length - 1]?.label,
+  };
+}
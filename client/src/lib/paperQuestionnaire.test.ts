@@ -0,0 +1,102 @@
+import { describe, expect, it } from "vitest";
+import type { RuleAction, RuleCondition, SurveyRule } from "@shared/rules";
+import type { SurveyStructure } from "@shared/schema";
+import { buildPaperQuestionnaire } from "./paperQuestionnaire";
+
+const condition = (question_id: string, operator: string, value: unknown): RuleCondition => ({
+  left_side: { type: "question", question_id },
+  operator,
+  right_side: { type: "value", value },
+});
+
+const rule = (rule_id: string, conditions: RuleCondition[], actions: RuleAction[], description_en = ""): SurveyRule => ({
+  meta_rule: { rule_id, rule_type: actions[0]?.type ?? "", description_en, description_ar: "" },
+  conditions,
+  actions,
+});
+
+const show = (...targets: string[]): RuleAction => ({ type: "show_question", action_element: targets.join(",") });
+const hide = (...targets: string[]): RuleAction => ({ type: "hide_question", action_element: targets.join(",") });
+
+const structure: SurveyStructure = {
+  sections: [
+    {
+      title: "Habits",
+      questions: [
+        { spec_id: "smoker", text: "Do you smoke?", type: "radio", options: ["Yes", "No"] },
+        { spec_id: "cigarettes", text: "Cigarettes a day", type: "number" },
+        { spec_id: "exercise", text: "How often do you exercise?", type: "radio", options: ["Daily", "Weekly", "Never"] },
+      ],
+    },
+    {
+      title: "Sport",
+      questions: [
+        { spec_id: "sport", text: "Which sport?", type: "text_field" },
+        { spec_id: "comments", text: "Comments", type: "text_area" },
+      ],
+    },
+  ],
+};
+
+// English routing and notes of every question that has some, by question number
+function printed(rules: SurveyRule[]) {
+  const questions = buildPaperQuestionnaire(structure, rules).flatMap(page => page.questions);
+  return Object.fromEntries(questions
+    .filter(question => question.instructions.length || question.notes.length)
+    .map(question => [question.number, {
+      instructions: question.instructions.map(text => text.en),
+      notes: question.notes.map(text => text.en),
+    }]));
+}
+
+describe("buildPaperQuestionnaire", () => {
+  it("numbers questions across pages", () => {
+    const pages = buildPaperQuestionnaire(structure, []);
+    expect(pages.map(page => page.questions.map(question => [question.key, question.number]))).toEqual([
+      [["smoker", 1], ["cigarettes", 2], ["exercise", 3]],
+      [["sport", 4], ["comments", 5]],
+    ]);
+  });
+
+  it("routes past the questions an equals or not_equals rule skips", () => {
+    expect(printed([rule("R1", [condition("smoker", "equals", "Yes")], [show("cigarettes")])]))
+      .toEqual({ 1: { instructions: ["If No, go to Q3"], notes: [] } });
+    expect(printed([rule("R1", [condition("smoker", "not_equals", "Yes")], [hide("cigarettes")])]))
+      .toEqual({ 1: { instructions: ["If No, go to Q3"], notes: [] } });
+  });
+
+  it("routes on the answers an in rule leaves out", () => {
+    expect(printed([rule("R1", [condition("exercise", "in", ["Daily", "Weekly"])], [show("sport")])]))
+      .toEqual({ 3: { instructions: ["If Never, go to Q5"], notes: [] } });
+  });
+
+  it("ends the questionnaire when the skipped questions are the last ones", () => {
+    expect(printed([rule("R1", [condition("exercise", "equals", "Daily")], [show("sport", "comments")])]))
+      .toEqual({ 3: { instructions: ["If Weekly or Never, end the questionnaire"], notes: [] } });
+  });
+
+  it("names the skipped questions when they don't directly follow", () => {
+    expect(printed([rule("R1", [condition("smoker", "equals", "No")], [hide("cigarettes", "sport")])]))
+      .toEqual({ 1: { instructions: ["If No, skip Q2, Q4"], notes: [] } });
+    expect(printed([rule("R1", [condition("smoker", "equals", "No")], [hide("sport", "comments")])]))
+      .toEqual({ 1: { instructions: ["If No, skip Q4–Q5"], notes: [] } });
+  });
+
+  it("prints rules that can't be routed as notes on their targets", () => {
+    expect(printed([
+      // Paper only routes forward
+      rule("R1", [condition("exercise", "equals", "Daily")], [show("smoker")]),
+      rule("R2", [condition("smoker", "equals", "Yes"), condition("cigarettes", "greater_than", 10)], [hide("comments")]),
+      rule("R3", [condition("cigarettes", "is_not_empty", "")], [show("sport")], "Only for smokers"),
+    ])).toEqual({
+      1: { instructions: [], notes: ["Answer only if Q3 is Daily"] },
+      4: { instructions: [], notes: ["Only for smokers"] },
+      5: { instructions: [], notes: ["Don't answer if Q1 is Yes and Q2 is more than 10"] },
+    });
+  });
+
+  it("prints rules without conditions only when they hide", () => {
+    expect(printed([rule("R1", [], [show("sport")]), rule("R2", [], [hide("comments")])]))
+      .toEqual({ 5: { instructions: [], notes: ["Don't answer this question"] } });
+  });
+});
@@ -0,0 +1,227 @@
+import { getOptionValues, getQuestionKey, normalizeQuestionType } from "@shared/answers";
+import {
+  getActionTargets,
+  getActionType,
+  getConditionValues,
+  normalizeOperator,
+  type RuleCondition,
+  type RuleOperator,
+  type SurveyRule,
+} from "@shared/rules";
+import type { SurveyQuestion, SurveyStructure } from "@shared/schema";
+import { getBothLanguages, type BilingualText } from "@/lib/bilingual";
+
+/**
+ * Paper questionnaire layout: question numbers and the routing instructions
+ * printed on a paper copy of a survey.
+ *
+ * On paper, respondents (or interviewers) follow the skip logic themselves.
+ * Show/hide rules with a single condition on an earlier single-choice
+ * question are printed under that question as "If No, go to Q7" (or "skip
+ * Q9" when the hidden questions don't directly follow it). Any other
+ * show/hide rule is printed under the questions it affects, using the rule's
+ * own description or, without one, its conditions ("Answer only if Q2 is
+ * Yes"). Required/optional rules and messages have no paper form.
+ */
+
+export interface PaperText {
+  en: string;
+  ar: string;
+}
+
+export interface PaperQuestion {
+  key: string;
+  /** 1-based, continuing across pages */
+  number: number;
+  question: SurveyQuestion;
+  /** Routing printed after the answer boxes, e.g. "If No, go to Q7" */
+  instructions: PaperText[];
+  /** Conditions on this question that can't be printed as routing, in words */
+  notes: PaperText[];
+}
+
+export interface PaperPage {
+  title: SurveyStructure["sections"][number]["title"];
+  questions: PaperQuestion[];
+}
+
+// Questions whose answer picks one option, so "If <option>, go to..." reads naturally
+const SINGLE_CHOICE_TYPES = ["radio", "dropdown_list"];
+const VISIBILITY_ACTIONS = ["show_question", "hide_question", "enable_question", "disable_question"];
+
+function findOption(options: unknown[], value: unknown): number {
+  const wanted = String(value ?? "").trim().toLowerCase();
+  return options.findIndex(option => getOptionValues(option).some(variant => variant.trim().toLowerCase() === wanted));
+}
+
+// "Q5", "Q5–Q7" or "Q5, Q9" and the Arabic equivalents
+function describeQuestions(numbers: number[], isRange: boolean): PaperText {
+  if (numbers.length === 1) return { en: `Q${numbers[0]}`, ar: `السؤال ${numbers[0]}` };
+  const first = numbers[0];
+  const last = numbers[numbers.length - 1];
+  return isRange
+    ? { en: `Q${first}–Q${last}`, ar: `الأسئلة ${first}–${last}` }
+    : { en: numbers.map(n => `Q${n}`).join(", "), ar: `الأسئلة ${numbers.join("، ")}` };
+}
+
+// How each operator reads in "Q3 is ..."; the value follows
+const OPERATOR_WORDS: Record<RuleOperator, PaperText> = {
+  equals: { en: "is", ar: "هو" },
+  not_equals: { en: "is not", ar: "ليس" },
+  greater_than: { en: "is more than", ar: "أكبر من" },
+  greater_than_or_equal: { en: "is at least", ar: "لا يقل عن" },
+  less_than: { en: "is less than", ar: "أقل من" },
+  less_than_or_equal: { en: "is at most", ar: "لا يزيد عن" },
+  contains: { en: "includes", ar: "يتضمن" },
+  not_contains: { en: "doesn't include", ar: "لا يتضمن" },
+  between: { en: "is between", ar: "بين" },
+  in: { en: "is", ar: "هو" },
+  not_in: { en: "is not", ar: "ليس" },
+  is_empty: { en: "is not answered", ar: "بلا إجابة" },
+  is_not_empty: { en: "is answered", ar: "مُجاب عنه" },
+};
+
+// One condition in words, e.g. "Q3 is Yes or Don't know"
+function describeCondition(condition: RuleCondition, questions: Map<string, PaperQuestion>): PaperText {
+  const describe = (key: unknown): PaperText => {
+    const question = questions.get(String(key ?? ""));
+    return question ? describeQuestions([question.number], false) : { en: String(key ?? ""), ar: String(key ?? "") };
+  };
+  const source = questions.get(condition.left_side?.question_id);
+  const subject = describe(condition.left_side?.question_id);
+  const operator = normalizeOperator(condition.operator);
+  const words = operator ? OPERATOR_WORDS[operator] : { en: condition.operator, ar: condition.operator };
+  if (operator === "is_empty" || operator === "is_not_empty") {
+    return { en: `${subject.en} ${words.en}`, ar: `${subject.ar} ${words.ar}` };
+  }
+
+  let values: PaperText[];
+  if (condition.right_side?.type === "question") {
+    values = [describe(condition.right_side.value)];
+  } else {
+    const options = source?.question.options ?? [];
+    values = getConditionValues(condition).map(value => {
+      const idx = findOption(options, value);
+      return idx >= 0 ? getBothLanguages(options[idx] as BilingualText) : { en: String(value), ar: String(value) };
+    });
+  }
+  const joiner = operator === "between" ? { en: " and ", ar: " و" } : { en: " or ", ar: " أو " };
+  return {
+    en: `${subject.en} ${words.en} ${values.map(value => value.en).join(joiner.en)}`,
+    ar: `${subject.ar} ${words.ar} ${values.map(value => value.ar).join(joiner.ar)}`,
+  };
+}
+
+/**
+ * Note printed under the targets of a rule that can't be printed as routing,
+ * e.g. "Answer only if Q2 is Yes"; null for a show rule that always applies.
+ *
+ * @param shows - Whether the rule shows (rather than hides) its targets
+ */
+function toConditionNote(rule: SurveyRule, shows: boolean, questions: Map<string, PaperQuestion>): PaperText | null {
+  const conditions = (rule.conditions ?? []).map(condition => describeCondition(condition, questions));
+  if (conditions.length === 0) {
+    return shows ? null : { en: "Don't answer this question", ar: "لا تجب عن هذا السؤال" };
+  }
+  const all = { en: conditions.map(c => c.en).join(" and "), ar: conditions.map(c => c.ar).join(" و") };
+  return shows
+    ? { en: `Answer only if ${all.en}`, ar: `أجب فقط إذا كان ${all.ar}` }
+    : { en: `Don't answer if ${all.en}`, ar: `لا تجب إذا كان ${all.ar}` };
+}
+
+/**
+ * Routing instruction for a rule, printed under its source question; null when the rule
+ * isn't a single condition on an earlier single-choice question.
+ *
+ * @param shows - Whether the rule shows (rather than hides) its targets
+ */
+function toRouting(rule: SurveyRule, shows: boolean, targets: PaperQuestion[], questions: Map<string, PaperQuestion>, total: number): { source: PaperQuestion; text: PaperText } | null {
+  if (rule.conditions?.length !== 1) return null;
+  const [condition] = rule.conditions;
+  const operator = normalizeOperator(condition.operator);
+  const source = questions.get(condition.left_side?.question_id);
+  if (!operator || !source || condition.right_side?.type === "question") return null;
+  if (!SINGLE_CHOICE_TYPES.includes(normalizeQuestionType(source.question.type))) return null;
+  // Paper only routes forward
+  if (targets.some(target => target.number <= source.number)) return null;
+
+  const options = source.question.options ?? [];
+  let matching: number[];
+  if (operator === "equals" || operator === "not_equals") {
+    matching = [findOption(options, condition.right_side?.value)];
+  } else if (operator === "in" || operator === "not_in") {
+    matching = getConditionValues(condition).map(value => findOption(options, value));
+  } else {
+    return null;
+  }
+  if (matching.length === 0 || matching.includes(-1)) return null;
+
+  // The answers after which the targets are skipped
+  const negated = operator === "not_equals" || operator === "not_in";
+  const skipIfMatching = shows === negated;
+  const skipWhen = options.map((_, idx) => idx).filter(idx => matching.includes(idx) === skipIfMatching);
+  if (skipWhen.length === 0 || skipWhen.length === options.length) return null;
+
+  const answers = skipWhen.map(idx => getBothLanguages(options[idx] as BilingualText));
+  const answer = { en: answers.map(a => a.en).join(" or "), ar: answers.map(a => a.ar).join(" أو ") };
+  const numbers = targets.map(target => target.number).sort((a, b) => a - b);
+  const isRange = numbers.every((n, idx) => idx === 0 || n === numbers[idx - 1] + 1);
+
+  if (isRange && numbers[0] === source.number + 1) {
+    const next = numbers[numbers.length - 1] + 1;
+    const text = next > total
+      ? { en: `If ${answer.en}, end the questionnaire`, ar: `إذا كانت الإجابة ${answer.ar}، ينتهي الاستبيان` }
+      : { en: `If ${answer.en}, go to Q${next}`, ar: `إذا كانت الإجابة ${answer.ar}، انتقل إلى السؤال ${next}` };
+    return { source, text };
+  }
+  const skipped = describeQuestions(numbers, isRange);
+  return { source, text: { en: `If ${answer.en}, skip ${skipped.en}`, ar: `إذا كانت الإجابة ${answer.ar}، تخطَّ ${skipped.ar}` } };
+}
+
+const addOnce = (list: PaperText[], text: PaperText) => {
+  if (!list.some(item => item.en === text.en && item.ar === text.ar)) list.push(text);
+};
+
+/**
+ * Number a survey's questions and work out the routing to print.
+ */
+export function buildPaperQuestionnaire(structure: SurveyStructure | null | undefined, rules: SurveyRule[] | null | undefined): PaperPage[] {
+  let number = 0;
+  const pages: PaperPage[] = (structure?.sections ?? []).map((section, sectionIdx) => ({
+    title: section.title,
+    questions: section.questions.map((question, questionIdx) => ({
+      key: getQuestionKey(question, sectionIdx, questionIdx),
+      number: ++number,
+      question,
+      instructions: [],
+      notes: [],
+    })),
+  }));
+  const questions = new Map(pages.flatMap(page => page.questions).map(question => [question.key, question]));
+
+  for (const rule of rules ?? []) {
+    for (const action of rule.actions ?? []) {
+      const type = getActionType(action, rule);
+      if (!VISIBILITY_ACTIONS.includes(type)) continue;
+      const targets = getActionTargets(action)
+        .map(target => questions.get(target))
+        .filter((target): target is PaperQuestion => !!target);
+      if (targets.length === 0) continue;
+
+      const shows = type === "show_question" || type === "enable_question";
+      const routing = toRouting(rule, shows, targets, questions, number);
+      if (routing) {
+        addOnce(routing.source.instructions, routing.text);
+        continue;
+      }
+      const note = rule.meta_rule?.description_en || rule.meta_rule?.description_ar
+        ? {
+          en: rule.meta_rule.description_en || rule.meta_rule.description_ar,
+          ar: rule.meta_rule.description_ar || rule.meta_rule.description_en,
+        }
+        : toConditionNote(rule, shows, questions);
+      if (note) targets.forEach(target => addOnce(target.notes, note));
+    }
+  }
+  return pages;
+}
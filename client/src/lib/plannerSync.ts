@@ -0,0 +1,78 @@
+import { getText, getTextArray, type BilingualText } from "./bilingual";
+import { normalizeQuestionType } from "@shared/answers";
+import type { RenderedPage } from "@shared/routes";
+import type { SurveyStructure } from "@shared/schema";
+
+/**
+ * Keeping a planner thread's plan in line with the structure edited in the builder.
+ *
+ * The planner API has no endpoint to replace a plan wholesale, so changes made
+ * in the builder (manual edits, reorders, undo/redo) are sent through the
+ * natural-language update endpoint with an exact listing of the pages and
+ * questions the plan must contain. The planner may not follow it exactly, so
+ * the plan it returns is compared with the structure that was sent
+ * (plannerMatchesStructure) before the thread is treated as up to date.
+ */
+
+/**
+ * Update instructions that put a planner thread's plan back to a known structure.
+ *
+ * @param structure - Structure the plan should match
+ * @param reason - Why the plan is being changed, e.g. "Apply changes made in the builder"
+ */
+export function buildPlannerSyncInstructions(structure: SurveyStructure, reason: string): string {
+  const lines = [
+    `${reason}. Change the survey so it contains exactly the following pages and questions, in this order,`,
+    "with the same wording, question types, options, required flags and spec_ids. Do not add, remove or reword anything else.",
+  ];
+  structure.sections.forEach((section, sectionIdx) => {
+    lines.push("", `Page ${sectionIdx + 1}: ${getText(section.title, "en")}`);
+    section.questions.forEach(question => {
+      const options = question.options?.length ? ` Options: ${getTextArray(question.options, "en").join(" | ")}` : "";
+      const required = question.required ? " (required)" : "";
+      lines.push(`- [${question.spec_id || "new"}] (${question.type})${required} ${getText(question.text, "en")}${options}`);
+    });
+  });
+  return lines.join("\n");
+}
+
+/**
+ * Convert the planner's rendered_pages to the builder's structure format.
+ */
+export function renderedPagesToStructure(pages: RenderedPage[]): SurveyStructure {
+  return {
+    sections: pages.map(page => ({
+      title: page.name,
+      questions: page.questions.map(q => ({
+        text: q.question_text,
+        type: q.question_type,
+        options: q.options || [],
+        spec_id: q.spec_id,
+        required: q.required,
+        validation: q.validation,
+        skip_logic: q.skip_logic,
+        scale: q.scale,
+      })),
+    })),
+  };
+}
+
+const normalizeText = (value: string) => value.trim().replace(/\s+/g, " ").toLowerCase();
+
+// Everything a sync must get right, in both languages (spec_ids and page titles are left to the planner)
+function structureSignature(structure: SurveyStructure): string {
+  const texts = (value: BilingualText) => [normalizeText(getText(value, "en")), normalizeText(getText(value, "ar"))];
+  return JSON.stringify(structure.sections.map(section => section.questions.map(question => [
+    normalizeQuestionType(question.type),
+    !!question.required,
+    texts(question.text),
+    (question.options || []).map(texts),
+  ])));
+}
+
+/**
+ * Whether a plan returned by the planner has the same pages and questions as the structure sent to it.
+ */
+export function plannerMatchesStructure(planned: SurveyStructure, expected: SurveyStructure): boolean {
+  return structureSignature(planned) === structureSignature(expected);
+}
@@ -0,0 +1,74 @@
+import {
+  getText,
+  getTextArray,
+  getBothLanguages,
+  getBothLanguagesArray,
+  isBilingualContent,
+  type UserLanguage,
+} from "./bilingual";
+import { toPlannerLanguageCode } from "./language";
+import type { QuestionType } from "@/components/QuestionCard";
+
+/**
+ * Helpers that turn a raw structure question into QuestionCard display props.
+ *
+ * Structure questions may carry plain strings, bilingual objects {en, ar}
+ * or combined "English / Arabic" strings. BuilderPage does this extraction
+ * inline; runtime-style views (respondent runtime, rule simulation) share it here.
+ */
+
+export interface DisplayLanguage {
+  /** Render one card with both English and Arabic text */
+  isBilingual: boolean;
+  /** Language to extract when not bilingual */
+  userLang: UserLanguage;
+}
+
+/**
+ * Work out how a survey should be displayed from its language label and content.
+ * Content is checked too, because some "English" surveys come back bilingual from the planner.
+ *
+ * @param surveyLanguage - Survey language label ("English" | "Arabic" | "Bilingual")
+ * @param sampleText - Text of the first question, used for content-based detection
+ */
+export function getDisplayLanguage(surveyLanguage: string, sampleText?: any): DisplayLanguage {
+  const code = toPlannerLanguageCode(surveyLanguage);
+  const isBilingual = code === "both" || (sampleText ? isBilingualContent(sampleText) : false);
+  return {
+    isBilingual,
+    userLang: code === "ar" ? "ar" : "en",
+  };
+}
+
+/**
+ * Build the text/options/scale props QuestionCard expects for one structure question.
+ * Option values for bilingual questions are the English text, matching QuestionCard.
+ */
+export function getQuestionCardProps(question: any, display: DisplayLanguage) {
+  const { isBilingual, userLang } = display;
+  const scale = question.scale
+    ? {
+        ...question.scale,
+        labels: question.scale.labels
+          ? {
+              // QuestionCard splits bilingual labels itself, so only flatten for single-language display
+              min: isBilingual ? question.scale.labels.min : getText(question.scale.labels.min, userLang) || undefined,
+              max: isBilingual ? question.scale.labels.max : getText(question.scale.labels.max, userLang) || undefined,
+            }
+          : undefined,
+      }
+    : undefined;
+
+  return {
+    question: isBilingual ? null : getText(question.text, userLang),
+    questionBilingual: isBilingual ? getBothLanguages(question.text) : null,
+    isBilingual,
+    type: question.type as QuestionType,
+    options: isBilingual ? [] : getTextArray(question.options, userLang),
+    optionsBilingual: isBilingual ? getBothLanguagesArray(question.options) : [],
+    required: question.required,
+    validation: question.validation,
+    skip_logic: question.skip_logic,
+    scale,
+  };
+}
@@ -0,0 +1,87 @@
+import { OPTION_TYPES } from "@shared/answers";
+import type { SurveyQuestion, SurveySection, SurveyStructure } from "@shared/schema";
+import { getBothLanguages, getText, type BilingualText, type UserLanguage } from "./bilingual";
+
+/**
+ * Blank questions and pages added from the builder's palette, and copies of
+ * question bank entries inserted into a survey.
+ *
+ * New questions get a spec_id in the planner's "p{page}_q{n}" format that is
+ * not used anywhere else in the survey, so rules and answers can refer to them.
+ */
+
+// Types that use scale min/max/labels
+export const SCALE_TYPES = ["scale", "emoji_question"];
+
+type BilingualLabel = { en: string; ar: string };
+
+const localize = (label: BilingualLabel, isBilingual: boolean): any => (isBilingual ? label : label.en);
+
+/**
+ * Next free spec_id for a question added to the given (0-based) section.
+ */
+export function generateSpecId(structure: SurveyStructure, sectionIdx: number): string {
+  const used = new Set(structure.sections.flatMap(section => section.questions.map(q => q.spec_id).filter(Boolean)));
+  const page = sectionIdx + 1;
+  let n = (structure.sections[sectionIdx]?.questions.length ?? 0) + 1;
+  while (used.has(`p${page}_q${n}`)) n++;
+  return `p${page}_q${n}`;
+}
+
+/**
+ * A new question of the given type with placeholder text, and placeholder
+ * options or scale where the type needs them.
+ */
+export function createBlankQuestion(type: string, specId: string, isBilingual: boolean): SurveyQuestion {
+  const question: SurveyQuestion = {
+    text: localize({ en: "New question", ar: "سؤال جديد" }, isBilingual),
+    type,
+    spec_id: specId,
+    required: false,
+  };
+  if (OPTION_TYPES.includes(type)) {
+    question.options = [1, 2].map(n => localize({ en: `Option ${n}`, ar: `الخيار ${n}` }, isBilingual));
+  }
+  if (SCALE_TYPES.includes(type)) {
+    question.scale = { min: 1, max: 5 };
+  }
+  return question;
+}
+
+/**
+ * A new, empty page. `pageNumber` is 1-based.
+ */
+export function createBlankSection(pageNumber: number, isBilingual: boolean): SurveySection {
+  return {
+    title: localize({ en: `Page ${pageNumber}`, ar: `الصفحة ${pageNumber}` }, isBilingual),
+    questions: [],
+  };
+}
+
+/**
+ * Copy of a question bank entry for insertion into a survey: gets a fresh
+ * spec_id, and its text is converted to the survey's language format
+ * ({en, ar} for bilingual surveys, a plain string in `userLang` otherwise).
+ */
+export function fromBankQuestion(
+  question: SurveyQuestion,
+  specId: string,
+  isBilingual: boolean,
+  userLang: UserLanguage = "en",
+): SurveyQuestion {
+  const convert = (field: unknown): any => {
+    if (field === undefined || field === null) return field;
+    return isBilingual ? getBothLanguages(field as BilingualText) : getText(field as BilingualText, userLang);
+  };
+  const labels = question.scale?.labels;
+  return {
+    ...question,
+    spec_id: specId,
+    text: convert(question.text),
+    options: question.options?.map(convert),
+    scale: question.scale && {
+      ...question.scale,
+      ...(labels ? { labels: { min: convert(labels.min), max: convert(labels.max) } } : {}),
+    },
+  };
+}
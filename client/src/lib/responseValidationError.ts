@@ -0,0 +1,19 @@
+import type { AnswerValidationIssue } from "@shared/answers";
+
+/**
+ * Custom error class for rejected survey submissions (HTTP 400 from the responses API).
+ * 
+ * The server re-validates every submission against the stored survey structure
+ * and reports one issue per offending question (keyed by spec_id), so the
+ * runtime can highlight the exact questions instead of showing a generic error.
+ */
+export class ResponseValidationError extends Error {
+  readonly statusCode: number = 400;
+  readonly issues: AnswerValidationIssue[];
+
+  constructor(message: string, issues: AnswerValidationIssue[] = []) {
+    super(message);
+    this.name = "ResponseValidationError";
+    this.issues = issues;
+  }
+}
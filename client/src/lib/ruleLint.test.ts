@@ -0,0 +1,144 @@
+import { describe, expect, it } from "vitest";
+import type { RuleAction, RuleCondition, SurveyRule } from "@shared/rules";
+import type { SurveySection } from "@shared/schema";
+import { lintRules } from "./ruleLint";
+
+const condition = (question_id: string, operator: string, value: unknown): RuleCondition => ({
+  left_side: { type: "question", question_id },
+  operator,
+  right_side: { type: "value", value },
+});
+
+const rule = (rule_id: string, conditions: RuleCondition[], actions: RuleAction[]): SurveyRule => ({
+  meta_rule: { rule_id, rule_type: actions[0]?.type ?? "", description_en: "", description_ar: "" },
+  conditions,
+  actions,
+});
+
+const show = (target: string): RuleAction => ({ type: "show_question", action_element: target });
+const hide = (target: string): RuleAction => ({ type: "hide_question", action_element: target });
+
+const sections: SurveySection[] = [{
+  title: "Page 1",
+  questions: [
+    { spec_id: "color", text: "Color", type: "radio", options: ["Red / أحمر", "Blue"] },
+    { spec_id: "age", text: "Age", type: "number" },
+    { spec_id: "notes", text: "Notes", type: "text_area" },
+    { spec_id: "pets", text: "Pets", type: "checkbox_list", options: ["Cat", "Dog"] },
+  ],
+}];
+
+const codes = (rules: SurveyRule[]) => lintRules(sections, rules).map(issue => issue.code);
+
+describe("lintRules", () => {
+  it("accepts rules that fit the survey", () => {
+    expect(lintRules(sections, [
+      rule("R1", [condition("color", "equals", "أحمر")], [show("notes")]),
+      rule("R2", [condition("age", ">=", 18)], [{ type: "hide_answer", action_element: "pets", action_answer: "Dog" }]),
+    ])).toEqual([]);
+  });
+
+  it("flags references to questions that aren't in the survey", () => {
+    const issues = lintRules(sections, [
+      rule("R1", [condition("gone", "equals", "x")], [show("missing")]),
+      rule("R2", [{ ...condition("age", "greater_than", "other"), right_side: { type: "question", value: "other" } }], [show("notes")]),
+    ]);
+    expect(issues.map(issue => [issue.rule_id, issue.code, issue.spec_id])).toEqual([
+      ["R1", "unknown_question", "gone"],
+      ["R1", "unknown_question", "missing"],
+      ["R2", "unknown_question", "other"],
+    ]);
+  });
+
+  it("flags unsupported operators and operators that don't fit the question", () => {
+    expect(codes([rule("R1", [condition("age", "matches", 1)], [show("notes")])])).toEqual(["unsupported_operator"]);
+    expect(codes([rule("R1", [condition("notes", "greater_than", 1)], [show("age")])])).toEqual(["operator_type_mismatch"]);
+  });
+
+  it("flags values and answers that aren't options", () => {
+    const issues = lintRules(sections, [
+      rule("R1", [condition("color", "in", ["Red", "Green"])], [{ type: "show_answer", action_element: "pets", action_answer: "Fish" }]),
+    ]);
+    expect(issues.map(issue => issue.message)).toEqual([
+      '"Green" is not an option of color',
+      '"Fish" is not an option of pets',
+    ]);
+  });
+
+  describe("cycles", () => {
+    it("reports a question controlling its own visibility once", () => {
+      const issues = lintRules(sections, [
+        rule("R1", [condition("color", "is_not_empty", null)], [hide("age")]),
+        rule("R2", [condition("age", "is_not_empty", null)], [show("notes")]),
+        rule("R3", [condition("notes", "is_not_empty", null)], [hide("color")]),
+      ]).filter(issue => issue.code === "cycle");
+      expect(issues).toHaveLength(1);
+      expect(issues[0].message).toBe("color → age → notes → color: color controls its own visibility (rules R1, R2, R3)");
+    });
+
+    it("ignores chains without a loop and actions that don't steer questions", () => {
+      expect(codes([
+        rule("R1", [condition("color", "is_not_empty", null)], [hide("age")]),
+        rule("R2", [condition("age", "is_not_empty", null)], [{ type: "require_question", action_element: "color" }]),
+      ])).toEqual([]);
+    });
+
+    it("stays fast on densely connected rules", () => {
+      const many: SurveySection[] = [{
+        title: "Page 1",
+        questions: Array.from({ length: 40 }, (_, idx) => ({ spec_id: `q${idx}`, text: `Q${idx}`, type: "number" })),
+      }];
+      const rules: SurveyRule[] = [];
+      for (let from = 0; from < 40; from++) {
+        for (let to = from + 1; to < 40; to++) rules.push(rule(`R${from}_${to}`, [condition(`q${from}`, "equals", 1)], [show(`q${to}`)]));
+      }
+      rules.push(rule("back", [condition("q39", "equals", 1)], [show("q0")]));
+      const cycles = lintRules(many, rules).filter(issue => issue.code === "cycle");
+      expect(cycles.length).toBeGreaterThan(0);
+    });
+  });
+
+  describe("contradictions", () => {
+    it("reports opposite actions in one rule as an error", () => {
+      const [issue] = lintRules(sections, [rule("R1", [], [hide("notes"), show("notes")])]);
+      expect(issue).toMatchObject({ code: "contradiction", severity: "error", spec_id: "notes" });
+    });
+
+    it("warns about opposite actions from rules that can fire together", () => {
+      const issues = lintRules(sections, [
+        rule("R1", [condition("age", "greater_than_or_equal", 18)], [hide("notes")]),
+        rule("R2", [condition("age", "less_than_or_equal", 18)], [show("notes")]),
+      ]);
+      expect(issues).toMatchObject([{ code: "contradiction", severity: "warning", rule_id: "R1", related_rule_id: "R2" }]);
+    });
+
+    it("accepts opposite actions from rules that exclude each other", () => {
+      const exclusive: [string, unknown, string, unknown][] = [
+        ["equals", "Red", "equals", "Blue"],
+        ["equals", "Red", "not_equals", "Red"],
+        ["is_empty", null, "equals", "Blue"],
+      ];
+      for (const [opA, valueA, opB, valueB] of exclusive) {
+        expect(codes([
+          rule("R1", [condition("color", opA, valueA)], [hide("notes")]),
+          rule("R2", [condition("color", opB, valueB)], [show("notes")]),
+        ])).toEqual([]);
+      }
+    });
+
+    it("treats strict bounds as exclusive at any magnitude", () => {
+      const ranges: [string, number, string, number][] = [
+        ["greater_than", 5, "less_than", 5],
+        ["greater_than", 1000, "equals", 1000],
+        ["less_than", 1e9, "between", 1e9],
+      ];
+      for (const [opA, valueA, opB, valueB] of ranges) {
+        const valueOf = (operator: string, value: number) => operator === "between" ? [value, value + 10] : value;
+        expect(codes([
+          rule("R1", [condition("age", opA, valueOf(opA, valueA))], [hide("notes")]),
+          rule("R2", [condition("age", opB, valueOf(opB, valueB))], [show("notes")]),
+        ])).toEqual([]);
+      }
+    });
+  });
+});
@@ -0,0 +1,334 @@
+import { getOptionValues, getQuestionKey, normalizeQuestionType } from "@shared/answers";
+import {
+  getActionTargets,
+  getActionType,
+  getConditionValues,
+  getOperatorsForQuestionType,
+  normalizeOperator,
+  type RuleCondition,
+  type RuleOperator,
+  type SurveyRule,
+} from "@shared/rules";
+import type { SurveySection, SurveyQuestion } from "@shared/schema";
+
+/**
+ * Static checks for survey rules against the current survey structure.
+ *
+ * The planner backend reports invalid_spec_ids / is_stale for the version it
+ * generated against, but rules go stale as soon as questions are edited
+ * locally. These checks run entirely in the browser on whatever structure
+ * is loaded, so problems show up before the survey goes live.
+ */
+
+export type RuleLintCode =
+  | "unknown_question"
+  | "unsupported_operator"
+  | "operator_type_mismatch"
+  | "unknown_option"
+  | "cycle"
+  | "contradiction";
+
+export interface RuleLintIssue {
+  rule_id: string;
+  /** Errors break the rule at runtime; warnings are probably unintended */
+  severity: "error" | "warning";
+  code: RuleLintCode;
+  message: string;
+  /** Question the issue is about, when there is one */
+  spec_id?: string;
+  /** Other rule involved (contradictions, cycles) */
+  related_rule_id?: string;
+}
+
+const CHOICE_TYPES = ["radio", "dropdown_list", "checkbox_list", "rank"];
+const MULTI_VALUE_TYPES = ["checkbox_list", "rank"];
+const VALUE_OPERATORS: RuleOperator[] = ["equals", "not_equals", "contains", "not_contains", "in", "not_in"];
+// Actions whose targets are questions (not options or messages) and that steer other questions
+const FLOW_ACTIONS = ["hide_question", "show_question", "disable_question", "enable_question"];
+const OPPOSITE_ACTIONS: Record<string, string> = {
+  hide_question: "show_question",
+  disable_question: "enable_question",
+  require_question: "optional_question",
+  hide_answer: "show_answer",
+};
+
+const normalizeValue = (value: unknown) => String(value ?? "").trim().toLowerCase();
+
+function isKnownOption(question: SurveyQuestion, value: unknown): boolean {
+  const allowed = new Set((question.options || []).flatMap(getOptionValues).map(normalizeValue));
+  return allowed.has(normalizeValue(value));
+}
+
+interface NumericRange {
+  min: number;
+  max: number;
+  /** The bound itself is outside the range (greater_than / less_than) */
+  minExclusive?: boolean;
+  maxExclusive?: boolean;
+}
+
+// Numeric range a condition restricts its question to, or null when it isn't a range condition
+function getRange(operator: RuleOperator, values: unknown[]): NumericRange | null {
+  const numbers = values.map(Number);
+  if (numbers.length === 0 || numbers.some(n => !Number.isFinite(n))) return null;
+  const [first, second] = numbers;
+  switch (operator) {
+    case "equals": return numbers.length === 1 ? { min: first, max: first } : null;
+    case "greater_than": return { min: first, max: Infinity, minExclusive: true };
+    case "greater_than_or_equal": return { min: first, max: Infinity };
+    case "less_than": return { min: -Infinity, max: first, maxExclusive: true };
+    case "less_than_or_equal": return { min: -Infinity, max: first };
+    case "between": return second !== undefined ? { min: first, max: second } : null;
+    default: return null;
+  }
+}
+
+// Whether every value of the lower range is below every value of the upper one
+const endsBefore = (lower: NumericRange, upper: NumericRange) =>
+  lower.max < upper.min || (lower.max === upper.min && (!!lower.maxExclusive || !!upper.minExclusive));
+
+/**
+ * Check whether two conditions on the same question can never hold at the same time.
+ * Only recognises the common cases (different equals values, equals vs not_equals,
+ * empty vs answered, disjoint numeric ranges); anything else is assumed compatible.
+ */
+function areConditionsExclusive(a: RuleCondition, b: RuleCondition, question?: SurveyQuestion): boolean {
+  if (a.left_side?.question_id !== b.left_side?.question_id) return false;
+  const opA = normalizeOperator(a.operator);
+  const opB = normalizeOperator(b.operator);
+  if (!opA || !opB) return false;
+
+  // Empty vs anything that needs an answer
+  const needsAnswer = (op: RuleOperator) => !["is_empty", "not_equals", "not_contains", "not_in"].includes(op);
+  if ((opA === "is_empty" && needsAnswer(opB)) || (opB === "is_empty" && needsAnswer(opA))) return true;
+
+  const valuesA = getConditionValues(a).map(normalizeValue);
+  const valuesB = getConditionValues(b).map(normalizeValue);
+  const isMulti = question ? MULTI_VALUE_TYPES.includes(normalizeQuestionType(question.type)) : false;
+
+  // Same value, opposite operators
+  const negations: [RuleOperator, RuleOperator][] = [["equals", "not_equals"], ["contains", "not_contains"], ["in", "not_in"]];
+  for (const [positive, negative] of negations) {
+    if (((opA === positive && opB === negative) || (opA === negative && opB === positive)) &&
+        valuesA.length > 0 && valuesA.join("|") === valuesB.join("|")) {
+      return true;
+    }
+  }
+
+  // Single-answer questions can't equal two different values
+  if (!isMulti && (opA === "equals" || opA === "in") && (opB === "equals" || opB === "in")) {
+    if (valuesA.length > 0 && valuesB.length > 0 && !valuesA.some(value => valuesB.includes(value))) return true;
+  }
+
+  const rangeA = getRange(opA, getConditionValues(a));
+  const rangeB = getRange(opB, getConditionValues(b));
+  if (rangeA && rangeB) {
+    return endsBefore(rangeA, rangeB) || endsBefore(rangeB, rangeA);
+  }
+  return false;
+}
+
+function canRulesApplyTogether(a: SurveyRule, b: SurveyRule, questions: Map<string, SurveyQuestion>): boolean {
+  return !(a.conditions || []).some(condA =>
+    (b.conditions || []).some(condB =>
+      areConditionsExclusive(condA, condB, questions.get(condA.left_side?.question_id)),
+    ),
+  );
+}
+
+/**
+ * Check survey rules against the survey structure.
+ *
+ * Flags:
+ * - conditions/actions referring to spec_ids that aren't in the structure
+ * - unsupported operators and operators that don't fit the question type
+ * - condition values and action_answer options that aren't options of the question
+ * - cycles where a question controls its own visibility through other questions
+ * - pairs of rules with opposite actions on the same element that can apply at once
+ *
+ * @param sections - Current survey sections
+ * @param rules - Rules to check
+ * @returns Issues in rule order
+ */
+export function lintRules(sections: SurveySection[], rules: SurveyRule[]): RuleLintIssue[] {
+  const issues: RuleLintIssue[] = [];
+  const questions = new Map<string, SurveyQuestion>();
+  sections.forEach((section, sectionIdx) => section.questions.forEach((question, questionIdx) => {
+    questions.set(getQuestionKey(question, sectionIdx, questionIdx), question);
+  }));
+
+  for (const rule of rules) {
+    const ruleId = rule.meta_rule.rule_id;
+
+    // Conditions
+    for (const condition of rule.conditions || []) {
+      const specId = condition.left_side?.question_id;
+      const question = questions.get(specId);
+      if (!question) {
+        issues.push({
+          rule_id: ruleId, severity: "error", code: "unknown_question", spec_id: specId,
+          message: `Condition refers to ${specId || "an empty question id"}, which is not in the survey`,
+        });
+        continue;
+      }
+      if (condition.right_side?.type === "question" && !questions.has(String(condition.right_side.value))) {
+        issues.push({
+          rule_id: ruleId, severity: "error", code: "unknown_question", spec_id: String(condition.right_side.value),
+          message: `Condition compares with ${condition.right_side.value}, which is not in the survey`,
+        });
+      }
+
+      const operator = normalizeOperator(condition.operator);
+      if (!operator) {
+        issues.push({
+          rule_id: ruleId, severity: "error", code: "unsupported_operator", spec_id: specId,
+          message: `Operator "${condition.operator}" is not supported, so this condition never matches`,
+        });
+        continue;
+      }
+      const type = normalizeQuestionType(question.type);
+      if (!getOperatorsForQuestionType(type).includes(operator)) {
+        issues.push({
+          rule_id: ruleId, severity: "error", code: "operator_type_mismatch", spec_id: specId,
+          message: `Operator "${condition.operator}" does not work on ${specId} (${type.replace(/_/g, " ")})`,
+        });
+      }
+
+      if (CHOICE_TYPES.includes(type) && (question.options || []).length > 0 && VALUE_OPERATORS.includes(operator)) {
+        for (const value of getConditionValues(condition)) {
+          if (!isKnownOption(question, value)) {
+            issues.push({
+              rule_id: ruleId, severity: "error", code: "unknown_option", spec_id: specId,
+              message: `"${value}" is not an option of ${specId}`,
+            });
+          }
+        }
+      }
+    }
+
+    // Actions
+    for (const action of rule.actions || []) {
+      const type = getActionType(action, rule);
+      for (const target of getActionTargets(action)) {
+        const question = questions.get(target);
+        if (!question) {
+          issues.push({
+            rule_id: ruleId, severity: "error", code: "unknown_question", spec_id: target,
+            message: `Action targets ${target}, which is not in the survey`,
+          });
+          continue;
+        }
+        if ((type === "hide_answer" || type === "show_answer") && action.action_answer &&
+            !isKnownOption(question, action.action_answer)) {
+          issues.push({
+            rule_id: ruleId, severity: "error", code: "unknown_option", spec_id: target,
+            message: `"${action.action_answer}" is not an option of ${target}`,
+          });
+        }
+      }
+    }
+  }
+
+  issues.push(...findCycles(rules), ...findContradictions(rules, questions));
+  return issues;
+}
+
+/**
+ * Find questions that hide/show/disable/enable themselves through a chain of rules
+ * (Q1 hides Q2, Q2 hides Q1). Every group of questions controlling each other gets
+ * at least one cycle reported, and no cycle is reported twice.
+ */
+function findCycles(rules: SurveyRule[]): RuleLintIssue[] {
+  // source question → target question → rule ids creating that edge
+  const edges = new Map<string, Map<string, string[]>>();
+  for (const rule of rules) {
+    const sources = (rule.conditions || []).map(c => c.left_side?.question_id).filter(Boolean);
+    for (const action of rule.actions || []) {
+      if (!FLOW_ACTIONS.includes(getActionType(action, rule))) continue;
+      for (const target of getActionTargets(action)) {
+        for (const source of sources) {
+          if (!edges.has(source)) edges.set(source, new Map());
+          const ruleIds = edges.get(source)!.get(target) || [];
+          if (!ruleIds.includes(rule.meta_rule.rule_id)) ruleIds.push(rule.meta_rule.rule_id);
+          edges.get(source)!.set(target, ruleIds);
+        }
+      }
+    }
+  }
+
+  // Depth-first search visiting each question once: an edge back to a question
+  // still on the path closes a cycle, one issue per such edge
+  const issues: RuleLintIssue[] = [];
+  const reported = new Set<string>();
+  const done = new Set<string>();
+  const path: string[] = [];
+  const visit = (node: string) => {
+    path.push(node);
+    for (const next of Array.from(edges.get(node)?.keys() || [])) {
+      const start = path.indexOf(next);
+      if (start !== -1) {
+        const cycle = path.slice(start);
+        const signature = [...cycle].sort().join("|");
+        if (reported.has(signature)) continue;
+        reported.add(signature);
+        const ruleIds = cycle.map((from, idx) => edges.get(from)!.get(cycle[(idx + 1) % cycle.length])![0]);
+        issues.push({
+          rule_id: ruleIds[0], severity: "error", code: "cycle", spec_id: next,
+          related_rule_id: ruleIds.length > 1 ? ruleIds[ruleIds.length - 1] : undefined,
+          message: `${[...cycle, next].join(" → ")}: ${next} controls its own visibility (rules ${Array.from(new Set(ruleIds)).join(", ")})`,
+        });
+      } else if (!done.has(next)) {
+        visit(next);
+      }
+    }
+    path.pop();
+    done.add(node);
+  };
+  Array.from(edges.keys()).forEach(source => {
+    if (!done.has(source)) visit(source);
+  });
+  return issues;
+}
+
+/**
+ * Find opposite actions (hide vs show, disable vs enable...) on the same element
+ * whose rules can fire together.
+ */
+function findContradictions(rules: SurveyRule[], questions: Map<string, SurveyQuestion>): RuleLintIssue[] {
+  const effects = rules.flatMap(rule => (rule.actions || []).flatMap(action => {
+    const type = getActionType(action, rule);
+    return getActionTargets(action).map(target => ({
+      rule,
+      type,
+      // Option-level actions contradict only on the same option
+      element: type.endsWith("_answer") ? `${target} / "${action.action_answer ?? ""}"` : target,
+      target,
+    }));
+  }));
+
+  const issues: RuleLintIssue[] = [];
+  const reported = new Set<string>();
+  effects.forEach((a, idx) => {
+    effects.slice(idx + 1).forEach(b => {
+      const isOpposite = OPPOSITE_ACTIONS[a.type] === b.type || OPPOSITE_ACTIONS[b.type] === a.type;
+      if (a.element !== b.element || !isOpposite) return;
+      const sameRule = a.rule === b.rule;
+      if (!sameRule && !canRulesApplyTogether(a.rule, b.rule, questions)) return;
+
+      const signature = [a.rule.meta_rule.rule_id, b.rule.meta_rule.rule_id, a.element].join("|");
+      if (reported.has(signature)) return;
+      reported.add(signature);
+      issues.push({
+        rule_id: a.rule.meta_rule.rule_id,
+        related_rule_id: sameRule ? undefined : b.rule.meta_rule.rule_id,
+        severity: sameRule ? "error" : "warning",
+        code: "contradiction",
+        spec_id: a.target,
+        message: sameRule
+          ? `Rule both applies ${a.type.replace(/_/g, " ")} and ${b.type.replace(/_/g, " ")} to ${a.element}`
+          : `${a.type.replace(/_/g, " ")} (${a.rule.meta_rule.rule_id}) and ${b.type.replace(/_/g, " ")} (${b.rule.meta_rule.rule_id}) on ${a.element} can apply at the same time`,
+      });
+    });
+  });
+  return issues;
+}
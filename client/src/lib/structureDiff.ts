@@ -0,0 +1,137 @@
+import { getText } from "@/lib/bilingual";
+import type { SurveyStructure, SurveySection, SurveyQuestion } from "@shared/schema";
+
+/**
+ * Section-by-section comparison of two survey structures, used by the
+ * builder's revision history to show what a change added, removed or edited.
+ *
+ * Sections are matched by title, falling back to their position (AI updates
+ * often rename pages). Questions are matched within their section by spec_id,
+ * falling back to their text for questions without one.
+ */
+
+export type DiffStatus = "added" | "removed" | "changed" | "unchanged";
+
+export interface QuestionDiff {
+  status: DiffStatus;
+  before?: SurveyQuestion;
+  after?: SurveyQuestion;
+  /** Fields that differ, for "changed" questions */
+  changes: string[];
+}
+
+export interface SectionDiff {
+  status: DiffStatus;
+  before?: SurveySection;
+  after?: SurveySection;
+  titleChanged: boolean;
+  questions: QuestionDiff[];
+}
+
+export interface StructureDiffSummary {
+  added: number;
+  removed: number;
+  changed: number;
+}
+
+function sectionTitle(section: SurveySection): string {
+  return getText(section.title, "en").trim().toLowerCase();
+}
+
+function questionMatchKey(question: SurveyQuestion): string {
+  return question.spec_id ? `id:${question.spec_id}` : `text:${getText(question.text, "en").trim().toLowerCase()}`;
+}
+
+const same = (a: unknown, b: unknown) => JSON.stringify(a ?? null) === JSON.stringify(b ?? null);
+
+/**
+ * List the fields that differ between two versions of a question.
+ */
+export function getQuestionChanges(before: SurveyQuestion, after: SurveyQuestion): string[] {
+  const changes: string[] = [];
+  if (!same(before.text, after.text)) changes.push("text");
+  if (before.type !== after.type) changes.push("type");
+  if (!same(before.options, after.options)) changes.push("options");
+  if (!!before.required !== !!after.required) changes.push("required");
+  if (!same(before.scale, after.scale)) changes.push("scale");
+  if (!same(before.validation, after.validation)) changes.push("validation");
+  if (!same(before.skip_logic, after.skip_logic)) changes.push("skip logic");
+  return changes;
+}
+
+function diffQuestions(before: SurveyQuestion[], after: SurveyQuestion[]): QuestionDiff[] {
+  const remaining = [...before];
+  const diffs: QuestionDiff[] = after.map(question => {
+    const matchIdx = remaining.findIndex(candidate => questionMatchKey(candidate) === questionMatchKey(question));
+    if (matchIdx === -1) {
+      return { status: "added", after: question, changes: [] };
+    }
+    const [previous] = remaining.splice(matchIdx, 1);
+    const changes = getQuestionChanges(previous, question);
+    return { status: changes.length > 0 ? "changed" : "unchanged", before: previous, after: question, changes };
+  });
+  // Removed questions are listed after the ones that are still there
+  remaining.forEach(question => diffs.push({ status: "removed", before: question, changes: [] }));
+  return diffs;
+}
+
+/**
+ * Compare two structures. Either side may be missing (e.g. no structure yet).
+ */
+export function diffStructures(
+  before: SurveyStructure | null | undefined,
+  after: SurveyStructure | null | undefined,
+): SectionDiff[] {
+  const beforeSections = before?.sections || [];
+  const afterSections = after?.sections || [];
+  const matched = new Set<number>();
+
+  const findMatch = (section: SurveySection, idx: number): number => {
+    const byTitle = beforeSections.findIndex((candidate, candidateIdx) =>
+      !matched.has(candidateIdx) && sectionTitle(candidate) === sectionTitle(section));
+    if (byTitle !== -1) return byTitle;
+    return idx < beforeSections.length && !matched.has(idx) ? idx : -1;
+  };
+
+  const diffs: SectionDiff[] = afterSections.map((section, idx) => {
+    const matchIdx = findMatch(section, idx);
+    if (matchIdx === -1) {
+      return {
+        status: "added",
+        after: section,
+        titleChanged: false,
+        questions: section.questions.map(question => ({ status: "added", after: question, changes: [] })),
+      };
+    }
+    matched.add(matchIdx);
+    const previous = beforeSections[matchIdx];
+    const questions = diffQuestions(previous.questions, section.questions);
+    const titleChanged = !same(previous.title, section.title);
+    const changed = titleChanged || questions.some(q => q.status !== "unchanged");
+    return { status: changed ? "changed" : "unchanged", before: previous, after: section, titleChanged, questions };
+  });
+
+  beforeSections.forEach((section, idx) => {
+    if (matched.has(idx)) return;
+    diffs.push({
+      status: "removed",
+      before: section,
+      titleChanged: false,
+      questions: section.questions.map(question => ({ status: "removed", before: question, changes: [] })),
+    });
+  });
+  return diffs;
+}
+
+/**
+ * Count added, removed and changed questions across a diff.
+ */
+export function summarizeDiff(diffs: SectionDiff[]): StructureDiffSummary {
+  const summary: StructureDiffSummary = { added: 0, removed: 0, changed: 0 };
+  diffs.forEach(section => section.questions.forEach(question => {
+    if (question.status === "added") summary.added++;
+    if (question.status === "removed") summary.removed++;
+    if (question.status === "changed") summary.changed++;
+  }));
+  return summary;
+}
@@ -0,0 +1,64 @@
+import type { SurveyStructure } from "@shared/schema";
+
+/**
+ * Pure reordering helpers for survey structures, used by the builder's
+ * drag-and-drop and keyboard moves. Each returns a new structure (or the
+ * same one when the move changes nothing).
+ */
+
+export interface QuestionPosition {
+  sectionIdx: number;
+  qIdx: number;
+}
+
+/**
+ * Move a question to another position, in the same or another section.
+ * `to.qIdx` is the index the question should have after the move
+ * (it may equal the target section's length to append).
+ */
+export function moveQuestion(structure: SurveyStructure, from: QuestionPosition, to: QuestionPosition): SurveyStructure {
+  const source = structure.sections[from.sectionIdx];
+  const question = source?.questions[from.qIdx];
+  if (!question || !structure.sections[to.sectionIdx]) return structure;
+  if (from.sectionIdx === to.sectionIdx && from.qIdx === to.qIdx) return structure;
+
+  const sections = structure.sections.map(section => ({ ...section, questions: [...section.questions] }));
+  sections[from.sectionIdx].questions.splice(from.qIdx, 1);
+  const target = sections[to.sectionIdx].questions;
+  target.splice(Math.max(0, Math.min(to.qIdx, target.length)), 0, question);
+  return { ...structure, sections };
+}
+
+/**
+ * Move a whole section (page) to another index.
+ */
+export function moveSection(structure: SurveyStructure, fromIdx: number, toIdx: number): SurveyStructure {
+  if (fromIdx === toIdx || !structure.sections[fromIdx] || toIdx < 0 || toIdx >= structure.sections.length) {
+    return structure;
+  }
+  const sections = [...structure.sections];
+  const [section] = sections.splice(fromIdx, 1);
+  sections.splice(toIdx, 0, section);
+  return { ...structure, sections };
+}
+
+/**
+ * Position one step up or down from a question, crossing into the neighbouring
+ * section at the edges (end of the previous / start of the next section).
+ * @returns null when the question is already first / last in the survey
+ */
+export function getAdjacentQuestionPosition(
+  structure: SurveyStructure,
+  from: QuestionPosition,
+  step: -1 | 1,
+): QuestionPosition | null {
+  const section = structure.sections[from.sectionIdx];
+  if (!section) return null;
+  const qIdx = from.qIdx + step;
+  if (qIdx >= 0 && qIdx < section.questions.length) {
+    return { sectionIdx: from.sectionIdx, qIdx };
+  }
+  const sectionIdx = from.sectionIdx + step;
+  if (sectionIdx < 0 || sectionIdx >= structure.sections.length) return null;
+  return { sectionIdx, qIdx: step === -1 ? structure.sections[sectionIdx].questions.length : 0 };
+}
@@ -0,0 +1,103 @@
+import { describe, expect, it } from "vitest";
+import type { Plan, PlanQuestionSpec } from "@shared/routes";
+import {
+  DEFAULT_BURDEN_THRESHOLDS,
+  estimatePlanBurden,
+  estimateQuestionSeconds,
+  estimateSurveyBurden,
+  formatDuration,
+  getBurdenWarnings,
+} from "./surveyBurden";
+
+const spec = (spec_id: string, question_type: string, intent: string, options_hint: string[] = []): PlanQuestionSpec => ({
+  spec_id, question_type, intent, options_hint, language: "en", required: true,
+});
+
+type PlanInput = Parameters<typeof estimatePlanBurden>[0];
+
+const plan = (pages: Plan["pages"], counts: Partial<Omit<PlanInput, "pages">> = {}): PlanInput => ({ pages, ...counts });
+
+// Seconds per page, rounded to keep the reading time's fractions out of the way
+const pageSeconds = (burden: { pages: { seconds: number }[] }) => burden.pages.map(page => Math.round(page.seconds * 100) / 100);
+
+describe("estimateQuestionSeconds", () => {
+  it("adds reading time to the answer time of the question type", () => {
+    // 4 words read at 4 words a second, plus 6 seconds to pick an answer
+    expect(estimateQuestionSeconds({ type: "radio", text: "Pick one", options: ["Yes", "No"] })).toBe(7);
+    expect(estimateQuestionSeconds({ type: "text_area", text: "Tell us more" })).toBe(45.75);
+    // Ranking also takes 4 seconds per item
+    expect(estimateQuestionSeconds({ type: "rank", text: "Order these", options: ["A", "B", "C"] })).toBe(33.25);
+  });
+});
+
+describe("estimateSurveyBurden", () => {
+  it("adds up pages and rounds the total to whole minutes", () => {
+    const burden = estimateSurveyBurden([
+      { questions: [{ type: "text_area", text: "Tell us more" }, { type: "radio", text: "Pick one", options: ["Yes", "No"] }] },
+      { questions: [] },
+    ]);
+    expect(burden).toMatchObject({ questionCount: 2, pageCount: 2, minutes: 1 });
+    expect(pageSeconds(burden)).toEqual([52.75, 0]);
+  });
+});
+
+describe("estimatePlanBurden", () => {
+  const specPage = { name: "Basics", question_specs: [spec("q1", "radio", "Pick one", ["Yes", "No"]), spec("q2", "text_area", "Tell us more")] };
+  const briefPage = (name: string) => ({ name, section_brief: { question_count: 3 } });
+
+  it("spreads unplanned questions over the pages without specs, remainder first", () => {
+    const burden = estimatePlanBurden(plan([specPage, briefPage("Habits"), briefPage("Wrap up")], { final_number_of_questions: 7 }));
+    // 5 unplanned questions over 2 pages: floor(5 / 2) = 2 each, and the remainder of 1 to the first
+    expect(burden.pages.map(page => page.questionCount)).toEqual([2, 3, 2]);
+    expect(pageSeconds(burden)).toEqual([52.75, 36, 24]);
+    expect(burden).toMatchObject({ questionCount: 7, pageCount: 3 });
+  });
+
+  it("spreads them over every page when all pages have specs", () => {
+    const burden = estimatePlanBurden(plan([specPage, { name: "More", question_specs: [spec("q3", "email", "Email")] }], {
+      estimated_question_count: 6,
+    }));
+    expect(burden.pages.map(page => page.questionCount)).toEqual([4, 2]);
+    expect(burden.questionCount).toBe(6);
+  });
+
+  it("falls back to the spec count and leaves pages alone when nothing is unplanned", () => {
+    const burden = estimatePlanBurden(plan([specPage, briefPage("Habits")], { final_number_of_pages: 4 }));
+    expect(burden.pages.map(page => page.questionCount)).toEqual([2, 0]);
+    expect(burden).toMatchObject({ questionCount: 2, pageCount: 4 });
+    // A final count below the specs doesn't take questions away from pages
+    expect(estimatePlanBurden(plan([specPage], { final_number_of_questions: 1 })).pages[0].questionCount).toBe(2);
+  });
+});
+
+describe("getBurdenWarnings", () => {
+  const thresholds = { maxQuestions: 10, maxPages: 3, maxMinutes: 5 };
+
+  it("says nothing within the thresholds, limits included", () => {
+    expect(getBurdenWarnings({ questionCount: 10, pageCount: 3, minutes: 5 }, thresholds)).toEqual([]);
+  });
+
+  it("warns about each threshold the survey goes over", () => {
+    expect(getBurdenWarnings({ questionCount: 11, pageCount: 3, minutes: 5 }, thresholds))
+      .toEqual(["11 questions is more than the recommended 10"]);
+    expect(getBurdenWarnings({ questionCount: 10, pageCount: 4, minutes: 5 }, thresholds))
+      .toEqual(["4 pages is more than the recommended 3"]);
+    expect(getBurdenWarnings({ questionCount: 10, pageCount: 3, minutes: 6 }, thresholds))
+      .toEqual(["About 6 minutes to complete is longer than the recommended 5"]);
+    expect(getBurdenWarnings({ questionCount: 11, pageCount: 4, minutes: 6 }, thresholds)).toHaveLength(3);
+  });
+
+  it("uses the default thresholds when none are given", () => {
+    const { maxQuestions, maxPages, maxMinutes } = DEFAULT_BURDEN_THRESHOLDS;
+    expect(getBurdenWarnings({ questionCount: maxQuestions, pageCount: maxPages, minutes: maxMinutes })).toEqual([]);
+    expect(getBurdenWarnings({ questionCount: maxQuestions + 1, pageCount: 1, minutes: 1 })).toHaveLength(1);
+  });
+});
+
+describe("formatDuration", () => {
+  it("shows seconds under a minute and minutes above", () => {
+    expect(formatDuration(2)).toBe("5 sec");
+    expect(formatDuration(42)).toBe("40 sec");
+    expect(formatDuration(150)).toBe("3 min");
+  });
+});
@@ -0,0 +1,186 @@
+import { normalizeQuestionType } from "@shared/answers";
+import type { Plan, PlanQuestionSpec } from "@shared/routes";
+import type { SurveyQuestion } from "@shared/schema";
+import { getText, type BilingualText } from "@/lib/bilingual";
+
+/**
+ * Respondent burden estimates: how long a survey takes to complete and
+ * whether it is longer than respondents will put up with.
+ *
+ * Times are rough - reading the English text at a steady pace plus a fixed
+ * answer time per question type - and are meant for comparing drafts, not
+ * for promising respondents an exact duration.
+ *
+ * Thresholds:
+ * - Defaults are in DEFAULT_BURDEN_THRESHOLDS.
+ * - Override them in `client/.env` with `VITE_SURVEY_MAX_QUESTIONS`,
+ *   `VITE_SURVEY_MAX_PAGES` and `VITE_SURVEY_MAX_MINUTES`.
+ */
+
+export interface BurdenThresholds {
+  maxQuestions: number;
+  maxPages: number;
+  maxMinutes: number;
+}
+
+export const DEFAULT_BURDEN_THRESHOLDS: BurdenThresholds = {
+  maxQuestions: 30,
+  maxPages: 8,
+  maxMinutes: 15,
+};
+
+type EstimatedQuestion = Pick<SurveyQuestion, "type" | "text" | "options">;
+
+export interface PageBurden {
+  questionCount: number;
+  seconds: number;
+}
+
+export interface SurveyBurden {
+  questionCount: number;
+  pageCount: number;
+  seconds: number;
+  /** Whole minutes, at least 1 */
+  minutes: number;
+  pages: PageBurden[];
+}
+
+// Rough seconds to answer each question type, on top of reading the text
+const ANSWER_SECONDS: Record<string, number> = {
+  text_area: 45,
+  text_field: 15,
+  email: 10,
+  number: 8,
+  rank: 20,
+  checkbox_list: 12,
+};
+const DEFAULT_ANSWER_SECONDS = 6;
+// Ranking takes longer the more items there are to order
+const RANK_SECONDS_PER_ITEM = 4;
+const READING_WORDS_PER_SECOND = 4;
+// Planner pages that only have a section brief have no questions to measure yet
+const PLANNED_QUESTION_SECONDS = 12;
+
+function readThreshold(name: string, fallback: number): number {
+  const value = Number((import.meta as any).env?.[name]);
+  return Number.isFinite(value) && value > 0 ? value : fallback;
+}
+
+/**
+ * Thresholds in effect: the defaults, overridden by the VITE_SURVEY_MAX_* env vars.
+ */
+export const BURDEN_THRESHOLDS: BurdenThresholds = {
+  maxQuestions: readThreshold("VITE_SURVEY_MAX_QUESTIONS", DEFAULT_BURDEN_THRESHOLDS.maxQuestions),
+  maxPages: readThreshold("VITE_SURVEY_MAX_PAGES", DEFAULT_BURDEN_THRESHOLDS.maxPages),
+  maxMinutes: readThreshold("VITE_SURVEY_MAX_MINUTES", DEFAULT_BURDEN_THRESHOLDS.maxMinutes),
+};
+
+const wordCount = (value: string) => value.split(/\s+/).filter(Boolean).length;
+
+const englishWords = (value: unknown) => wordCount(getText(value as BilingualText, "en"));
+
+function questionSeconds(type: string, words: number, optionCount: number): number {
+  const normalized = normalizeQuestionType(type);
+  const answer = ANSWER_SECONDS[normalized] ?? DEFAULT_ANSWER_SECONDS;
+  const rankExtra = normalized === "rank" ? optionCount * RANK_SECONDS_PER_ITEM : 0;
+  return words / READING_WORDS_PER_SECOND + answer + rankExtra;
+}
+
+/**
+ * Seconds to read and answer one question, options included.
+ */
+export function estimateQuestionSeconds(question: EstimatedQuestion): number {
+  const options = question.options ?? [];
+  const words = englishWords(question.text) + options.reduce((sum, option) => sum + englishWords(option), 0);
+  return questionSeconds(question.type, words, options.length);
+}
+
+// The intent describes the question rather than asking it, but is close enough in length
+function estimateSpecSeconds(spec: PlanQuestionSpec): number {
+  const options = spec.options_hint ?? [];
+  const words = wordCount(spec.intent) + options.reduce((sum, option) => sum + wordCount(option), 0);
+  return questionSeconds(spec.question_type, words, options.length);
+}
+
+function summarize(pages: PageBurden[], questionCount?: number, pageCount?: number): SurveyBurden {
+  const seconds = pages.reduce((sum, page) => sum + page.seconds, 0);
+  return {
+    questionCount: questionCount ?? pages.reduce((sum, page) => sum + page.questionCount, 0),
+    pageCount: pageCount ?? pages.length,
+    seconds,
+    minutes: Math.max(1, Math.round(seconds / 60)),
+    pages,
+  };
+}
+
+/**
+ * Per-page and total completion time of a built survey (or generated sections).
+ */
+export function estimateSurveyBurden(sections: { questions: EstimatedQuestion[] }[]): SurveyBurden {
+  return summarize(sections.map(section => ({
+    questionCount: section.questions.length,
+    seconds: section.questions.reduce((sum, question) => sum + estimateQuestionSeconds(question), 0),
+  })));
+}
+
+/**
+ * Completion time of a planner plan, before its questions are written.
+ *
+ * Pages with question specs are measured like built questions. The final
+ * question and page counts win over what the pages list, since they are what
+ * the writer will produce; questions the specs don't cover get a flat average.
+ */
+export function estimatePlanBurden(plan: Pick<Plan, "pages" | "final_number_of_questions" | "final_number_of_pages" | "estimated_question_count">): SurveyBurden {
+  const pages = plan.pages.map(page => {
+    const specs = page.question_specs ?? [];
+    return {
+      questionCount: specs.length,
+      seconds: specs.reduce((sum, spec) => sum + estimateSpecSeconds(spec), 0),
+    };
+  });
+  const specCount = pages.reduce((sum, page) => sum + page.questionCount, 0);
+  const questionCount = plan.final_number_of_questions ?? plan.estimated_question_count ?? specCount;
+  const pageCount = plan.final_number_of_pages ?? plan.pages.length;
+
+  const unplanned = Math.max(0, questionCount - specCount);
+  if (unplanned > 0) {
+    // Spread the questions without specs over the pages that have none
+    const briefPages = pages.filter(page => page.questionCount === 0);
+    const targets = briefPages.length > 0 ? briefPages : pages;
+    targets.forEach((page, idx) => {
+      const share = Math.floor(unplanned / targets.length) + (idx < unplanned % targets.length ? 1 : 0);
+      page.questionCount += share;
+      page.seconds += share * PLANNED_QUESTION_SECONDS;
+    });
+  }
+
+  return summarize(pages, questionCount, pageCount);
+}
+
+/**
+ * Readable warnings for every threshold the survey goes over; empty when it is within all of them.
+ */
+export function getBurdenWarnings(
+  burden: Pick<SurveyBurden, "questionCount" | "pageCount" | "minutes">,
+  thresholds: BurdenThresholds = BURDEN_THRESHOLDS,
+): string[] {
+  const warnings: string[] = [];
+  if (burden.questionCount > thresholds.maxQuestions) {
+    warnings.push(`${burden.questionCount} questions is more than the recommended ${thresholds.maxQuestions}`);
+  }
+  if (burden.pageCount > thresholds.maxPages) {
+    warnings.push(`${burden.pageCount} pages is more than the recommended ${thresholds.maxPages}`);
+  }
+  if (burden.minutes > thresholds.maxMinutes) {
+    warnings.push(`About ${burden.minutes} minutes to complete is longer than the recommended ${thresholds.maxMinutes}`);
+  }
+  return warnings;
+}
+
+/**
+ * "45 sec" under a minute, otherwise rounded minutes ("3 min").
+ */
+export function formatDuration(seconds: number): string {
+  if (seconds < 60) return `${Math.max(5, Math.round(seconds / 5) * 5)} sec`;
+  return `${Math.round(seconds / 60)} min`;
+}
@@ -0,0 +1,104 @@
+import { describe, expect, it } from "vitest";
+import type { SurveyQuestion, SurveySection } from "@shared/schema";
+import { checkSurveyQuality, MAX_QUESTIONS_PER_PAGE } from "./surveyQuality";
+
+const page = (questions: SurveyQuestion[], title = "Page"): SurveySection => ({ title, questions });
+
+const check = (sections: SurveySection[], language = "English") => checkSurveyQuality({ language, structure: { sections } });
+
+const issuesOf = (sections: SurveySection[], language?: string) =>
+  check(sections, language).issues.map(issue => [issue.severity, issue.code, issue.spec_id]);
+
+describe("checkSurveyQuality", () => {
+  it("passes a well-formed survey and estimates its length", () => {
+    const report = check([page([
+      { spec_id: "visit", text: "How was your visit?", type: "radio", options: ["Good", "Bad"] },
+      { spec_id: "score", text: "Rate the staff", type: "scale", scale: { min: 1, max: 5 } },
+      { spec_id: "notes", text: "Anything else?", type: "text_area" },
+    ])]);
+    expect(report).toEqual({ passed: true, issue_count: 0, issues: [], estimated_minutes: 1 });
+  });
+
+  it("fails choice questions without two options", () => {
+    expect(issuesOf([page([
+      { spec_id: "q1", text: "Pick", type: "radio", options: [] },
+      { spec_id: "q2", text: "Choose", type: "dropdown_list", options: ["Only", " "] },
+    ])])).toEqual([
+      ["error", "missing_options", "q1"],
+      ["error", "missing_options", "q2"],
+    ]);
+    expect(check([page([{ spec_id: "q1", text: "Pick", type: "checkbox_list", options: ["A"] }])])).toMatchObject({
+      passed: false,
+      issues: [{ message: "Question q1 has only one option", section_idx: 0 }],
+    });
+  });
+
+  it("fails scales without a valid range, but lets ratings use their default", () => {
+    expect(issuesOf([page([
+      { spec_id: "q1", text: "Rate", type: "scale" },
+      { spec_id: "q2", text: "Score", type: "scale", scale: { min: 5, max: 5 } },
+      { spec_id: "q3", text: "Stars", type: "star_rating" },
+    ])])).toEqual([
+      ["error", "scale_range", "q1"],
+      ["error", "scale_range", "q2"],
+    ]);
+  });
+
+  it("warns about leading and double-barreled wording", () => {
+    const report = check([page([
+      { spec_id: "q1", text: "Don't you think the staff were friendly?", type: "text_field" },
+      { spec_id: "q2", text: "Obviously you enjoyed it, right?", type: "text_field" },
+      { spec_id: "q3", text: "Rate the food and the service", type: "scale", scale: { min: 1, max: 5 } },
+      { spec_id: "q4", text: "Where? When?", type: "text_field" },
+      // "and" in an open question is fine
+      { spec_id: "q5", text: "Tell us what you liked and disliked", type: "text_area" },
+    ])]);
+    expect(report.passed).toBe(true);
+    expect(report.issues.map(issue => [issue.code, issue.spec_id])).toEqual([
+      ["leading_wording", "q1"],
+      ["leading_wording", "q2"],
+      ["double_barreled", "q3"],
+      ["double_barreled", "q4"],
+    ]);
+    expect(report.issues[0].message).toBe("Question q1 may be leading: a negative question expects agreement");
+  });
+
+  it("warns about repeated questions, ignoring case and punctuation", () => {
+    const report = check([
+      page([{ spec_id: "age", text: "Your age?", type: "number" }]),
+      page([{ spec_id: "age_again", text: "your AGE", type: "number" }]),
+    ]);
+    expect(report.issues).toEqual([{
+      severity: "warning", code: "duplicate_text", spec_id: "age_again", section_idx: 1,
+      message: "Question age_again has the same text as question age",
+    }]);
+  });
+
+  it("warns about scales that differ from the most common range", () => {
+    const scale = (spec_id: string, max: number): SurveyQuestion => ({ spec_id, text: `Rate ${spec_id}`, type: "scale", scale: { min: 1, max } });
+    expect(check([page([scale("q1", 5), scale("q2", 5), scale("q3", 7)])]).issues).toEqual([{
+      severity: "warning", code: "scale_range", spec_id: "q3", section_idx: 0,
+      message: "Question q3 uses a 1-7 scale while most scale questions use 1-5",
+    }]);
+  });
+
+  it("warns about long pages", () => {
+    const questions = Array.from({ length: MAX_QUESTIONS_PER_PAGE + 1 }, (_, idx): SurveyQuestion => ({
+      spec_id: `q${idx + 1}`, text: `Question ${idx + 1}`, type: "text_field",
+    }));
+    expect(issuesOf([page(questions.slice(0, MAX_QUESTIONS_PER_PAGE))])).toEqual([]);
+    expect(check([page(questions)]).issues).toEqual([{
+      severity: "warning", code: "long_page", section_idx: 0,
+      message: `Page 1 has ${MAX_QUESTIONS_PER_PAGE + 1} questions; consider splitting pages longer than ${MAX_QUESTIONS_PER_PAGE}`,
+    }]);
+  });
+
+  it("fails bilingual surveys with untranslated text", () => {
+    const sections = [page([
+      { spec_id: "q1", text: "Name / الاسم", type: "text_field" },
+      { spec_id: "q2", text: "Email", type: "email" },
+    ], "Contact / التواصل")];
+    expect(issuesOf(sections, "Bilingual")).toEqual([["error", "missing_arabic", "q2"]]);
+    expect(issuesOf(sections, "English")).toEqual([]);
+  });
+});
@@ -0,0 +1,185 @@
+import { getQuestionKey, normalizeQuestionType, OPTION_TYPES } from "@shared/answers";
+import { getPublishIssues } from "@shared/lifecycle";
+import type { ValidationResult } from "@shared/routes";
+import type { Survey, SurveySection, SurveyQuestion } from "@shared/schema";
+import { getText, type BilingualText } from "@/lib/bilingual";
+import { estimateSurveyBurden } from "@/lib/surveyBurden";
+
+/**
+ * Pre-publish quality checks for a survey structure.
+ *
+ * Unlike the publish guards in @shared/lifecycle, these are advice: errors
+ * are things respondents can't answer properly (a choice question without
+ * options, an impossible scale), warnings are wording and layout problems
+ * that hurt data quality. Wording checks look at the English text only.
+ *
+ * The report reuses the planner's ValidationResult shape (passed, issue_count, issues).
+ */
+
+export type QualityIssueCode =
+  | "missing_options"
+  | "duplicate_text"
+  | "leading_wording"
+  | "double_barreled"
+  | "scale_range"
+  | "long_page"
+  | "missing_arabic";
+
+export interface QualityIssue {
+  /** Errors break the question for respondents; warnings are probably unintended */
+  severity: "error" | "warning";
+  code: QualityIssueCode;
+  message: string;
+  /** Question the issue is about, when there is one */
+  spec_id?: string;
+  /** 0-based page the issue is on */
+  section_idx?: number;
+}
+
+export interface QualityReport extends ValidationResult {
+  /** True when there are no errors (warnings don't fail the check) */
+  passed: boolean;
+  issues: QualityIssue[];
+  /** Rough time a respondent needs to answer every question */
+  estimated_minutes: number;
+}
+
+// Pages with more questions than this are tiring to scroll through
+export const MAX_QUESTIONS_PER_PAGE = 10;
+
+const SCALE_TYPES = ["scale", "star_rating", "emoji_question"];
+// Types that ask for one judgement, where "and"/"or" in the question usually means two questions
+const SINGLE_JUDGEMENT_TYPES = ["scale", "star_rating", "emoji_question", "radio", "checkbox"];
+
+// Phrases that push respondents towards an answer
+const LEADING_PATTERNS: { pattern: RegExp; reason: string }[] = [
+  { pattern: /\b(don't|doesn't|wouldn't|isn't|aren't|shouldn't|won't) (you|it|we|they)\b/i, reason: "a negative question expects agreement" },
+  { pattern: /\b(do you agree|would you agree)\b/i, reason: "asking for agreement suggests the answer" },
+  { pattern: /\b(obviously|clearly|of course|surely|everyone knows|most people)\b/i, reason: "it implies the expected answer" },
+  { pattern: /\bhow (great|good|amazing|excellent|helpful|much did you (like|love|enjoy))\b/i, reason: "it assumes a positive opinion" },
+];
+
+const englishText = (value: unknown) => getText(value as BilingualText, "en").trim();
+
+// Lowercase text without punctuation, so "Your age?" and "your age" count as duplicates
+const normalizeText = (value: string) => value.toLowerCase().replace(/[^\w\s\u0600-\u06FF]/g, "").replace(/\s+/g, " ").trim();
+
+function checkQuestion(question: SurveyQuestion, key: string, sectionIdx: number): QualityIssue[] {
+  const issues: QualityIssue[] = [];
+  const type = normalizeQuestionType(question.type);
+  const text = englishText(question.text);
+  const at = { spec_id: key, section_idx: sectionIdx };
+
+  if (OPTION_TYPES.includes(type)) {
+    const options = (question.options ?? []).filter(option => englishText(option).length > 0);
+    if (options.length < 2) {
+      issues.push({
+        ...at, severity: "error", code: "missing_options",
+        message: options.length === 0 ? `Question ${key} has no options` : `Question ${key} has only one option`,
+      });
+    }
+  }
+
+  if (SCALE_TYPES.includes(type)) {
+    const scale = question.scale;
+    // Star and emoji ratings fall back to a default range; plain scales need one
+    const isInvalid = scale ? !(Number(scale.min) < Number(scale.max)) : type === "scale";
+    if (isInvalid) {
+      issues.push({ ...at, severity: "error", code: "scale_range", message: `Question ${key} has no valid scale range` });
+    }
+  }
+
+  for (const { pattern, reason } of LEADING_PATTERNS) {
+    if (pattern.test(text)) {
+      issues.push({ ...at, severity: "warning", code: "leading_wording", message: `Question ${key} may be leading: ${reason}` });
+      break;
+    }
+  }
+
+  if ((text.match(/\?/g) ?? []).length > 1 || (SINGLE_JUDGEMENT_TYPES.includes(type) && /\b(and|or)\b/i.test(text))) {
+    issues.push({
+      ...at, severity: "warning", code: "double_barreled",
+      message: `Question ${key} may ask about two things at once; consider splitting it`,
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Scale questions should share one range so answers can be compared;
+ * flags the ones that differ from the most common range.
+ */
+function checkScaleConsistency(sections: SurveySection[]): QualityIssue[] {
+  const scales: { key: string; sectionIdx: number; range: string }[] = [];
+  sections.forEach((section, sectionIdx) => section.questions.forEach((question, questionIdx) => {
+    if (normalizeQuestionType(question.type) !== "scale" || !question.scale) return;
+    const { min, max } = question.scale;
+    if (!(Number(min) < Number(max))) return;
+    scales.push({ key: getQuestionKey(question, sectionIdx, questionIdx), sectionIdx, range: `${min}-${max}` });
+  }));
+
+  const counts = new Map<string, number>();
+  scales.forEach(({ range }) => counts.set(range, (counts.get(range) ?? 0) + 1));
+  if (counts.size < 2) return [];
+  const [commonRange] = Array.from(counts.entries()).sort((a, b) => b[1] - a[1])[0];
+
+  return scales
+    .filter(({ range }) => range !== commonRange)
+    .map(({ key, sectionIdx, range }) => ({
+      severity: "warning" as const,
+      code: "scale_range" as const,
+      spec_id: key,
+      section_idx: sectionIdx,
+      message: `Question ${key} uses a ${range} scale while most scale questions use ${commonRange}`,
+    }));
+}
+
+/**
+ * Run every quality check on a survey and estimate how long it takes to complete.
+ */
+export function checkSurveyQuality(survey: Pick<Survey, "language" | "structure">): QualityReport {
+  const sections = survey.structure?.sections ?? [];
+  const issues: QualityIssue[] = [];
+  const seenText = new Map<string, string>();
+
+  sections.forEach((section, sectionIdx) => {
+    if (section.questions.length > MAX_QUESTIONS_PER_PAGE) {
+      issues.push({
+        severity: "warning", code: "long_page", section_idx: sectionIdx,
+        message: `Page ${sectionIdx + 1} has ${section.questions.length} questions; consider splitting pages longer than ${MAX_QUESTIONS_PER_PAGE}`,
+      });
+    }
+
+    section.questions.forEach((question, questionIdx) => {
+      const key = getQuestionKey(question, sectionIdx, questionIdx);
+      issues.push(...checkQuestion(question, key, sectionIdx));
+
+      const normalized = normalizeText(englishText(question.text));
+      if (!normalized) return;
+      const firstKey = seenText.get(normalized);
+      if (firstKey) {
+        issues.push({
+          severity: "warning", code: "duplicate_text", spec_id: key, section_idx: sectionIdx,
+          message: `Question ${key} has the same text as question ${firstKey}`,
+        });
+      } else {
+        seenText.set(normalized, key);
+      }
+    });
+  });
+
+  issues.push(...checkScaleConsistency(sections));
+
+  // Same translation check the server runs before publishing
+  getPublishIssues({ language: survey.language, structure: survey.structure, rules: null, rulesStale: false })
+    .filter(issue => issue.code === "missing_arabic")
+    .forEach(issue => issues.push({ severity: "error", code: "missing_arabic", message: issue.message, spec_id: issue.spec_id }));
+
+  return {
+    passed: !issues.some(issue => issue.severity === "error"),
+    issue_count: issues.length,
+    issues,
+    estimated_minutes: estimateSurveyBurden(sections).minutes,
+  };
+}
@@ -1,12 +1,21 @@
-import { useState, useEffect, useRef } from "react";
+import { useState, useEffect, useMemo, useRef, type DragEvent, type ReactNode } from "react";
 import { useRoute, useLocation } from "wouter";
-import { ArrowLeft, Trash2, ArrowRight } from "lucide-react";
+import { ArrowLeft, Trash2, ArrowRight, ExternalLink, History, Undo2, Redo2, GripVertical, Plus, Library, LayoutTemplate, Copy, Lock, ClipboardCheck, Download, Printer } from "lucide-react";
 import { Link } from "wouter";
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
 import { HistorySidebar } from "@/components/HistorySidebar";
 import { QuestionCard } from "@/components/QuestionCard";
-import { useSurvey, useUpdateSurvey, useUpdateSurveyPlan, useDeleteQuestion, useDeletePage } from "@/hooks/use-surveys";
+import { RevisionHistoryDialog } from "@/components/RevisionHistoryDialog";
+import { QuestionAlternativesDialog } from "@/components/QuestionAlternativesDialog";
+import { QuestionBankPanel } from "@/components/QuestionBankPanel";
+import { SaveToBankDialog } from "@/components/SaveToBankDialog";
+import { SaveAsTemplateDialog } from "@/components/SaveAsTemplateDialog";
+import { QuestionPalette } from "@/components/QuestionPalette";
+import { SurveyLifecycleControls } from "@/components/SurveyLifecycleControls";
+import { SurveyQualityDialog } from "@/components/SurveyQualityDialog";
+import { SurveyBurdenSummary } from "@/components/SurveyBurdenSummary";
+import { useSurvey, useUpdateSurvey, useUpdateSurveyPlan, useDeleteQuestion, useDeletePage, useDuplicateSurvey, useExportFormats, useExportSurvey } from "@/hooks/use-surveys";
 import {
   Breadcrumb,
   BreadcrumbList,
@@ -25,10 +34,64 @@ import {
   AlertDialogHeader,
   AlertDialogTitle,
 } from "@/components/ui/alert-dialog";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuLabel,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger,
+} from "@/components/ui/dropdown-menu";
 import { useToast } from "@/hooks/use-toast";
+import { useUndoHistory } from "@/hooks/use-undo-history";
+import { buildPlannerSyncInstructions, plannerMatchesStructure, renderedPagesToStructure } from "@/lib/plannerSync";
+import { getAdjacentQuestionPosition, moveQuestion, moveSection } from "@/lib/structureMoves";
+import { createBlankQuestion, createBlankSection, generateSpecId, fromBankQuestion } from "@/lib/questionTemplates";
+import { checkSurveyQuality } from "@/lib/surveyQuality";
+import { estimateSurveyBurden, formatDuration } from "@/lib/surveyBurden";
 import { cn } from "@/lib/utils";
+import { api, buildUrl, type ResponseExportFormat } from "@shared/routes";
+import type { QuestionBankItem, RevisionSource, Survey, SurveyQuestion, SurveyStructure } from "@shared/schema";
+import { isStructureLocked } from "@shared/lifecycle";
 import { getText, getTextArray, getUserLanguagePreference, getBothLanguages, getBothLanguagesArray, shouldUseBilingual, isBilingualContent } from "@/lib/bilingual";
 
+// What is being dragged in the builder
+type DragItem =
+  | { kind: "question"; sectionIdx: number; qIdx: number }
+  | { kind: "section"; sectionIdx: number };
+
+// Where a dragged item would be dropped: the insert index in the target section (questions) or section list
+type DropTarget =
+  | { kind: "question"; sectionIdx: number; insertIdx: number }
+  | { kind: "section"; insertIdx: number };
+
+// Wait this long after the last change made in the builder before sending the structure to the planner thread
+const PLANNER_SYNC_DELAY_MS = 1500;
+const PLANNER_SYNC_REASON = "Apply the changes made in the survey builder";
+
+// Response downloads in the export menu
+const RESPONSE_EXPORTS: { format: ResponseExportFormat; label: string }[] = [
+  { format: "xlsx", label: "Excel with codebook" },
+  { format: "csv", label: "CSV" },
+  { format: "sps", label: "SPSS syntax (reads the CSV)" },
+];
+
+/**
+ * Read the planner thread_id stored when the survey was generated
+ * (survey-specific first, then the general one).
+ */
+function getStoredThreadId(surveyId: number | null): string | null {
+  try {
+    return (surveyId && localStorage.getItem(`survey_${surveyId}_thread_id`)) || localStorage.getItem("current_thread_id");
+  } catch (e) {
+    console.warn("Failed to read thread_id from localStorage:", e);
+    return null;
+  }
+}
+
+// Set while the planner thread may be missing changes made in the builder (kept across reloads)
+const plannerOutOfSyncKey = (surveyId: number) => `survey_${surveyId}_planner_out_of_sync`;
+
 /**
  * BuilderPage - Visual editor for survey structure
  * 
@@ -59,11 +122,44 @@ export default function BuilderPage() {
   const [hasThreadId, setHasThreadId] = useState<boolean>(false);
   // State to track which question is being deleted (by spec_id)
   const [deletingSpecId, setDeletingSpecId] = useState<string | null>(null);
+  // State for the revision history dialog
+  const [isRevisionHistoryOpen, setIsRevisionHistoryOpen] = useState(false);
+  // In-session undo/redo of structural changes (reset when another survey is opened)
+  const undoHistory = useUndoHistory<SurveyStructure>(surveyId);
+  // True while an undo/redo is being saved
+  const [isApplyingHistory, setIsApplyingHistory] = useState(false);
+  // Drag-and-drop reordering state
+  const [dragItem, setDragItem] = useState<DragItem | null>(null);
+  const [dropTarget, setDropTarget] = useState<DropTarget | null>(null);
+  // Move handle to re-focus after a keyboard move (its element is re-created by the re-render)
+  const [focusHandleKey, setFocusHandleKey] = useState<string | null>(null);
+  // spec_id of a question just added from the palette - its card opens in edit mode
+  const [newQuestionSpecId, setNewQuestionSpecId] = useState<string | null>(null);
+  // spec_id of the question shown in the AI alternatives dialog
+  const [alternativesSpecId, setAlternativesSpecId] = useState<string | null>(null);
+  const [isApplyingAlternative, setIsApplyingAlternative] = useState(false);
+  // Question bank: the browse panel, and the question being saved to the bank
+  const [isQuestionBankOpen, setIsQuestionBankOpen] = useState(false);
+  const [bankSaveQuestion, setBankSaveQuestion] = useState<SurveyQuestion | null>(null);
+  const [isInsertingFromBank, setIsInsertingFromBank] = useState(false);
+  const [isSaveTemplateOpen, setIsSaveTemplateOpen] = useState(false);
+  const [isQualityOpen, setIsQualityOpen] = useState(false);
+  // Pending planner sync after changes made in the builder (debounced so a burst of changes is sent once)
+  const plannerSyncTimerRef = useRef<ReturnType<typeof setTimeout> | null>(null);
+  // Planner-backed surveys: the thread's plan may not have the structure shown here
+  const [isPlannerOutOfSync, setIsPlannerOutOfSync] = useState(false);
+  // Asks before an AI edit that would drop changes the planner doesn't have
+  const [isPlannerConflictOpen, setIsPlannerConflictOpen] = useState(false);
   
   // Fetch survey data
   const { data: survey, isLoading } = useSurvey(surveyId);
+  // Published surveys are read-only here; the server refuses structure changes too
+  const isLocked = !!survey && isStructureLocked(survey);
   const updateSurvey = useUpdateSurvey();
   const updateSurveyPlan = useUpdateSurveyPlan();
+  const duplicateSurvey = useDuplicateSurvey();
+  const { data: exportFormats } = useExportFormats();
+  const exportSurvey = useExportSurvey();
   const deleteQuestion = useDeleteQuestion();
   const deletePageMutation = useDeletePage();
   
@@ -108,6 +204,11 @@ export default function BuilderPage() {
     }
     
     setHasThreadId(!!threadId);
+    try {
+      setIsPlannerOutOfSync(!!threadId && !!surveyId && localStorage.getItem(plannerOutOfSyncKey(surveyId)) === "true");
+    } catch (e) {
+      console.warn("Failed to read planner sync state from localStorage:", e);
+    }
   }, [surveyId]);
 
   // Extract survey structure - check both API response and localStorage fallback
@@ -157,6 +258,12 @@ export default function BuilderPage() {
   // Use local structure if available, otherwise fallback to survey structure
   const structure = localStructure || survey?.structure;
   const sections = structure?.sections || [];
+  // Re-run on every edit so the header count stays current
+  const qualityReport = useMemo(
+    () => checkSurveyQuality({ language: survey?.language || "English", structure: structure ?? null }),
+    [survey?.language, structure],
+  );
+  const burden = useMemo(() => estimateSurveyBurden(sections), [sections]);
 
   // Get user language preference from survey language
   const userLang = getUserLanguagePreference(survey?.language || "English");
@@ -228,8 +335,9 @@ export default function BuilderPage() {
       }
     }
 
-    // If thread_id is available, use the planner API
-    if (threadId) {
+    // If thread_id is available, use the planner API - unless its plan is missing changes made
+    // here, which deleting through it would drop
+    if (threadId && !isPlannerOutOfSync) {
       try {
         // Page numbers are 1-indexed in the API (pageToDelete is 0-indexed)
         const pageNumber = pageToDelete + 1;
@@ -266,6 +374,7 @@ export default function BuilderPage() {
           await updateSurvey.mutateAsync({
             id: survey.id,
             structure: updatedStructure,
+            revision: { source: "delete_page" },
           });
         }
 
@@ -274,6 +383,12 @@ export default function BuilderPage() {
           localStorage.setItem(`survey_${surveyId}_structure`, JSON.stringify(updatedStructure));
         }
 
+        undoHistory.record({
+          label: `Delete page ${pageNumber}`,
+          before: structure,
+          after: updatedStructure,
+        });
+
         // Show success message
         toast({
           title: "Page deleted",
@@ -309,7 +424,8 @@ export default function BuilderPage() {
         if (survey?.id) {
           await updateSurvey.mutateAsync({
             id: survey.id,
-            structure: updatedStructure
+            structure: updatedStructure,
+            revision: { source: "delete_page" },
           });
         }
 
@@ -318,6 +434,13 @@ export default function BuilderPage() {
           localStorage.setItem(`survey_${surveyId}_structure`, JSON.stringify(updatedStructure));
         }
 
+        undoHistory.record({
+          label: `Delete page ${pageToDelete + 1}`,
+          before: structure,
+          after: updatedStructure,
+        });
+        schedulePlannerSync();
+
         toast({
           title: "Page deleted",
           description: `Page ${pageToDelete + 1} has been removed from the survey.`,
@@ -380,6 +503,27 @@ export default function BuilderPage() {
       }
     }
 
+    // The planner's plan is missing changes made here, which deleting through it would drop -
+    // delete here and send the result to the planner like any other builder change
+    if (threadId && isPlannerOutOfSync && structure) {
+      const updatedStructure: SurveyStructure = {
+        ...structure,
+        sections: structure.sections.map((section: any) => ({
+          ...section,
+          questions: section.questions.filter((question: any) => question.spec_id !== spec_id),
+        })),
+      };
+      try {
+        await saveManualChange(updatedStructure, `Delete question ${spec_id}`, "delete_question");
+        toast({ title: "Question deleted", description: "Question has been deleted successfully." });
+      } catch (error) {
+        console.error("Failed to delete question:", error);
+      } finally {
+        setDeletingSpecId(null);
+      }
+      return;
+    }
+
     if (!threadId) {
       setDeletingSpecId(null); // Clear deleting state on error
       toast({
@@ -423,6 +567,7 @@ export default function BuilderPage() {
         await updateSurvey.mutateAsync({
           id: survey.id,
           structure: updatedStructure,
+          revision: { source: "delete_question" },
         });
       }
 
@@ -431,6 +576,14 @@ export default function BuilderPage() {
         localStorage.setItem(`survey_${surveyId}_structure`, JSON.stringify(updatedStructure));
       }
 
+      if (structure) {
+        undoHistory.record({
+          label: `Delete question ${spec_id}`,
+          before: structure,
+          after: updatedStructure,
+        });
+      }
+
       // Show success message
       toast({
         title: "Question deleted",
@@ -449,9 +602,13 @@ export default function BuilderPage() {
 
   /**
    * Handle submit edit - calls the update survey plan API
-   * Updates the survey plan based on natural language instructions
+   * Updates the survey plan based on natural language instructions.
+   * The planner edits its own copy of the plan, so changes made in the builder are sent
+   * to it first; if that fails, the user is asked before they are replaced.
+   *
+   * @param replaceUnsyncedChanges - Go ahead even though the planner is missing builder changes
    */
-  const handleSubmitEdit = async () => {
+  const handleSubmitEdit = async (replaceUnsyncedChanges = false) => {
     if (!editInputValue.trim()) {
       toast({
         title: "Empty input",
@@ -496,6 +653,11 @@ export default function BuilderPage() {
       return;
     }
 
+    if (!replaceUnsyncedChanges && !(await flushPlannerSync())) {
+      setIsPlannerConflictOpen(true);
+      return;
+    }
+
     try {
       // Call the update API
       const result = await updateSurveyPlan.mutateAsync({
@@ -555,6 +717,7 @@ export default function BuilderPage() {
         await updateSurvey.mutateAsync({
           id: survey.id,
           structure: updatedStructure,
+          revision: { source: "ai_update" },
         });
       }
 
@@ -568,6 +731,17 @@ export default function BuilderPage() {
         manualUpdateRef.current = false;
       }, 1000);
 
+      // The builder now shows the planner's plan
+      markPlannerOutOfSync(false);
+
+      if (structure) {
+        undoHistory.record({
+          label: "AI edit",
+          before: structure,
+          after: updatedStructure,
+        });
+      }
+
       // Show success message
       toast({
         title: "Survey updated",
@@ -582,6 +756,537 @@ export default function BuilderPage() {
     }
   };
 
+  /**
+   * Save a manual structure change (inline edit, added question or page, picked AI alternative,
+   * question from the bank). Planner-backed surveys also send it to the thread (see schedulePlannerSync).
+   * If the server refuses the change, the builder goes back to the previous structure and the error is rethrown.
+   */
+  const saveManualChange = async (updatedStructure: SurveyStructure, label: string, source: RevisionSource = "manual") => {
+    if (!structure || isLocked) return;
+    const previousStructure = structure;
+
+    manualUpdateRef.current = true;
+    setLocalStructure(updatedStructure);
+    prevStructureRef.current = JSON.stringify(updatedStructure);
+
+    try {
+      if (survey?.id) {
+        await updateSurvey.mutateAsync({
+          id: survey.id,
+          structure: updatedStructure,
+          revision: { source },
+        });
+      }
+      if (surveyId) {
+        localStorage.setItem(`survey_${surveyId}_structure`, JSON.stringify(updatedStructure));
+      }
+      undoHistory.record({
+        label,
+        before: previousStructure,
+        after: updatedStructure,
+      });
+      schedulePlannerSync();
+    } catch (error) {
+      setLocalStructure(previousStructure);
+      prevStructureRef.current = JSON.stringify(previousStructure);
+      throw error;
+    } finally {
+      setTimeout(() => {
+        manualUpdateRef.current = false;
+      }, 1000);
+    }
+  };
+
+  /**
+   * Save a question edited inline in its QuestionCard (which stays open if saving fails).
+   */
+  const handleSaveQuestionEdit = async (sectionIdx: number, qIdx: number, edited: SurveyQuestion) => {
+    if (!structure) return;
+    const updatedStructure: SurveyStructure = {
+      ...structure,
+      sections: structure.sections.map((section: any, sIdx: number) => sIdx !== sectionIdx ? section : {
+        ...section,
+        questions: section.questions.map((question: any, idx: number) => (idx === qIdx ? edited : question)),
+      }),
+    };
+    await saveManualChange(updatedStructure, `Edit question ${edited.spec_id || qIdx + 1}`);
+    if (newQuestionSpecId === edited.spec_id) setNewQuestionSpecId(null);
+    toast({ title: "Question saved" });
+  };
+
+  /**
+   * Append a blank question of the picked type to a page and open it for editing
+   */
+  const handleAddQuestion = async (sectionIdx: number, type: string) => {
+    if (!structure) return;
+    const specId = generateSpecId(structure, sectionIdx);
+    const question = createBlankQuestion(type, specId, isBilingual);
+    const updatedStructure: SurveyStructure = {
+      ...structure,
+      sections: structure.sections.map((section: any, sIdx: number) => sIdx !== sectionIdx ? section : {
+        ...section,
+        questions: [...section.questions, question],
+      }),
+    };
+    setNewQuestionSpecId(specId);
+    try {
+      await saveManualChange(updatedStructure, `Add question ${specId}`);
+    } catch (error) {
+      // Error toast is shown by the hook
+      console.error("Failed to add question:", error);
+    }
+  };
+
+  /**
+   * Append an empty page (questions are added to it from the palette)
+   */
+  const handleAddPage = async () => {
+    const base: SurveyStructure = structure || { sections: [] };
+    const updatedStructure: SurveyStructure = {
+      ...base,
+      sections: [...base.sections, createBlankSection(base.sections.length + 1, isBilingual)],
+    };
+    try {
+      if (!structure) {
+        // A survey without any structure yet - start one
+        if (survey?.id) {
+          await updateSurvey.mutateAsync({ id: survey.id, structure: updatedStructure, revision: { source: "manual" } });
+        }
+        setLocalStructure(updatedStructure);
+        prevStructureRef.current = JSON.stringify(updatedStructure);
+        schedulePlannerSync();
+        return;
+      }
+      await saveManualChange(updatedStructure, `Add page ${updatedStructure.sections.length}`);
+    } catch (error) {
+      // Error toast is shown by the hook
+      console.error("Failed to add page:", error);
+    }
+  };
+
+  /**
+   * Swap in an AI alternative for one question (text and options only)
+   */
+  const handleApplyAlternative = async (updated: SurveyQuestion) => {
+    if (!structure || !updated.spec_id) return;
+    const updatedStructure: SurveyStructure = {
+      ...structure,
+      sections: structure.sections.map((section: any) => ({
+        ...section,
+        questions: section.questions.map((question: any) => (question.spec_id === updated.spec_id ? updated : question)),
+      })),
+    };
+    setIsApplyingAlternative(true);
+    try {
+      await saveManualChange(updatedStructure, `Reword question ${updated.spec_id}`, "ai_update");
+      setAlternativesSpecId(null);
+      toast({ title: "Question updated" });
+    } catch (error) {
+      // Error toast is shown by the hook
+      console.error("Failed to apply alternative:", error);
+    } finally {
+      setIsApplyingAlternative(false);
+    }
+  };
+
+  /**
+   * Insert a copy of a question bank entry at the end of a page
+   */
+  const handleInsertFromBank = async (item: QuestionBankItem, sectionIdx: number) => {
+    if (!structure?.sections[sectionIdx]) return;
+    const specId = generateSpecId(structure, sectionIdx);
+    const question = fromBankQuestion(item.question, specId, isBilingual, userLang);
+    const updatedStructure: SurveyStructure = {
+      ...structure,
+      sections: structure.sections.map((section: any, sIdx: number) => sIdx !== sectionIdx ? section : {
+        ...section,
+        questions: [...section.questions, question],
+      }),
+    };
+    setIsInsertingFromBank(true);
+    try {
+      await saveManualChange(updatedStructure, `Insert question ${specId} from bank`);
+      toast({ title: "Question inserted", description: `Added to page ${sectionIdx + 1}.` });
+    } catch (error) {
+      // Error toast is shown by the hook
+      console.error("Failed to insert question from bank:", error);
+    } finally {
+      setIsInsertingFromBank(false);
+    }
+  };
+
+  /**
+   * Copy this survey into a new draft and open the copy
+   */
+  const handleDuplicate = async () => {
+    if (!survey) return;
+    try {
+      const copy = await duplicateSurvey.mutateAsync({ id: survey.id });
+      setLocation(`/builder/${copy.id}`);
+    } catch (error) {
+      // Error toast is shown by the hook
+      console.error("Failed to duplicate survey:", error);
+    }
+  };
+
+  /**
+   * Show a restored revision - the server already saved it as a new structure version
+   */
+  const handleRevisionRestored = (restored: Survey) => {
+    if (!restored.structure) return;
+    if (structure) {
+      undoHistory.record({
+        label: `Restore version ${restored.structureVersion}`,
+        before: structure,
+        after: restored.structure,
+      });
+    }
+    setLocalStructure(restored.structure);
+    prevStructureRef.current = JSON.stringify(restored.structure);
+    if (surveyId) {
+      localStorage.setItem(`survey_${surveyId}_structure`, JSON.stringify(restored.structure));
+    }
+    schedulePlannerSync();
+    toast({
+      title: "Revision restored",
+      description: `The questions were restored as version ${restored.structureVersion}.`,
+    });
+  };
+
+  const markPlannerOutOfSync = (outOfSync: boolean) => {
+    setIsPlannerOutOfSync(outOfSync);
+    if (!surveyId) return;
+    try {
+      if (outOfSync) {
+        localStorage.setItem(plannerOutOfSyncKey(surveyId), "true");
+      } else {
+        localStorage.removeItem(plannerOutOfSyncKey(surveyId));
+      }
+    } catch (e) {
+      console.warn("Failed to store planner sync state in localStorage:", e);
+    }
+  };
+
+  /**
+   * Send a structure to the planner thread (see buildPlannerSyncInstructions),
+   * so later planner calls (AI edits, generate-questions) start from it.
+   * The thread only counts as up to date once the plan it returns matches the structure.
+   * @returns False if the survey has no thread or the planner's plan still differs
+   */
+  const syncPlannerThread = async (target: SurveyStructure): Promise<boolean> => {
+    const threadId = getStoredThreadId(surveyId);
+    if (!threadId) return false;
+    try {
+      const result = await updateSurveyPlan.mutateAsync({
+        thread_id: threadId,
+        update_instructions: buildPlannerSyncInstructions(target, PLANNER_SYNC_REASON),
+      });
+      if (!plannerMatchesStructure(renderedPagesToStructure(result.rendered_pages), target)) {
+        toast({
+          title: "Planner not updated",
+          description: "The AI planner did not take over the changes made here exactly. They are kept here, and the next AI edit asks before replacing them.",
+          variant: "destructive",
+        });
+        return false;
+      }
+      // Newer changes made while the planner was busy still have to be sent
+      if (prevStructureRef.current === JSON.stringify(target)) markPlannerOutOfSync(false);
+      return true;
+    } catch (error) {
+      // The hook shows why the update failed
+      console.error("Failed to sync planner thread:", error);
+      return false;
+    }
+  };
+
+  /**
+   * Note that the planner thread is behind the builder and send it the structure
+   * shown here, debounced so several quick changes result in one planner update.
+   * Does nothing for surveys without a planner thread.
+   */
+  const schedulePlannerSync = () => {
+    if (!hasThreadId) return;
+    markPlannerOutOfSync(true);
+    if (plannerSyncTimerRef.current) clearTimeout(plannerSyncTimerRef.current);
+    plannerSyncTimerRef.current = setTimeout(() => {
+      plannerSyncTimerRef.current = null;
+      // Send whatever is on screen by then - later changes supersede this one
+      syncPlannerThread(JSON.parse(prevStructureRef.current));
+    }, PLANNER_SYNC_DELAY_MS);
+  };
+
+  /**
+   * Send changes the planner thread doesn't have yet without waiting for the debounce.
+   * @returns True if the thread is up to date with the builder
+   */
+  const flushPlannerSync = async (): Promise<boolean> => {
+    if (plannerSyncTimerRef.current) {
+      clearTimeout(plannerSyncTimerRef.current);
+      plannerSyncTimerRef.current = null;
+    }
+    if (!isPlannerOutOfSync) return true;
+    return syncPlannerThread(JSON.parse(prevStructureRef.current));
+  };
+
+  /**
+   * Save a reordered structure (drag-and-drop or keyboard move).
+   * For planner-backed surveys the new order is also sent to the thread (see schedulePlannerSync).
+   */
+  const handleReorder = async (updatedStructure: SurveyStructure, label: string) => {
+    if (!structure || updatedStructure === structure) return;
+    const previousStructure = structure;
+
+    manualUpdateRef.current = true;
+    setLocalStructure(updatedStructure);
+    prevStructureRef.current = JSON.stringify(updatedStructure);
+
+    try {
+      if (survey?.id) {
+        await updateSurvey.mutateAsync({
+          id: survey.id,
+          structure: updatedStructure,
+          revision: { source: "reorder" },
+        });
+      }
+      if (surveyId) {
+        localStorage.setItem(`survey_${surveyId}_structure`, JSON.stringify(updatedStructure));
+      }
+      undoHistory.record({
+        label,
+        before: previousStructure,
+        after: updatedStructure,
+      });
+      schedulePlannerSync();
+    } catch (error) {
+      // Error toast is shown by the hook
+      console.error("Failed to save new order:", error);
+      setLocalStructure(previousStructure);
+      prevStructureRef.current = JSON.stringify(previousStructure);
+    } finally {
+      setTimeout(() => {
+        manualUpdateRef.current = false;
+      }, 1000);
+    }
+  };
+
+  const handleMoveQuestion = (sectionIdx: number, qIdx: number, step: -1 | 1) => {
+    if (!structure) return;
+    const to = getAdjacentQuestionPosition(structure, { sectionIdx, qIdx }, step);
+    if (!to) return;
+    const question = structure.sections[sectionIdx].questions[qIdx];
+    setFocusHandleKey(`question:${question.spec_id || getText(question.text, "en")}`);
+    handleReorder(
+      moveQuestion(structure, { sectionIdx, qIdx }, to),
+      `Move question ${question.spec_id || currentQuestionLabel(sectionIdx, qIdx)} ${step === -1 ? "up" : "down"}`,
+    );
+  };
+
+  const handleMoveSection = (sectionIdx: number, step: -1 | 1) => {
+    if (!structure) return;
+    const toIdx = sectionIdx + step;
+    if (toIdx < 0 || toIdx >= sections.length) return;
+    setFocusHandleKey(`section:${toIdx}`);
+    handleReorder(moveSection(structure, sectionIdx, toIdx), `Move page ${sectionIdx + 1} ${step === -1 ? "up" : "down"}`);
+  };
+
+  // Question number as shown in the builder (numbers run across pages)
+  const currentQuestionLabel = (sectionIdx: number, qIdx: number) =>
+    String(sections.slice(0, sectionIdx).reduce((sum: number, s: any) => sum + s.questions.length, 0) + qIdx + 1);
+
+  const handleDragEnd = () => {
+    setDragItem(null);
+    setDropTarget(null);
+  };
+
+  const handleDrop = () => {
+    if (!structure || !dragItem || !dropTarget) return handleDragEnd();
+    if (dragItem.kind === "question" && dropTarget.kind === "question") {
+      // The insert index counts the dragged question itself when moving down within its section
+      const sameSection = dragItem.sectionIdx === dropTarget.sectionIdx;
+      const qIdx = sameSection && dropTarget.insertIdx > dragItem.qIdx ? dropTarget.insertIdx - 1 : dropTarget.insertIdx;
+      const question = structure.sections[dragItem.sectionIdx].questions[dragItem.qIdx];
+      handleReorder(
+        moveQuestion(structure, dragItem, { sectionIdx: dropTarget.sectionIdx, qIdx }),
+        `Move question ${question?.spec_id || currentQuestionLabel(dragItem.sectionIdx, dragItem.qIdx)}`,
+      );
+    } else if (dragItem.kind === "section" && dropTarget.kind === "section") {
+      const toIdx = dropTarget.insertIdx > dragItem.sectionIdx ? dropTarget.insertIdx - 1 : dropTarget.insertIdx;
+      handleReorder(moveSection(structure, dragItem.sectionIdx, toIdx), `Move page ${dragItem.sectionIdx + 1}`);
+    }
+    handleDragEnd();
+  };
+
+  // Insert before or after the hovered element depending on which half the pointer is in
+  const isInLowerHalf = (e: DragEvent<HTMLElement>) => {
+    const rect = e.currentTarget.getBoundingClientRect();
+    return e.clientY > rect.top + rect.height / 2;
+  };
+
+  const handleQuestionDragOver = (e: DragEvent<HTMLElement>, sectionIdx: number, qIdx: number) => {
+    if (dragItem?.kind !== "question") return;
+    e.preventDefault();
+    e.stopPropagation();
+    const insertIdx = isInLowerHalf(e) ? qIdx + 1 : qIdx;
+    if (dropTarget?.kind !== "question" || dropTarget.sectionIdx !== sectionIdx || dropTarget.insertIdx !== insertIdx) {
+      setDropTarget({ kind: "question", sectionIdx, insertIdx });
+    }
+  };
+
+  const handleSectionDragOver = (e: DragEvent<HTMLElement>, sectionIdx: number) => {
+    if (!dragItem) return;
+    e.preventDefault();
+    if (dragItem.kind === "question") {
+      // Question rows handle their own drag-over; hovering the rest of a page (header, empty page) appends to it
+      if (dropTarget?.kind !== "question" || dropTarget.sectionIdx !== sectionIdx) {
+        setDropTarget({ kind: "question", sectionIdx, insertIdx: sections[sectionIdx].questions.length });
+      }
+      return;
+    }
+    const insertIdx = isInLowerHalf(e) ? sectionIdx + 1 : sectionIdx;
+    if (dropTarget?.kind !== "section" || dropTarget.insertIdx !== insertIdx) {
+      setDropTarget({ kind: "section", insertIdx });
+    }
+  };
+
+  const startDrag = (e: DragEvent<HTMLElement>, item: DragItem) => {
+    e.dataTransfer.effectAllowed = "move";
+    e.dataTransfer.setData("text/plain", item.kind);
+    // Drag the whole row/page, not just the handle
+    const row = e.currentTarget.closest("[data-drag-row]");
+    if (row) e.dataTransfer.setDragImage(row, 16, 16);
+    setDragItem(item);
+  };
+
+  // Re-focus the move handle after a keyboard move so arrow keys can be pressed repeatedly
+  useEffect(() => {
+    if (!focusHandleKey) return;
+    const handle = document.querySelector<HTMLElement>(`[data-move-handle="${CSS.escape(focusHandleKey)}"]`);
+    handle?.focus();
+    setFocusHandleKey(null);
+  }, [focusHandleKey, localStructure]);
+
+  // Don't leave a scheduled planner sync running after leaving the page
+  useEffect(() => () => {
+    if (plannerSyncTimerRef.current) clearTimeout(plannerSyncTimerRef.current);
+  }, []);
+
+  /**
+   * Wrap a question card with its drag handle and drop indicator.
+   * The handle is also keyboard operable: ArrowUp/ArrowDown move the question,
+   * crossing into the neighbouring page at the edges.
+   */
+  const renderQuestionRow = (question: any, sectionIdx: number, qIdx: number, card: ReactNode) => {
+    const handleKey = `question:${question.spec_id || getText(question.text, "en")}`;
+    const isDragging = dragItem?.kind === "question" && dragItem.sectionIdx === sectionIdx && dragItem.qIdx === qIdx;
+    const showDropBefore = dropTarget?.kind === "question" && dropTarget.sectionIdx === sectionIdx && dropTarget.insertIdx === qIdx;
+    const showDropAfter = dropTarget?.kind === "question" && dropTarget.sectionIdx === sectionIdx &&
+      dropTarget.insertIdx === qIdx + 1 && qIdx === sections[sectionIdx].questions.length - 1;
+    return (
+      <div
+        key={question.spec_id || qIdx}
+        data-drag-row
+        className={cn(
+          "relative flex items-start gap-2 border-y-2 border-transparent -my-0.5",
+          showDropBefore && "border-t-primary",
+          showDropAfter && "border-b-primary",
+          isDragging && "opacity-50",
+        )}
+        onDragOver={(e) => handleQuestionDragOver(e, sectionIdx, qIdx)}
+        onDrop={(e) => {
+          e.preventDefault();
+          e.stopPropagation();
+          handleDrop();
+        }}
+      >
+        <button
+          type="button"
+          draggable
+          data-move-handle={handleKey}
+          onDragStart={(e) => startDrag(e, { kind: "question", sectionIdx, qIdx })}
+          onDragEnd={handleDragEnd}
+          onKeyDown={(e) => {
+            if (e.key !== "ArrowUp" && e.key !== "ArrowDown") return;
+            e.preventDefault();
+            handleMoveQuestion(sectionIdx, qIdx, e.key === "ArrowUp" ? -1 : 1);
+          }}
+          className="mt-6 p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted cursor-grab active:cursor-grabbing focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+          aria-label="Move question (drag, or use arrow keys)"
+          title="Drag to reorder, or focus and use the arrow keys"
+        >
+          <GripVertical className="w-4 h-4" />
+        </button>
+        <div className="flex-1 min-w-0">{card}</div>
+      </div>
+    );
+  };
+
+  /**
+   * Undo or redo the last structural change.
+   * The structure is saved like any other edit (recorded as an undo/redo revision).
+   * Only the builder is changed: the planner thread can't be reliably put back to an
+   * earlier plan, so it is marked as behind and brought up to date before the next AI edit.
+   */
+  const handleUndoRedo = async (direction: "undo" | "redo") => {
+    if (isApplyingHistory || isLocked) return;
+    const entry = direction === "undo" ? undoHistory.takeUndo() : undoHistory.takeRedo();
+    if (!entry) return;
+    const target = direction === "undo" ? entry.before : entry.after;
+    const previousStructure = structure;
+
+    setIsApplyingHistory(true);
+    // Keep the survey sync effect from overwriting the structure while saving
+    manualUpdateRef.current = true;
+    setLocalStructure(target);
+    prevStructureRef.current = JSON.stringify(target);
+
+    try {
+      if (survey?.id) {
+        await updateSurvey.mutateAsync({
+          id: survey.id,
+          structure: target,
+          revision: { source: direction },
+        });
+      }
+      if (surveyId) {
+        localStorage.setItem(`survey_${surveyId}_structure`, JSON.stringify(target));
+      }
+
+      if (hasThreadId) markPlannerOutOfSync(true);
+
+      toast({
+        title: direction === "undo" ? "Undone" : "Redone",
+        description: hasThreadId ? `${entry.label}. Changed in the builder only; the AI planner is updated before its next edit.` : entry.label,
+      });
+    } catch (error) {
+      // Error toast is shown by the hook; put the entry back so it can be tried again
+      console.error(`Failed to ${direction}:`, error);
+      if (direction === "undo") undoHistory.takeRedo(); else undoHistory.takeUndo();
+      setLocalStructure(previousStructure);
+      prevStructureRef.current = JSON.stringify(previousStructure);
+    } finally {
+      setIsApplyingHistory(false);
+      setTimeout(() => {
+        manualUpdateRef.current = false;
+      }, 1000);
+    }
+  };
+
+  // Undo/redo tooltips: the planner thread isn't reverted along with the builder
+  const historyScopeNote = hasThreadId ? " - in the builder only, the AI planner is updated before its next edit" : "";
+
+  // Ctrl+Z / Ctrl+Shift+Z (Cmd on macOS); text fields keep their own undo
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+      if (!(e.ctrlKey || e.metaKey) || e.key.toLowerCase() !== "z") return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === "INPUT" || target.tagName === "TEXTAREA" || target.isContentEditable)) return;
+      e.preventDefault();
+      handleUndoRedo(e.shiftKey ? "redo" : "undo");
+    };
+    window.addEventListener("keydown", handleKeyDown);
+    return () => window.removeEventListener("keydown", handleKeyDown);
+  });
+
   return (
     <div className="min-h-screen bg-[#F5F7FA] flex font-sans">
       <div className={cn("flex-1 flex flex-col min-w-0 transition-all duration-300", isSidebarOpen ? "pr-80" : "pr-12")}>
@@ -623,12 +1328,133 @@ export default function BuilderPage() {
               <h1 className="text-2xl font-display font-bold text-secondary">
                 Generated Survey Questions
               </h1>
+              <div className="ml-auto flex items-center gap-2">
+                {survey && <SurveyLifecycleControls survey={survey} />}
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleUndoRedo("undo")}
+                  disabled={!undoHistory.canUndo || isApplyingHistory || isLocked}
+                  title={undoHistory.undoLabel ? `Undo: ${undoHistory.undoLabel} (Ctrl+Z)${historyScopeNote}` : "Nothing to undo"}
+                  aria-label="Undo"
+                >
+                  <Undo2 className="w-4 h-4" />
+                </Button>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={() => handleUndoRedo("redo")}
+                  disabled={!undoHistory.canRedo || isApplyingHistory || isLocked}
+                  title={undoHistory.redoLabel ? `Redo: ${undoHistory.redoLabel} (Ctrl+Shift+Z)${historyScopeNote}` : "Nothing to redo"}
+                  aria-label="Redo"
+                >
+                  <Redo2 className="w-4 h-4" />
+                </Button>
+                {/* Compare and restore earlier versions of the questions */}
+                {survey && (
+                  <Button variant="outline" size="sm" onClick={() => setIsRevisionHistoryOpen(true)}>
+                    <History className="w-4 h-4 mr-2" /> History
+                  </Button>
+                )}
+                {!isLocked && (
+                  <Button variant="outline" size="sm" onClick={() => setIsQuestionBankOpen(true)}>
+                    <Library className="w-4 h-4 mr-2" /> Question bank
+                  </Button>
+                )}
+                {survey && (
+                  <Button variant="outline" size="sm" onClick={handleDuplicate} disabled={duplicateSurvey.isPending}>
+                    <Copy className="w-4 h-4 mr-2" /> Duplicate
+                  </Button>
+                )}
+                {/* XLSForm for ODK / KoboToolbox, other tools' formats and the paper questionnaire */}
+                {survey && sections.length > 0 && (
+                  <DropdownMenu>
+                    <DropdownMenuTrigger asChild>
+                      <Button variant="outline" size="sm">
+                        <Download className="w-4 h-4 mr-2" /> Export
+                      </Button>
+                    </DropdownMenuTrigger>
+                    <DropdownMenuContent align="end">
+                      {/* Downloaded through the hook so rules the format leaves out can be reported */}
+                      {exportFormats?.map(item => (
+                        <DropdownMenuItem
+                          key={item.format}
+                          disabled={exportSurvey.isPending}
+                          onSelect={() => exportSurvey.mutate({ id: survey.id, format: item.format })}
+                        >
+                          {item.label}
+                        </DropdownMenuItem>
+                      ))}
+                      {exportFormats && exportFormats.length > 0 && <DropdownMenuSeparator />}
+                      <DropdownMenuItem asChild>
+                        <Link href={`/print/${survey.id}`}>
+                          <Printer className="w-4 h-4 mr-2" /> Paper questionnaire
+                        </Link>
+                      </DropdownMenuItem>
+                      {/* Only published surveys collect responses */}
+                      {survey.status !== "draft" && (
+                        <>
+                          <DropdownMenuSeparator />
+                          <DropdownMenuLabel>Responses</DropdownMenuLabel>
+                          {RESPONSE_EXPORTS.map(item => (
+                            <DropdownMenuItem key={item.format} asChild>
+                              <a href={`${buildUrl(api.responses.export.path, { id: survey.id })}?format=${item.format}`} download>
+                                {item.label}
+                              </a>
+                            </DropdownMenuItem>
+                          ))}
+                        </>
+                      )}
+                    </DropdownMenuContent>
+                  </DropdownMenu>
+                )}
+                {sections.length > 0 && (
+                  <Button variant="outline" size="sm" onClick={() => setIsQualityOpen(true)}>
+                    <ClipboardCheck className="w-4 h-4 mr-2" /> Quality
+                    {qualityReport.issue_count > 0 && (
+                      <span
+                        className={cn(
+                          "ml-2 rounded-full px-1.5 text-xs",
+                          qualityReport.passed ? "bg-amber-100 text-amber-800" : "bg-destructive text-destructive-foreground",
+                        )}
+                      >
+                        {qualityReport.issue_count}
+                      </span>
+                    )}
+                  </Button>
+                )}
+                {survey && sections.length > 0 && (
+                  <Button variant="outline" size="sm" onClick={() => setIsSaveTemplateOpen(true)}>
+                    <LayoutTemplate className="w-4 h-4 mr-2" /> Save as template
+                  </Button>
+                )}
+                {/* Open the respondent-facing runtime for this survey */}
+                {surveyId && sections.length > 0 && (
+                  <Link href={`/s/${surveyId}`}>
+                    <Button variant="outline" size="sm">
+                      <ExternalLink className="w-4 h-4 mr-2" /> Open survey
+                    </Button>
+                  </Link>
+                )}
+              </div>
             </div>
           </div>
         </header>
 
         {/* Main Content - Wider for bilingual surveys */}
         <main className={`flex-1 p-6 md:p-10 mx-auto w-full ${isBilingual ? 'max-w-7xl' : 'max-w-5xl'}`}>
+          {isLocked && (
+            <div className="mb-6 flex items-center gap-3 rounded-xl border border-amber-200 bg-amber-50 px-4 py-3 text-sm text-amber-900">
+              <Lock className="w-4 h-4 flex-shrink-0" />
+              <span>
+                This survey is {survey?.status}, so its questions can't be edited. Duplicate it to make changes.
+              </span>
+            </div>
+          )}
+          {/* Completion time and respondent burden of the whole survey */}
+          {!isLoading && survey && burden.questionCount > 0 && (
+            <SurveyBurdenSummary burden={burden} className="mb-6" />
+          )}
           {isLoading ? (
             <div className="bg-white rounded-xl shadow-sm border border-border p-8 text-center">
               <p className="text-muted-foreground">Loading survey...</p>
@@ -644,9 +1470,15 @@ export default function BuilderPage() {
               <p className="text-muted-foreground">
                 No survey structure found. Please generate a survey first.
               </p>
+              {survey && (
+                <Button variant="outline" className="mt-6" onClick={handleAddPage}>
+                  <Plus className="w-4 h-4 mr-2" /> Start with an empty page
+                </Button>
+              )}
             </div>
           ) : (
-            <div className="space-y-8">
+            // A disabled fieldset disables every edit control of a published survey at once
+            <fieldset disabled={isLocked} className="space-y-8 min-w-0">
               {/* Render each section as a page */}
               {sections.map((section, sectionIdx) => {
                 const questionCount = section.questions.length;
@@ -658,10 +1490,42 @@ export default function BuilderPage() {
                 }
 
                 return (
-                  <div key={sectionIdx} className="space-y-4">
+                  <div
+                    key={sectionIdx}
+                    data-drag-row
+                    className={cn(
+                      "space-y-4 border-y-2 border-transparent",
+                      dropTarget?.kind === "section" && dropTarget.insertIdx === sectionIdx && "border-t-primary",
+                      dropTarget?.kind === "section" && dropTarget.insertIdx === sectionIdx + 1 && sectionIdx === sections.length - 1 && "border-b-primary",
+                      dragItem?.kind === "section" && dragItem.sectionIdx === sectionIdx && "opacity-50",
+                    )}
+                    onDragOver={(e) => handleSectionDragOver(e, sectionIdx)}
+                    onDrop={(e) => {
+                      e.preventDefault();
+                      handleDrop();
+                    }}
+                  >
                     {/* Page Header with Green Bar */}
                     <div className="flex items-center justify-between gap-3">
                       <div className="flex items-center gap-3">
+                        {/* Page move handle - drag, or ArrowUp/ArrowDown when focused */}
+                        <button
+                          type="button"
+                          draggable
+                          data-move-handle={`section:${sectionIdx}`}
+                          onDragStart={(e) => startDrag(e, { kind: "section", sectionIdx })}
+                          onDragEnd={handleDragEnd}
+                          onKeyDown={(e) => {
+                            if (e.key !== "ArrowUp" && e.key !== "ArrowDown") return;
+                            e.preventDefault();
+                            handleMoveSection(sectionIdx, e.key === "ArrowUp" ? -1 : 1);
+                          }}
+                          className="p-1 rounded text-muted-foreground hover:text-foreground hover:bg-muted cursor-grab active:cursor-grabbing focus:outline-none focus-visible:ring-2 focus-visible:ring-primary"
+                          aria-label={`Move page ${sectionIdx + 1} (drag, or use arrow keys)`}
+                          title="Drag to reorder pages, or focus and use the arrow keys"
+                        >
+                          <GripVertical className="w-4 h-4" />
+                        </button>
                         <div className="w-1 h-8 bg-primary rounded-full"></div>
                         <div className="flex items-center gap-4">
                           <h2 className="text-xl font-display font-bold text-secondary">
@@ -669,6 +1533,7 @@ export default function BuilderPage() {
                           </h2>
                           <span className="text-sm text-muted-foreground">
                             {questionCount} Questions
+                            {questionCount > 0 && ` · ~${formatDuration(burden.pages[sectionIdx]?.seconds ?? 0)}`}
                           </span>
                         </div>
                       </div>
@@ -685,7 +1550,8 @@ export default function BuilderPage() {
                     </div>
 
                     {/* Questions */}
-                    <div className="space-y-4">
+                    <div className={cn("space-y-4", questionCount === 0 && "min-h-16 rounded-xl border-2 border-dashed border-border flex items-center justify-center text-sm text-muted-foreground")}>
+                      {questionCount === 0 && "Drop questions here"}
                       {section.questions.map((question, qIdx) => {
                         const currentQuestionNumber = questionNumber + qIdx;
                         
@@ -765,71 +1631,72 @@ export default function BuilderPage() {
                         }
                         
                         // For bilingual surveys, render two separate question cards side by side
-                        if (isBilingual && finalQuestionBilingual) {
-                          return (
-                            <div key={qIdx} className="grid grid-cols-1 lg:grid-cols-2 gap-6 w-full">
-                              {/* English Question Card */}
-                              <QuestionCard
-                                question={finalQuestionBilingual.en}
-                                questionBilingual={null}
-                                type={question.type}
-                                options={finalOptionsBilingual.map(opt => opt.en)}
-                                optionsBilingual={[]}
-                                isBilingual={false}
-                                questionNumber={currentQuestionNumber}
-                                spec_id={question.spec_id}
-                                required={question.required}
-                                validation={question.validation}
-                                skip_logic={question.skip_logic}
-                                scale={questionScale ? {
-                                  ...questionScale,
-                                  labels: questionScale.labels ? {
-                                    min: typeof questionScale.labels.min === 'object' && questionScale.labels.min !== null && 'en' in questionScale.labels.min
-                                      ? questionScale.labels.min.en
-                                      : questionScale.labels.min,
-                                    max: typeof questionScale.labels.max === 'object' && questionScale.labels.max !== null && 'en' in questionScale.labels.max
-                                      ? questionScale.labels.max.en
-                                      : questionScale.labels.max,
-                                  } : undefined,
-                                } : undefined}
-                                onDelete={question.spec_id && hasThreadId ? () => handleDeleteQuestion(question.spec_id) : undefined}
-                                isDeleting={deleteQuestion.isPending && deletingSpecId === question.spec_id}
-                              />
-                              {/* Arabic Question Card */}
-                              <QuestionCard
-                                question={finalQuestionBilingual.ar}
-                                questionBilingual={null}
-                                type={question.type}
-                                options={finalOptionsBilingual.map(opt => opt.ar)}
-                                optionsBilingual={[]}
-                                isBilingual={false}
-                                questionNumber={null} // Don't show number for Arabic version
-                                spec_id={question.spec_id}
-                                required={question.required}
-                                validation={question.validation}
-                                skip_logic={question.skip_logic}
-                                scale={questionScale ? {
-                                  ...questionScale,
-                                  labels: questionScale.labels ? {
-                                    min: typeof questionScale.labels.min === 'object' && questionScale.labels.min !== null && 'ar' in questionScale.labels.min
-                                      ? questionScale.labels.min.ar
-                                      : questionScale.labels.min,
-                                    max: typeof questionScale.labels.max === 'object' && questionScale.labels.max !== null && 'ar' in questionScale.labels.max
-                                      ? questionScale.labels.max.ar
-                                      : questionScale.labels.max,
-                                  } : undefined,
-                                } : undefined}
-                                onDelete={undefined} // Only show delete on English version
-                                isDeleting={false}
-                              />
-                            </div>
-                          );
-                        }
-                        
-                        // For non-bilingual surveys, render single question card
-                        return (
+                        const card = isBilingual && finalQuestionBilingual ? (
+                          <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 w-full">
+                            {/* English Question Card */}
+                            <QuestionCard
+                              question={finalQuestionBilingual.en}
+                              questionBilingual={null}
+                              type={question.type}
+                              options={finalOptionsBilingual.map(opt => opt.en)}
+                              optionsBilingual={[]}
+                              isBilingual={false}
+                              questionNumber={currentQuestionNumber}
+                              spec_id={question.spec_id}
+                              required={question.required}
+                              validation={question.validation}
+                              skip_logic={question.skip_logic}
+                              scale={questionScale ? {
+                                ...questionScale,
+                                labels: questionScale.labels ? {
+                                  min: typeof questionScale.labels.min === 'object' && questionScale.labels.min !== null && 'en' in questionScale.labels.min
+                                    ? questionScale.labels.min.en
+                                    : questionScale.labels.min,
+                                  max: typeof questionScale.labels.max === 'object' && questionScale.labels.max !== null && 'en' in questionScale.labels.max
+                                    ? questionScale.labels.max.en
+                                    : questionScale.labels.max,
+                                } : undefined,
+                              } : undefined}
+                              onDelete={question.spec_id && hasThreadId ? () => handleDeleteQuestion(question.spec_id) : undefined}
+                              isDeleting={deleteQuestion.isPending && deletingSpecId === question.spec_id}
+                              // Editing covers both languages, so it is only offered on the English card
+                              editableQuestion={question}
+                              onSaveEdit={(edited) => handleSaveQuestionEdit(sectionIdx, qIdx, edited)}
+                              initiallyEditing={!!question.spec_id && question.spec_id === newQuestionSpecId}
+                              onSuggestAlternatives={survey && question.spec_id ? () => setAlternativesSpecId(question.spec_id) : undefined}
+                              onSaveToBank={() => setBankSaveQuestion(question)}
+                            />
+                            {/* Arabic Question Card */}
+                            <QuestionCard
+                              question={finalQuestionBilingual.ar}
+                              questionBilingual={null}
+                              type={question.type}
+                              options={finalOptionsBilingual.map(opt => opt.ar)}
+                              optionsBilingual={[]}
+                              isBilingual={false}
+                              questionNumber={null} // Don't show number for Arabic version
+                              spec_id={question.spec_id}
+                              required={question.required}
+                              validation={question.validation}
+                              skip_logic={question.skip_logic}
+                              scale={questionScale ? {
+                                ...questionScale,
+                                labels: questionScale.labels ? {
+                                  min: typeof questionScale.labels.min === 'object' && questionScale.labels.min !== null && 'ar' in questionScale.labels.min
+                                    ? questionScale.labels.min.ar
+                                    : questionScale.labels.min,
+                                  max: typeof questionScale.labels.max === 'object' && questionScale.labels.max !== null && 'ar' in questionScale.labels.max
+                                    ? questionScale.labels.max.ar
+                                    : questionScale.labels.max,
+                                } : undefined,
+                              } : undefined}
+                              onDelete={undefined} // Only show delete on English version
+                              isDeleting={false}
+                            />
+                          </div>
+                        ) : (
+                          // For non-bilingual surveys, render single question card
                           <QuestionCard
-                            key={qIdx}
                             question={questionText}
                             questionBilingual={finalQuestionBilingual}
                             type={question.type}
@@ -846,18 +1713,35 @@ export default function BuilderPage() {
                             // Pass delete handler if thread_id is available
                             onDelete={question.spec_id && hasThreadId ? () => handleDeleteQuestion(question.spec_id) : undefined}
                             isDeleting={deleteQuestion.isPending && deletingSpecId === question.spec_id}
+                            editableQuestion={question}
+                            onSaveEdit={(edited) => handleSaveQuestionEdit(sectionIdx, qIdx, edited)}
+                            initiallyEditing={!!question.spec_id && question.spec_id === newQuestionSpecId}
+                            onSuggestAlternatives={survey && question.spec_id ? () => setAlternativesSpecId(question.spec_id) : undefined}
+                            onSaveToBank={() => setBankSaveQuestion(question)}
                           />
                         );
+
+                        return renderQuestionRow(question, sectionIdx, qIdx, card);
                       })}
                     </div>
+
+                    {/* Add a blank question of any type to this page */}
+                    <div className="pl-8">
+                      <QuestionPalette onSelect={(type) => handleAddQuestion(sectionIdx, type)} />
+                    </div>
                   </div>
                 );
               })}
-            </div>
+
+              {/* Add page */}
+              <Button variant="outline" className="w-full border-dashed" onClick={handleAddPage}>
+                <Plus className="w-4 h-4 mr-2" /> Add page
+              </Button>
+            </fieldset>
           )}
 
           {/* Edit input box at the bottom of the page */}
-          <div className="mt-8 space-y-2">
+          <fieldset disabled={isLocked} className="mt-8 space-y-2 min-w-0">
             <label className="text-sm font-medium text-secondary">edit</label>
             <div className="flex items-center gap-2">
               <Input 
@@ -876,7 +1760,7 @@ export default function BuilderPage() {
               />
               {/* Submit Edit button */}
               <Button
-                onClick={handleSubmitEdit}
+                onClick={() => handleSubmitEdit()}
                 disabled={updateSurveyPlan.isPending || !hasThreadId || !editInputValue.trim()}
                 className="min-w-[120px]"
                 aria-label="Submit edit"
@@ -896,7 +1780,12 @@ export default function BuilderPage() {
                 This survey was generated using fast mode. To use the edit feature, regenerate the survey with the planner API enabled (toggle ON in config page).
               </p>
             )}
-          </div>
+            {hasThreadId && isPlannerOutOfSync && (
+              <p className="text-xs text-muted-foreground">
+                Some changes made here haven't reached the AI planner yet. They are sent to it before the next AI edit.
+              </p>
+            )}
+          </fieldset>
 
           {/* Proceed to rules button */}
           <div className="mt-6">
@@ -923,6 +1812,32 @@ export default function BuilderPage() {
       {/* Right Sidebar - History */}
       <HistorySidebar isOpen={isSidebarOpen} onToggle={() => setIsSidebarOpen(!isSidebarOpen)} />
 
+      {/* AI edit while the planner is missing changes made here */}
+      <AlertDialog open={isPlannerConflictOpen} onOpenChange={setIsPlannerConflictOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Replace changes made here?</AlertDialogTitle>
+            <AlertDialogDescription>
+              The AI planner could not be updated with the changes made in the builder since its last edit.
+              AI edits start from the planner's copy of the survey, so going ahead replaces those changes.
+              They can be restored from History afterwards.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => {
+                setIsPlannerConflictOpen(false);
+                handleSubmitEdit(true);
+              }}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Edit anyway
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+
       {/* Delete Confirmation Dialog */}
       <AlertDialog open={pageToDelete !== null} onOpenChange={(open) => !open && setPageToDelete(null)}>
         <AlertDialogContent>
@@ -930,8 +1845,8 @@ export default function BuilderPage() {
             <AlertDialogTitle>Delete Page?</AlertDialogTitle>
             <AlertDialogDescription>
               Are you sure you want to delete Page {pageToDelete !== null ? pageToDelete + 1 : ''}? 
-              This will remove {pageToDelete !== null ? sections[pageToDelete]?.questions.length || 0 : 0} question(s) 
-              and cannot be undone.
+              This will remove {pageToDelete !== null ? sections[pageToDelete]?.questions.length || 0 : 0} question(s).
+              The previous version can be restored from History.
             </AlertDialogDescription>
           </AlertDialogHeader>
           <AlertDialogFooter>
@@ -953,6 +1868,53 @@ export default function BuilderPage() {
           </AlertDialogFooter>
         </AlertDialogContent>
       </AlertDialog>
+
+      {/* Revision History Dialog */}
+      {survey && (
+        <RevisionHistoryDialog
+          open={isRevisionHistoryOpen}
+          onOpenChange={setIsRevisionHistoryOpen}
+          surveyId={survey.id}
+          currentStructure={structure}
+          currentVersion={survey.structureVersion}
+          onRestored={handleRevisionRestored}
+        />
+      )}
+
+      {/* Question Bank */}
+      <QuestionBankPanel
+        open={isQuestionBankOpen}
+        onOpenChange={setIsQuestionBankOpen}
+        sectionTitles={sections.map((section: any) => getText(section.title, userLang))}
+        surveyLanguage={survey?.language || "English"}
+        onInsert={handleInsertFromBank}
+        isInserting={isInsertingFromBank}
+      />
+      <SaveToBankDialog
+        open={bankSaveQuestion !== null}
+        onOpenChange={(open) => !open && setBankSaveQuestion(null)}
+        question={bankSaveQuestion}
+        surveyLanguage={survey?.language || "English"}
+      />
+
+      <SurveyQualityDialog open={isQualityOpen} onOpenChange={setIsQualityOpen} report={qualityReport} />
+
+      {survey && (
+        <SaveAsTemplateDialog open={isSaveTemplateOpen} onOpenChange={setIsSaveTemplateOpen} survey={survey} />
+      )}
+
+      {/* AI Alternatives Dialog */}
+      {survey && (
+        <QuestionAlternativesDialog
+          open={alternativesSpecId !== null}
+          onOpenChange={(open) => !open && setAlternativesSpecId(null)}
+          surveyId={survey.id}
+          question={structure?.sections.flatMap((section: any) => section.questions).find((q: any) => q.spec_id === alternativesSpecId) ?? null}
+          isBilingual={isBilingual}
+          onApply={handleApplyAlternative}
+          isApplying={isApplyingAlternative}
+        />
+      )}
     </div>
   );
 }
@@ -18,6 +18,8 @@ import {
   useCreateSurveyPlan,
   useApproveSurveyPlan,
   useRejectSurveyPlan,
+  useCreateSurveyFromTemplate,
+  useCreateSurveyFromImport,
   PromptValidationError,
 } from "@/hooks/use-surveys";
 import { SurveyPlanResponse } from "@shared/routes";
@@ -27,6 +29,9 @@ import { HistorySidebar } from "@/components/HistorySidebar";
 import { CollectionModeCard } from "@/components/CollectionModeCard";
 import { CounterInput } from "@/components/CounterInput";
 import { BlueprintReview } from "@/components/BlueprintReview";
+import { TemplatePicker } from "@/components/TemplatePicker";
+import { QuestionnaireImport, type ImportedQuestionnaire } from "@/components/QuestionnaireImport";
+import type { SurveyTemplate } from "@shared/schema";
 
 import { Button } from "@/components/ui/button";
 import { Input } from "@/components/ui/input";
@@ -126,6 +131,11 @@ export default function ConfigPage() {
   const [attachedFile, setAttachedFile] = useState<File | null>(null);
   const [fileContent, setFileContent] = useState<string>("");
 
+  // Template picked in the metadata step - the survey is then created from it directly
+  const [selectedTemplate, setSelectedTemplate] = useState<SurveyTemplate | null>(null);
+  // Questionnaire imported from an XLSForm / CSV - like a template, the survey is created from it directly
+  const [importedQuestionnaire, setImportedQuestionnaire] = useState<ImportedQuestionnaire | null>(null);
+
   // Hooks
   const createSurvey = useCreateSurvey();
   const updateSurvey = useUpdateSurvey();
@@ -135,6 +145,8 @@ export default function ConfigPage() {
   const createSurveyPlan = useCreateSurveyPlan();
   const approveSurveyPlan = useApproveSurveyPlan();
   const rejectSurveyPlan = useRejectSurveyPlan();
+  const createSurveyFromTemplate = useCreateSurveyFromTemplate();
+  const createSurveyFromImport = useCreateSurveyFromImport();
 
   const form = useForm<z.infer<typeof metadataSchema>>({
     resolver: zodResolver(metadataSchema),
@@ -191,7 +203,72 @@ export default function ConfigPage() {
     }
   };
 
+  /**
+   * Select (or clear) a template. Empty name and type fields are filled from it.
+   */
+  const handleTemplateSelect = (template: SurveyTemplate | null) => {
+    setSelectedTemplate(template);
+    if (!template) return;
+    setImportedQuestionnaire(null);
+    if (!form.getValues("name")) form.setValue("name", template.name, { shouldValidate: true });
+    if (!form.getValues("type")) form.setValue("type", template.category, { shouldValidate: true });
+  };
+
+  /**
+   * Use (or clear) an imported questionnaire. The language is taken from the
+   * file and an empty name from the file name.
+   */
+  const handleImportChange = (imported: ImportedQuestionnaire | null) => {
+    setImportedQuestionnaire(imported);
+    if (!imported) return;
+    setSelectedTemplate(null);
+    form.setValue("language", imported.language, { shouldValidate: true });
+    if (!form.getValues("name")) {
+      form.setValue("name", imported.fileName.replace(/\.[^.]+$/, "").replace(/[_-]+/g, " "), { shouldValidate: true });
+    }
+  };
+
   const handleMetadataSubmit = async (values: z.infer<typeof metadataSchema>) => {
+    // Imported questionnaires already have their questions - skip the AI steps
+    if (importedQuestionnaire) {
+      const name = values.language === "Bilingual"
+        ? combineBilingualTitle(values.name, values.nameArabic || "")
+        : values.name;
+      try {
+        const survey = await createSurveyFromImport.mutateAsync({
+          name,
+          language: values.language,
+          collectionMode: values.collectionMode,
+          structure: importedQuestionnaire.structure,
+        });
+        setLocation(`/builder/${survey.id}`);
+      } catch (error) {
+        // Error toast is shown by the hook
+        console.error("Failed to create survey from import:", error);
+      }
+      return;
+    }
+
+    // Surveys from a template already have their questions - skip the AI steps
+    if (selectedTemplate) {
+      const name = values.language === "Bilingual"
+        ? combineBilingualTitle(values.name, values.nameArabic || "")
+        : values.name;
+      try {
+        const survey = await createSurveyFromTemplate.mutateAsync({
+          templateId: selectedTemplate.id,
+          name,
+          language: values.language,
+          collectionMode: values.collectionMode,
+        });
+        setLocation(`/builder/${survey.id}`);
+      } catch (error) {
+        // Error toast is shown by the hook
+        console.error("Failed to create survey from template:", error);
+      }
+      return;
+    }
+
     try {
       // Prepare payload for backend
       // If bilingual, combine English and Arabic names into single 'name' field
@@ -386,7 +463,8 @@ export default function ConfigPage() {
           try {
             await updateSurvey.mutateAsync({ 
               id: currentSurveyId, 
-              structure: transformedPlan 
+              structure: transformedPlan,
+              revision: { source: "regenerate" },
             });
           } catch (updateError) {
             console.warn("Survey update failed, continuing in frontend-only mode:", updateError);
@@ -471,7 +549,8 @@ export default function ConfigPage() {
         try {
           await updateSurvey.mutateAsync({ 
             id: currentSurveyId, 
-            structure: plan 
+            structure: plan,
+            revision: { source: "regenerate" },
           });
         } catch (updateError) {
           // If update fails, continue anyway in frontend-only mode
@@ -767,7 +846,8 @@ export default function ConfigPage() {
           
           await updateSurvey.mutateAsync({ 
             id: surveyId, 
-            structure: transformedPlan 
+            structure: transformedPlan,
+            revision: { source: "regenerate" },
           });
           console.log("✅ Survey structure saved successfully");
         } catch (updateError) {
@@ -811,7 +891,8 @@ export default function ConfigPage() {
       try {
         await updateSurvey.mutateAsync({ 
           id: surveyId, 
-          structure: blueprint 
+          structure: blueprint,
+          revision: { source: "regenerate" },
         });
       } catch (updateError) {
         console.warn("Survey update failed, continuing in frontend-only mode:", updateError);
@@ -905,6 +986,28 @@ export default function ConfigPage() {
 
                 <Form {...form}>
                   <form onSubmit={form.handleSubmit(handleMetadataSubmit)} className="space-y-8">
+
+                    {/* Optional template to start from */}
+                    <div className="space-y-3">
+                      <div>
+                        <h2 className="text-lg font-semibold text-secondary">Start from a template</h2>
+                        <p className="text-sm text-muted-foreground">
+                          Optional. Pick one to create the survey with its questions right away, or skip it to build with AI.
+                        </p>
+                      </div>
+                      <TemplatePicker selectedId={selectedTemplate?.id ?? null} onSelect={handleTemplateSelect} />
+                    </div>
+
+                    {/* Optional existing questionnaire to import */}
+                    <div className="space-y-3">
+                      <div>
+                        <h2 className="text-lg font-semibold text-secondary">Import a questionnaire</h2>
+                        <p className="text-sm text-muted-foreground">
+                          Optional. Already have the questions? Upload them instead of describing them in a prompt.
+                        </p>
+                      </div>
+                      <QuestionnaireImport value={importedQuestionnaire} onChange={handleImportChange} />
+                    </div>
                     
                     {/* Survey Name */}
                     <FormField
@@ -1055,8 +1158,15 @@ export default function ConfigPage() {
                       <Button type="button" variant="ghost" className="text-muted-foreground hover:text-foreground">
                         <Save className="w-4 h-4 mr-2" /> Save Draft
                       </Button>
-                      <Button type="submit" className="btn-primary text-lg px-8 py-6 h-auto" disabled={createSurvey.isPending || updateSurvey.isPending}>
-                        {createSurvey.isPending ? "Creating..." : "Next Step"} <ArrowRight className="ml-2 w-5 h-5" />
+                      <Button
+                        type="submit"
+                        className="btn-primary text-lg px-8 py-6 h-auto"
+                        disabled={createSurvey.isPending || updateSurvey.isPending || createSurveyFromTemplate.isPending || createSurveyFromImport.isPending}
+                      >
+                        {createSurvey.isPending || createSurveyFromTemplate.isPending || createSurveyFromImport.isPending
+                          ? "Creating..."
+                          : selectedTemplate ? "Create from template" : importedQuestionnaire ? "Create from import" : "Next Step"}
+                        <ArrowRight className="ml-2 w-5 h-5" />
                       </Button>
                     </div>
                   </form>
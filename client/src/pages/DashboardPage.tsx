@@ -0,0 +1,420 @@
+import { useEffect, useMemo, useState } from "react";
+import { Link } from "wouter";
+import { format } from "date-fns";
+import { Archive, ArchiveRestore, ChevronLeft, ChevronRight, Loader2, Plus, Search, Trash2 } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Input } from "@/components/ui/input";
+import { Badge } from "@/components/ui/badge";
+import { Checkbox } from "@/components/ui/checkbox";
+import {
+  Select,
+  SelectContent,
+  SelectItem,
+  SelectTrigger,
+  SelectValue,
+} from "@/components/ui/select";
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from "@/components/ui/table";
+import {
+  AlertDialog,
+  AlertDialogAction,
+  AlertDialogCancel,
+  AlertDialogContent,
+  AlertDialogDescription,
+  AlertDialogFooter,
+  AlertDialogHeader,
+  AlertDialogTitle,
+} from "@/components/ui/alert-dialog";
+import { useSurveys, useBulkSurveyAction } from "@/hooks/use-surveys";
+import { useToast } from "@/hooks/use-toast";
+import { SURVEY_STATUSES, COLLECTION_MODES, SURVEY_LANGUAGES, type Survey } from "@shared/schema";
+import type { BulkSurveyAction, ListSurveysQuery } from "@shared/routes";
+
+const ANY = "any";
+const PAGE_SIZE = 20;
+
+type Status = typeof SURVEY_STATUSES[number];
+
+const STATUS_VARIANTS: Record<Status, "default" | "secondary" | "outline"> = {
+  draft: "outline",
+  active: "default",
+  completed: "secondary",
+};
+
+// "createdAt:desc" <-> { sort, order } for the single sort select
+const SORT_OPTIONS: { value: string; label: string }[] = [
+  { value: "createdAt:desc", label: "Newest first" },
+  { value: "createdAt:asc", label: "Oldest first" },
+  { value: "updatedAt:desc", label: "Recently edited" },
+  { value: "name:asc", label: "Name A-Z" },
+  { value: "name:desc", label: "Name Z-A" },
+];
+
+const BULK_ACTION_VERBS: Record<BulkSurveyAction["action"], string> = {
+  archive: "Archived",
+  unarchive: "Restored",
+  delete: "Deleted",
+  publish: "Published",
+  close: "Closed",
+  reopen: "Reopened",
+};
+
+const capitalize = (value: string) => value.charAt(0).toUpperCase() + value.slice(1);
+
+/**
+ * DashboardPage - Paginated list of all surveys with filters and bulk actions
+ *
+ * Filtering, sorting and paging happen on the server. The selection is cleared
+ * whenever the filters or page change, so bulk actions only apply to visible rows.
+ */
+export default function DashboardPage() {
+  const { toast } = useToast();
+  const bulkAction = useBulkSurveyAction();
+
+  const [searchInput, setSearchInput] = useState("");
+  const [search, setSearch] = useState("");
+  const [status, setStatus] = useState<string>(ANY);
+  const [language, setLanguage] = useState<string>(ANY);
+  const [collectionMode, setCollectionMode] = useState<string>(ANY);
+  const [createdFrom, setCreatedFrom] = useState("");
+  const [createdTo, setCreatedTo] = useState("");
+  const [sort, setSort] = useState(SORT_OPTIONS[0].value);
+  const [archived, setArchived] = useState<ListSurveysQuery["archived"]>("exclude");
+  const [page, setPage] = useState(1);
+  const [selected, setSelected] = useState<Set<number>>(new Set());
+  const [isDeleteConfirmOpen, setIsDeleteConfirmOpen] = useState(false);
+
+  // Debounce typing so every keystroke doesn't hit the server
+  useEffect(() => {
+    const timer = setTimeout(() => setSearch(searchInput.trim()), 300);
+    return () => clearTimeout(timer);
+  }, [searchInput]);
+
+  const query = useMemo<Partial<ListSurveysQuery>>(() => {
+    const [sortField, order] = sort.split(":") as [ListSurveysQuery["sort"], ListSurveysQuery["order"]];
+    return {
+      page,
+      pageSize: PAGE_SIZE,
+      search: search || undefined,
+      status: status === ANY ? undefined : (status as Status),
+      language: language === ANY ? undefined : (language as typeof SURVEY_LANGUAGES[number]),
+      collectionMode: collectionMode === ANY ? undefined : (collectionMode as typeof COLLECTION_MODES[number]),
+      // Date inputs are local calendar days; the "to" day is included in full
+      createdFrom: createdFrom ? new Date(`${createdFrom}T00:00:00`) : undefined,
+      createdTo: createdTo ? new Date(`${createdTo}T23:59:59.999`) : undefined,
+      sort: sortField,
+      order,
+      archived,
+    };
+  }, [page, search, status, language, collectionMode, createdFrom, createdTo, sort, archived]);
+
+  // Any filter change starts again from the first page
+  useEffect(() => {
+    setPage(1);
+  }, [search, status, language, collectionMode, createdFrom, createdTo, sort, archived]);
+
+  useEffect(() => {
+    setSelected(new Set());
+  }, [query]);
+
+  const { data, isLoading, isFetching } = useSurveys(query);
+  const surveys = data?.items ?? [];
+  const total = data?.total ?? 0;
+  const pageCount = Math.max(1, Math.ceil(total / PAGE_SIZE));
+  const allSelected = surveys.length > 0 && surveys.every(survey => selected.has(survey.id));
+  const hasFilters = !!search || status !== ANY || language !== ANY || collectionMode !== ANY || !!createdFrom || !!createdTo || archived !== "exclude";
+
+  const toggleOne = (id: number, checked: boolean) => {
+    setSelected(prev => {
+      const next = new Set(prev);
+      if (checked) next.add(id);
+      else next.delete(id);
+      return next;
+    });
+  };
+
+  const toggleAll = (checked: boolean) => {
+    setSelected(checked ? new Set(surveys.map(survey => survey.id)) : new Set());
+  };
+
+  const clearFilters = () => {
+    setSearchInput("");
+    setStatus(ANY);
+    setLanguage(ANY);
+    setCollectionMode(ANY);
+    setCreatedFrom("");
+    setCreatedTo("");
+    setArchived("exclude");
+  };
+
+  const runBulkAction = async (action: BulkSurveyAction["action"]) => {
+    const ids = Array.from(selected);
+    if (ids.length === 0) return;
+    try {
+      const result = await bulkAction.mutateAsync({ action, ids });
+      // Surveys whose status doesn't allow the transition (e.g. publishing an active one) are skipped
+      const notes = [
+        result.notFound.length > 0 && `${result.notFound.length} could not be found.`,
+        result.skipped.length > 0 && `${result.skipped.length} skipped: ${result.skipped[0].message}${result.skipped.length > 1 ? " (and others)" : ""}.`,
+      ].filter(Boolean);
+      toast({
+        title: `${BULK_ACTION_VERBS[action]} ${result.affected.length} survey${result.affected.length === 1 ? "" : "s"}`,
+        description: notes.length > 0 ? notes.join(" ") : undefined,
+        variant: result.affected.length === 0 ? "destructive" : undefined,
+      });
+      setSelected(new Set());
+      // Deleting the whole last page would otherwise leave an empty page behind
+      if (action === "delete" && result.affected.length === surveys.length && page > 1) {
+        setPage(page - 1);
+      }
+    } catch (error) {
+      // Error toast is shown by the hook
+      console.error("Bulk action failed:", error);
+    }
+  };
+
+  const renderSurveyRow = (survey: Survey) => (
+    <TableRow key={survey.id} data-state={selected.has(survey.id) ? "selected" : undefined}>
+      <TableCell>
+        <Checkbox
+          checked={selected.has(survey.id)}
+          onCheckedChange={(checked) => toggleOne(survey.id, checked === true)}
+          aria-label={`Select ${survey.name}`}
+        />
+      </TableCell>
+      <TableCell className="font-medium">
+        <Link href={`/builder/${survey.id}`} className="text-secondary hover:text-primary hover:underline">
+          {survey.name}
+        </Link>
+        {survey.archivedAt && <Badge variant="outline" className="ml-2 text-xs">Archived</Badge>}
+      </TableCell>
+      <TableCell>
+        <Badge variant={STATUS_VARIANTS[survey.status]}>{capitalize(survey.status)}</Badge>
+      </TableCell>
+      <TableCell>{survey.language}</TableCell>
+      <TableCell>{capitalize(survey.collectionMode)}</TableCell>
+      <TableCell className="text-muted-foreground">
+        {survey.createdAt ? format(new Date(survey.createdAt), "MMM d, yyyy") : "-"}
+      </TableCell>
+      <TableCell className="text-muted-foreground">
+        {survey.updatedAt ? format(new Date(survey.updatedAt), "MMM d, h:mm a") : "-"}
+      </TableCell>
+    </TableRow>
+  );
+
+  return (
+    <div className="min-h-screen bg-[#F5F7FA] font-sans">
+      <main className="p-6 md:p-10 mx-auto w-full max-w-7xl space-y-6">
+        <div className="flex flex-wrap items-center justify-between gap-4">
+          <h1 className="text-3xl font-display font-bold text-secondary">Surveys</h1>
+          <Link href="/config">
+            <Button className="btn-primary">
+              <Plus className="w-4 h-4 mr-2" /> Create New Survey
+            </Button>
+          </Link>
+        </div>
+
+        {/* Filters */}
+        <div className="bg-white rounded-xl shadow-sm border border-border p-4 space-y-3">
+          <div className="relative">
+            <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-muted-foreground" />
+            <Input
+              value={searchInput}
+              onChange={(e) => setSearchInput(e.target.value)}
+              placeholder="Search by name"
+              className="pl-9"
+              aria-label="Search surveys by name"
+            />
+          </div>
+          <div className="flex flex-wrap items-center gap-2">
+            <Select value={status} onValueChange={setStatus}>
+              <SelectTrigger className="w-36" aria-label="Status">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any status</SelectItem>
+                {SURVEY_STATUSES.map(option => (
+                  <SelectItem key={option} value={option}>{capitalize(option)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={language} onValueChange={setLanguage}>
+              <SelectTrigger className="w-40" aria-label="Language">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any language</SelectItem>
+                {SURVEY_LANGUAGES.map(option => (
+                  <SelectItem key={option} value={option}>{option}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={collectionMode} onValueChange={setCollectionMode}>
+              <SelectTrigger className="w-36" aria-label="Collection mode">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value={ANY}>Any mode</SelectItem>
+                {COLLECTION_MODES.map(option => (
+                  <SelectItem key={option} value={option}>{capitalize(option)}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            <Select value={archived} onValueChange={(value) => setArchived(value as ListSurveysQuery["archived"])}>
+              <SelectTrigger className="w-44" aria-label="Archived surveys">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="exclude">Hide archived</SelectItem>
+                <SelectItem value="include">Include archived</SelectItem>
+                <SelectItem value="only">Archived only</SelectItem>
+              </SelectContent>
+            </Select>
+            <div className="flex items-center gap-1 text-sm text-muted-foreground">
+              <span>Created</span>
+              <Input type="date" value={createdFrom} max={createdTo || undefined} onChange={(e) => setCreatedFrom(e.target.value)} className="w-40" aria-label="Created from" />
+              <span>to</span>
+              <Input type="date" value={createdTo} min={createdFrom || undefined} onChange={(e) => setCreatedTo(e.target.value)} className="w-40" aria-label="Created to" />
+            </div>
+            <Select value={sort} onValueChange={setSort}>
+              <SelectTrigger className="w-40 ml-auto" aria-label="Sort">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {SORT_OPTIONS.map(option => (
+                  <SelectItem key={option.value} value={option.value}>{option.label}</SelectItem>
+                ))}
+              </SelectContent>
+            </Select>
+            {hasFilters && (
+              <Button variant="ghost" size="sm" onClick={clearFilters}>Clear filters</Button>
+            )}
+          </div>
+        </div>
+
+        {/* Bulk actions */}
+        {selected.size > 0 && (
+          <div className="flex flex-wrap items-center gap-2 rounded-xl border border-primary/30 bg-primary/5 px-4 py-3">
+            <span className="text-sm font-medium text-secondary mr-2">{selected.size} selected</span>
+            <Select value="" onValueChange={(value) => runBulkAction(value as BulkSurveyAction["action"])} disabled={bulkAction.isPending}>
+              <SelectTrigger className="w-40 bg-white" aria-label="Change status">
+                <SelectValue placeholder="Change status" />
+              </SelectTrigger>
+              <SelectContent>
+                <SelectItem value="publish">Publish</SelectItem>
+                <SelectItem value="close">Close</SelectItem>
+                <SelectItem value="reopen">Reopen</SelectItem>
+              </SelectContent>
+            </Select>
+            {archived === "only" ? (
+              <Button variant="outline" size="sm" onClick={() => runBulkAction("unarchive")} disabled={bulkAction.isPending}>
+                <ArchiveRestore className="w-4 h-4 mr-2" /> Unarchive
+              </Button>
+            ) : (
+              <>
+                <Button variant="outline" size="sm" onClick={() => runBulkAction("archive")} disabled={bulkAction.isPending}>
+                  <Archive className="w-4 h-4 mr-2" /> Archive
+                </Button>
+                {archived === "include" && (
+                  <Button variant="outline" size="sm" onClick={() => runBulkAction("unarchive")} disabled={bulkAction.isPending}>
+                    <ArchiveRestore className="w-4 h-4 mr-2" /> Unarchive
+                  </Button>
+                )}
+              </>
+            )}
+            <Button
+              variant="outline"
+              size="sm"
+              onClick={() => setIsDeleteConfirmOpen(true)}
+              disabled={bulkAction.isPending}
+              className="text-destructive hover:text-destructive"
+            >
+              <Trash2 className="w-4 h-4 mr-2" /> Delete
+            </Button>
+            {bulkAction.isPending && <Loader2 className="w-4 h-4 animate-spin text-primary" />}
+            <Button variant="ghost" size="sm" className="ml-auto" onClick={() => setSelected(new Set())}>
+              Clear selection
+            </Button>
+          </div>
+        )}
+
+        {/* Results */}
+        <div className="bg-white rounded-xl shadow-sm border border-border">
+          {isLoading ? (
+            <div className="py-16 flex justify-center">
+              <Loader2 className="w-6 h-6 animate-spin text-primary" />
+            </div>
+          ) : surveys.length === 0 ? (
+            <p className="py-16 text-center text-sm text-muted-foreground">
+              {hasFilters ? "No surveys match these filters." : "No surveys yet."}
+            </p>
+          ) : (
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-10">
+                    <Checkbox
+                      checked={allSelected}
+                      onCheckedChange={(checked) => toggleAll(checked === true)}
+                      aria-label="Select all on this page"
+                    />
+                  </TableHead>
+                  <TableHead>Name</TableHead>
+                  <TableHead>Status</TableHead>
+                  <TableHead>Language</TableHead>
+                  <TableHead>Mode</TableHead>
+                  <TableHead>Created</TableHead>
+                  <TableHead>Last edited</TableHead>
+                </TableRow>
+              </TableHeader>
+              <TableBody>{surveys.map(renderSurveyRow)}</TableBody>
+            </Table>
+          )}
+        </div>
+
+        {/* Pagination */}
+        <div className="flex items-center justify-between text-sm text-muted-foreground">
+          <span>
+            {total} survey{total === 1 ? "" : "s"}
+            {isFetching && !isLoading && <Loader2 className="inline w-3 h-3 ml-2 animate-spin" />}
+          </span>
+          <div className="flex items-center gap-2">
+            <Button variant="outline" size="sm" onClick={() => setPage(page - 1)} disabled={page <= 1}>
+              <ChevronLeft className="w-4 h-4" /> Previous
+            </Button>
+            <span>Page {page} of {pageCount}</span>
+            <Button variant="outline" size="sm" onClick={() => setPage(page + 1)} disabled={page >= pageCount}>
+              Next <ChevronRight className="w-4 h-4" />
+            </Button>
+          </div>
+        </div>
+      </main>
+
+      <AlertDialog open={isDeleteConfirmOpen} onOpenChange={setIsDeleteConfirmOpen}>
+        <AlertDialogContent>
+          <AlertDialogHeader>
+            <AlertDialogTitle>Delete {selected.size} survey{selected.size === 1 ? "" : "s"}?</AlertDialogTitle>
+            <AlertDialogDescription>
+              This permanently deletes the surveys with their revisions and responses. Archive them instead to hide them without losing data.
+            </AlertDialogDescription>
+          </AlertDialogHeader>
+          <AlertDialogFooter>
+            <AlertDialogCancel>Cancel</AlertDialogCancel>
+            <AlertDialogAction
+              onClick={() => runBulkAction("delete")}
+              className="bg-destructive text-destructive-foreground hover:bg-destructive/90"
+            >
+              Delete
+            </AlertDialogAction>
+          </AlertDialogFooter>
+        </AlertDialogContent>
+      </AlertDialog>
+    </div>
+  );
+}
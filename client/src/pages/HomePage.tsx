@@ -21,9 +21,11 @@ export default function HomePage() {
             </Button>
           </Link>
           
-          <Button variant="outline" className="btn-secondary h-auto py-4 px-8 text-lg">
-            <FolderOpen className="w-5 h-5 mr-2" /> View Dashboard
-          </Button>
+          <Link href="/dashboard">
+            <Button variant="outline" className="btn-secondary h-auto py-4 px-8 text-lg">
+              <FolderOpen className="w-5 h-5 mr-2" /> View Dashboard
+            </Button>
+          </Link>
         </div>
 
         {/* Decorative Image */}
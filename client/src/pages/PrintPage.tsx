@@ -0,0 +1,61 @@
+import { useRoute, Link } from "wouter";
+import { ArrowLeft, Loader2, Printer } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { PaperQuestionnaire } from "@/components/PaperQuestionnaire";
+import { useSurvey } from "@/hooks/use-surveys";
+import type { SurveySection } from "@shared/schema";
+
+/**
+ * PrintPage - Paper questionnaire for a survey
+ *
+ * Renders the print layout with a toolbar that is left off the printout.
+ * Printing goes through the browser, which also saves it as a PDF with the
+ * Arabic text shaped correctly.
+ */
+export default function PrintPage() {
+  const [, params] = useRoute("/print/:id");
+  const surveyId = params?.id ? Number(params.id) : null;
+  const { data: survey, isLoading } = useSurvey(surveyId);
+  const sections: SurveySection[] = survey?.structure?.sections || [];
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!survey || !sections.some(section => section.questions.length > 0)) {
+    return (
+      <div className="min-h-screen bg-[#F5F7FA] flex items-center justify-center p-6">
+        <div className="bg-white rounded-xl shadow-sm border border-border p-8 text-center max-w-md">
+          <h1 className="text-2xl font-semibold text-secondary mb-2">Nothing to print</h1>
+          <p className="text-muted-foreground">This survey does not exist or has no questions yet.</p>
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F5F7FA] print:bg-white">
+      <header className="bg-white border-b border-border print:hidden">
+        <div className="max-w-5xl mx-auto px-6 py-4 flex items-center justify-between gap-4">
+          <Link href={`/builder/${survey.id}`}>
+            <Button variant="ghost" size="sm">
+              <ArrowLeft className="w-4 h-4 mr-2" /> Back to builder
+            </Button>
+          </Link>
+          <Button size="sm" onClick={() => window.print()}>
+            <Printer className="w-4 h-4 mr-2" /> Print or save as PDF
+          </Button>
+        </div>
+      </header>
+      <main className="p-6 md:p-10 print:p-0">
+        <div className="bg-white rounded-xl border border-border p-8 md:p-12 print:border-0 print:rounded-none print:p-0">
+          <PaperQuestionnaire survey={survey} />
+        </div>
+      </main>
+    </div>
+  );
+}
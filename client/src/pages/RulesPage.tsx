@@ -1,15 +1,23 @@
-import { useState, useEffect } from "react";
+import { useState, useEffect, useMemo } from "react";
 import { useRoute, useLocation } from "wouter";
-import { Type, Loader2, CheckCircle2, AlertCircle, Eye, EyeOff, Lock, Unlock, AlertTriangle } from "lucide-react";
+import { Type, Loader2, CheckCircle2, AlertCircle, Eye, EyeOff, Lock, Unlock, AlertTriangle, FlaskConical, Check, X, Zap, Plus, Pencil, Trash2, ArrowUp, ArrowDown, Save } from "lucide-react";
 import { Button } from "@/components/ui/button";
 import { Textarea } from "@/components/ui/textarea";
 import { HistorySidebar } from "@/components/HistorySidebar";
-import { useGenerateSurveyRules, useGenerateQuestions, useUpdateSurvey, PromptValidationError } from "@/hooks/use-surveys";
+import { RuleSimulationPanel } from "@/components/RuleSimulationPanel";
+import { RuleEditorDialog } from "@/components/RuleEditorDialog";
+import { Badge } from "@/components/ui/badge";
+import { useSurvey, useSaveSurveyRules, useGenerateSurveyRules, useGenerateQuestions, useUpdateSurvey, PromptValidationError } from "@/hooks/use-surveys";
 import { RulesGenerationValidationError } from "@/lib/rulesGenerationError";
 import { useToast } from "@/hooks/use-toast";
 import { Card, CardContent, CardHeader, CardTitle } from "@/components/ui/card";
 import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
 import { cn } from "@/lib/utils";
+import { getDisplayLanguage } from "@/lib/questionDisplay";
+import { lintRules } from "@/lib/ruleLint";
+import { evaluateCondition, evaluateRules, type SurveyRule } from "@shared/rules";
+import type { AnswerSet, AnswerValue } from "@shared/answers";
+import type { SurveySection } from "@shared/schema";
 
 /**
  * RulesPage - Page for generating survey rules
@@ -18,6 +26,12 @@ import { cn } from "@/lib/utils";
  * Features a large textarea with character counter and generate button.
  * Calls the API endpoint POST /api/agentic-survey/{thread_id}/rules/generate
  * to generate validation and conditional rules based on user input.
+ *
+ * Generated rules can be tried out in the simulate pane, which runs the shared
+ * rule engine against sample answers for the survey's saved questions.
+ * Rules can also be added, edited, reordered and deleted by hand; "Save rules"
+ * stores them on the survey record (PUT /api/surveys/{id}/rules), which also
+ * tracks whether the questions changed since.
  */
 export default function RulesPage() {
   const [, params] = useRoute("/rules/:id");
@@ -38,35 +52,7 @@ export default function RulesPage() {
   const [generatedRules, setGeneratedRules] = useState<{
     thread_id: string;
     rules: {
-      survey_rules: Array<{
-        meta_rule: {
-          rule_id: string;
-          rule_type: string;
-          description_en: string;
-          description_ar: string;
-        };
-        conditions: Array<{
-          left_side: {
-            type: string;
-            question_id: string;
-            data_type?: string;
-          };
-          operator: string;
-          right_side: {
-            type: string;
-            value: any;
-            data_type?: string;
-          };
-        }>;
-        actions: Array<{
-          type: string;
-          action_element: string;
-          message_en?: string;
-          message_ar?: string;
-          sequence?: number;
-          action_answer?: string;
-        }>;
-      }>;
+      survey_rules: SurveyRule[];
     };
     critique_summary?: {
       initial_validation: {
@@ -88,10 +74,111 @@ export default function RulesPage() {
     invalid_spec_ids?: string[];
   } | null>(null);
   
+  // Saved questions of the survey - used to simulate and check the rules
+  const { data: survey } = useSurvey(surveyId);
+  const surveySections: SurveySection[] = survey?.structure?.sections || [];
+  const surveyRules = generatedRules?.rules?.survey_rules || [];
+
+  // Local rule checks (dangling spec_ids, operator/type mismatches, cycles, contradictions)
+  const lintIssues = useMemo(
+    () => (surveySections.length > 0 ? lintRules(surveySections, surveyRules) : []),
+    [surveySections, surveyRules],
+  );
+
+  // Manual editing state: index of the rule being edited ("new" for a new rule)
+  const [editingRule, setEditingRule] = useState<number | "new" | null>(null);
+  const [hasUnsavedRules, setHasUnsavedRules] = useState(false);
+
+  // Show rules saved with the survey until new ones are generated or edited
+  useEffect(() => {
+    const savedRules = survey?.rules;
+    if (!generatedRules && savedRules && savedRules.length > 0) {
+      setGeneratedRules({
+        ...survey?.rulesMetadata,
+        thread_id: survey?.rulesMetadata?.thread_id ?? threadId ?? "",
+        rules: { survey_rules: savedRules },
+      });
+    }
+  }, [survey?.rules]);
+
+  /**
+   * Replace the rule list with a manually edited one (creates the rules state when empty)
+   */
+  const setRules = (next: SurveyRule[]) => {
+    setGeneratedRules(prev => ({
+      ...(prev ?? { thread_id: threadId ?? "" }),
+      rules: { survey_rules: next },
+      rules_source: "custom",
+    }));
+    setHasUnsavedRules(true);
+  };
+
+  const handleSaveRuleEdit = (rule: SurveyRule) => {
+    if (editingRule === "new") {
+      setRules([...surveyRules, rule]);
+    } else if (editingRule !== null) {
+      setRules(surveyRules.map((r, idx) => (idx === editingRule ? rule : r)));
+    }
+    setEditingRule(null);
+  };
+
+  const handleMoveRule = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= surveyRules.length) return;
+    const next = [...surveyRules];
+    [next[index], next[target]] = [next[target], next[index]];
+    setRules(next);
+  };
+
+  const handleDeleteRule = (index: number) => {
+    setRules(surveyRules.filter((_, idx) => idx !== index));
+  };
+
+  /**
+   * Save the current rules on the survey record (questions stay untouched)
+   */
+  const handleSaveRules = async () => {
+    if (!surveyId) return;
+    try {
+      await saveRules.mutateAsync({ id: surveyId, rules: surveyRules, metadata: getRulesMetadata() });
+      setHasUnsavedRules(false);
+      toast({ title: "Rules saved", description: `${surveyRules.length} rule(s) saved with the survey.` });
+    } catch (error) {
+      // Error toast is shown by the hook
+      console.error("Failed to save rules:", error);
+    }
+  };
+
+  // Generation details stored next to the rules
+  const getRulesMetadata = () => ({
+    thread_id: generatedRules?.thread_id || undefined,
+    rules_source: generatedRules?.rules_source ?? "ai_generate",
+    critique_summary: generatedRules?.critique_summary,
+    survey_version: generatedRules?.survey_version,
+    rules_survey_version: generatedRules?.rules_survey_version,
+  });
+
+  // Simulation state: sample answers for the survey's questions
+  const [isSimulating, setIsSimulating] = useState(false);
+  const [simulationAnswers, setSimulationAnswers] = useState<AnswerSet>({});
+  const simulationDisplay = useMemo(
+    () => getDisplayLanguage(survey?.language || "English", surveySections[0]?.questions?.[0]?.text),
+    [survey?.language, surveySections],
+  );
+  const simulation = useMemo(
+    () => evaluateRules({ sections: surveySections }, surveyRules, simulationAnswers),
+    [surveySections, surveyRules, simulationAnswers],
+  );
+
+  const handleSimulationAnswerChange = (key: string, value: AnswerValue) => {
+    setSimulationAnswers(prev => ({ ...prev, [key]: value }));
+  };
+
   // Hooks for generating rules and questions
   const generateRules = useGenerateSurveyRules();
   const generateQuestions = useGenerateQuestions();
   const updateSurvey = useUpdateSurvey();
+  const saveRules = useSaveSurveyRules();
 
   /**
    * Get thread_id from localStorage on mount and when surveyId changes
@@ -164,6 +251,7 @@ export default function RulesPage() {
       
       // Store the generated rules to display them
       setGeneratedRules(response);
+      setHasUnsavedRules(true);
     } catch (error) {
       // Check if this is a prompt validation error with a suggested prompt
       if (error instanceof PromptValidationError && error.suggestedPrompt) {
@@ -242,20 +330,17 @@ export default function RulesPage() {
             skip_logic: question.skip_logic || undefined,
           })),
         })),
-        // Add rules to the structure
-        rules: generatedRules.rules.survey_rules,
-        rules_metadata: {
-          thread_id: generatedRules.thread_id,
-          critique_summary: generatedRules.critique_summary,
-        },
       };
 
-      // Step 3: Save the complete survey structure (questions + rules)
+      // Step 3: Save the survey structure, then the rules against the new structure version
       try {
         await updateSurvey.mutateAsync({ 
           id: surveyId, 
-          structure: transformedPlan 
+          structure: transformedPlan,
+          revision: { source: "regenerate" },
         });
+        await saveRules.mutateAsync({ id: surveyId, rules: surveyRules, metadata: getRulesMetadata() });
+        setHasUnsavedRules(false);
       } catch (updateError) {
         // Show warning but continue - similar to ConfigPage pattern
         console.warn("Survey update failed, continuing in frontend-only mode:", updateError);
@@ -291,7 +376,7 @@ export default function RulesPage() {
     <div className="min-h-screen bg-[#F5F7FA] flex font-sans">
       <div className={cn("flex-1 flex flex-col min-w-0 transition-all duration-300", isSidebarOpen ? "pr-80" : "pr-12")}>
         {/* Main Content */}
-        <main className="flex-1 p-6 md:p-10 max-w-5xl mx-auto w-full">
+        <main className={cn("flex-1 p-6 md:p-10 mx-auto w-full", isSimulating ? "max-w-7xl" : "max-w-5xl")}>
           {/* Title */}
           <h1 className="text-3xl font-display font-bold text-secondary text-center mb-8">
             Generated Survey Rules
@@ -350,14 +435,55 @@ export default function RulesPage() {
           </div>
 
           {/* Generated Rules Display Section */}
-          {generatedRules && generatedRules.rules?.survey_rules && generatedRules.rules.survey_rules.length > 0 && (
+          {(surveyRules.length > 0 || surveySections.length > 0) && (
             <div className="mt-8 space-y-4">
-              <h2 className="text-2xl font-semibold text-secondary mb-4">
-                Generated Rules ({generatedRules.rules.survey_rules.length})
-              </h2>
+              <div className="flex items-center justify-between mb-4">
+                <h2 className="text-2xl font-semibold text-secondary">
+                  Rules ({surveyRules.length})
+                </h2>
+                <div className="flex items-center gap-2">
+                  <Button variant="outline" onClick={() => setEditingRule("new")} disabled={surveySections.length === 0}>
+                    <Plus className="w-4 h-4 mr-2" /> Add rule
+                  </Button>
+                  <Button
+                    variant={isSimulating ? "secondary" : "outline"}
+                    onClick={() => setIsSimulating(!isSimulating)}
+                    disabled={surveySections.length === 0}
+                    title={surveySections.length === 0 ? "Save the survey's questions first to simulate rules" : undefined}
+                  >
+                    <FlaskConical className="w-4 h-4 mr-2" />
+                    {isSimulating ? "Hide simulation" : "Simulate"}
+                  </Button>
+                  <Button
+                    onClick={handleSaveRules}
+                    disabled={!hasUnsavedRules || !surveyId || saveRules.isPending}
+                    className="btn-primary"
+                  >
+                    {saveRules.isPending ? (
+                      <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                    ) : (
+                      <Save className="w-4 h-4 mr-2" />
+                    )}
+                    Save rules
+                  </Button>
+                </div>
+              </div>
               
+              {/* Saved rules no longer match the questions (set by the server when the structure changes) */}
+              {survey?.rulesStale && !hasUnsavedRules && (
+                <Alert variant="destructive" className="mb-4">
+                  <AlertTriangle className="h-4 w-4" />
+                  <AlertTitle>Questions changed since these rules were saved</AlertTitle>
+                  <AlertDescription>
+                    The rules were saved for version {survey.rulesStructureVersion ?? "?"} of the questions; the survey is
+                    now at version {survey.structureVersion}. Review the rules (the rule check below flags missing
+                    questions and options) and save them again, or regenerate them.
+                  </AlertDescription>
+                </Alert>
+              )}
+
               {/* Warnings Banner */}
-              {(generatedRules.is_stale === true || (generatedRules.warnings && generatedRules.warnings.length > 0)) && (
+              {generatedRules && (generatedRules.is_stale === true || (generatedRules.warnings && generatedRules.warnings.length > 0)) && (
                 <Alert variant="destructive" className="mb-4">
                   <AlertTriangle className="h-4 w-4" />
                   <AlertTitle>
@@ -386,121 +512,205 @@ export default function RulesPage() {
                 </Alert>
               )}
               
-              <div className="space-y-4">
-                {generatedRules.rules.survey_rules.map((rule, index) => {
-                  // Map rule types to icons and colors
-                  const getRuleTypeInfo = (ruleType: string) => {
-                    switch (ruleType) {
-                      case "error_message":
-                        return { icon: AlertCircle, color: "text-red-600", bgColor: "bg-red-50", borderColor: "border-red-200" };
-                      case "warning_message":
-                        return { icon: AlertCircle, color: "text-yellow-600", bgColor: "bg-yellow-50", borderColor: "border-yellow-200" };
-                      case "hide_question":
-                      case "hide_answer":
-                        return { icon: EyeOff, color: "text-gray-600", bgColor: "bg-gray-50", borderColor: "border-gray-200" };
-                      case "show_question":
-                      case "show_answer":
-                        return { icon: Eye, color: "text-blue-600", bgColor: "bg-blue-50", borderColor: "border-blue-200" };
-                      case "disable_question":
-                        return { icon: Lock, color: "text-orange-600", bgColor: "bg-orange-50", borderColor: "border-orange-200" };
-                      case "enable_question":
-                        return { icon: Unlock, color: "text-green-600", bgColor: "bg-green-50", borderColor: "border-green-200" };
-                      default:
-                        return { icon: CheckCircle2, color: "text-primary", bgColor: "bg-primary/5", borderColor: "border-primary/20" };
-                    }
-                  };
-
-                  const typeInfo = getRuleTypeInfo(rule.meta_rule.rule_type);
-                  const Icon = typeInfo.icon;
-
-                  return (
-                    <Card key={index} className={`${typeInfo.bgColor} ${typeInfo.borderColor} border-2`}>
-                      <CardHeader>
-                        <CardTitle className="flex items-center gap-2 text-lg">
-                          <Icon className={`w-5 h-5 ${typeInfo.color}`} />
-                          <span className={typeInfo.color}>
-                            {rule.meta_rule.rule_id}: {rule.meta_rule.rule_type.replace(/_/g, " ").replace(/\b\w/g, l => l.toUpperCase())}
-                          </span>
-                        </CardTitle>
-                      </CardHeader>
-                      <CardContent className="space-y-4">
-                        {/* Description */}
-                        <div>
-                          <p className="text-sm font-medium text-secondary mb-1">Description:</p>
-                          <p className="text-sm text-muted-foreground">{rule.meta_rule.description_en}</p>
-                          {rule.meta_rule.description_ar && (
-                            <p className="text-sm text-muted-foreground mt-1" dir="rtl">{rule.meta_rule.description_ar}</p>
+              {/* Local rule check results */}
+              {lintIssues.length > 0 && (
+                <Alert variant={lintIssues.some(issue => issue.severity === "error") ? "destructive" : "default"} className="mb-4">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>
+                    Rule check found {lintIssues.length} issue{lintIssues.length !== 1 ? "s" : ""}
+                  </AlertTitle>
+                  <AlertDescription>
+                    Issues are listed on the affected rules below.
+                  </AlertDescription>
+                </Alert>
+              )}
+
+              <div className={cn(isSimulating && "grid grid-cols-1 lg:grid-cols-2 gap-6 items-start")}>
+                <div className="space-y-4">
+                  {surveyRules.length === 0 && (
+                    <p className="text-sm text-muted-foreground">
+                      No rules yet. Generate rules above or add one by hand.
+                    </p>
+                  )}
+                  {surveyRules.map((rule, index) => {
+                    // Map rule types to icons and colors
+                    const getRuleTypeInfo = (ruleType: string) => {
+                      switch (ruleType) {
+                        case "error_message":
+                          return { icon: AlertCircle, color: "text-red-600", bgColor: "bg-red-50", borderColor: "border-red-200" };
+                        case "warning_message":
+                          return { icon: AlertCircle, color: "text-yellow-600", bgColor: "bg-yellow-50", borderColor: "border-yellow-200" };
+                        case "hide_question":
+                        case "hide_answer":
+                          return { icon: EyeOff, color: "text-gray-600", bgColor: "bg-gray-50", borderColor: "border-gray-200" };
+                        case "show_question":
+                        case "show_answer":
+                          return { icon: Eye, color: "text-blue-600", bgColor: "bg-blue-50", borderColor: "border-blue-200" };
+                        case "disable_question":
+                          return { icon: Lock, color: "text-orange-600", bgColor: "bg-orange-50", borderColor: "border-orange-200" };
+                        case "enable_question":
+                          return { icon: Unlock, color: "text-green-600", bgColor: "bg-green-50", borderColor: "border-green-200" };
+                        default:
+                          return { icon: CheckCircle2, color: "text-primary", bgColor: "bg-primary/5", borderColor: "border-primary/20" };
+                      }
+                    };
+
+                    const typeInfo = getRuleTypeInfo(rule.meta_rule.rule_type);
+                    const Icon = typeInfo.icon;
+                    const isFired = isSimulating && simulation.firedRuleIds.includes(rule.meta_rule.rule_id);
+                    const ruleIssues = lintIssues.filter(issue => [issue.rule_id, issue.related_rule_id].includes(rule.meta_rule.rule_id));
+
+                    return (
+                      <Card key={index} className={cn(`${typeInfo.bgColor} ${typeInfo.borderColor} border-2`, isFired && "ring-2 ring-primary ring-offset-2")}>
+                        <CardHeader>
+                          <CardTitle className="flex items-center gap-2 text-lg">
+                            <Icon className={`w-5 h-5 ${typeInfo.color}`} />
+                            <span className={typeInfo.color}>
+                              {rule.meta_rule.rule_id}: {rule.meta_rule.rule_type.replace(/_/g, " ").replace(/\b\w/g, l => l.toUpperCase())}
+                            </span>
+                            {isFired && (
+                              <Badge className="gap-1"><Zap className="w-3 h-3" /> Fired</Badge>
+                            )}
+                            {/* Manual editing controls */}
+                            <div className="ml-auto flex items-center gap-1">
+                              <Button variant="ghost" size="sm" onClick={() => handleMoveRule(index, -1)} disabled={index === 0} aria-label="Move rule up">
+                                <ArrowUp className="w-4 h-4" />
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => handleMoveRule(index, 1)} disabled={index === surveyRules.length - 1} aria-label="Move rule down">
+                                <ArrowDown className="w-4 h-4" />
+                              </Button>
+                              <Button variant="ghost" size="sm" onClick={() => setEditingRule(index)} disabled={surveySections.length === 0} aria-label="Edit rule">
+                                <Pencil className="w-4 h-4" />
+                              </Button>
+                              <Button
+                                variant="ghost"
+                                size="sm"
+                                onClick={() => handleDeleteRule(index)}
+                                className="text-destructive hover:text-destructive hover:bg-destructive/10"
+                                aria-label="Delete rule"
+                              >
+                                <Trash2 className="w-4 h-4" />
+                              </Button>
+                            </div>
+                          </CardTitle>
+                        </CardHeader>
+                        <CardContent className="space-y-4">
+                          {/* Rule check issues for this rule */}
+                          {ruleIssues.length > 0 && (
+                            <ul className="space-y-1 rounded-md border border-red-200 bg-white/70 p-3">
+                              {ruleIssues.map((issue, issueIdx) => (
+                                <li
+                                  key={issueIdx}
+                                  className={cn("text-sm flex items-start gap-2", issue.severity === "error" ? "text-red-700" : "text-yellow-700")}
+                                >
+                                  <AlertTriangle className="w-4 h-4 flex-shrink-0 mt-0.5" />
+                                  <span>{issue.message}</span>
+                                </li>
+                              ))}
+                            </ul>
                           )}
-                        </div>
 
-                        {/* Conditions */}
-                        {rule.conditions && rule.conditions.length > 0 && (
+                          {/* Description */}
                           <div>
-                            <p className="text-sm font-medium text-secondary mb-2">Conditions:</p>
-                            <div className="space-y-2">
-                              {rule.conditions.map((condition, condIdx) => (
-                                <div key={condIdx} className="bg-white/50 rounded-md p-3 border border-border/50">
-                                  <div className="text-sm">
-                                    <span className="font-medium">{condition.left_side.question_id}</span>
-                                    {" "}
-                                    <span className="text-muted-foreground">
-                                      {condition.operator.replace(/_/g, " ").replace(/\b\w/g, l => l.toUpperCase())}
-                                    </span>
-                                    {" "}
-                                    <span className="font-medium">
-                                      {typeof condition.right_side.value === "object" 
-                                        ? JSON.stringify(condition.right_side.value)
-                                        : String(condition.right_side.value)}
-                                    </span>
-                                  </div>
-                                </div>
-                              ))}
-                            </div>
+                            <p className="text-sm font-medium text-secondary mb-1">Description:</p>
+                            <p className="text-sm text-muted-foreground">{rule.meta_rule.description_en}</p>
+                            {rule.meta_rule.description_ar && (
+                              <p className="text-sm text-muted-foreground mt-1" dir="rtl">{rule.meta_rule.description_ar}</p>
+                            )}
                           </div>
-                        )}
 
-                        {/* Actions */}
-                        {rule.actions && rule.actions.length > 0 && (
-                          <div>
-                            <p className="text-sm font-medium text-secondary mb-2">Actions:</p>
-                            <div className="space-y-2">
-                              {rule.actions.map((action, actionIdx) => (
-                                <div key={actionIdx} className="bg-white/50 rounded-md p-3 border border-border/50">
-                                  <div className="text-sm">
-                                    <span className="font-medium">{action.type.replace(/_/g, " ").replace(/\b\w/g, l => l.toUpperCase())}</span>
-                                    {" "}
-                                    <span className="text-muted-foreground">on</span>
-                                    {" "}
-                                    <span className="font-medium">{action.action_element}</span>
-                                    {action.message_en && (
-                                      <div className="mt-1 text-muted-foreground">
-                                        <span className="text-xs">EN: </span>{action.message_en}
-                                      </div>
-                                    )}
-                                    {action.message_ar && (
-                                      <div className="mt-1 text-muted-foreground" dir="rtl">
-                                        <span className="text-xs">AR: </span>{action.message_ar}
-                                      </div>
-                                    )}
-                                    {action.action_answer && (
-                                      <div className="mt-1 text-xs text-muted-foreground">
-                                        Answer: {action.action_answer}
+                          {/* Conditions */}
+                          {rule.conditions && rule.conditions.length > 0 && (
+                            <div>
+                              <p className="text-sm font-medium text-secondary mb-2">Conditions:</p>
+                              <div className="space-y-2">
+                                {rule.conditions.map((condition, condIdx) => (
+                                  <div key={condIdx} className="bg-white/50 rounded-md p-3 border border-border/50">
+                                    <div className="text-sm flex items-start gap-2">
+                                      {/* Whether this condition holds for the sample answers */}
+                                      {isSimulating && (
+                                        evaluateCondition(condition, simulationAnswers)
+                                          ? <Check className="w-4 h-4 text-green-600 flex-shrink-0 mt-0.5" aria-label="Condition met" />
+                                          : <X className="w-4 h-4 text-muted-foreground flex-shrink-0 mt-0.5" aria-label="Condition not met" />
+                                      )}
+                                      <div>
+                                        <span className="font-medium">{condition.left_side.question_id}</span>
+                                        {" "}
+                                        <span className="text-muted-foreground">
+                                          {condition.operator.replace(/_/g, " ").replace(/\b\w/g, l => l.toUpperCase())}
+                                        </span>
+                                        {" "}
+                                        <span className="font-medium">
+                                          {typeof condition.right_side.value === "object" 
+                                            ? JSON.stringify(condition.right_side.value)
+                                            : String(condition.right_side.value)}
+                                        </span>
                                       </div>
-                                    )}
+                                    </div>
                                   </div>
-                                </div>
-                              ))}
+                                ))}
+                              </div>
                             </div>
-                          </div>
-                        )}
-                      </CardContent>
-                    </Card>
-                  );
-                })}
+                          )}
+
+                          {/* Actions */}
+                          {rule.actions && rule.actions.length > 0 && (
+                            <div>
+                              <p className="text-sm font-medium text-secondary mb-2">Actions:</p>
+                              <div className="space-y-2">
+                                {rule.actions.map((action, actionIdx) => (
+                                  <div key={actionIdx} className="bg-white/50 rounded-md p-3 border border-border/50">
+                                    <div className="text-sm">
+                                      <span className="font-medium">{action.type.replace(/_/g, " ").replace(/\b\w/g, l => l.toUpperCase())}</span>
+                                      {" "}
+                                      <span className="text-muted-foreground">on</span>
+                                      {" "}
+                                      <span className="font-medium">{action.action_element}</span>
+                                      {action.message_en && (
+                                        <div className="mt-1 text-muted-foreground">
+                                          <span className="text-xs">EN: </span>{action.message_en}
+                                        </div>
+                                      )}
+                                      {action.message_ar && (
+                                        <div className="mt-1 text-muted-foreground" dir="rtl">
+                                          <span className="text-xs">AR: </span>{action.message_ar}
+                                        </div>
+                                      )}
+                                      {action.action_answer && (
+                                        <div className="mt-1 text-xs text-muted-foreground">
+                                          Answer: {action.action_answer}
+                                        </div>
+                                      )}
+                                    </div>
+                                  </div>
+                                ))}
+                              </div>
+                            </div>
+                          )}
+                        </CardContent>
+                      </Card>
+                    );
+                  })}
+                </div>
+
+                {/* Simulate pane - sample answers against the rules above */}
+                {isSimulating && (
+                  <div className="lg:sticky lg:top-6 lg:max-h-[calc(100vh-3rem)] lg:overflow-y-auto custom-scrollbar">
+                    <RuleSimulationPanel
+                      sections={surveySections}
+                      rules={surveyRules}
+                      evaluation={simulation}
+                      answers={simulationAnswers}
+                      onAnswerChange={handleSimulationAnswerChange}
+                      onReset={() => setSimulationAnswers({})}
+                      display={simulationDisplay}
+                    />
+                  </div>
+                )}
               </div>
 
               {/* Critique Summary (if available) */}
-              {generatedRules.critique_summary && (
+              {generatedRules?.critique_summary && (
                 <Card className="mt-6 bg-blue-50 border-blue-200">
                   <CardHeader>
                     <CardTitle className="text-lg text-blue-900">Validation Summary</CardTitle>
@@ -558,6 +768,18 @@ export default function RulesPage() {
         </main>
       </div>
 
+      {/* Manual rule editor */}
+      <RuleEditorDialog
+        open={editingRule !== null}
+        onOpenChange={(open) => !open && setEditingRule(null)}
+        rule={typeof editingRule === "number" ? surveyRules[editingRule] ?? null : null}
+        sections={surveySections}
+        existingRuleIds={surveyRules
+          .filter((_, idx) => idx !== editingRule)
+          .map(rule => rule.meta_rule.rule_id)}
+        onSave={handleSaveRuleEdit}
+      />
+
       {/* Right Sidebar - History */}
       <HistorySidebar isOpen={isSidebarOpen} onToggle={() => setIsSidebarOpen(!isSidebarOpen)} />
 
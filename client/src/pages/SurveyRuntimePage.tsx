@@ -0,0 +1,297 @@
+import { useState, useMemo, useEffect } from "react";
+import { useRoute } from "wouter";
+import { format } from "date-fns";
+import { ArrowLeft, ArrowRight, CheckCircle2, Loader2, Eye, AlertTriangle } from "lucide-react";
+import { Button } from "@/components/ui/button";
+import { Progress } from "@/components/ui/progress";
+import { Alert, AlertTitle, AlertDescription } from "@/components/ui/alert";
+import { QuestionCard } from "@/components/QuestionCard";
+import { useSurvey, useSubmitResponse } from "@/hooks/use-surveys";
+import { getDisplayLanguage, getQuestionCardProps } from "@/lib/questionDisplay";
+import { getText } from "@/lib/bilingual";
+import { ResponseValidationError } from "@/lib/responseValidationError";
+import { getQuestionKey, isAnswerEmpty, validateAnswer, type AnswerSet, type AnswerValue } from "@shared/answers";
+import { evaluateRules, getActiveAnswers, isOptionHidden, type QuestionRuleState } from "@shared/rules";
+import { getCollectionState } from "@shared/lifecycle";
+import type { SurveySection } from "@shared/schema";
+
+/**
+ * SurveyRuntimePage - Public respondent-facing survey
+ *
+ * Walks a saved survey's structure.sections page by page using the same
+ * QuestionCard renderers as the builder, enforces `required` before moving
+ * on, and submits the collected answers (keyed by spec_id) to the responses API.
+ *
+ * Survey rules (survey.rules) are re-evaluated on every answer change to
+ * hide/disable questions and options; pages with no visible questions are skipped.
+ *
+ * Only open surveys (active and within their schedule, see getCollectionState)
+ * accept responses; otherwise the survey renders in preview mode.
+ */
+export default function SurveyRuntimePage() {
+  const [, params] = useRoute("/s/:id");
+  const surveyId = params?.id ? Number(params.id) : null;
+
+  const { data: survey, isLoading } = useSurvey(surveyId);
+  const submitResponse = useSubmitResponse();
+
+  // Current page (section) index
+  const [pageIdx, setPageIdx] = useState(0);
+  // Answers keyed by question key (spec_id)
+  const [answers, setAnswers] = useState<AnswerSet>({});
+  // Required-field errors keyed by question key
+  const [errors, setErrors] = useState<Record<string, string>>({});
+  const [isSubmitted, setIsSubmitted] = useState(false);
+
+  const sections: SurveySection[] = survey?.structure?.sections || [];
+  const section = sections[pageIdx];
+
+  // Visible/enabled/required state of every question for the current answers
+  const evaluation = useMemo(
+    () => evaluateRules({ sections }, survey?.rules, answers),
+    [sections, survey?.rules, answers],
+  );
+  const getRuleState = (sectionIdx: number, qIdx: number): QuestionRuleState | undefined =>
+    evaluation.questions[getQuestionKey(sections[sectionIdx].questions[qIdx], sectionIdx, qIdx)];
+  const isPageVisible = (sectionIdx: number) =>
+    sections[sectionIdx]?.questions.some((_, qIdx) => getRuleState(sectionIdx, qIdx)?.visible !== false);
+
+  // Nearest page in the given direction that still has visible questions
+  const findPage = (from: number, step: 1 | -1): number => {
+    for (let idx = from + step; idx >= 0 && idx < sections.length; idx += step) {
+      if (isPageVisible(idx)) return idx;
+    }
+    return -1;
+  };
+  const isLastPage = findPage(pageIdx, 1) === -1;
+
+  // Start on the first page with visible questions; rules may hide the first page before anything is answered
+  useEffect(() => {
+    if (survey) setPageIdx(Math.max(findPage(-1, 1), 0));
+  }, [survey?.id]);
+  const collectionState = survey ? getCollectionState(survey) : "draft";
+  const isAcceptingResponses = collectionState === "open";
+
+  const display = useMemo(
+    () => getDisplayLanguage(survey?.language || "English", sections[0]?.questions?.[0]?.text),
+    [survey?.language, sections],
+  );
+  const isRtl = !display.isBilingual && display.userLang === "ar";
+
+  // Question numbers continue across pages, like in the builder (hidden questions are not counted)
+  const firstQuestionNumber = sections
+    .slice(0, pageIdx)
+    .reduce((sum, s, sIdx) => sum + s.questions.filter((_, qIdx) => getRuleState(sIdx, qIdx)?.visible !== false).length, 1);
+
+  const handleAnswerChange = (key: string, value: AnswerValue) => {
+    setAnswers(prev => ({ ...prev, [key]: value }));
+    // Clear the error as soon as the respondent answers
+    if (errors[key]) {
+      setErrors(prev => {
+        const { [key]: _removed, ...rest } = prev;
+        return rest;
+      });
+    }
+  };
+
+  /**
+   * Check the current page with the same rules the server applies on submission
+   * (required, option membership, scale range, email format...).
+   * @returns True if the page can be left
+   */
+  const validateCurrentPage = (): boolean => {
+    if (!section) return true;
+    const pageErrors: Record<string, string> = {};
+    section.questions.forEach((question, qIdx) => {
+      const key = getQuestionKey(question, pageIdx, qIdx);
+      const state = evaluation.questions[key];
+      if (state && (!state.visible || !state.enabled)) return;
+      const message = validateAnswer(state ? { ...question, required: state.required } : question, answers[key]);
+      if (message) {
+        pageErrors[key] = isRtl && isAnswerEmpty(answers[key]) ? "هذا السؤال مطلوب" : message;
+      }
+    });
+    // Blocking messages from fired error_message rules
+    evaluation.messages
+      .filter(m => m.level === "error" && !pageErrors[m.spec_id])
+      .filter(m => section.questions.some((q, qIdx) => getQuestionKey(q, pageIdx, qIdx) === m.spec_id))
+      .forEach(m => {
+        pageErrors[m.spec_id] = isRtl && m.message_ar ? m.message_ar : m.message_en;
+      });
+    setErrors(pageErrors);
+    return Object.keys(pageErrors).length === 0;
+  };
+
+  const handleNext = () => {
+    if (!validateCurrentPage()) return;
+    const next = findPage(pageIdx, 1);
+    if (next !== -1) setPageIdx(next);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const handleBack = () => {
+    setErrors({});
+    const previous = findPage(pageIdx, -1);
+    if (previous !== -1) setPageIdx(previous);
+    window.scrollTo({ top: 0, behavior: "smooth" });
+  };
+
+  const handleSubmit = async () => {
+    if (!surveyId || !validateCurrentPage()) return;
+    try {
+      // Answers of questions the rules have since hidden are dropped, not submitted
+      await submitResponse.mutateAsync({ surveyId, answers: getActiveAnswers(answers, evaluation) });
+      setIsSubmitted(true);
+    } catch (error) {
+      // Error toast is shown by the hook; keep the answers so the respondent can retry
+      if (error instanceof ResponseValidationError && error.issues.length > 0) {
+        // Jump back to the first page with a rejected answer and highlight it
+        const issueErrors = Object.fromEntries(error.issues.map(issue => [issue.spec_id, issue.message]));
+        const firstPage = sections.findIndex((s, sIdx) =>
+          s.questions.some((q, qIdx) => issueErrors[getQuestionKey(q, sIdx, qIdx)]),
+        );
+        if (firstPage !== -1) {
+          setPageIdx(firstPage);
+        }
+        setErrors(issueErrors);
+        return;
+      }
+      console.error("Failed to submit response:", error);
+    }
+  };
+
+  if (isLoading) {
+    return (
+      <div className="min-h-screen bg-[#F5F7FA] flex items-center justify-center">
+        <Loader2 className="w-6 h-6 animate-spin text-primary" />
+      </div>
+    );
+  }
+
+  if (!survey || sections.length === 0) {
+    return (
+      <div className="min-h-screen bg-[#F5F7FA] flex items-center justify-center p-6">
+        <div className="bg-white rounded-xl shadow-sm border border-border p-8 text-center max-w-md">
+          <h1 className="text-2xl font-semibold text-secondary mb-2">Survey not available</h1>
+          <p className="text-muted-foreground">This survey does not exist or has no questions yet.</p>
+        </div>
+      </div>
+    );
+  }
+
+  if (isSubmitted) {
+    return (
+      <div className="min-h-screen bg-[#F5F7FA] flex items-center justify-center p-6">
+        <div className="bg-white rounded-xl shadow-sm border border-border p-8 text-center max-w-md space-y-4">
+          <CheckCircle2 className="w-12 h-12 text-primary mx-auto" />
+          <h1 className="text-2xl font-semibold text-secondary">Thank you!</h1>
+          <p className="text-muted-foreground">Your answers have been submitted.</p>
+          {display.isBilingual && (
+            <p className="text-muted-foreground" dir="rtl">شكراً لك! تم إرسال إجاباتك.</p>
+          )}
+        </div>
+      </div>
+    );
+  }
+
+  return (
+    <div className="min-h-screen bg-[#F5F7FA] font-sans">
+      <header className="bg-white border-b border-border">
+        <div className={`mx-auto px-6 py-6 space-y-4 ${display.isBilingual ? "max-w-4xl" : "max-w-3xl"}`}>
+          <h1 className="text-2xl font-display font-bold text-secondary" dir={isRtl ? "rtl" : undefined}>
+            {survey.name}
+          </h1>
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>
+                Page {pageIdx + 1} of {sections.length}
+              </span>
+              {section?.title && <span>{getText(section.title, display.userLang)}</span>}
+            </div>
+            <Progress value={((pageIdx + 1) / sections.length) * 100} className="h-2" />
+          </div>
+        </div>
+      </header>
+
+      <main className={`mx-auto px-6 py-8 space-y-6 ${display.isBilingual ? "max-w-4xl" : "max-w-3xl"}`}>
+        {!isAcceptingResponses && (
+          <Alert>
+            <Eye className="h-4 w-4" />
+            <AlertTitle>Preview mode</AlertTitle>
+            <AlertDescription>
+              {collectionState === "scheduled" && survey.opensAt
+                ? `This survey opens on ${format(new Date(survey.opensAt), "MMM d, yyyy h:mm a")}, so answers cannot be submitted yet.`
+                : collectionState === "closed"
+                  ? "This survey is closed and no longer accepts answers."
+                  : "This survey hasn't been published, so answers cannot be submitted yet."}
+            </AlertDescription>
+          </Alert>
+        )}
+
+        <div className="space-y-4" dir={isRtl ? "rtl" : undefined}>
+          {section?.questions.map((question, qIdx) => {
+            const key = getQuestionKey(question, pageIdx, qIdx);
+            const state = evaluation.questions[key];
+            if (state && !state.visible) return null;
+            const visibleQuestion = {
+              ...question,
+              required: state ? state.required : question.required,
+              options: question.options?.filter(option => !isOptionHidden(state, option)),
+            };
+            const warnings = evaluation.messages.filter(m => m.level === "warning" && m.spec_id === key);
+            const questionNumber = firstQuestionNumber + section.questions
+              .slice(0, qIdx)
+              .filter((_, prevIdx) => getRuleState(pageIdx, prevIdx)?.visible !== false).length;
+            return (
+              <div key={key} className="space-y-2">
+                <QuestionCard
+                  {...getQuestionCardProps(visibleQuestion, display)}
+                  questionNumber={questionNumber}
+                  spec_id={question.spec_id}
+                  value={answers[key]}
+                  onChange={(value) => handleAnswerChange(key, value)}
+                  error={errors[key]}
+                  disabled={state ? !state.enabled : false}
+                />
+                {warnings.map(warning => (
+                  <Alert key={warning.rule_id}>
+                    <AlertTriangle className="h-4 w-4" />
+                    <AlertDescription>
+                      {isRtl && warning.message_ar ? warning.message_ar : warning.message_en}
+                    </AlertDescription>
+                  </Alert>
+                ))}
+              </div>
+            );
+          })}
+        </div>
+
+        <div className="flex items-center justify-between pt-4">
+          <Button variant="outline" onClick={handleBack} disabled={findPage(pageIdx, -1) === -1}>
+            <ArrowLeft className="w-4 h-4 mr-2" /> Back
+          </Button>
+          {isLastPage ? (
+            <Button
+              onClick={handleSubmit}
+              disabled={!isAcceptingResponses || submitResponse.isPending}
+              className="min-w-[120px]"
+            >
+              {submitResponse.isPending ? (
+                <>
+                  <Loader2 className="w-4 h-4 mr-2 animate-spin" />
+                  Submitting...
+                </>
+              ) : (
+                "Submit"
+              )}
+            </Button>
+          ) : (
+            <Button onClick={handleNext}>
+              Next <ArrowRight className="w-4 h-4 ml-2" />
+            </Button>
+          )}
+        </div>
+      </main>
+    </div>
+  );
+}
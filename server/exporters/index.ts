@@ -0,0 +1,70 @@
+import type { Survey } from "@shared/schema";
+import type { ExportFormat } from "@shared/routes";
+import { buildXlsForm } from "../xlsform";
+import { buildSurveyJs } from "./surveyjs";
+import { buildQsf } from "./qualtrics";
+import type { SurveyExport } from "./skipped";
+
+/**
+ * Survey exporters: turn a survey's structure (and rules) into another tool's
+ * file format, served by `GET /api/surveys/:id/export?format=`.
+ *
+ * To add a format, write a build function next to the others and register it
+ * below; the builder's export menu lists whatever is registered. Build
+ * functions report the rules the format can't express rather than dropping
+ * them silently.
+ */
+
+export interface SurveyExporter extends ExportFormat {
+  contentType: string;
+  build(survey: Survey): SurveyExport;
+}
+
+const exporters = new Map<string, SurveyExporter>();
+
+/**
+ * Register an export format.
+ *
+ * @throws Error when the format is already registered
+ */
+export function registerExporter(exporter: SurveyExporter): void {
+  if (exporters.has(exporter.format)) {
+    throw new Error(`Export format "${exporter.format}" is already registered`);
+  }
+  exporters.set(exporter.format, exporter);
+}
+
+export function getExporter(format: string): SurveyExporter | undefined {
+  return exporters.get(format);
+}
+
+/**
+ * Registered formats, in registration order.
+ */
+export function listExportFormats(): ExportFormat[] {
+  return Array.from(exporters.values()).map(({ format, label, extension }) => ({ format, label, extension }));
+}
+
+registerExporter({
+  format: "xlsform",
+  label: "XLSForm (ODK / KoboToolbox)",
+  extension: "xlsx",
+  contentType: "application/vnd.openxmlformats-officedocument.spreadsheetml.sheet",
+  build: buildXlsForm,
+});
+
+registerExporter({
+  format: "surveyjs",
+  label: "SurveyJS JSON",
+  extension: "json",
+  contentType: "application/json",
+  build: buildSurveyJs,
+});
+
+registerExporter({
+  format: "qsf",
+  label: "Qualtrics (.qsf)",
+  extension: "qsf",
+  contentType: "application/json",
+  build: buildQsf,
+});
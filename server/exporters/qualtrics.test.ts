@@ -0,0 +1,134 @@
+import { describe, expect, it } from "vitest";
+import type { Survey, SurveyStructure } from "@shared/schema";
+import type { RuleAction, RuleCondition, SurveyRule } from "@shared/rules";
+import { buildQsf } from "./qualtrics";
+
+const makeSurvey = (overrides: Partial<Survey>): Survey => ({
+  id: 5, name: "Staff survey", language: "English", collectionMode: "web", status: "draft",
+  createdAt: new Date("2026-01-01T00:00:00Z"), updatedAt: null, archivedAt: null,
+  opensAt: null, closesAt: null, publishedAt: null, closedAt: null,
+  structure: { sections: [] }, structureVersion: 1,
+  rules: [], rulesMetadata: null, rulesStructureVersion: null, rulesStale: false,
+  ...overrides,
+});
+
+const condition = (question_id: string, operator: string, value: unknown): RuleCondition => ({
+  left_side: { type: "question", question_id },
+  operator,
+  right_side: { type: "value", value },
+});
+
+const rule = (rule_id: string, conditions: RuleCondition[], actions: RuleAction[]): SurveyRule => ({
+  meta_rule: { rule_id, rule_type: actions[0]?.type ?? "", description_en: `Rule ${rule_id}`, description_ar: "" },
+  conditions,
+  actions,
+});
+
+const structure: SurveyStructure = {
+  sections: [
+    {
+      title: "Role",
+      questions: [
+        { spec_id: "team", text: "Team", type: "radio", options: ["Sales", "Support", "Engineering"] },
+        { spec_id: "score", text: "Score", type: "scale", scale: { min: 1, max: 5 } },
+      ],
+    },
+    {
+      title: "Details",
+      questions: [
+        { spec_id: "region", text: "Region", type: "text_field", required: true },
+        { spec_id: "tools", text: "Tools", type: "checkbox_list", options: ["CRM", "IDE"] },
+      ],
+    },
+  ],
+};
+
+function build(overrides: Partial<Survey>) {
+  const { content, skippedRules } = buildQsf(makeSurvey(overrides));
+  const qsf = JSON.parse(String(content));
+  const elements: { Element: string; Payload: any }[] = qsf.SurveyElements;
+  const questions = elements.filter(element => element.Element === "SQ").map(element => element.Payload);
+  return {
+    qsf,
+    skippedRules,
+    blocks: elements.find(element => element.Element === "BL")!.Payload,
+    question: (tag: string) => questions.find(question => question.DataExportTag === tag)!,
+  };
+}
+
+// Operator and choice locator of each display logic condition
+const conditions = (payload: any) => {
+  const group = payload.DisplayLogic?.["0"] ?? {};
+  return Object.keys(group).filter(key => key !== "Type").map(key => [group[key].Operator, group[key].LeftOperand, group[key].Conjuction]);
+};
+
+describe("buildQsf", () => {
+  it("puts each page in a block and maps question types", () => {
+    const { qsf, blocks, question } = build({ structure });
+    expect(qsf.SurveyEntry).toMatchObject({ SurveyID: "SV_5", SurveyName: "Staff survey", SurveyLanguage: "EN" });
+    expect(blocks.map((block: any) => [block.Description, block.BlockElements.map((element: any) => element.QuestionID)]))
+      .toEqual([["Role", ["QID1", "QID2"]], ["Details", ["QID3", "QID4"]]]);
+    expect(question("team")).toMatchObject({ QuestionType: "MC", Selector: "SAVR", Choices: { 1: { Display: "Sales" } } });
+    expect(question("score")).toMatchObject({ Selector: "SAHR", RecodeValues: { 1: "1", 5: "5" } });
+    expect(question("region")).toMatchObject({ QuestionType: "TE", Validation: { Settings: { ForceResponse: "ON" } } });
+  });
+
+  it("adds an Arabic translation for bilingual surveys", () => {
+    const bilingual: SurveyStructure = {
+      sections: [{ title: "P", questions: [{ spec_id: "q1", text: "Team / الفريق", type: "radio", options: ["Sales / المبيعات"] }] }],
+    };
+    const { question } = build({ structure: bilingual, language: "Bilingual" });
+    expect(question("q1").QuestionText).toBe("Team");
+    expect(question("q1").Language).toEqual({ AR: { QuestionText: "الفريق", Choices: { 1: { Display: "المبيعات" } } } });
+  });
+
+  it("turns show and hide rules into display logic", () => {
+    const rules = [
+      rule("R1", [condition("team", "in", ["Sales", "Support"])], [{ type: "show_question", action_element: "region" }]),
+      rule("R2", [condition("score", ">=", 4)], [{ type: "hide_question", action_element: "tools" }]),
+    ];
+    const { question, skippedRules } = build({ structure, rules });
+    expect(conditions(question("region"))).toEqual([
+      ["Selected", "q://QID1/SelectableChoice/1", undefined],
+      ["Selected", "q://QID1/SelectableChoice/2", "Or"],
+    ]);
+    // Hidden when the score is 4 or 5, so shown while neither is selected
+    expect(conditions(question("tools"))).toEqual([
+      ["NotSelected", "q://QID2/SelectableChoice/4", undefined],
+      ["NotSelected", "q://QID2/SelectableChoice/5", "And"],
+    ]);
+    expect(question("tools").DisplayLogic.inPage).toBe(false);
+    expect(skippedRules).toEqual([]);
+  });
+
+  it("treats rules without conditions as always applying", () => {
+    const rules = [
+      rule("R1", [], [{ type: "show_question", action_element: "region" }]),
+      rule("R2", [], [{ type: "hide_question", action_element: "tools" }]),
+    ];
+    const { question, skippedRules } = build({ structure, rules });
+    // Always shown needs no display logic; always hidden can't be written as display logic
+    expect(question("region").DisplayLogic).toBeUndefined();
+    expect(question("tools").DisplayLogic).toBeUndefined();
+    expect(skippedRules).toEqual([{ rule_id: "R2", description: "Rule R2", reason: "Qualtrics can't hide tools unconditionally" }]);
+  });
+
+  it("reports the rules it leaves out", () => {
+    const rules = [
+      rule("R1", [condition("team", "equals", "Marketing")], [{ type: "show_question", action_element: "region" }]),
+      rule("R2", [condition("team", "equals", "Sales")], [{ type: "require_question", action_element: "region" }]),
+      // "in" is an Or of choices, which can't be joined with And in a flat list
+      rule("R3", [condition("team", "in", ["Sales", "Support"]), condition("score", "equals", 5)], [
+        { type: "hide_question", action_element: "tools" },
+      ]),
+    ];
+    const { question, skippedRules } = build({ structure, rules });
+    expect(question("region").DisplayLogic).toBeUndefined();
+    expect(question("tools").DisplayLogic).toBeUndefined();
+    expect(skippedRules).toEqual([
+      { rule_id: "R1", description: "Rule R1", reason: "a condition can't be expressed in Qualtrics display logic" },
+      { rule_id: "R2", description: "Rule R2", reason: "Qualtrics has no equivalent of require_question" },
+      { rule_id: "R3", description: "Rule R3", reason: "a condition can't be expressed in Qualtrics display logic" },
+    ]);
+  });
+});
@@ -0,0 +1,465 @@
+import type { Survey, SurveyQuestion } from "@shared/schema";
+import { getQuestionKey, normalizeQuestionType, OPTION_TYPES } from "@shared/answers";
+import {
+  getActionTargets,
+  getActionType,
+  getConditionValues,
+  normalizeOperator,
+  type RuleCondition,
+  type SurveyRule,
+} from "@shared/rules";
+import { findOptionIndex, getExportLanguages, scaleRange, splitText, textIn, type Lang } from "./text";
+import { SkippedRules, type SurveyExport } from "./skipped";
+
+/**
+ * Qualtrics survey file (.qsf) export.
+ *
+ * Each page becomes a block (Qualtrics starts every block on a new page) and
+ * questions map onto Qualtrics question types: choices → multiple choice,
+ * rank → rank order, scales and star ratings → horizontal multiple choice
+ * with one choice per point (recoded to the point value), text → text entry.
+ * Bilingual surveys are English with an Arabic translation per question.
+ *
+ * Qualtrics display logic is a flat list of conditions joined by And / Or,
+ * so only show/hide and enable/disable rules are exported, and only when
+ * they fit that shape. Rules without conditions always apply, as at runtime:
+ * an unconditional show needs no display logic, but there is no display logic
+ * that never holds, so an unconditional hide can't be exported.
+ * Required/optional rules, messages and answer filters have no .qsf
+ * equivalent; questions keep their own `required` flag as forced response.
+ * Every rule left out is reported as skipped.
+ */
+
+type Payload = Record<string, unknown>;
+type Conjunction = "And" | "Or";
+
+interface ExportQuestion {
+  qid: string;
+  key: string;
+  /** Normalized question type */
+  type: string;
+  block: number;
+  question: SurveyQuestion;
+  /** Choice texts, in choice id order (ids start at 1) */
+  choices: unknown[];
+  /** Point value of each choice for scale-like questions */
+  points?: number[];
+}
+
+interface LogicAtom {
+  question: ExportQuestion;
+  operator: string;
+  /** Choice id for choice operators (Selected / NotSelected) */
+  choice?: number;
+  /** Right operand for text entry operators */
+  value?: string;
+}
+
+/** Conditions joined by one conjunction; no atoms means always true */
+interface Logic {
+  conjunction: Conjunction;
+  atoms: LogicAtom[];
+}
+
+interface RuleLogic {
+  rule: SurveyRule;
+  logic: Logic;
+}
+
+const QUALTRICS_LANGUAGES: Record<Lang, string> = { en: "EN", ar: "AR" };
+const ACKNOWLEDGE_CHOICE = { en: "Yes", ar: "نعم" };
+
+const NEGATED_OPERATORS: Record<string, string> = {
+  Selected: "NotSelected",
+  NotSelected: "Selected",
+  EqualTo: "NotEqualTo",
+  NotEqualTo: "EqualTo",
+  GreaterThan: "LessThanOrEqual",
+  LessThanOrEqual: "GreaterThan",
+  LessThan: "GreaterThanOrEqual",
+  GreaterThanOrEqual: "LessThan",
+  Contains: "DoesNotContain",
+  DoesNotContain: "Contains",
+  Empty: "NotEmpty",
+  NotEmpty: "Empty",
+};
+
+const TEXT_OPERATORS: Record<string, string> = {
+  equals: "EqualTo",
+  not_equals: "NotEqualTo",
+  contains: "Contains",
+  not_contains: "DoesNotContain",
+  greater_than: "GreaterThan",
+  greater_than_or_equal: "GreaterThanOrEqual",
+  less_than: "LessThan",
+  less_than_or_equal: "LessThanOrEqual",
+};
+
+const NUMERIC_TESTS: Record<string, (point: number, limit: number) => boolean> = {
+  greater_than: (point, limit) => point > limit,
+  greater_than_or_equal: (point, limit) => point >= limit,
+  less_than: (point, limit) => point < limit,
+  less_than_or_equal: (point, limit) => point <= limit,
+};
+
+// Question text is HTML in Qualtrics
+const escapeHtml = (value: string) => value.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;");
+
+// Question type, selector and sub-selector
+function getQualtricsType(type: string): [string, string, string?] {
+  switch (type) {
+    case "radio": return ["MC", "SAVR", "TX"];
+    case "checkbox_list": return ["MC", "MAVR", "TX"];
+    case "checkbox": return ["MC", "MAVR", "TX"];
+    case "dropdown_list": return ["MC", "DL"];
+    case "rank": return ["RO", "DND", "TX"];
+    case "scale":
+    case "emoji_question":
+    case "star_rating":
+      return ["MC", "SAHR", "TX"];
+    case "text_area": return ["TE", "ML"];
+    default:
+      // text_field, number, email and anything unknown are collected as single-line text
+      return ["TE", "SL"];
+  }
+}
+
+function getChoices(question: SurveyQuestion, type: string): Pick<ExportQuestion, "choices" | "points"> {
+  if (OPTION_TYPES.includes(type)) return { choices: question.options ?? [] };
+  if (type === "checkbox") return { choices: [ACKNOWLEDGE_CHOICE] };
+  if (type === "scale" || type === "emoji_question" || type === "star_rating") {
+    const { min, max } = type === "star_rating" ? { min: 1, max: 5 } : scaleRange(question);
+    const labels = type === "star_rating" ? {} : question.scale?.labels ?? {};
+    const points: number[] = [];
+    const choices: unknown[] = [];
+    for (let point = min; point <= max; point++) {
+      const end = splitText(point === min ? labels.min : point === max ? labels.max : undefined);
+      points.push(point);
+      choices.push({ en: end.en ? `${point} - ${end.en}` : String(point), ar: end.ar ? `${point} - ${end.ar}` : String(point) });
+    }
+    return { choices, points };
+  }
+  return { choices: [] };
+}
+
+// Choice id a rule value refers to, or null when it isn't one of the choices
+function findChoice(question: ExportQuestion, value: unknown): number | null {
+  if (question.points) {
+    const idx = question.points.indexOf(Number(value));
+    return idx >= 0 ? idx + 1 : null;
+  }
+  const idx = findOptionIndex(question.choices, value);
+  return idx >= 0 ? idx + 1 : null;
+}
+
+const anyOf = (atoms: LogicAtom[]): Logic | null => atoms.length ? { conjunction: "Or", atoms } : null;
+const allOf = (atoms: LogicAtom[]): Logic | null => atoms.length ? { conjunction: "And", atoms } : null;
+
+// Condition on a choice question: which choices are (not) selected
+function choiceCondition(question: ExportQuestion, operator: string, condition: RuleCondition): Logic | null {
+  const { points } = question;
+  const allChoices = question.choices.map((_, idx) => idx + 1);
+  const atoms = (choices: number[], selected: boolean) =>
+    choices.map((choice): LogicAtom => ({ question, choice, operator: selected ? "Selected" : "NotSelected" }));
+  const values = getConditionValues(condition);
+  const matched = values.map(value => findChoice(question, value));
+  const choices = values.length > 0 && matched.every(choice => choice !== null) ? (matched as number[]) : null;
+  const single = findChoice(question, condition.right_side?.value);
+
+  // An acknowledge question has one choice, ticked or not
+  if (question.type === "checkbox") {
+    const ticked = String(condition.right_side?.value).toLowerCase() === "true";
+    if (operator === "equals") return allOf(atoms([1], ticked));
+    if (operator === "not_equals") return allOf(atoms([1], !ticked));
+  }
+
+  switch (operator) {
+    case "is_empty":
+      return allOf(atoms(allChoices, false));
+    case "is_not_empty":
+      return anyOf(atoms(allChoices, true));
+    case "equals":
+    case "contains":
+      return single !== null ? allOf(atoms([single], true)) : null;
+    case "not_equals":
+    case "not_contains":
+      return single !== null ? allOf(atoms([single], false)) : null;
+    case "in":
+      return choices && anyOf(atoms(choices, true));
+    case "not_in":
+      return choices && allOf(atoms(choices, false));
+    case "between": {
+      const [min, max] = values.map(Number);
+      if (!points || !Number.isFinite(min) || !Number.isFinite(max)) return null;
+      return anyOf(atoms(allChoices.filter(choice => points[choice - 1] >= min && points[choice - 1] <= max), true));
+    }
+    default: {
+      // Numeric comparisons on scales select the points that satisfy them
+      const test = NUMERIC_TESTS[operator];
+      const limit = Number(condition.right_side?.value);
+      if (!test || !points || !Number.isFinite(limit)) return null;
+      return anyOf(atoms(allChoices.filter(choice => test(points[choice - 1], limit)), true));
+    }
+  }
+}
+
+// Condition on a text entry question: compares the entered text
+function textCondition(question: ExportQuestion, operator: string, condition: RuleCondition): Logic | null {
+  const values = getConditionValues(condition).map(String);
+  const atom = (operator: string, value?: string): LogicAtom => ({ question, operator, value });
+
+  switch (operator) {
+    case "is_empty": return allOf([atom("Empty")]);
+    case "is_not_empty": return allOf([atom("NotEmpty")]);
+    case "in": return anyOf(values.map(value => atom("EqualTo", value)));
+    case "not_in": return allOf(values.map(value => atom("NotEqualTo", value)));
+    case "between":
+      return values.length === 2 ? allOf([atom("GreaterThanOrEqual", values[0]), atom("LessThanOrEqual", values[1])]) : null;
+    default: {
+      const value = condition.right_side?.value;
+      return TEXT_OPERATORS[operator] && value !== undefined && value !== null && value !== ""
+        ? allOf([atom(TEXT_OPERATORS[operator], String(value))])
+        : null;
+    }
+  }
+}
+
+/**
+ * Convert one rule condition into display logic, or null when Qualtrics can't express it.
+ */
+function conditionToLogic(condition: RuleCondition, questions: Map<string, ExportQuestion>): Logic | null {
+  const operator = normalizeOperator(condition.operator);
+  const question = questions.get(condition.left_side?.question_id);
+  // Display logic compares against literals only; every choice of a rank question is always ranked
+  if (!operator || !question || condition.right_side?.type === "question" || question.type === "rank") return null;
+  return question.choices.length ? choiceCondition(question, operator, condition) : textCondition(question, operator, condition);
+}
+
+// Join logic into one flat list; null when a part would need parentheses
+function combine(parts: Logic[], conjunction: Conjunction): Logic | null {
+  if (parts.length === 1) return parts[0];
+  if (parts.some(part => part.atoms.length > 1 && part.conjunction !== conjunction)) return null;
+  return { conjunction, atoms: parts.flatMap(part => part.atoms) };
+}
+
+// De Morgan: "not (a and b)" is "not a or not b"
+function negate(logic: Logic): Logic {
+  return {
+    conjunction: logic.conjunction === "And" ? "Or" : "And",
+    atoms: logic.atoms.map(atom => ({ ...atom, operator: NEGATED_OPERATORS[atom.operator] })),
+  };
+}
+
+// All conditions of a rule must hold; null when any of them can't be expressed
+function ruleToLogic(rule: SurveyRule, questions: Map<string, ExportQuestion>): Logic | null {
+  const parts = (rule.conditions ?? []).map(condition => conditionToLogic(condition, questions));
+  if (parts.some(part => part === null)) return null;
+  return combine(parts as Logic[], "And");
+}
+
+/**
+ * Display logic of every question with show/hide (or enable/disable) rules:
+ * shown when any show rule fires and no hide rule does.
+ */
+function collectDisplayLogic(
+  rules: SurveyRule[],
+  questions: Map<string, ExportQuestion>,
+  skipped: SkippedRules,
+): Map<string, Logic> {
+  const byQuestion = new Map<string, { show: RuleLogic[]; hide: RuleLogic[] }>();
+  for (const rule of rules) {
+    const logic = ruleToLogic(rule, questions);
+    if (!logic) {
+      skipped.add(rule, "a condition can't be expressed in Qualtrics display logic");
+      continue;
+    }
+    for (const action of rule.actions ?? []) {
+      const type = getActionType(action, rule);
+      const shows = type === "show_question" || type === "enable_question";
+      const hides = type === "hide_question" || type === "disable_question";
+      if (!shows && !hides) {
+        skipped.add(rule, `Qualtrics has no equivalent of ${type}`);
+        continue;
+      }
+      for (const target of getActionTargets(action)) {
+        if (!questions.has(target)) continue;
+        const entry = byQuestion.get(target) ?? { show: [], hide: [] };
+        (shows ? entry.show : entry.hide).push({ rule, logic });
+        byQuestion.set(target, entry);
+      }
+    }
+  }
+
+  const result = new Map<string, Logic>();
+  byQuestion.forEach(({ show, hide }, key) => {
+    const skip = (entries: RuleLogic[], reason: string) => entries.forEach(({ rule }) => skipped.add(rule, reason));
+    skip(hide.filter(({ logic }) => logic.atoms.length === 0), `Qualtrics can't hide ${key} unconditionally`);
+    // An unconditional show leaves the question shown unless a hide rule fires
+    const shows = show.some(({ logic }) => logic.atoms.length === 0) ? [] : show.map(({ logic }) => logic);
+    const parts = hide.filter(({ logic }) => logic.atoms.length > 0).map(({ logic }) => negate(logic));
+    const nested = `the display logic of ${key} needs nested And / Or, which Qualtrics can't hold`;
+    if (shows.length) {
+      const any = combine(shows, "Or");
+      if (!any) return skip([...show, ...hide], nested);
+      parts.unshift(any);
+    }
+    const logic = combine(parts, "And");
+    if (!logic) return skip([...show, ...hide], nested);
+    if (logic.atoms.length) result.set(key, logic);
+  });
+  return result;
+}
+
+function toDisplayLogic(logic: Logic, target: ExportQuestion, langs: Lang[]): Payload {
+  const group: Payload = { Type: "If" };
+  logic.atoms.forEach((atom, idx) => {
+    const { qid } = atom.question;
+    const locator = atom.choice !== undefined ? `q://${qid}/SelectableChoice/${atom.choice}` : `q://${qid}/ChoiceTextEntryValue`;
+    const questionText = textIn(atom.question.question.text, langs[0]);
+    const subject = atom.choice !== undefined ? `${questionText} ${textIn(atom.question.choices[atom.choice - 1], langs[0])}` : questionText;
+    group[idx] = {
+      LogicType: "Question",
+      QuestionID: qid,
+      QuestionIsInLoop: "no",
+      ChoiceLocator: locator,
+      Operator: atom.operator,
+      QuestionIDFromLocator: qid,
+      LeftOperand: locator,
+      ...(atom.value !== undefined ? { RightOperand: atom.value } : {}),
+      Type: "Expression",
+      Description: `${idx > 0 ? `${logic.conjunction} ` : "If "}${subject} ${atom.operator}${atom.value !== undefined ? ` ${atom.value}` : ""}`,
+      // Qualtrics spells it this way
+      ...(idx > 0 ? { Conjuction: logic.conjunction } : {}),
+    };
+  });
+  // Conditions on questions of the same page are evaluated as the respondent answers
+  const inPage = logic.atoms.some(atom => atom.question.block === target.block);
+  return { "0": group, Type: "BooleanExpression", inPage };
+}
+
+function questionPayload(question: ExportQuestion, displayLogic: Logic | undefined, langs: Lang[]): Payload {
+  const { question: source, qid } = question;
+  const [questionType, selector, subSelector] = getQualtricsType(question.type);
+  const [lang, translation] = langs;
+  const choicesIn = (lang: Lang) =>
+    Object.fromEntries(question.choices.map((choice, idx) => [String(idx + 1), { Display: escapeHtml(textIn(choice, lang)) }]));
+
+  const validation = source.validation ?? {};
+  const settings: Payload = { ForceResponse: source.required ? "ON" : "OFF", ForceResponseType: "ON", Type: "None" };
+  if (question.type === "email") {
+    Object.assign(settings, { Type: "ContentValidation", ContentType: "ValidEmail" });
+  } else if (question.type === "number") {
+    const min = validation.min ?? validation.min_value;
+    const max = validation.max ?? validation.max_value;
+    Object.assign(settings, {
+      Type: "ContentValidation",
+      ContentType: "ValidNumber",
+      ValidNumber: { Min: typeof min === "number" ? String(min) : "", Max: typeof max === "number" ? String(max) : "", NumDecimals: "" },
+    });
+  }
+
+  const payload: Payload = {
+    QuestionText: escapeHtml(textIn(source.text, lang)),
+    DataExportTag: question.key,
+    QuestionType: questionType,
+    Selector: selector,
+    ...(subSelector ? { SubSelector: subSelector } : {}),
+    Configuration: { QuestionDescriptionOption: "UseText" },
+    QuestionDescription: textIn(source.text, lang),
+    Validation: { Settings: settings },
+    Language: translation ? {
+      [QUALTRICS_LANGUAGES[translation]]: {
+        QuestionText: escapeHtml(textIn(source.text, translation)),
+        ...(question.choices.length ? { Choices: choicesIn(translation) } : {}),
+      },
+    } : [],
+    DataVisibility: { Private: false, Hidden: false },
+    QuestionID: qid,
+  };
+  if (question.choices.length) {
+    Object.assign(payload, {
+      Choices: choicesIn(lang),
+      ChoiceOrder: question.choices.map((_, idx) => idx + 1),
+      NextChoiceId: question.choices.length + 1,
+      NextAnswerId: 1,
+    });
+  }
+  if (question.points) {
+    // Scale points are exported as their value rather than the choice position
+    payload.RecodeValues = Object.fromEntries(question.points.map((point, idx) => [String(idx + 1), String(point)]));
+  }
+  if (displayLogic) payload.DisplayLogic = toDisplayLogic(displayLogic, question, langs);
+  return payload;
+}
+
+/**
+ * Build the Qualtrics .qsf of a survey.
+ */
+export function buildQsf(survey: Survey): SurveyExport {
+  const langs = getExportLanguages(survey.language);
+  const sections = survey.structure?.sections ?? [];
+  const surveyId = `SV_${survey.id}`;
+
+  const questions = new Map<string, ExportQuestion>();
+  sections.forEach((section, sectionIdx) => section.questions.forEach((question, questionIdx) => {
+    const key = getQuestionKey(question, sectionIdx, questionIdx);
+    const type = normalizeQuestionType(question.type);
+    questions.set(key, { qid: `QID${questions.size + 1}`, key, type, block: sectionIdx, question, ...getChoices(question, type) });
+  }));
+  const skipped = new SkippedRules();
+  const displayLogic = collectDisplayLogic(survey.rules ?? [], questions, skipped);
+
+  const blocks = sections.map((section, sectionIdx) => ({
+    Type: sectionIdx === 0 ? "Default" : "Standard",
+    Description: textIn(section.title, langs[0]) || `Page ${sectionIdx + 1}`,
+    ID: `BL_${sectionIdx + 1}`,
+    BlockElements: section.questions.map((question, questionIdx) => ({
+      Type: "Question",
+      QuestionID: questions.get(getQuestionKey(question, sectionIdx, questionIdx))!.qid,
+    })),
+  }));
+
+  const element = (Element: string, PrimaryAttribute: string, SecondaryAttribute: string | null, Payload: unknown) =>
+    ({ SurveyID: surveyId, Element, PrimaryAttribute, SecondaryAttribute, TertiaryAttribute: null, Payload });
+
+  const content = JSON.stringify({
+    SurveyEntry: {
+      SurveyID: surveyId,
+      SurveyName: survey.name,
+      SurveyDescription: null,
+      SurveyLanguage: QUALTRICS_LANGUAGES[langs[0]],
+      SurveyActiveResponseSet: "RS_1",
+      SurveyStatus: "Inactive",
+      SurveyCreationDate: (survey.createdAt ?? new Date()).toISOString().replace("T", " ").slice(0, 19),
+    },
+    SurveyElements: [
+      element("BL", "Survey Blocks", null, blocks),
+      element("FL", "Survey Flow", null, {
+        Type: "Root",
+        FlowID: "FL_1",
+        Flow: blocks.map((block, idx) => ({ Type: idx === 0 ? "Block" : "Standard", ID: block.ID, FlowID: `FL_${idx + 2}` })),
+        Properties: { Count: blocks.length + 1 },
+      }),
+      element("SO", "Survey Options", null, {
+        BackButton: "true",
+        SaveAndContinue: "true",
+        SurveyProtection: "PublicSurvey",
+        SurveyExpiration: "None",
+        SurveyTermination: "DefaultMessage",
+        ProgressBarDisplay: "None",
+        PartialData: "+1 week",
+        SurveyTitle: survey.name,
+        AvailableLanguages: Object.fromEntries(langs.map(lang => [QUALTRICS_LANGUAGES[lang], []])),
+      }),
+      element("RS", "RS_1", "Default Response Set", null),
+      element("QC", "Survey Question Count", String(questions.size), null),
+      ...Array.from(questions.values()).map(question => element(
+        "SQ",
+        question.qid,
+        textIn(question.question.text, langs[0]).slice(0, 100),
+        questionPayload(question, displayLogic.get(question.key), langs),
+      )),
+    ],
+  }, null, 2);
+  return { content, skippedRules: skipped.list() };
+}
@@ -0,0 +1,123 @@
+import { describe, expect, it } from "vitest";
+import * as XLSX from "xlsx";
+import type { SubmittedResponse, Survey, SurveyStructure } from "@shared/schema";
+import type { AnswerSet } from "@shared/answers";
+import { buildResponsesCsv, buildResponsesXlsx, buildSpssSyntax } from "./responses";
+
+const structure: SurveyStructure = {
+  sections: [{
+    title: "Feedback",
+    questions: [
+      { spec_id: "visit", text: "Reason / السبب", type: "radio", options: ["Work / عمل", "Leisure / ترفيه"] },
+      { spec_id: "extras", text: "Extras", type: "checkbox_list", options: ["Spa", "Gym", "Pool"] },
+      { spec_id: "order", text: "Priorities", type: "rank", options: ["Price", "Comfort"] },
+      { spec_id: "agree", text: "I agree", type: "checkbox" },
+      { spec_id: "score", text: "Score", type: "scale", scale: { min: 1, max: 5, labels: { min: "Poor", max: "Great" } } },
+      { spec_id: "nights", text: "Nights", type: "number" },
+      { spec_id: "comments", text: "Comments", type: "text_area" },
+    ],
+  }],
+};
+
+const survey: Survey = {
+  id: 3, name: "Hotel feedback", language: "Bilingual", collectionMode: "web", status: "active",
+  createdAt: new Date("2026-01-01T00:00:00Z"), updatedAt: null, archivedAt: null,
+  opensAt: null, closesAt: null, publishedAt: null, closedAt: null,
+  structure, structureVersion: 1,
+  rules: [], rulesMetadata: null, rulesStructureVersion: null, rulesStale: false,
+};
+
+const response = (id: number, answers: AnswerSet): SubmittedResponse => ({
+  id, surveyId: 3, createdAt: new Date(`2026-02-0${id}T08:30:00Z`), answers,
+});
+
+const responses = [
+  response(1, {
+    visit: "ترفيه", extras: ["Gym", "Spa"], order: ["Comfort", "Price"], agree: true,
+    score: 4, nights: 2.5, comments: "Great stay,\nthanks",
+  }),
+  response(2, { visit: "Work", agree: false }),
+];
+
+const HEADER = [
+  "response_id", "submitted_at", "visit", "extras_1", "extras_2", "extras_3", "order_1", "order_2",
+  "agree", "score", "nights", "comments",
+];
+
+describe("response export", () => {
+  it("codes every answer in one CSV row per response", () => {
+    const csv = buildResponsesCsv(survey, responses);
+    expect(csv.startsWith("\uFEFF")).toBe(true);
+
+    const workbook = XLSX.read(csv.slice(1), { type: "string", raw: true });
+    const rows = XLSX.utils.sheet_to_json<string[]>(workbook.Sheets[workbook.SheetNames[0]], { header: 1, defval: "" });
+    expect(rows).toEqual([
+      HEADER,
+      ["1", "2026-02-01 08:30:00", "2", "1", "1", "0", "2", "1", "1", "4", "2.5", "Great stay, thanks"],
+      ["2", "2026-02-02 08:30:00", "1", "", "", "", "", "", "0", "", "", ""],
+    ]);
+  });
+
+  it("keeps text answers from running as spreadsheet formulas", () => {
+    const formulas = ["=HYPERLINK(\"http://x\")", "@SUM(A1)", "+1", "-2", "\tnote", "fine = ok"];
+    const table = formulas.map((comments, idx) => response(idx + 1, { comments }));
+    const cells = (rows: unknown[][]) => rows.slice(1).map(row => row[HEADER.indexOf("comments")]);
+    const expected = ["'=HYPERLINK(\"http://x\")", "'@SUM(A1)", "'+1", "'-2", "'\tnote", "fine = ok"];
+
+    const csv = XLSX.read(buildResponsesCsv(survey, table).slice(1), { type: "string", raw: true });
+    expect(cells(XLSX.utils.sheet_to_json<unknown[]>(csv.Sheets[csv.SheetNames[0]], { header: 1, defval: "" }))).toEqual(expected);
+    const workbook = XLSX.read(buildResponsesXlsx(survey, table), { type: "buffer" });
+    expect(cells(XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets.responses, { header: 1, defval: "" }))).toEqual(expected);
+  });
+
+  it("describes every column and code in the XLSX codebook", () => {
+    const workbook = XLSX.read(buildResponsesXlsx(survey, responses), { type: "buffer" });
+    expect(workbook.SheetNames).toEqual(["responses", "codebook"]);
+    expect(XLSX.utils.sheet_to_json<unknown[]>(workbook.Sheets.responses, { header: 1 })[0]).toEqual(HEADER);
+
+    const codebook = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets.codebook);
+    expect(codebook.filter(row => row.variable === "visit")).toEqual([
+      {
+        variable: "visit", question_id: "visit", type: "radio", measure: "nominal", label_english: "Reason", label_arabic: "السبب",
+        code: 1, code_label_english: "Work", code_label_arabic: "عمل",
+      },
+      {
+        variable: "visit", question_id: "visit", type: "radio", measure: "nominal", label_english: "Reason", label_arabic: "السبب",
+        code: 2, code_label_english: "Leisure", code_label_arabic: "ترفيه",
+      },
+    ]);
+    expect(codebook.find(row => row.variable === "extras_2")).toMatchObject({ label_english: "Extras: Gym", code: 0, code_label_english: "Not selected" });
+    expect(codebook.filter(row => row.variable === "score").map(row => [row.code, row.code_label_english])).toEqual([[1, "Poor"], [5, "Great"]]);
+    expect(codebook.find(row => row.variable === "comments")).toEqual({
+      variable: "comments", question_id: "comments", type: "text_area", measure: "nominal", label_english: "Comments", label_arabic: "Comments",
+    });
+  });
+
+  it("writes SPSS syntax that reads the CSV columns in order", () => {
+    const syntax = buildSpssSyntax(survey, responses, "hotel-feedback-responses.csv");
+    expect(syntax).toContain("  /FILE='hotel-feedback-responses.csv'");
+    const variables = syntax.split("  /VARIABLES=\n")[1].split("\n.\n")[0].trim().split("\n").map(line => line.trim());
+    expect(variables).toEqual([
+      "response_id F8.0", "submitted_at A19", "visit F8.0", "extras_1 F8.0", "extras_2 F8.0", "extras_3 F8.0",
+      "order_1 F8.0", "order_2 F8.0", "agree F8.0", "score F8.0", "nights F8.1", "comments A255",
+    ]);
+    expect(syntax).toContain("  visit 'Reason'");
+    expect(syntax).toContain("VALUE LABELS\n  visit 1 'Work' 2 'Leisure'\n");
+    expect(syntax).toContain("  /score 1 'Poor' 5 'Great'");
+    expect(syntax).toContain("  /score (ORDINAL)\n  /response_id nights (SCALE)\n");
+  });
+
+  it("names SPSS variables safely", () => {
+    const keyed: Survey = {
+      ...survey,
+      language: "English",
+      structure: { sections: [{ title: "", questions: [
+        { spec_id: "1st-question", text: "First", type: "text_field" },
+        { spec_id: "and", text: "Reserved", type: "text_field" },
+        { spec_id: "1ST_question", text: "Clash", type: "text_field" },
+      ] }] },
+    };
+    const csv = buildResponsesCsv(keyed, []);
+    expect(csv.slice(1).trim()).toBe("response_id,submitted_at,q1st_question,and_,q1ST_question_2");
+  });
+});
@@ -0,0 +1,306 @@
+import * as XLSX from "xlsx";
+import type { SubmittedResponse, Survey, SurveyQuestion } from "@shared/schema";
+import { getQuestionKey, isAnswerEmpty, normalizeQuestionType, type AnswerSet } from "@shared/answers";
+import { findOptionIndex, getExportLanguages, scaleRange, textIn, type Lang } from "./text";
+
+/**
+ * Response export: one row per response and one column per question
+ * (spec_id), as CSV, as XLSX with a codebook sheet, or as SPSS syntax that
+ * reads the CSV and labels its variables and values.
+ *
+ * Coding:
+ * - radio / dropdown_list: option number (1 = first option)
+ * - checkbox_list: one 0/1 column per option, `<spec_id>_<option number>`
+ * - rank: one column per position, `<spec_id>_<position>`, holding the option number ranked there
+ * - checkbox: 1 ticked, 0 not
+ * - scales, star ratings and numbers: the value itself
+ * - text: as written, on one line, with a `'` before text a spreadsheet would run as a formula
+ * Unanswered (and hidden) questions are empty in all of their columns.
+ */
+
+type Cell = string | number | null;
+type Level = "nominal" | "ordinal" | "scale";
+
+interface CodeLabel {
+  code: number;
+  label: Record<Lang, string>;
+}
+
+interface ExportColumn {
+  name: string;
+  /** Question the column belongs to; undefined for response metadata */
+  key?: string;
+  type: string;
+  label: Record<Lang, string>;
+  numeric: boolean;
+  level: Level;
+  codes: CodeLabel[];
+  value(answers: AnswerSet, response: SubmittedResponse): Cell;
+}
+
+interface ResponseTable {
+  columns: ExportColumn[];
+  rows: Cell[][];
+}
+
+const bothLanguages = (value: unknown): Record<Lang, string> => ({ en: textIn(value, "en"), ar: textIn(value, "ar") });
+
+const SELECTED_CODES: CodeLabel[] = [
+  { code: 0, label: { en: "Not selected", ar: "غير محدد" } },
+  { code: 1, label: { en: "Selected", ar: "محدد" } },
+];
+const TICKED_CODES: CodeLabel[] = [
+  { code: 0, label: { en: "No", ar: "لا" } },
+  { code: 1, label: { en: "Yes", ar: "نعم" } },
+];
+
+// Words SPSS reserves, which can't be variable names
+const RESERVED_NAMES = ["all", "and", "by", "eq", "ge", "gt", "le", "lt", "ne", "not", "or", "to", "with"];
+
+// Spreadsheets run cells starting with these as formulas (CSV injection)
+const FORMULA_START = /^[=+\-@\t\r]/;
+
+const asText = (value: string) => FORMULA_START.test(value) ? `'${value}` : value;
+
+// SPSS variable names start with a letter and hold letters, digits and underscores
+function toVariableName(value: string): string {
+  let name = value.trim().replace(/[^A-Za-z0-9_]+/g, "_").replace(/^_+|_+$/g, "");
+  if (!/^[A-Za-z]/.test(name)) name = `q${name}`;
+  if (RESERVED_NAMES.includes(name.toLowerCase())) name = `${name}_`;
+  return name.slice(0, 60);
+}
+
+// SPSS names are case-insensitive, so uniqueness is too
+function uniqueName(base: string, used: Set<string>): string {
+  let name = base;
+  for (let n = 2; used.has(name.toLowerCase()); n++) name = `${base}_${n}`;
+  used.add(name.toLowerCase());
+  return name;
+}
+
+function questionColumns(question: SurveyQuestion, key: string, used: Set<string>): ExportColumn[] {
+  const type = normalizeQuestionType(question.type);
+  const name = uniqueName(toVariableName(key), used);
+  const label = bothLanguages(question.text);
+  const options = question.options ?? [];
+  const optionCodes = options.map((option, idx) => ({ code: idx + 1, label: bothLanguages(option) }));
+  const optionCode = (value: unknown) => {
+    const idx = findOptionIndex(options, value);
+    return idx >= 0 ? idx + 1 : null;
+  };
+  const answerOf = (answers: AnswerSet) => isAnswerEmpty(answers[key]) ? undefined : answers[key];
+  const base = { key, type, label, codes: [] as CodeLabel[] };
+
+  switch (type) {
+    case "radio":
+    case "dropdown_list":
+      return [{
+        ...base, name, numeric: true, level: "nominal", codes: optionCodes,
+        value: answers => answerOf(answers) === undefined ? null : optionCode(answers[key]),
+      }];
+    case "checkbox_list":
+      return options.map((option, idx) => ({
+        ...base,
+        name: uniqueName(`${name}_${idx + 1}`, used),
+        label: { en: `${label.en}: ${textIn(option, "en")}`, ar: `${label.ar}: ${textIn(option, "ar")}` },
+        numeric: true,
+        level: "nominal",
+        codes: SELECTED_CODES,
+        value: answers => {
+          const answer = answerOf(answers);
+          if (!Array.isArray(answer)) return null;
+          return answer.some(item => optionCode(item) === idx + 1) ? 1 : 0;
+        },
+      }));
+    case "rank":
+      return options.map((_, position) => ({
+        ...base,
+        name: uniqueName(`${name}_${position + 1}`, used),
+        label: { en: `${label.en} (rank ${position + 1})`, ar: `${label.ar} (الترتيب ${position + 1})` },
+        numeric: true,
+        level: "nominal",
+        codes: optionCodes,
+        value: answers => {
+          const answer = answerOf(answers);
+          return Array.isArray(answer) && answer[position] !== undefined ? optionCode(answer[position]) : null;
+        },
+      }));
+    case "checkbox":
+      return [{
+        ...base, name, numeric: true, level: "nominal", codes: TICKED_CODES,
+        // An unticked box counts as empty for required checks, but a submitted false is still an answer
+        value: answers => typeof answers[key] === "boolean" ? (answers[key] ? 1 : 0) : null,
+      }];
+    case "scale":
+    case "emoji_question":
+    case "star_rating":
+    case "number": {
+      const codes: CodeLabel[] = [];
+      if (type === "scale" || type === "emoji_question") {
+        // The end labels of a scale label its lowest and highest points
+        const { min, max } = scaleRange(question);
+        const labels = question.scale?.labels ?? {};
+        if (labels.min) codes.push({ code: min, label: bothLanguages(labels.min) });
+        if (labels.max) codes.push({ code: max, label: bothLanguages(labels.max) });
+      }
+      return [{
+        ...base, name, numeric: true, level: type === "number" ? "scale" : "ordinal", codes,
+        value: answers => {
+          const answer = Number(answerOf(answers));
+          return answerOf(answers) === undefined || !Number.isFinite(answer) ? null : answer;
+        },
+      }];
+    }
+    default:
+      return [{
+        ...base, name, numeric: false, level: "nominal",
+        value: answers => {
+          const answer = answerOf(answers);
+          if (answer === undefined) return null;
+          // One line per response, which SPSS needs to read the CSV
+          return asText((Array.isArray(answer) ? answer.join("; ") : String(answer)).replace(/\s*[\r\n]+\s*/g, " "));
+        },
+      }];
+  }
+}
+
+/**
+ * Lay out a survey's responses: metadata columns, then the columns of every question in survey order.
+ */
+function buildResponseTable(survey: Survey, responses: SubmittedResponse[]): ResponseTable {
+  const used = new Set(["response_id", "submitted_at"]);
+  const columns: ExportColumn[] = [
+    {
+      name: "response_id", type: "id", label: { en: "Response ID", ar: "رقم الرد" },
+      numeric: true, level: "scale", codes: [],
+      value: (_answers, response) => response.id,
+    },
+    {
+      name: "submitted_at", type: "timestamp", label: { en: "Submitted at (UTC)", ar: "وقت الإرسال (UTC)" },
+      numeric: false, level: "nominal", codes: [],
+      value: (_answers, response) => response.createdAt ? new Date(response.createdAt).toISOString().replace("T", " ").slice(0, 19) : null,
+    },
+  ];
+  (survey.structure?.sections ?? []).forEach((section, sectionIdx) => section.questions.forEach((question, questionIdx) => {
+    columns.push(...questionColumns(question, getQuestionKey(question, sectionIdx, questionIdx), used));
+  }));
+
+  return {
+    columns,
+    rows: responses.map(response => columns.map(column => column.value(response.answers ?? {}, response))),
+  };
+}
+
+function dataSheet(table: ResponseTable): XLSX.WorkSheet {
+  return XLSX.utils.aoa_to_sheet([table.columns.map(column => column.name), ...table.rows]);
+}
+
+/**
+ * Responses as CSV (UTF-8 with a byte order mark, so Excel shows Arabic correctly).
+ */
+export function buildResponsesCsv(survey: Survey, responses: SubmittedResponse[]): string {
+  return `\uFEFF${XLSX.utils.sheet_to_csv(dataSheet(buildResponseTable(survey, responses)))}`;
+}
+
+/**
+ * Responses as an .xlsx workbook: a "responses" sheet and a "codebook" sheet
+ * describing every column and its codes in English and Arabic.
+ */
+export function buildResponsesXlsx(survey: Survey, responses: SubmittedResponse[]): Buffer {
+  const table = buildResponseTable(survey, responses);
+  const codebook = table.columns.flatMap(column => {
+    const variable = {
+      variable: column.name,
+      question_id: column.key ?? "",
+      type: column.type,
+      measure: column.level,
+      label_english: column.label.en,
+      label_arabic: column.label.ar,
+    };
+    if (column.codes.length === 0) return [variable];
+    return column.codes.map(code => ({
+      ...variable,
+      code: code.code,
+      code_label_english: code.label.en,
+      code_label_arabic: code.label.ar,
+    }));
+  });
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, dataSheet(table), "responses");
+  XLSX.utils.book_append_sheet(workbook, XLSX.utils.json_to_sheet(codebook, {
+    header: ["variable", "question_id", "type", "measure", "label_english", "label_arabic", "code", "code_label_english", "code_label_arabic"],
+  }), "codebook");
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
+
+// SPSS string literal; labels are limited in length and can't span lines
+const spssString = (value: string, maxLength: number) =>
+  `'${value.replace(/\s+/g, " ").trim().slice(0, maxLength).replace(/'/g, "''")}'`;
+
+// Text answers get room to spare, so the syntax still fits a later CSV download
+const MIN_STRING_WIDTH = 255;
+
+// Format wide enough for every value of a column
+function spssFormat(column: ExportColumn, values: Cell[]): string {
+  if (!column.numeric) {
+    const minWidth = column.type === "timestamp" ? 19 : MIN_STRING_WIDTH;
+    const width = Math.max(minWidth, ...values.map(value => value === null ? 0 : Buffer.byteLength(String(value), "utf8")));
+    return `A${Math.min(width, 32767)}`;
+  }
+  const numbers = values.filter((value): value is number => typeof value === "number");
+  const decimals = Math.min(6, Math.max(0, ...numbers.map(value => (String(value).split(".")[1] ?? "").length)));
+  const digits = Math.max(1, ...numbers.map(value => String(Math.trunc(Math.abs(value))).length));
+  return `F${Math.max(8, digits + decimals + 2)}.${decimals}`;
+}
+
+/**
+ * SPSS syntax that reads the CSV export and applies variable labels, value
+ * labels and measurement levels. Labels use the survey's main language.
+ *
+ * @param csvFileName - Name of the CSV export the syntax reads
+ */
+export function buildSpssSyntax(survey: Survey, responses: SubmittedResponse[], csvFileName: string): string {
+  const table = buildResponseTable(survey, responses);
+  const [lang] = getExportLanguages(survey.language);
+  const lines: string[] = [
+    "* Encoding: UTF-8.",
+    `* ${survey.name.replace(/\s+/g, " ")} - responses.`,
+    `* Save ${csvFileName} next to this file and set the working directory to that folder (CD) before running.`,
+    "",
+    "GET DATA",
+    "  /TYPE=TXT",
+    `  /FILE=${spssString(csvFileName, 255)}`,
+    "  /ENCODING='UTF8'",
+    "  /DELCASE=LINE",
+    "  /DELIMITERS=\",\"",
+    "  /QUALIFIER='\"'",
+    "  /ARRANGEMENT=DELIMITED",
+    "  /FIRSTCASE=2",
+    "  /VARIABLES=",
+    ...table.columns.map((column, idx) => `    ${column.name} ${spssFormat(column, table.rows.map(row => row[idx]))}`),
+    ".",
+    "",
+    "VARIABLE LABELS",
+    ...table.columns.map(column => `  ${column.name} ${spssString(column.label[lang], 255)}`),
+    ".",
+  ];
+
+  const labelled = table.columns.filter(column => column.codes.length > 0);
+  if (labelled.length > 0) {
+    lines.push("", "VALUE LABELS");
+    labelled.forEach((column, idx) => {
+      const codes = column.codes.map(code => `${code.code} ${spssString(code.label[lang], 120)}`).join(" ");
+      lines.push(`  ${idx > 0 ? "/" : ""}${column.name} ${codes}`);
+    });
+    lines.push(".");
+  }
+
+  const levels = (["nominal", "ordinal", "scale"] as Level[])
+    .map(level => ({ level, names: table.columns.filter(column => column.level === level).map(column => column.name) }))
+    .filter(group => group.names.length > 0);
+  lines.push("", "VARIABLE LEVEL");
+  levels.forEach(({ level, names }, idx) => lines.push(`  ${idx > 0 ? "/" : ""}${names.join(" ")} (${level.toUpperCase()})`));
+  lines.push(".", "", "EXECUTE.", "");
+  return lines.join("\n");
+}
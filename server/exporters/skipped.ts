@@ -0,0 +1,29 @@
+import type { SkippedRule } from "@shared/routes";
+import type { SurveyRule } from "@shared/rules";
+
+/**
+ * What a survey exporter produces: the file, and the rules it had to leave out
+ * (sent with the download so a partial export doesn't look complete).
+ */
+export interface SurveyExport {
+  content: Buffer | string;
+  skippedRules: SkippedRule[];
+}
+
+/**
+ * Rules an export leaves out. A rule is listed once, with the first reason
+ * one of its conditions or actions couldn't be exported.
+ */
+export class SkippedRules {
+  private readonly rules = new Map<SurveyRule, SkippedRule>();
+
+  add(rule: SurveyRule, reason: string): void {
+    if (this.rules.has(rule)) return;
+    const ruleId = rule.meta_rule?.rule_id ?? "";
+    this.rules.set(rule, { rule_id: ruleId, description: rule.meta_rule?.description_en || ruleId, reason });
+  }
+
+  list(): SkippedRule[] {
+    return Array.from(this.rules.values());
+  }
+}
@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import type { Survey, SurveyStructure } from "@shared/schema";
+import type { RuleAction, RuleCondition, SurveyRule } from "@shared/rules";
+import { buildSurveyJs } from "./surveyjs";
+
+const makeSurvey = (overrides: Partial<Survey>): Survey => ({
+  id: 4, name: "Visitor survey", language: "English", collectionMode: "web", status: "draft",
+  createdAt: new Date("2026-01-01T00:00:00Z"), updatedAt: null, archivedAt: null,
+  opensAt: null, closesAt: null, publishedAt: null, closedAt: null,
+  structure: { sections: [] }, structureVersion: 1,
+  rules: [], rulesMetadata: null, rulesStructureVersion: null, rulesStale: false,
+  ...overrides,
+});
+
+const condition = (question_id: string, operator: string, value: unknown): RuleCondition => ({
+  left_side: { type: "question", question_id },
+  operator,
+  right_side: { type: "value", value },
+});
+
+const rule = (rule_id: string, conditions: RuleCondition[], actions: RuleAction[]): SurveyRule => ({
+  meta_rule: { rule_id, rule_type: actions[0]?.type ?? "", description_en: `Rule ${rule_id}`, description_ar: "" },
+  conditions,
+  actions,
+});
+
+const structure: SurveyStructure = {
+  sections: [{
+    title: "Visit",
+    questions: [
+      { spec_id: "reason", text: "Reason / السبب", type: "radio", options: ["Work / عمل", "Leisure / ترفيه"] },
+      { spec_id: "nights", text: "Nights", type: "number", validation: { min: 0 } },
+      { spec_id: "rating", text: "Rating", type: "scale", scale: { min: 0, max: 10 } },
+      { spec_id: "extras", text: "Extras", type: "checkbox_list", options: ["Spa", "Gym"] },
+    ],
+  }],
+};
+
+function build(overrides: Partial<Survey>) {
+  const { content, skippedRules } = buildSurveyJs(makeSurvey(overrides));
+  const json = JSON.parse(String(content));
+  const elements: Record<string, any>[] = json.pages.flatMap((page: { elements: unknown[] }) => page.elements);
+  return { json, skippedRules, element: (name: string) => elements.find(element => element.name === name)! };
+}
+
+describe("buildSurveyJs", () => {
+  it("maps pages and question types", () => {
+    const { json, element } = build({ structure });
+    expect(json).toMatchObject({ title: "Visitor survey", pages: [{ name: "page_1", title: "Visit" }] });
+    expect(element("reason")).toEqual({ type: "radiogroup", name: "reason", title: "Reason", choices: [
+      { value: "Work", text: "Work" },
+      { value: "Leisure", text: "Leisure" },
+    ] });
+    expect(element("nights")).toMatchObject({ type: "text", inputType: "number", min: 0 });
+    expect(element("rating")).toMatchObject({ type: "rating", rateMin: 0, rateMax: 10 });
+  });
+
+  it("uses localizable strings for bilingual surveys", () => {
+    const { element } = build({ structure, language: "Bilingual" });
+    expect(element("reason").title).toEqual({ default: "Reason", ar: "السبب" });
+    expect(element("reason").choices[0]).toEqual({ value: "Work", text: { default: "Work", ar: "عمل" } });
+  });
+
+  it("turns rules into expressions", () => {
+    const rules = [
+      rule("R1", [condition("reason", "equals", "عمل")], [{ type: "hide_question", action_element: "nights" }]),
+      rule("R2", [condition("rating", "<", 5), condition("extras", "contains", "Spa")], [
+        { type: "require_question", action_element: "nights" },
+        { type: "hide_answer", action_element: "extras", action_answer: "Gym" },
+      ]),
+      rule("R3", [condition("nights", ">", 30)], [{ type: "error_message", action_element: "", message_en: "At most 30 nights" }]),
+    ];
+    const { element, skippedRules } = build({ structure, rules });
+    expect(element("nights")).toMatchObject({
+      visibleIf: "!({reason} = 'Work')",
+      requiredIf: "(false or ({rating} < 5 and {extras} contains 'Spa'))",
+      validators: [{ type: "expression", expression: "!({nights} > 30)", text: "At most 30 nights" }],
+    });
+    expect(element("extras").choices[1]).toEqual({ value: "Gym", text: "Gym", visibleIf: "!(({rating} < 5 and {extras} contains 'Spa'))" });
+    expect(skippedRules).toEqual([]);
+  });
+
+  it("applies rules without conditions always", () => {
+    const rules = [rule("R1", [], [{ type: "disable_question", action_element: "rating" }])];
+    const { element, skippedRules } = build({ structure, rules });
+    expect(element("rating").enableIf).toBe("!(true)");
+    expect(skippedRules).toEqual([]);
+  });
+
+  it("quotes values with an apostrophe", () => {
+    const quoted: SurveyStructure = {
+      sections: [{ title: "", questions: [
+        { spec_id: "sure", text: "Sure?", type: "radio", options: ["Yes", "Don't know"] },
+        { spec_id: "why", text: "Why?", type: "text_field" },
+      ] }],
+    };
+    const rules = [
+      rule("R1", [condition("sure", "equals", "Don't know")], [{ type: "show_question", action_element: "why" }]),
+      rule("R2", [condition("why", "contains", "\"can't\"")], [{ type: "hide_question", action_element: "sure" }]),
+    ];
+    const { element, skippedRules } = build({ structure: quoted, rules });
+    expect(element("sure").choices[1].value).toBe("Don't know");
+    expect(element("why").visibleIf).toBe(`{sure} = "Don't know"`);
+    expect(element("sure").visibleIf).toBeUndefined();
+    expect(skippedRules).toEqual([{ rule_id: "R2", description: "Rule R2", reason: "a condition can't be expressed in SurveyJS" }]);
+  });
+
+  it("reports the rules it leaves out", () => {
+    const rules = [
+      rule("R1", [condition("reason", "equals", "Holiday")], [{ type: "hide_question", action_element: "nights" }]),
+      rule("R2", [condition("nights", "between", [1])], [{ type: "show_question", action_element: "rating" }]),
+      rule("R3", [condition("nights", ">", 1)], [{ type: "show_answer", action_element: "extras", action_answer: "Pool" }]),
+    ];
+    const { element, skippedRules } = build({ structure, rules });
+    expect(element("nights").visibleIf).toBeUndefined();
+    expect(skippedRules).toEqual([
+      { rule_id: "R1", description: "Rule R1", reason: "a condition can't be expressed in SurveyJS" },
+      { rule_id: "R2", description: "Rule R2", reason: "a condition can't be expressed in SurveyJS" },
+      { rule_id: "R3", description: "Rule R3", reason: "\"Pool\" isn't one of the answers of extras" },
+    ]);
+  });
+});
@@ -0,0 +1,389 @@
+import type { Survey, SurveyQuestion } from "@shared/schema";
+import { getQuestionKey, normalizeQuestionType, OPTION_TYPES } from "@shared/answers";
+import {
+  getActionTargets,
+  getActionType,
+  getConditionValues,
+  normalizeOperator,
+  type RuleCondition,
+  type SurveyRule,
+} from "@shared/rules";
+import { findOptionIndex, getExportLanguages, scaleRange, splitText, textIn, type Lang } from "./text";
+import { SkippedRules, type SurveyExport } from "./skipped";
+
+/**
+ * SurveyJS JSON export (survey-library / Survey Creator).
+ *
+ * Pages map onto SurveyJS pages and question types onto its elements
+ * (radio → radiogroup, scale → rating, text_area → comment...). Bilingual
+ * surveys use localizable strings, `{ default: English, ar: Arabic }`.
+ *
+ * SurveyJS expressions cover every rule action:
+ * - show/hide → `visibleIf`, enable/disable → `enableIf`
+ * - require/optional → `requiredIf`
+ * - error_message → an expression validator
+ * - warning_message → an html element shown after the question while the rule fires
+ * - show/hide_answer → the choice's `visibleIf`
+ * Rules without conditions always apply, as at runtime (`true`). Rules with a
+ * condition SurveyJS can't express (such as a text with both quote marks), and
+ * answer filters on an answer that isn't one of the options, are left out and
+ * reported as skipped.
+ */
+
+type LocalizedText = string | Record<string, string>;
+type Element = Record<string, unknown>;
+
+interface ExportQuestion {
+  name: string;
+  /** Normalized question type */
+  type: string;
+  question: SurveyQuestion;
+}
+
+interface QuestionLogic {
+  show: string[];
+  hide: string[];
+  enable: string[];
+  disable: string[];
+  require: string[];
+  optional: string[];
+  errors: { condition: string; message: LocalizedText }[];
+  warnings: { condition: string; message: LocalizedText }[];
+  /** Conditions hiding / showing a choice, by option index */
+  hiddenChoices: Map<number, string[]>;
+  shownChoices: Map<number, string[]>;
+}
+
+const MULTIPLE_TYPES = ["checkbox_list", "rank"];
+const TEXT_TYPES = ["text_field", "text_area", "email"];
+
+const ELEMENT_TYPES: Record<string, string> = {
+  radio: "radiogroup",
+  dropdown_list: "dropdown",
+  checkbox_list: "checkbox",
+  rank: "ranking",
+  scale: "rating",
+  emoji_question: "rating",
+  star_rating: "rating",
+  checkbox: "boolean",
+  text_area: "comment",
+};
+
+// One language as a plain string; both as a localizable string when the text has both
+function localize(value: unknown, langs: Lang[]): LocalizedText {
+  if (langs.length === 1) return textIn(value, langs[0]);
+  const text = splitText(value);
+  return text.en && text.ar ? { default: text.en, ar: text.ar } : text.en || text.ar;
+}
+
+// The value a choice is stored under: the English part, as the runtime submits it
+function choiceValue(option: unknown): string {
+  const text = splitText(option);
+  return text.en || text.ar;
+}
+
+// Quote with whichever mark the text doesn't use; null when it uses both
+function quote(value: unknown): string | null {
+  const text = String(value);
+  if (!text.includes("'")) return `'${text}'`;
+  return text.includes('"') ? null : `"${text}"`;
+}
+
+const joinAll = (parts: string[], operator: "and" | "or") =>
+  parts.length === 1 ? parts[0] : `(${parts.join(` ${operator} `)})`;
+
+// Literal for a rule value as SurveyJS stores the answer; null when it isn't one of the options
+function toLiteral(question: ExportQuestion, value: unknown): string | null {
+  if (OPTION_TYPES.includes(question.type)) {
+    const options = question.question.options ?? [];
+    const idx = findOptionIndex(options, value);
+    return idx >= 0 ? quote(choiceValue(options[idx])) : null;
+  }
+  if (question.type === "checkbox") return String(value).toLowerCase() === "true" ? "true" : "false";
+  const isNumber = typeof value === "number" || (typeof value === "string" && value.trim() !== "" && !Number.isNaN(Number(value)));
+  return isNumber && !TEXT_TYPES.includes(question.type) ? String(Number(value)) : quote(value);
+}
+
+/**
+ * Convert one rule condition into a SurveyJS expression, or null when it can't be expressed.
+ */
+function conditionToExpression(condition: RuleCondition, questions: Map<string, ExportQuestion>): string | null {
+  const operator = normalizeOperator(condition.operator);
+  const question = questions.get(condition.left_side?.question_id);
+  if (!operator || !question) return null;
+  const ref = `{${question.name}}`;
+
+  if (operator === "is_empty") return `${ref} empty`;
+  if (operator === "is_not_empty") return `${ref} notempty`;
+
+  const byQuestion = condition.right_side?.type === "question";
+  let expected: string | null;
+  if (byQuestion) {
+    const other = questions.get(String(condition.right_side.value));
+    expected = other ? `{${other.name}}` : null;
+  } else {
+    expected = toLiteral(question, condition.right_side?.value);
+  }
+  // Multi-select answers are arrays; text answers are matched as substrings
+  const usesContains = MULTIPLE_TYPES.includes(question.type) || TEXT_TYPES.includes(question.type);
+  const bound = (value: unknown) => {
+    if (byQuestion) return expected;
+    const number = typeof value === "string" && value.trim() === "" ? NaN : Number(value);
+    return Number.isFinite(number) ? String(number) : null;
+  };
+  const compare = (operator: string, value: unknown = condition.right_side?.value) => {
+    const limit = bound(value);
+    return limit && `${ref} ${operator} ${limit}`;
+  };
+  const list = () => {
+    const items = getConditionValues(condition).map(item => toLiteral(question, item));
+    return items.length > 0 && items.every(Boolean) ? `[${items.join(", ")}]` : null;
+  };
+
+  switch (operator) {
+    case "equals":
+      if (!expected) return null;
+      return MULTIPLE_TYPES.includes(question.type) ? `${ref} contains ${expected}` : `${ref} = ${expected}`;
+    case "contains":
+      if (!expected) return null;
+      return usesContains ? `${ref} contains ${expected}` : `${ref} = ${expected}`;
+    case "not_equals":
+      if (!expected) return null;
+      return MULTIPLE_TYPES.includes(question.type) ? `${ref} notcontains ${expected}` : `${ref} <> ${expected}`;
+    case "not_contains":
+      if (!expected) return null;
+      return usesContains ? `${ref} notcontains ${expected}` : `${ref} <> ${expected}`;
+    case "greater_than":
+      return compare(">");
+    case "greater_than_or_equal":
+      return compare(">=");
+    case "less_than":
+      return compare("<");
+    case "less_than_or_equal":
+      return compare("<=");
+    case "between": {
+      const values = getConditionValues(condition);
+      if (byQuestion || values.length !== 2) return null;
+      const [min, max] = values;
+      const lower = compare(">=", min);
+      const upper = compare("<=", max);
+      return lower && upper ? `(${lower} and ${upper})` : null;
+    }
+    case "in":
+    case "not_in": {
+      const items = list();
+      if (!items) return null;
+      return operator === "in" ? `${ref} anyof ${items}` : `!(${ref} anyof ${items})`;
+    }
+  }
+}
+
+// All conditions of a rule must hold; null when any of them can't be expressed
+function ruleToExpression(rule: SurveyRule, questions: Map<string, ExportQuestion>): string | null {
+  const parts = (rule.conditions ?? []).map(condition => conditionToExpression(condition, questions));
+  if (parts.some(part => part === null)) return null;
+  return parts.length === 0 ? "true" : joinAll(parts as string[], "and");
+}
+
+function collectLogic(
+  rules: SurveyRule[],
+  questions: Map<string, ExportQuestion>,
+  langs: Lang[],
+  skipped: SkippedRules,
+): Map<string, QuestionLogic> {
+  const byQuestion = new Map<string, QuestionLogic>();
+  const get = (key: string) => {
+    if (!byQuestion.has(key)) {
+      byQuestion.set(key, {
+        show: [], hide: [], enable: [], disable: [], require: [], optional: [],
+        errors: [], warnings: [], hiddenChoices: new Map(), shownChoices: new Map(),
+      });
+    }
+    return byQuestion.get(key)!;
+  };
+  const addTo = (map: Map<number, string[]>, idx: number, condition: string) =>
+    map.set(idx, [...(map.get(idx) ?? []), condition]);
+
+  for (const rule of rules) {
+    const condition = ruleToExpression(rule, questions);
+    if (!condition) {
+      skipped.add(rule, "a condition can't be expressed in SurveyJS");
+      continue;
+    }
+    for (const action of rule.actions ?? []) {
+      const type = getActionType(action, rule);
+      const targets = getActionTargets(action);
+      // Messages without an explicit target belong to the question the rule checks
+      if ((type === "error_message" || type === "warning_message") && targets.length === 0) {
+        const source = rule.conditions?.[0]?.left_side?.question_id;
+        if (source) targets.push(source);
+      }
+
+      for (const target of targets) {
+        const question = questions.get(target);
+        if (!question) continue;
+        const logic = get(target);
+        const message = localize({
+          en: action.message_en || rule.meta_rule.description_en,
+          ar: action.message_ar || rule.meta_rule.description_ar,
+        }, langs);
+        switch (type) {
+          case "show_question": logic.show.push(condition); break;
+          case "hide_question": logic.hide.push(condition); break;
+          case "enable_question": logic.enable.push(condition); break;
+          case "disable_question": logic.disable.push(condition); break;
+          case "require_question": logic.require.push(condition); break;
+          case "optional_question": logic.optional.push(condition); break;
+          case "error_message": logic.errors.push({ condition, message }); break;
+          case "warning_message": logic.warnings.push({ condition, message }); break;
+          case "hide_answer":
+          case "show_answer": {
+            const idx = action.action_answer ? findOptionIndex(question.question.options ?? [], action.action_answer) : -1;
+            if (idx < 0) {
+              skipped.add(rule, action.action_answer
+                ? `"${action.action_answer}" isn't one of the answers of ${target}`
+                : `no answer of ${target} is chosen to filter`);
+              break;
+            }
+            addTo(type === "hide_answer" ? logic.hiddenChoices : logic.shownChoices, idx, condition);
+            break;
+          }
+        }
+      }
+    }
+  }
+  return byQuestion;
+}
+
+// "Shown when any of these and none of those" - the shape of visibleIf and enableIf
+function combine(any: string[], none: string[]): string | undefined {
+  const parts = [
+    ...(any.length ? [joinAll(any, "or")] : []),
+    ...none.map(condition => `!(${condition})`),
+  ];
+  return parts.length ? parts.join(" and ") : undefined;
+}
+
+function typeProperties(question: ExportQuestion, langs: Lang[]): Element {
+  const { question: source } = question;
+  const validation = source.validation ?? {};
+  switch (question.type) {
+    case "scale":
+    case "emoji_question": {
+      const { min, max } = scaleRange(source);
+      const labels = source.scale?.labels ?? {};
+      return {
+        rateMin: min,
+        rateMax: max,
+        ...(question.type === "emoji_question" ? { rateType: "smileys" } : {}),
+        ...(labels.min ? { minRateDescription: localize(labels.min, langs) } : {}),
+        ...(labels.max ? { maxRateDescription: localize(labels.max, langs) } : {}),
+      };
+    }
+    case "star_rating":
+      return { rateType: "stars", rateMin: 1, rateMax: 5 };
+    case "checkbox":
+      return { renderAs: "checkbox" };
+    case "number": {
+      const min = validation.min ?? validation.min_value;
+      const max = validation.max ?? validation.max_value;
+      return {
+        inputType: "number",
+        ...(typeof min === "number" ? { min } : {}),
+        ...(typeof max === "number" ? { max } : {}),
+        ...(typeof validation.step === "number" ? { step: validation.step } : {}),
+      };
+    }
+    case "email":
+      return { inputType: "email", validators: [{ type: "email" }] };
+    case "text_field":
+    case "text_area":
+      return typeof validation.max_length === "number" ? { maxLength: validation.max_length } : {};
+    default:
+      return {};
+  }
+}
+
+function buildElements(question: ExportQuestion, logic: QuestionLogic | undefined, langs: Lang[]): Element[] {
+  const { question: source } = question;
+  const element: Element = {
+    type: ELEMENT_TYPES[question.type] ?? "text",
+    name: question.name,
+    title: localize(source.text, langs),
+    ...typeProperties(question, langs),
+  };
+
+  if (OPTION_TYPES.includes(question.type)) {
+    element.choices = (source.options ?? []).map((option, idx) => {
+      const visibleIf = combine(logic?.shownChoices.get(idx) ?? [], logic?.hiddenChoices.get(idx) ?? []);
+      return { value: choiceValue(option), text: localize(option, langs), ...(visibleIf ? { visibleIf } : {}) };
+    });
+  }
+
+  const visibleIf = combine(logic?.show ?? [], logic?.hide ?? []);
+  if (visibleIf) element.visibleIf = visibleIf;
+  const enableIf = combine(logic?.enable ?? [], logic?.disable ?? []);
+  if (enableIf) element.enableIf = enableIf;
+
+  const required = logic?.require ?? [];
+  const optional = logic?.optional ?? [];
+  if (required.length || optional.length) {
+    const base = joinAll([source.required ? "true" : "false", ...required], "or");
+    element.requiredIf = [base, ...optional.map(condition => `!(${condition})`)].join(" and ");
+  } else if (source.required) {
+    element.isRequired = true;
+  }
+
+  // An expression validator passes while its expression is true
+  const ruleValidators = (logic?.errors ?? []).map(({ condition, message }) => ({
+    type: "expression",
+    expression: `!(${condition})`,
+    text: message,
+  }));
+  if (ruleValidators.length) {
+    element.validators = [...((element.validators as unknown[]) ?? []), ...ruleValidators];
+  }
+
+  // SurveyJS has no soft warnings, so show them as text while the rule fires
+  const notes = (logic?.warnings ?? []).map(({ condition, message }, idx): Element => ({
+    type: "html",
+    name: `${question.name}_warning_${idx + 1}`,
+    html: message,
+    visibleIf: condition,
+  }));
+
+  return [element, ...notes];
+}
+
+/**
+ * Build the SurveyJS JSON of a survey.
+ */
+export function buildSurveyJs(survey: Survey): SurveyExport {
+  const langs = getExportLanguages(survey.language);
+  const sections = survey.structure?.sections ?? [];
+
+  const questions = new Map<string, ExportQuestion>();
+  sections.forEach((section, sectionIdx) => section.questions.forEach((question, questionIdx) => {
+    const key = getQuestionKey(question, sectionIdx, questionIdx);
+    questions.set(key, { name: key, type: normalizeQuestionType(question.type), question });
+  }));
+
+  const skipped = new SkippedRules();
+  const logic = collectLogic(survey.rules ?? [], questions, langs, skipped);
+  const pages = sections.map((section, sectionIdx) => ({
+    name: `page_${sectionIdx + 1}`,
+    ...(textIn(section.title, langs[0]) ? { title: localize(section.title, langs) } : {}),
+    elements: section.questions.flatMap((question, questionIdx) => {
+      const key = getQuestionKey(question, sectionIdx, questionIdx);
+      return buildElements(questions.get(key)!, logic.get(key), langs);
+    }),
+  }));
+
+  const content = JSON.stringify({
+    title: survey.name,
+    ...(langs[0] === "ar" ? { locale: "ar" } : {}),
+    showQuestionNumbers: "on",
+    pages,
+  }, null, 2);
+  return { content, skippedRules: skipped.list() };
+}
@@ -0,0 +1,61 @@
+import type { Survey, SurveyQuestion } from "@shared/schema";
+import { getOptionValues } from "@shared/answers";
+
+/**
+ * Text and option helpers shared by the survey exporters.
+ */
+
+export type Lang = "en" | "ar";
+
+export const LANGUAGE_NAMES: Record<Lang, string> = { en: "English", ar: "Arabic" };
+
+const ARABIC_PATTERN = /[\u0600-\u06FF]/;
+
+/**
+ * Languages an export carries, in order; the first one is the default.
+ */
+export function getExportLanguages(language: Survey["language"]): Lang[] {
+  return language === "Bilingual" ? ["en", "ar"] : language === "Arabic" ? ["ar"] : ["en"];
+}
+
+/**
+ * Split text into its English and Arabic parts. Text is either {en, ar},
+ * a combined "English / Arabic" string or a plain string in one language.
+ */
+export function splitText(value: unknown): Record<Lang, string> {
+  if (value && typeof value === "object" && "en" in value) {
+    const bilingual = value as { en?: string; ar?: string };
+    return { en: bilingual.en ?? "", ar: bilingual.ar ?? "" };
+  }
+  const text = String(value ?? "");
+  const combined = text.match(/^(.+?)\s*\/\s*(.+)$/);
+  if (combined && ARABIC_PATTERN.test(combined[2]) && !ARABIC_PATTERN.test(combined[1])) {
+    return { en: combined[1].trim(), ar: combined[2].trim() };
+  }
+  return ARABIC_PATTERN.test(text) ? { en: "", ar: text } : { en: text, ar: "" };
+}
+
+/**
+ * Text in one language, falling back to the other when it is missing.
+ */
+export function textIn(value: unknown, lang: Lang): string {
+  const text = splitText(value);
+  return text[lang] || text[lang === "en" ? "ar" : "en"];
+}
+
+/**
+ * Integer scale range of a question, 1-5 when it has none (or an invalid one).
+ */
+export function scaleRange(question: SurveyQuestion): { min: number; max: number } {
+  const min = Number(question.scale?.min);
+  const max = Number(question.scale?.max);
+  return Number.isInteger(min) && Number.isInteger(max) && min < max ? { min, max } : { min: 1, max: 5 };
+}
+
+/**
+ * Index of the option a rule value refers to (any language variant), or -1.
+ */
+export function findOptionIndex(options: unknown[], value: unknown): number {
+  const wanted = String(value ?? "").trim().toLowerCase();
+  return options.findIndex(option => getOptionValues(option).some(variant => variant.trim().toLowerCase() === wanted));
+}
@@ -44,6 +44,8 @@ declare module "http" {
 
 app.use(
   express.json({
+    // Imported questionnaires and attached files are sent base64/text-encoded in JSON
+    limit: "10mb",
     verify: (req, _res, buf) => {
       req.rawBody = buf;
     },
@@ -1,8 +1,24 @@
-import type { Express } from "express";
+import type { Express, Request, Response } from "express";
 import type { Server } from "http";
 import { randomUUID } from "crypto";
 import { storage } from "./storage";
-import { api } from "@shared/routes";
+import { BUILT_IN_TEMPLATES, localizeStructure } from "./templates";
+import { getExporter, listExportFormats, type SurveyExporter } from "./exporters";
+import { buildResponsesCsv, buildResponsesXlsx, buildSpssSyntax } from "./exporters/responses";
+import { importQuestionnaire, QuestionnaireImportError } from "./surveyImport";
+import { api, questionAlternativeSchema, SKIPPED_RULES_HEADER, type QuestionBankItemInput, type RevisionInfo } from "@shared/routes";
+import type { Survey, SurveyQuestion, SurveyStructure, UpdateSurveyRequest } from "@shared/schema";
+import { validateAnswers, getQuestionKey, OPTION_TYPES, normalizeQuestionType } from "@shared/answers";
+import { evaluateRules } from "@shared/rules";
+import {
+  canTransition,
+  getCollectionState,
+  getPublishIssues,
+  isStructureLocked,
+  SURVEY_TRANSITIONS,
+  type PublishIssue,
+  type SurveyTransition,
+} from "@shared/lifecycle";
 import { z } from "zod";
 import { registerChatRoutes } from "./replit_integrations/chat"; // Using chat for rephrase/logic if needed
 import OpenAI from "openai";
@@ -37,6 +53,134 @@ function initializeOpenAI() {
   }
 }
 
+/**
+ * Apply an update to a survey. A changed question structure is a new structure
+ * version: the version is bumped, saved rules are marked stale (they no longer
+ * match it), and the new structure is recorded as a revision. Published surveys
+ * can't change their structure (throws "... is locked").
+ */
+async function updateSurveyStructure(
+  existing: Survey,
+  updates: UpdateSurveyRequest,
+  revision?: RevisionInfo,
+): Promise<Survey> {
+  const structureChanged = updates.structure !== undefined &&
+    JSON.stringify(updates.structure?.sections ?? null) !== JSON.stringify(existing.structure?.sections ?? null);
+  if (!structureChanged) {
+    return await storage.updateSurvey(existing.id, updates);
+  }
+  if (isStructureLocked(existing)) {
+    throw new Error(`Survey ${existing.id} is ${existing.status}, its structure is locked`);
+  }
+
+  // Structures saved before revisions were recorded get a baseline revision, so they can still be restored
+  if (existing.structure && (await storage.getRevisions(existing.id)).length === 0) {
+    await storage.createRevision({
+      surveyId: existing.id,
+      structureVersion: existing.structureVersion,
+      structure: existing.structure,
+    });
+  }
+
+  const survey = await storage.updateSurvey(existing.id, {
+    ...updates,
+    structureVersion: existing.structureVersion + 1,
+    rulesStale: existing.rules?.length ? true : existing.rulesStale,
+  });
+  if (survey.structure) {
+    await storage.createRevision({
+      surveyId: survey.id,
+      structureVersion: survey.structureVersion,
+      structure: survey.structure,
+      source: revision?.source ?? "manual",
+      author: revision?.author ?? null,
+    });
+  }
+  return survey;
+}
+
+const LOCKED_STRUCTURE_MESSAGE = "Published surveys can't be edited. Duplicate the survey to change its questions.";
+const LOCKED_RULES_MESSAGE = "Published surveys can't be edited. Duplicate the survey to change its rules.";
+
+type TransitionResult =
+  | { survey: Survey }
+  | { error: { message: string; issues?: PublishIssue[] } };
+
+/**
+ * Move a survey through a lifecycle transition (see @shared/lifecycle).
+ * Publishing is refused while getPublishIssues finds problems and sets the
+ * schedule; reopening replaces the close time, which has usually passed.
+ */
+async function transitionSurvey(
+  survey: Survey,
+  transition: SurveyTransition,
+  schedule: { opensAt?: Date | null; closesAt?: Date | null } = {},
+): Promise<TransitionResult> {
+  if (!canTransition(survey.status, transition)) {
+    return { error: { message: `Can't ${transition} a survey that is ${survey.status}` } };
+  }
+
+  const now = new Date();
+  const status = SURVEY_TRANSITIONS[transition].to;
+  if (transition === "publish") {
+    const issues = getPublishIssues(survey);
+    if (issues.length > 0) {
+      return { error: { message: `The survey can't be published yet: ${issues[0].message}`, issues } };
+    }
+    return {
+      survey: await storage.updateSurvey(survey.id, {
+        status,
+        publishedAt: now,
+        opensAt: schedule.opensAt ?? null,
+        closesAt: schedule.closesAt ?? null,
+        closedAt: null,
+      }),
+    };
+  }
+  if (transition === "close") {
+    return { survey: await storage.updateSurvey(survey.id, { status, closedAt: now }) };
+  }
+  return {
+    survey: await storage.updateSurvey(survey.id, { status, closedAt: null, closesAt: schedule.closesAt ?? null }),
+  };
+}
+
+/**
+ * Copy of a question for the question bank: spec_id and skip logic refer to the
+ * survey it came from, so they are dropped (a new spec_id is given on insert).
+ */
+function toBankQuestion(question: QuestionBankItemInput['question']): SurveyQuestion {
+  const { spec_id: _specId, skip_logic: _skipLogic, ...rest } = question;
+  // Bilingual questions keep {en, ar} text, which the structure type doesn't spell out
+  return rest as SurveyQuestion;
+}
+
+/**
+ * Download file name (without extension) for a survey export. Headers only
+ * allow ASCII, so Arabic names fall back to the survey id.
+ */
+function exportFileName(survey: Pick<Survey, "id" | "name">): string {
+  const slug = survey.name.toLowerCase().replace(/[^a-z0-9]+/g, "-").replace(/^-+|-+$/g, "");
+  return slug || `survey-${survey.id}`;
+}
+
+/**
+ * Send a survey as a download in an export format, listing the rules the
+ * format can't express in the SKIPPED_RULES_HEADER.
+ */
+function sendSurveyExport(res: Response, survey: Survey, exporter: SurveyExporter) {
+  if (!survey.structure?.sections.some(section => section.questions.length > 0)) {
+    return res.status(400).json({ message: 'The survey has no questions to export' });
+  }
+  res.setHeader('Content-Type', exporter.contentType);
+  const { content, skippedRules } = exporter.build(survey);
+  res.setHeader('Content-Disposition', `attachment; filename="${exportFileName(survey)}.${exporter.extension}"`);
+  if (skippedRules.length > 0) {
+    res.setHeader(SKIPPED_RULES_HEADER, encodeURIComponent(JSON.stringify(skippedRules)));
+  }
+  res.send(content);
+}
+
 // Don't initialize at module load time - wait until registerRoutes is called
 // This ensures dotenv has loaded the environment variables first
 
@@ -53,11 +197,64 @@ export async function registerRoutes(
   // === Survey Endpoints ===
   
   app.get(api.surveys.list.path, async (req, res) => {
-    const surveys = await storage.getSurveys();
-    res.json(surveys);
+    try {
+      const query = api.surveys.list.query.parse(req.query);
+      // Scheduled close times are applied lazily, whenever surveys are read
+      await storage.closeDueSurveys(new Date());
+      const { items, total } = await storage.listSurveys(query);
+      res.json({ items, total, page: query.page, pageSize: query.pageSize });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.post(api.surveys.bulk.path, async (req, res) => {
+    try {
+      const input = api.surveys.bulk.input.parse(req.body);
+      const affected: number[] = [];
+      const notFound: number[] = [];
+      const skipped: { id: number; message: string }[] = [];
+      for (const id of Array.from(new Set(input.ids))) {
+        const survey = await storage.getSurvey(id);
+        if (!survey) {
+          notFound.push(id);
+          continue;
+        }
+        if (input.action === "delete") {
+          await storage.deleteSurvey(id);
+        } else if (input.action === "archive") {
+          await storage.updateSurvey(id, { archivedAt: survey.archivedAt ?? new Date() });
+        } else if (input.action === "unarchive") {
+          await storage.updateSurvey(id, { archivedAt: null });
+        } else {
+          const result = await transitionSurvey(survey, input.action);
+          if ("error" in result) {
+            skipped.push({ id, message: result.error.message });
+            continue;
+          }
+        }
+        affected.push(id);
+      }
+      res.json({ affected, notFound, skipped });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
   });
 
   app.get(api.surveys.get.path, async (req, res) => {
+    await storage.closeDueSurveys(new Date());
     const survey = await storage.getSurvey(Number(req.params.id));
     if (!survey) {
       return res.status(404).json({ message: 'Survey not found' });
@@ -65,6 +262,85 @@ export async function registerRoutes(
     res.json(survey);
   });
 
+  app.get(api.surveys.exportFormats.path, (_req, res) => {
+    res.json(listExportFormats());
+  });
+
+  app.get(api.surveys.exportXlsform.path, async (req, res) => {
+    const survey = await storage.getSurvey(Number(req.params.id));
+    if (!survey) {
+      return res.status(404).json({ message: 'Survey not found' });
+    }
+    sendSurveyExport(res, survey, getExporter('xlsform')!);
+  });
+
+  app.get(api.surveys.export.path, async (req, res) => {
+    try {
+      const { format } = api.surveys.export.query.parse(req.query);
+      const exporter = getExporter(format.toLowerCase());
+      if (!exporter) {
+        const formats = listExportFormats().map(item => item.format).join(', ');
+        return res.status(400).json({ message: `Unknown export format "${format}"; use one of ${formats}`, field: 'format' });
+      }
+      const survey = await storage.getSurvey(Number(req.params.id));
+      if (!survey) {
+        return res.status(404).json({ message: 'Survey not found' });
+      }
+      sendSurveyExport(res, survey, exporter);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.post(api.surveys.parseImport.path, async (req, res) => {
+    try {
+      const input = api.surveys.parseImport.input.parse(req.body);
+      res.json(importQuestionnaire(input.fileName, Buffer.from(input.content, 'base64')));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      if (err instanceof QuestionnaireImportError) {
+        return res.status(400).json({ message: err.message });
+      }
+      throw err;
+    }
+  });
+
+  app.post(api.surveys.createFromImport.path, async (req, res) => {
+    try {
+      const { structure: imported, ...input } = api.surveys.createFromImport.input.parse(req.body);
+      const created = await storage.createSurvey(input);
+      // Bilingual imports are reduced to the chosen language, like templates
+      const structure = localizeStructure(imported as SurveyStructure, created.language);
+      const survey = await storage.updateSurvey(created.id, { structure });
+      await storage.createRevision({
+        surveyId: survey.id,
+        structureVersion: survey.structureVersion,
+        structure,
+        source: "import",
+      });
+      res.status(201).json(survey);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
   app.post(api.surveys.create.path, async (req, res) => {
     try {
       const input = api.surveys.create.input.parse(req.body);
@@ -83,8 +359,16 @@ export async function registerRoutes(
 
   app.put(api.surveys.update.path, async (req, res) => {
     try {
-      const input = api.surveys.update.input.parse(req.body);
-      const survey = await storage.updateSurvey(Number(req.params.id), input);
+      const { revision, status, ...updates } = api.surveys.update.input.parse(req.body);
+      const existing = await storage.getSurvey(Number(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: 'Survey not found' });
+      }
+      if (status !== undefined && status !== existing.status) {
+        return res.status(409).json({ message: 'Use publish, close or reopen to change the survey status' });
+      }
+
+      const survey = await updateSurveyStructure(existing, updates, revision);
       res.json(survey);
     } catch (err) {
       if (err instanceof z.ZodError) {
@@ -93,6 +377,9 @@ export async function registerRoutes(
           field: err.errors[0].path.join('.'),
         });
       }
+      if (err instanceof Error && err.message.includes('is locked')) {
+        return res.status(409).json({ message: LOCKED_STRUCTURE_MESSAGE });
+      }
       // Handle case where survey is not found
       if (err instanceof Error && err.message.includes('not found')) {
         return res.status(404).json({ message: 'Survey not found' });
@@ -114,6 +401,421 @@ export async function registerRoutes(
     }
   });
 
+  app.post(api.surveys.duplicate.path, async (req, res) => {
+    try {
+      const input = api.surveys.duplicate.input.parse(req.body ?? {});
+      const existing = await storage.getSurvey(Number(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: 'Survey not found' });
+      }
+
+      const created = await storage.createSurvey({
+        name: input.name || `${existing.name} (copy)`,
+        language: existing.language,
+        collectionMode: existing.collectionMode,
+        status: "draft",
+      });
+      // Keep the source's versions so copied rules stay fresh (or stale) exactly as they were
+      const survey = await storage.updateSurvey(created.id, {
+        structure: existing.structure,
+        structureVersion: existing.structureVersion,
+        rules: existing.rules,
+        rulesMetadata: existing.rulesMetadata,
+        rulesStructureVersion: existing.rulesStructureVersion,
+        rulesStale: existing.rulesStale,
+      });
+      if (survey.structure) {
+        await storage.createRevision({
+          surveyId: survey.id,
+          structureVersion: survey.structureVersion,
+          structure: survey.structure,
+          source: "duplicate",
+        });
+      }
+      res.status(201).json(survey);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.put(api.surveys.saveRules.path, async (req, res) => {
+    try {
+      const input = api.surveys.saveRules.input.parse(req.body);
+      const surveyId = Number(req.params.id);
+      const existing = await storage.getSurvey(surveyId);
+      if (!existing) {
+        return res.status(404).json({ message: 'Survey not found' });
+      }
+      // Rules decide what respondents see and must answer, so they are locked with the questions
+      if (isStructureLocked(existing)) {
+        return res.status(409).json({ message: LOCKED_RULES_MESSAGE });
+      }
+
+      // Rules are saved against the current structure version, so they start out fresh
+      const survey = await storage.updateSurvey(surveyId, {
+        rules: input.rules,
+        rulesMetadata: input.metadata ?? existing.rulesMetadata,
+        rulesStructureVersion: existing.structureVersion,
+        rulesStale: false,
+      });
+      res.json(survey);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  // === Survey Lifecycle Endpoints ===
+
+  // publish / close / reopen differ only in the transition and its request body
+  const handleTransition = (
+    transition: SurveyTransition,
+    parseSchedule: (body: unknown) => { opensAt?: Date | null; closesAt?: Date | null },
+  ) => async (req: Request, res: Response) => {
+    try {
+      const schedule = parseSchedule(req.body ?? {});
+      if (schedule.closesAt && schedule.closesAt <= new Date()) {
+        return res.status(400).json({ message: 'The close time must be in the future', field: 'closesAt' });
+      }
+      await storage.closeDueSurveys(new Date());
+      const existing = await storage.getSurvey(Number(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: 'Survey not found' });
+      }
+
+      const result = await transitionSurvey(existing, transition, schedule);
+      if ("error" in result) {
+        return res.status(409).json(result.error);
+      }
+      res.json(result.survey);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  };
+
+  app.post(api.surveys.publish.path, handleTransition("publish", body => api.surveys.publish.input.parse(body)));
+  app.post(api.surveys.close.path, handleTransition("close", () => ({})));
+  app.post(api.surveys.reopen.path, handleTransition("reopen", body => api.surveys.reopen.input.parse(body)));
+
+  // === Structure Revision Endpoints ===
+
+  app.get(api.revisions.list.path, async (req, res) => {
+    const surveyId = Number(req.params.id);
+    const survey = await storage.getSurvey(surveyId);
+    if (!survey) {
+      return res.status(404).json({ message: 'Survey not found' });
+    }
+    const revisions = await storage.getRevisions(surveyId);
+    res.json(revisions);
+  });
+
+  app.post(api.revisions.restore.path, async (req, res) => {
+    try {
+      const input = api.revisions.restore.input.parse(req.body ?? {});
+      const existing = await storage.getSurvey(Number(req.params.id));
+      if (!existing) {
+        return res.status(404).json({ message: 'Survey not found' });
+      }
+      const revision = await storage.getRevision(existing.id, Number(req.params.revisionId));
+      if (!revision) {
+        return res.status(404).json({ message: 'Revision not found' });
+      }
+
+      // Restoring is itself a structure change, so it gets a new version and revision
+      const survey = await updateSurveyStructure(
+        existing,
+        { structure: revision.structure },
+        { source: "restore", author: input.author },
+      );
+      res.json(survey);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      if (err instanceof Error && err.message.includes('is locked')) {
+        return res.status(409).json({ message: LOCKED_STRUCTURE_MESSAGE });
+      }
+      throw err;
+    }
+  });
+
+  // === Response Endpoints ===
+
+  app.get(api.responses.list.path, async (req, res) => {
+    try {
+      const surveyId = Number(req.params.id);
+      const { page, pageSize } = api.responses.list.query.parse(req.query);
+      const survey = await storage.getSurvey(surveyId);
+      if (!survey) {
+        return res.status(404).json({ message: 'Survey not found' });
+      }
+      const { items, total } = await storage.getResponses(surveyId, { page, pageSize });
+      res.json({ items, total, page, pageSize });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.get(api.responses.export.path, async (req, res) => {
+    try {
+      const surveyId = Number(req.params.id);
+      const { format } = api.responses.export.query.parse(req.query);
+      const survey = await storage.getSurvey(surveyId);
+      if (!survey) {
+        return res.status(404).json({ message: 'Survey not found' });
+      }
+      if (!survey.structure?.sections.some(section => section.questions.length > 0)) {
+        return res.status(400).json({ message: 'The survey has no questions to export' });
+      }
+      const items = await storage.getAllResponses(surveyId);
+      const fileName = `${exportFileName(survey)}-responses`;
+      res.setHeader('Content-Disposition', `attachment; filename="${fileName}.${format}"`);
+      if (format === 'csv') {
+        res.setHeader('Content-Type', 'text/csv; charset=utf-8');
+        return res.send(buildResponsesCsv(survey, items));
+      }
+      if (format === 'sps') {
+        // The syntax reads the CSV export, downloaded separately under its default name
+        res.setHeader('Content-Type', 'text/plain; charset=utf-8');
+        return res.send(buildSpssSyntax(survey, items, `${fileName}.csv`));
+      }
+      res.setHeader('Content-Type', 'application/vnd.openxmlformats-officedocument.spreadsheetml.sheet');
+      res.send(buildResponsesXlsx(survey, items));
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.post(api.responses.create.path, async (req, res) => {
+    try {
+      const surveyId = Number(req.params.id);
+      const input = api.responses.create.input.parse(req.body);
+      const survey = await storage.getSurvey(surveyId);
+      if (!survey) {
+        return res.status(404).json({ message: 'Survey not found' });
+      }
+      const collectionState = getCollectionState(survey);
+      if (collectionState === "scheduled") {
+        return res.status(400).json({ message: 'This survey is not open for responses yet' });
+      }
+      if (collectionState !== "open") {
+        return res.status(400).json({ message: 'This survey is not accepting responses' });
+      }
+      if (!survey.structure?.sections?.length) {
+        return res.status(400).json({ message: 'This survey has no questions' });
+      }
+
+      // Validate against the stored structure and rules - never trust the browser's own checks
+      const evaluation = evaluateRules(survey.structure, survey.rules, input.answers);
+      const issues = validateAnswers(survey.structure, input.answers, evaluation);
+      if (issues.length > 0) {
+        return res.status(400).json({
+          message: issues[0].message,
+          field: issues[0].spec_id,
+          issues,
+        });
+      }
+
+      const response = await storage.createResponse(surveyId, input.answers);
+      res.status(201).json(response);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  // === Survey Template Endpoints ===
+
+  app.get(api.templates.list.path, async (req, res) => {
+    const templates = await storage.getTemplates();
+    res.json(templates);
+  });
+
+  app.post(api.templates.createSurvey.path, async (req, res) => {
+    try {
+      const input = api.templates.createSurvey.input.parse(req.body);
+      const template = await storage.getTemplate(Number(req.params.id));
+      if (!template) {
+        return res.status(404).json({ message: 'Template not found' });
+      }
+
+      const created = await storage.createSurvey(input);
+      const structure = localizeStructure(template.structure, created.language);
+      // Template rules match the template's spec_ids, so they start out fresh
+      const survey = await storage.updateSurvey(created.id, {
+        structure,
+        ...(template.rules?.length ? {
+          rules: template.rules,
+          rulesMetadata: { rules_source: "template" },
+          rulesStructureVersion: created.structureVersion,
+          rulesStale: false,
+        } : {}),
+      });
+      await storage.createRevision({
+        surveyId: survey.id,
+        structureVersion: survey.structureVersion,
+        structure,
+        source: "template",
+      });
+      res.status(201).json(survey);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.post(api.templates.saveFromSurvey.path, async (req, res) => {
+    try {
+      const input = api.templates.saveFromSurvey.input.parse(req.body);
+      const survey = await storage.getSurvey(Number(req.params.id));
+      if (!survey) {
+        return res.status(404).json({ message: 'Survey not found' });
+      }
+      if (!survey.structure?.sections.some(section => section.questions.length > 0)) {
+        return res.status(400).json({ message: 'The survey has no questions to save' });
+      }
+
+      const template = await storage.createTemplate({
+        name: input.name,
+        description: input.description,
+        category: input.category,
+        language: survey.language,
+        structure: survey.structure,
+        rules: input.includeRules && survey.rules?.length ? survey.rules : null,
+      });
+      res.status(201).json(template);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  // === Question Bank Endpoints ===
+
+  app.get(api.questionBank.list.path, async (req, res) => {
+    try {
+      const filters = api.questionBank.list.query.parse(req.query);
+      const items = await storage.getQuestionBankItems(filters);
+      res.json(items);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.get(api.questionBank.get.path, async (req, res) => {
+    const item = await storage.getQuestionBankItem(Number(req.params.id));
+    if (!item) {
+      return res.status(404).json({ message: 'Question not found' });
+    }
+    res.json(item);
+  });
+
+  app.post(api.questionBank.create.path, async (req, res) => {
+    try {
+      const input = api.questionBank.create.input.parse(req.body);
+      const item = await storage.createQuestionBankItem({
+        ...input,
+        question: toBankQuestion(input.question),
+      });
+      res.status(201).json(item);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      throw err;
+    }
+  });
+
+  app.put(api.questionBank.update.path, async (req, res) => {
+    try {
+      const { question, ...input } = api.questionBank.update.input.parse(req.body);
+      const item = await storage.updateQuestionBankItem(Number(req.params.id), {
+        ...input,
+        ...(question ? { question: toBankQuestion(question) } : {}),
+      });
+      res.json(item);
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      if (err instanceof Error && err.message.includes('not found')) {
+        return res.status(404).json({ message: 'Question not found' });
+      }
+      throw err;
+    }
+  });
+
+  app.delete(api.questionBank.delete.path, async (req, res) => {
+    try {
+      await storage.deleteQuestionBankItem(Number(req.params.id));
+      res.status(204).send();
+    } catch (err) {
+      if (err instanceof Error && err.message.includes('not found')) {
+        return res.status(404).json({ message: 'Question not found' });
+      }
+      throw err;
+    }
+  });
+
   // === AI Generation Endpoints ===
   
   // Test endpoint to verify route is registered
@@ -179,6 +881,95 @@ export async function registerRoutes(
     }
   });
 
+  app.post(api.ai.alternatives.path, async (req, res) => {
+    try {
+      const { instructions } = api.ai.alternatives.input.parse(req.body ?? {});
+      const survey = await storage.getSurvey(Number(req.params.id));
+      if (!survey) {
+        return res.status(404).json({ message: 'Survey not found' });
+      }
+      const specId = String(req.params.specId);
+      const sectionIdx = survey.structure?.sections.findIndex((section, sIdx) =>
+        section.questions.some((q, qIdx) => getQuestionKey(q, sIdx, qIdx) === specId)) ?? -1;
+      const section = survey.structure?.sections[sectionIdx];
+      const question = section?.questions.find((q, qIdx) => getQuestionKey(q, sectionIdx, qIdx) === specId);
+      if (!section || !question) {
+        return res.status(404).json({ message: 'Question not found' });
+      }
+
+      if (!openai) {
+        return res.status(503).json({ message: "OpenAI is not configured" });
+      }
+
+      const isBilingual = survey.language === "Bilingual" || typeof question.text === "object";
+      const hasOptions = OPTION_TYPES.includes(normalizeQuestionType(question.type));
+      const textFormat = isBilingual ? '{"en": "string", "ar": "string"}' : '"string"';
+      const systemPrompt = `You are an expert survey designer. Suggest exactly 3 alternative versions of ONE survey question.
+      Keep the question type (${question.type}) and what the question measures; improve clarity, neutrality and answerability.
+      Each alternative should differ noticeably from the original and from the others.
+      Language: ${isBilingual ? "English and Arabic (both for every text)" : survey.language}
+      ${hasOptions ? "Include a complete, mutually exclusive option set for each alternative." : "Do not include options."}
+
+      Return ONLY valid JSON with this structure:
+      {
+        "alternatives": [
+          {
+            "text": ${textFormat},
+            ${hasOptions ? `"options": [${textFormat}],` : ""}
+            "rationale": "string (one short sentence, in English)"
+          }
+        ]
+      }`;
+      const context = {
+        survey: survey.name,
+        page: section.title,
+        question: { text: question.text, type: question.type, options: question.options, scale: question.scale },
+        // Other questions on the page, so the alternatives don't duplicate them
+        other_questions_on_page: section.questions.filter(q => q !== question).map(q => q.text),
+      };
+
+      const response = await openai.chat.completions.create({
+        model: "gpt-4.1-mini",
+        messages: [
+          { role: "system", content: systemPrompt },
+          { role: "user", content: `${JSON.stringify(context)}${instructions ? `\nInstructions: ${instructions}` : ""}` }
+        ],
+        response_format: { type: "json_object" }
+      });
+
+      const content = response.choices[0].message.content;
+      if (!content) throw new Error("No content generated");
+
+      // Keep only well-formed alternatives; option questions fall back to the original options
+      const parsed = JSON.parse(content);
+      const alternatives = (Array.isArray(parsed.alternatives) ? parsed.alternatives : [])
+        .map((alternative: unknown) => questionAlternativeSchema.safeParse(alternative))
+        .filter((result: { success: boolean }) => result.success)
+        .map((result: { data: z.infer<typeof questionAlternativeSchema> }) => ({
+          ...result.data,
+          options: hasOptions ? (result.data.options?.length ? result.data.options : question.options) : undefined,
+        }))
+        .slice(0, 3);
+      if (alternatives.length === 0) throw new Error("The model returned no usable alternatives");
+
+      res.json({ spec_id: specId, alternatives });
+    } catch (err) {
+      if (err instanceof z.ZodError) {
+        return res.status(400).json({
+          message: err.errors[0].message,
+          field: err.errors[0].path.join('.'),
+        });
+      }
+      console.error("AI Alternatives Error:", err);
+      const errorMessage = err instanceof Error ? err.message : String(err);
+      const statusCode = err instanceof Error && 'status' in err ? (err as any).status : 500;
+      res.status(statusCode).json({
+        message: "Failed to suggest alternatives",
+        error: errorMessage
+      });
+    }
+  });
+
   app.post(api.ai.rephrase.path, async (req, res) => {
     try {
       const { prompt, language } = req.body;
@@ -363,8 +1154,8 @@ export async function registerRoutes(
 }
 
 async function seedDatabase() {
-  const existing = await storage.getSurveys();
-  if (existing.length === 0) {
+  const existing = await storage.listSurveys(api.surveys.list.query.parse({ pageSize: 1 }));
+  if (existing.total === 0) {
     await storage.createSurvey({
       name: "Employee Satisfaction Q1",
       language: "English",
@@ -378,4 +1169,12 @@ async function seedDatabase() {
       status: "draft"
     });
   }
+
+  // The template catalog is seeded separately so existing installs get it too
+  const templates = await storage.getTemplates();
+  if (!templates.some(template => template.builtIn)) {
+    for (const template of BUILT_IN_TEMPLATES) {
+      await storage.createTemplate(template);
+    }
+  }
 }
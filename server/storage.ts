@@ -1,26 +1,103 @@
 import { getDb } from "./db";
 import {
   surveys,
+  responses,
+  answers,
+  surveyRevisions,
+  questionBank,
+  surveyTemplates,
   type Survey,
   type InsertSurvey,
-  type UpdateSurveyRequest
+  type UpdateSurveyRequest,
+  type SurveyRulesState,
+  type SubmittedResponse,
+  type SurveyResponseRow,
+  type AnswerRow,
+  type SurveyRevision,
+  type InsertSurveyRevision,
+  type QuestionBankItem,
+  type InsertQuestionBankItem,
+  type SurveyTemplate,
+  type InsertSurveyTemplate,
 } from "@shared/schema";
-import { eq, desc } from "drizzle-orm";
+import type { AnswerSet } from "@shared/answers";
+import type { ListQuestionBankQuery, ListSurveysQuery } from "@shared/routes";
+import { eq, asc, desc, count, inArray, and, gte, lte, ilike, isNull, isNotNull, sql, type SQL } from "drizzle-orm";
 
 export interface IStorage {
   // Survey Operations
-  getSurveys(): Promise<Survey[]>;
+  listSurveys(query: ListSurveysQuery): Promise<{ items: Survey[]; total: number }>;
   getSurvey(id: number): Promise<Survey | undefined>;
   createSurvey(survey: InsertSurvey): Promise<Survey>;
-  updateSurvey(id: number, updates: UpdateSurveyRequest): Promise<Survey>;
+  updateSurvey(id: number, updates: UpdateSurveyRequest & Partial<SurveyRulesState>): Promise<Survey>;
   deleteSurvey(id: number): Promise<void>;
+  // Complete active surveys whose closesAt has passed; returns their ids
+  closeDueSurveys(now: Date): Promise<number[]>;
+
+  // Response Operations
+  createResponse(surveyId: number, answerSet: AnswerSet): Promise<SubmittedResponse>;
+  getResponses(
+    surveyId: number,
+    options: { page: number; pageSize: number },
+  ): Promise<{ items: SubmittedResponse[]; total: number }>;
+  // Every response of a survey, oldest first (for exports)
+  getAllResponses(surveyId: number): Promise<SubmittedResponse[]>;
+
+  // Structure Revision Operations
+  createRevision(revision: InsertSurveyRevision): Promise<SurveyRevision>;
+  getRevisions(surveyId: number): Promise<SurveyRevision[]>;
+  getRevision(surveyId: number, revisionId: number): Promise<SurveyRevision | undefined>;
+
+  // Question Bank Operations
+  getQuestionBankItems(filters: ListQuestionBankQuery): Promise<QuestionBankItem[]>;
+  getQuestionBankItem(id: number): Promise<QuestionBankItem | undefined>;
+  createQuestionBankItem(item: InsertQuestionBankItem): Promise<QuestionBankItem>;
+  updateQuestionBankItem(id: number, updates: Partial<InsertQuestionBankItem>): Promise<QuestionBankItem>;
+  deleteQuestionBankItem(id: number): Promise<void>;
+
+  // Survey Template Operations
+  getTemplates(): Promise<SurveyTemplate[]>;
+  getTemplate(id: number): Promise<SurveyTemplate | undefined>;
+  createTemplate(template: InsertSurveyTemplate): Promise<SurveyTemplate>;
 }
 
+// Group answer rows back into the spec_id -> value map used by the API
+function toSubmittedResponse(response: SurveyResponseRow, answerRows: AnswerRow[]): SubmittedResponse {
+  const answerSet: AnswerSet = {};
+  for (const row of answerRows) {
+    answerSet[row.specId] = row.value ?? null;
+  }
+  return { ...response, answers: answerSet };
+}
+
+// ILIKE pattern matching the search text anywhere, taking its own %, _ and \ literally
+const containsPattern = (search: string) => `%${search.replace(/[\\%_]/g, "\\$&")}%`;
+
 // Database-backed storage implementation
 export class DatabaseStorage implements IStorage {
-  async getSurveys(): Promise<Survey[]> {
+  async listSurveys(query: ListSurveysQuery): Promise<{ items: Survey[]; total: number }> {
     const db = getDb();
-    return await db.select().from(surveys).orderBy(desc(surveys.createdAt));
+    const conditions: SQL[] = [];
+    if (query.search) conditions.push(ilike(surveys.name, containsPattern(query.search)));
+    if (query.status) conditions.push(eq(surveys.status, query.status));
+    if (query.language) conditions.push(eq(surveys.language, query.language));
+    if (query.collectionMode) conditions.push(eq(surveys.collectionMode, query.collectionMode));
+    if (query.createdFrom) conditions.push(gte(surveys.createdAt, query.createdFrom));
+    if (query.createdTo) conditions.push(lte(surveys.createdAt, query.createdTo));
+    if (query.archived === "exclude") conditions.push(isNull(surveys.archivedAt));
+    if (query.archived === "only") conditions.push(isNotNull(surveys.archivedAt));
+    const where = and(...conditions);
+
+    const [{ total }] = await db.select({ total: count() }).from(surveys).where(where);
+    const direction = query.order === "asc" ? asc : desc;
+    const items = await db
+      .select()
+      .from(surveys)
+      .where(where)
+      .orderBy(direction(surveys[query.sort]), direction(surveys.id))
+      .limit(query.pageSize)
+      .offset((query.page - 1) * query.pageSize);
+    return { items, total };
   }
 
   async getSurvey(id: number): Promise<Survey | undefined> {
@@ -35,7 +112,7 @@ export class DatabaseStorage implements IStorage {
     return survey;
   }
 
-  async updateSurvey(id: number, updates: UpdateSurveyRequest): Promise<Survey> {
+  async updateSurvey(id: number, updates: UpdateSurveyRequest & Partial<SurveyRulesState>): Promise<Survey> {
     const db = getDb();
     const [updated] = await db
       .update(surveys)
@@ -49,6 +126,190 @@ export class DatabaseStorage implements IStorage {
     const db = getDb();
     await db.delete(surveys).where(eq(surveys.id, id));
   }
+
+  async closeDueSurveys(now: Date): Promise<number[]> {
+    const db = getDb();
+    const closed = await db
+      .update(surveys)
+      .set({ status: "completed", closedAt: sql`${surveys.closesAt}`, updatedAt: now })
+      .where(and(eq(surveys.status, "active"), lte(surveys.closesAt, now)))
+      .returning({ id: surveys.id });
+    return closed.map(row => row.id);
+  }
+
+  async createResponse(surveyId: number, answerSet: AnswerSet): Promise<SubmittedResponse> {
+    const db = getDb();
+    // Insert the response and its answers together so a failed insert never leaves a half-saved submission
+    return await db.transaction(async (tx) => {
+      const [response] = await tx.insert(responses).values({ surveyId }).returning();
+      const rows = Object.entries(answerSet).map(([specId, value]) => ({
+        responseId: response.id,
+        specId,
+        value,
+      }));
+      const inserted = rows.length > 0 ? await tx.insert(answers).values(rows).returning() : [];
+      return toSubmittedResponse(response, inserted);
+    });
+  }
+
+  async getResponses(
+    surveyId: number,
+    { page, pageSize }: { page: number; pageSize: number },
+  ): Promise<{ items: SubmittedResponse[]; total: number }> {
+    const db = getDb();
+    const [{ total }] = await db
+      .select({ total: count() })
+      .from(responses)
+      .where(eq(responses.surveyId, surveyId));
+
+    const pageRows = await db
+      .select()
+      .from(responses)
+      .where(eq(responses.surveyId, surveyId))
+      .orderBy(desc(responses.createdAt))
+      .limit(pageSize)
+      .offset((page - 1) * pageSize);
+
+    if (pageRows.length === 0) {
+      return { items: [], total };
+    }
+
+    const answerRows = await db
+      .select()
+      .from(answers)
+      .where(inArray(answers.responseId, pageRows.map(r => r.id)));
+
+    const items = pageRows.map(response =>
+      toSubmittedResponse(response, answerRows.filter(a => a.responseId === response.id)),
+    );
+    return { items, total };
+  }
+
+  async getAllResponses(surveyId: number): Promise<SubmittedResponse[]> {
+    const db = getDb();
+    const responseRows = await db
+      .select()
+      .from(responses)
+      .where(eq(responses.surveyId, surveyId))
+      .orderBy(asc(responses.createdAt), asc(responses.id));
+
+    const answerRows = await db
+      .select()
+      .from(answers)
+      .where(inArray(
+        answers.responseId,
+        db.select({ id: responses.id }).from(responses).where(eq(responses.surveyId, surveyId)),
+      ));
+
+    const byResponse = new Map<number, AnswerRow[]>();
+    for (const row of answerRows) {
+      byResponse.set(row.responseId, [...(byResponse.get(row.responseId) ?? []), row]);
+    }
+    return responseRows.map(response => toSubmittedResponse(response, byResponse.get(response.id) ?? []));
+  }
+
+  async createRevision(revision: InsertSurveyRevision): Promise<SurveyRevision> {
+    const db = getDb();
+    const [created] = await db.insert(surveyRevisions).values(revision).returning();
+    return created;
+  }
+
+  async getRevisions(surveyId: number): Promise<SurveyRevision[]> {
+    const db = getDb();
+    return await db
+      .select()
+      .from(surveyRevisions)
+      .where(eq(surveyRevisions.surveyId, surveyId))
+      .orderBy(desc(surveyRevisions.id));
+  }
+
+  async getRevision(surveyId: number, revisionId: number): Promise<SurveyRevision | undefined> {
+    const db = getDb();
+    const [revision] = await db
+      .select()
+      .from(surveyRevisions)
+      .where(and(eq(surveyRevisions.surveyId, surveyId), eq(surveyRevisions.id, revisionId)));
+    return revision;
+  }
+
+  async getQuestionBankItems({ search, tag, language }: ListQuestionBankQuery): Promise<QuestionBankItem[]> {
+    const db = getDb();
+    const conditions: SQL[] = [];
+    if (search) {
+      // Text and options as JSON, which covers both languages of bilingual questions
+      conditions.push(
+        sql`concat(${questionBank.question}->'text', ${questionBank.question}->'options') ILIKE ${containsPattern(search)}`,
+      );
+    }
+    if (tag) {
+      conditions.push(sql`${questionBank.tags} @> ${JSON.stringify([tag])}::jsonb`);
+    }
+    if (language) {
+      conditions.push(eq(questionBank.language, language));
+    }
+    return await db
+      .select()
+      .from(questionBank)
+      .where(and(...conditions))
+      .orderBy(desc(questionBank.updatedAt));
+  }
+
+  async getQuestionBankItem(id: number): Promise<QuestionBankItem | undefined> {
+    const db = getDb();
+    const [item] = await db.select().from(questionBank).where(eq(questionBank.id, id));
+    return item;
+  }
+
+  async createQuestionBankItem(item: InsertQuestionBankItem): Promise<QuestionBankItem> {
+    const db = getDb();
+    const [created] = await db.insert(questionBank).values(item).returning();
+    return created;
+  }
+
+  async updateQuestionBankItem(id: number, updates: Partial<InsertQuestionBankItem>): Promise<QuestionBankItem> {
+    const db = getDb();
+    const [updated] = await db
+      .update(questionBank)
+      .set({ ...updates, updatedAt: new Date() })
+      .where(eq(questionBank.id, id))
+      .returning();
+    if (!updated) {
+      throw new Error(`Question bank item with id ${id} not found`);
+    }
+    return updated;
+  }
+
+  async deleteQuestionBankItem(id: number): Promise<void> {
+    const db = getDb();
+    const deleted = await db.delete(questionBank).where(eq(questionBank.id, id)).returning({ id: questionBank.id });
+    if (deleted.length === 0) {
+      throw new Error(`Question bank item with id ${id} not found`);
+    }
+  }
+
+  async getTemplates(): Promise<SurveyTemplate[]> {
+    const db = getDb();
+    // Built-in catalog first (in seed order), then saved templates newest first
+    return await db
+      .select()
+      .from(surveyTemplates)
+      .orderBy(
+        desc(surveyTemplates.builtIn),
+        sql`CASE WHEN ${surveyTemplates.builtIn} THEN ${surveyTemplates.id} ELSE -${surveyTemplates.id} END`,
+      );
+  }
+
+  async getTemplate(id: number): Promise<SurveyTemplate | undefined> {
+    const db = getDb();
+    const [template] = await db.select().from(surveyTemplates).where(eq(surveyTemplates.id, id));
+    return template;
+  }
+
+  async createTemplate(template: InsertSurveyTemplate): Promise<SurveyTemplate> {
+    const db = getDb();
+    const [created] = await db.insert(surveyTemplates).values(template).returning();
+    return created;
+  }
 }
 
 // In-memory storage implementation for development when database is not available
@@ -56,14 +317,39 @@ export class DatabaseStorage implements IStorage {
 export class MemoryStorage implements IStorage {
   private surveys: Survey[] = [];
   private nextId = 1;
+  private responses: SubmittedResponse[] = [];
+  private nextResponseId = 1;
+  private revisions: SurveyRevision[] = [];
+  private nextRevisionId = 1;
+  private questionBank: QuestionBankItem[] = [];
+  private nextQuestionBankId = 1;
+  private templates: SurveyTemplate[] = [];
+  private nextTemplateId = 1;
 
-  async getSurveys(): Promise<Survey[]> {
-    // Return surveys sorted by creation date (newest first)
-    return [...this.surveys].sort((a, b) => {
-      const dateA = a.createdAt ? new Date(a.createdAt).getTime() : 0;
-      const dateB = b.createdAt ? new Date(b.createdAt).getTime() : 0;
-      return dateB - dateA;
+  async listSurveys(query: ListSurveysQuery): Promise<{ items: Survey[]; total: number }> {
+    const search = query.search?.toLowerCase();
+    const time = (date: Date | null) => (date ? new Date(date).getTime() : 0);
+    const matching = this.surveys.filter(s =>
+      (!search || s.name.toLowerCase().includes(search)) &&
+      (!query.status || s.status === query.status) &&
+      (!query.language || s.language === query.language) &&
+      (!query.collectionMode || s.collectionMode === query.collectionMode) &&
+      (!query.createdFrom || time(s.createdAt) >= query.createdFrom.getTime()) &&
+      (!query.createdTo || time(s.createdAt) <= query.createdTo.getTime()) &&
+      (query.archived !== "exclude" || !s.archivedAt) &&
+      (query.archived !== "only" || !!s.archivedAt),
+    );
+
+    // Same ordering as the database implementation (id breaks ties)
+    const direction = query.order === "asc" ? 1 : -1;
+    matching.sort((a, b) => {
+      const compared = query.sort === "name"
+        ? a.name.localeCompare(b.name)
+        : time(a[query.sort]) - time(b[query.sort]);
+      return (compared || a.id - b.id) * direction;
     });
+    const start = (query.page - 1) * query.pageSize;
+    return { items: matching.slice(start, start + query.pageSize), total: matching.length };
   }
 
   async getSurvey(id: number): Promise<Survey | undefined> {
@@ -81,12 +367,22 @@ export class MemoryStorage implements IStorage {
       createdAt: now,
       updatedAt: now,
       structure: insertSurvey.structure || null,
+      structureVersion: 1,
+      rules: null,
+      rulesMetadata: null,
+      rulesStructureVersion: null,
+      rulesStale: false,
+      archivedAt: null,
+      opensAt: null,
+      closesAt: null,
+      publishedAt: null,
+      closedAt: null,
     };
     this.surveys.push(survey);
     return survey;
   }
 
-  async updateSurvey(id: number, updates: UpdateSurveyRequest): Promise<Survey> {
+  async updateSurvey(id: number, updates: UpdateSurveyRequest & Partial<SurveyRulesState>): Promise<Survey> {
     const index = this.surveys.findIndex(s => s.id === id);
     if (index === -1) {
       throw new Error(`Survey with id ${id} not found`);
@@ -108,6 +404,150 @@ export class MemoryStorage implements IStorage {
       throw new Error(`Survey with id ${id} not found`);
     }
     this.surveys.splice(index, 1);
+    // Mirror the database's cascading delete
+    this.responses = this.responses.filter(r => r.surveyId !== id);
+    this.revisions = this.revisions.filter(r => r.surveyId !== id);
+  }
+
+  async closeDueSurveys(now: Date): Promise<number[]> {
+    const due = this.surveys.filter(s => s.status === "active" && s.closesAt && s.closesAt <= now);
+    due.forEach(survey => {
+      survey.status = "completed";
+      survey.closedAt = survey.closesAt;
+      survey.updatedAt = now;
+    });
+    return due.map(survey => survey.id);
+  }
+
+  async createResponse(surveyId: number, answerSet: AnswerSet): Promise<SubmittedResponse> {
+    const response: SubmittedResponse = {
+      id: this.nextResponseId++,
+      surveyId,
+      createdAt: new Date(),
+      answers: { ...answerSet },
+    };
+    this.responses.push(response);
+    return response;
+  }
+
+  async getResponses(
+    surveyId: number,
+    { page, pageSize }: { page: number; pageSize: number },
+  ): Promise<{ items: SubmittedResponse[]; total: number }> {
+    // Newest first, like the database implementation
+    const matching = this.responses
+      .filter(r => r.surveyId === surveyId)
+      .sort((a, b) => b.id - a.id);
+    const start = (page - 1) * pageSize;
+    return {
+      items: matching.slice(start, start + pageSize),
+      total: matching.length,
+    };
+  }
+
+  async getAllResponses(surveyId: number): Promise<SubmittedResponse[]> {
+    return this.responses.filter(r => r.surveyId === surveyId);
+  }
+
+  async createRevision(revision: InsertSurveyRevision): Promise<SurveyRevision> {
+    const created: SurveyRevision = {
+      id: this.nextRevisionId++,
+      surveyId: revision.surveyId,
+      structureVersion: revision.structureVersion,
+      structure: revision.structure,
+      source: revision.source || "manual",
+      author: revision.author ?? null,
+      createdAt: new Date(),
+    };
+    this.revisions.push(created);
+    return created;
+  }
+
+  async getRevisions(surveyId: number): Promise<SurveyRevision[]> {
+    // Newest first, like the database implementation
+    return this.revisions
+      .filter(r => r.surveyId === surveyId)
+      .sort((a, b) => b.id - a.id);
+  }
+
+  async getRevision(surveyId: number, revisionId: number): Promise<SurveyRevision | undefined> {
+    return this.revisions.find(r => r.surveyId === surveyId && r.id === revisionId);
+  }
+
+  async getQuestionBankItems({ search, tag, language }: ListQuestionBankQuery): Promise<QuestionBankItem[]> {
+    const needle = search?.toLowerCase();
+    // Most recently updated first, like the database implementation
+    return this.questionBank
+      .filter(item => !needle || JSON.stringify([item.question.text, item.question.options]).toLowerCase().includes(needle))
+      .filter(item => !tag || item.tags.includes(tag))
+      .filter(item => !language || item.language === language)
+      .sort((a, b) => (b.updatedAt?.getTime() ?? 0) - (a.updatedAt?.getTime() ?? 0) || b.id - a.id);
+  }
+
+  async getQuestionBankItem(id: number): Promise<QuestionBankItem | undefined> {
+    return this.questionBank.find(item => item.id === id);
+  }
+
+  async createQuestionBankItem(item: InsertQuestionBankItem): Promise<QuestionBankItem> {
+    const now = new Date();
+    const created: QuestionBankItem = {
+      id: this.nextQuestionBankId++,
+      question: item.question,
+      tags: item.tags ?? [],
+      language: item.language || "English",
+      createdAt: now,
+      updatedAt: now,
+    };
+    this.questionBank.push(created);
+    return created;
+  }
+
+  async updateQuestionBankItem(id: number, updates: Partial<InsertQuestionBankItem>): Promise<QuestionBankItem> {
+    const index = this.questionBank.findIndex(item => item.id === id);
+    if (index === -1) {
+      throw new Error(`Question bank item with id ${id} not found`);
+    }
+    const updated: QuestionBankItem = {
+      ...this.questionBank[index],
+      ...updates,
+      updatedAt: new Date(),
+    };
+    this.questionBank[index] = updated;
+    return updated;
+  }
+
+  async deleteQuestionBankItem(id: number): Promise<void> {
+    const index = this.questionBank.findIndex(item => item.id === id);
+    if (index === -1) {
+      throw new Error(`Question bank item with id ${id} not found`);
+    }
+    this.questionBank.splice(index, 1);
+  }
+
+  async getTemplates(): Promise<SurveyTemplate[]> {
+    // Built-in catalog first (in seed order), then saved templates newest first
+    return [...this.templates].sort((a, b) =>
+      Number(b.builtIn) - Number(a.builtIn) || (a.builtIn ? a.id - b.id : b.id - a.id));
+  }
+
+  async getTemplate(id: number): Promise<SurveyTemplate | undefined> {
+    return this.templates.find(t => t.id === id);
+  }
+
+  async createTemplate(template: InsertSurveyTemplate): Promise<SurveyTemplate> {
+    const created: SurveyTemplate = {
+      id: this.nextTemplateId++,
+      name: template.name,
+      description: template.description ?? "",
+      category: template.category || "general",
+      language: template.language || "Bilingual",
+      structure: template.structure,
+      rules: template.rules ?? null,
+      builtIn: template.builtIn ?? false,
+      createdAt: new Date(),
+    };
+    this.templates.push(created);
+    return created;
   }
 }
 
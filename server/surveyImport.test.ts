@@ -0,0 +1,69 @@
+import { describe, expect, it } from "vitest";
+import * as XLSX from "xlsx";
+import { MAX_IMPORT_FILE_SIZE } from "@shared/routes";
+import { importQuestionnaire, QuestionnaireImportError } from "./surveyImport";
+
+const csv = (lines: string[]) => Buffer.from(lines.join("\n"), "utf8");
+
+function workbookFile(sheets: Record<string, unknown[][]>): Buffer {
+  const workbook = XLSX.utils.book_new();
+  Object.entries(sheets).forEach(([name, rows]) => XLSX.utils.book_append_sheet(workbook, XLSX.utils.aoa_to_sheet(rows), name));
+  return XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+}
+
+describe("importQuestionnaire", () => {
+  it("reads a CSV question list with Arabic columns and a byte order mark", () => {
+    const result = importQuestionnaire("list.csv", csv([
+      "\uFEFFSection,Question,Question_ar,Type,Options,Options_ar,Required",
+      "Intro,Your age,عمرك,integer,,,yes",
+      ",Colour,اللون,select_one,Red|Blue,أحمر|أزرق,",
+      "Rating,How satisfied?,,likert,1-7,,",
+    ]));
+    expect(result.language).toBe("Bilingual");
+    expect(result.issues).toEqual([]);
+    expect(result.structure.sections).toEqual([
+      {
+        title: "Intro",
+        questions: [
+          { spec_id: "p1_q1", text: { en: "Your age", ar: "عمرك" }, type: "number", required: true },
+          {
+            spec_id: "p1_q2", text: { en: "Colour", ar: "اللون" }, type: "radio", required: false,
+            options: [{ en: "Red", ar: "أحمر" }, { en: "Blue", ar: "أزرق" }],
+          },
+        ],
+      },
+      { title: "Rating", questions: [{ spec_id: "p2_q1", text: "How satisfied?", type: "scale", required: false, scale: { min: 1, max: 7 } }] },
+    ]);
+  });
+
+  it("reports rows and columns it can't import", () => {
+    const result = importQuestionnaire("list.csv", csv([
+      "question,type,options,show_if,owner",
+      "Where?,geopoint,,,me",
+      "Pick one,radio,,q1 = 1,",
+    ]));
+    expect(result.issues.map(issue => [issue.code, issue.row])).toEqual([
+      ["unsupported_type", 2],
+      ["missing_options", 3],
+      ["skip_logic", 3],
+      ["ignored_column", undefined],
+    ]);
+  });
+
+  it("reads a spreadsheet without a survey sheet as a question list", () => {
+    const result = importQuestionnaire("list.xlsx", workbookFile({ Questions: [["question", "type"], ["Name", "text"]] }));
+    expect(result.structure.sections[0].questions).toEqual([{ spec_id: "p1_q1", text: "Name", type: "text_field", required: false }]);
+  });
+
+  it("refuses files it can't import at all", () => {
+    const refuse = (fileName: string, content: Buffer, message: string) => {
+      expect(() => importQuestionnaire(fileName, content)).toThrow(QuestionnaireImportError);
+      expect(() => importQuestionnaire(fileName, content)).toThrow(message);
+    };
+    refuse("form.pdf", Buffer.from("x"), "Upload an XLSForm (.xlsx, .xls) or a CSV question list");
+    refuse("form.xlsx", Buffer.alloc(MAX_IMPORT_FILE_SIZE + 1), "The file is larger than 2 MB");
+    refuse("list.csv", csv(["title,kind", "Name,text"]), 'The question list needs a "question" column');
+    refuse("form.xlsx", workbookFile({ survey: [["name", "label"], ["q1", "Name"]] }), 'The "survey" sheet needs a "type" column');
+    refuse("form.xlsx", workbookFile({ survey: [["type", "name", "label"], ["note", "n1", "Hello"]] }), "No questions were found in the file");
+  });
+});
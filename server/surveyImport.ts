@@ -0,0 +1,187 @@
+import * as XLSX from "xlsx";
+import type { SurveyQuestion, SurveyStructure } from "@shared/schema";
+import { MAX_IMPORT_FILE_SIZE, type ImportIssue, type ImportQuestionnaireResult } from "@shared/routes";
+import { normalizeQuestionType, OPTION_TYPES } from "@shared/answers";
+import { assignSpecIds, parseXlsForm } from "./xlsform";
+
+/**
+ * Questionnaire import: turns an uploaded XLSForm or a simple question list
+ * into a survey structure.
+ *
+ * A question list is a CSV (or a spreadsheet without a "survey" sheet) with
+ * one question per row and the columns section, question, type, options and
+ * required. Options are separated by "|" or ";". Optional section_ar,
+ * question_ar and options_ar columns add the Arabic text.
+ */
+
+/**
+ * The file can't be imported at all (as opposed to the per-row issues of an import).
+ */
+export class QuestionnaireImportError extends Error {}
+
+const SUPPORTED_TYPES = [
+  "radio", "checkbox_list", "dropdown_list", "rank", "scale", "star_rating",
+  "emoji_question", "text_field", "text_area", "number", "email", "checkbox",
+];
+
+// Common names for our types in other tools and XLSForm
+const TYPE_ALIASES: Record<string, string> = {
+  select_one: "radio",
+  single_choice: "radio",
+  select_multiple: "checkbox_list",
+  multiple_choice: "checkbox_list",
+  dropdown: "dropdown_list",
+  ranking: "rank",
+  likert: "scale",
+  text: "text_field",
+  short_text: "text_field",
+  textarea: "text_area",
+  long_text: "text_area",
+  integer: "number",
+  decimal: "number",
+  acknowledge: "checkbox",
+};
+
+const QUESTION_LIST_COLUMNS = ["section", "question", "type", "options", "required", "section_ar", "question_ar", "options_ar"];
+// Columns people use for skip logic; reported as such rather than as unknown columns
+const SKIP_LOGIC_COLUMNS = ["skip_logic", "relevant", "condition", "show_if", "display_logic"];
+
+const splitOptions = (value: string) => value.split(/\s*[|;\n]\s*/).map(option => option.trim()).filter(Boolean);
+
+// {en, ar} when both are given, otherwise whichever one is
+function bilingual(en: string, ar: string): string {
+  return (en && ar ? { en, ar } : en || ar) as string;
+}
+
+function parseQuestionList(rows: Record<string, unknown>[]): ImportQuestionnaireResult {
+  const normalized = rows.map(row => Object.fromEntries(
+    Object.entries(row).map(([key, value]) => [key.trim().toLowerCase().replace(/\s+/g, "_"), String(value ?? "").trim()]),
+  ));
+  const columns = new Set(normalized.flatMap(row => Object.keys(row)));
+  if (!columns.has("question") && !columns.has("question_ar")) {
+    throw new QuestionnaireImportError('The question list needs a "question" column');
+  }
+
+  const issues: ImportIssue[] = [];
+  let hasEnglish = false;
+  let hasArabic = false;
+  const sections: SurveyStructure["sections"] = [];
+
+  normalized.forEach((row, idx) => {
+    const rowNumber = idx + 2;
+    const text = bilingual(row.question ?? "", row.question_ar ?? "");
+    if (!text) return;
+    hasEnglish ||= !!row.question;
+    hasArabic ||= !!row.question_ar;
+    const label = `"${row.question || row.question_ar}"`;
+
+    const rawType = (row.type ?? "").toLowerCase().replace(/[\s-]+/g, "_");
+    const options = splitOptions(row.options ?? "");
+    const optionsAr = splitOptions(row.options_ar ?? "");
+    // Without a type, a question with options is single choice
+    const type = rawType ? normalizeQuestionType(TYPE_ALIASES[rawType] ?? rawType) : options.length ? "radio" : "text_field";
+    if (!SUPPORTED_TYPES.includes(type)) {
+      issues.push({ code: "unsupported_type", row: rowNumber, message: `${label} has type "${row.type}", which isn't supported; it was skipped` });
+      return;
+    }
+
+    const question: SurveyQuestion = { text, type, required: /^(yes|y|true|1|required)$/i.test(row.required ?? "") };
+    if (OPTION_TYPES.includes(type)) {
+      question.options = options.map((option, optionIdx) => bilingual(option, optionsAr[optionIdx] ?? ""));
+      if (question.options.length === 0) {
+        issues.push({ code: "missing_options", row: rowNumber, message: `${label} is a ${type} question without options` });
+      }
+    } else if ((type === "scale" || type === "emoji_question") && options.length) {
+      // Scales take their range from the options, e.g. "1|5" or "1-5"
+      const [min, max] = (options.length === 1 ? options[0].split("-") : [options[0], options[options.length - 1]]).map(Number);
+      if (Number.isInteger(min) && Number.isInteger(max) && min < max) {
+        question.scale = { min, max };
+      } else {
+        issues.push({ code: "validation", row: rowNumber, message: `${label} has scale options "${row.options}"; the default 1-5 range was used` });
+      }
+    }
+
+    for (const column of SKIP_LOGIC_COLUMNS) {
+      if (row[column]) {
+        issues.push({ code: "skip_logic", row: rowNumber, message: `${label} has skip logic that wasn't imported: ${row[column]}` });
+      }
+    }
+
+    const title = bilingual(row.section ?? "", row.section_ar ?? "");
+    const last = sections[sections.length - 1];
+    // Rows without a section stay on the current page
+    const sameSection = last && (!title || JSON.stringify(last.title) === JSON.stringify(title));
+    if (sameSection) {
+      last.questions.push(question);
+    } else {
+      sections.push({ title, questions: [question] });
+    }
+  });
+
+  Array.from(columns)
+    .filter(column => !QUESTION_LIST_COLUMNS.includes(column) && !SKIP_LOGIC_COLUMNS.includes(column))
+    .filter(column => normalized.some(row => row[column]))
+    .forEach(column => issues.push({ code: "ignored_column", message: `Column "${column}" isn't supported and was ignored` }));
+
+  return {
+    structure: { sections: assignSpecIds(sections) },
+    language: hasEnglish && hasArabic ? "Bilingual" : hasArabic ? "Arabic" : "English",
+    issues,
+  };
+}
+
+// Whether a sheet's header row has the column (case and spacing ignored)
+function hasColumn(sheet: XLSX.WorkSheet, column: string): boolean {
+  const [header = []] = XLSX.utils.sheet_to_json<unknown[]>(sheet, { header: 1 });
+  return header.some(cell => String(cell ?? "").trim().toLowerCase() === column);
+}
+
+/**
+ * Import an uploaded questionnaire.
+ *
+ * @param fileName - Original file name; the extension picks the format
+ * @param content - File contents
+ * @throws QuestionnaireImportError when the file is too large, can't be read or has no questions
+ */
+export function importQuestionnaire(fileName: string, content: Buffer): ImportQuestionnaireResult {
+  // Checked before parsing, so an oversized upload never reaches the spreadsheet reader
+  if (content.length > MAX_IMPORT_FILE_SIZE) {
+    throw new QuestionnaireImportError("The file is larger than 2 MB");
+  }
+  const extension = fileName.toLowerCase().split(".").pop();
+  let result: ImportQuestionnaireResult;
+
+  if (extension === "csv") {
+    // Read as UTF-8 text so Arabic survives; strip Excel's byte order mark.
+    // raw keeps cells as written, so a "1-5" scale isn't read as a date
+    let workbook: XLSX.WorkBook;
+    try {
+      workbook = XLSX.read(content.toString("utf8").replace(/^\uFEFF/, ""), { type: "string", raw: true });
+    } catch {
+      throw new QuestionnaireImportError("The file couldn't be read as a CSV question list");
+    }
+    result = parseQuestionList(XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]], { defval: "", raw: false }));
+  } else if (extension === "xlsx" || extension === "xls") {
+    let workbook: XLSX.WorkBook;
+    try {
+      workbook = XLSX.read(content, { type: "buffer" });
+    } catch {
+      throw new QuestionnaireImportError("The file couldn't be read as a spreadsheet");
+    }
+    const surveySheet = workbook.SheetNames.find(sheet => sheet.trim().toLowerCase() === "survey");
+    const isXlsForm = surveySheet !== undefined;
+    if (isXlsForm && !hasColumn(workbook.Sheets[surveySheet], "type")) {
+      throw new QuestionnaireImportError('The "survey" sheet needs a "type" column');
+    }
+    result = isXlsForm
+      ? parseXlsForm(workbook)
+      : parseQuestionList(XLSX.utils.sheet_to_json(workbook.Sheets[workbook.SheetNames[0]], { defval: "", raw: false }));
+  } else {
+    throw new QuestionnaireImportError("Upload an XLSForm (.xlsx, .xls) or a CSV question list");
+  }
+
+  if (result.structure.sections.length === 0) {
+    throw new QuestionnaireImportError("No questions were found in the file");
+  }
+  return result;
+}
@@ -0,0 +1,315 @@
+import type { InsertSurveyTemplate, Survey, SurveyStructure } from "@shared/schema";
+import type { SurveyRule } from "@shared/rules";
+
+/**
+ * Built-in survey template catalog, seeded into storage on startup.
+ *
+ * Every template has a full bilingual structure ({en, ar} text), so it can
+ * create English, Arabic or bilingual surveys (see localizeStructure). Rule
+ * values use "English / Arabic" option strings so they match in either language.
+ */
+
+type Bilingual = { en: string; ar: string };
+
+const t = (en: string, ar: string): Bilingual => ({ en, ar });
+
+// Shared 1-5 agreement scale
+const AGREEMENT_SCALE = {
+  min: 1,
+  max: 5,
+  labels: { min: t("Strongly disagree", "لا أوافق بشدة"), max: t("Strongly agree", "أوافق بشدة") },
+};
+
+// Question text is typed as a string in the structure, but bilingual surveys store {en, ar}
+const structure = (value: unknown) => value as SurveyStructure;
+
+const employeeSatisfaction: InsertSurveyTemplate = {
+  name: "Employee Satisfaction",
+  description: "Job satisfaction, management, growth and intent to stay.",
+  category: "human_resources",
+  builtIn: true,
+  structure: structure({
+    sections: [
+      {
+        title: t("Your role", "دورك الوظيفي"),
+        questions: [
+          {
+            spec_id: "p1_q1",
+            type: "scale",
+            required: true,
+            text: t("I am satisfied with my job overall.", "أنا راضٍ عن وظيفتي بشكل عام."),
+            scale: AGREEMENT_SCALE,
+          },
+          {
+            spec_id: "p1_q2",
+            type: "scale",
+            required: true,
+            text: t("I have the tools and resources I need to do my job well.", "لدي الأدوات والموارد التي أحتاجها لأداء عملي بشكل جيد."),
+            scale: AGREEMENT_SCALE,
+          },
+          {
+            spec_id: "p1_q3",
+            type: "radio",
+            required: true,
+            text: t("How long have you worked here?", "منذ متى تعمل هنا؟"),
+            options: [
+              t("Less than 1 year", "أقل من سنة"),
+              t("1-3 years", "1-3 سنوات"),
+              t("3-5 years", "3-5 سنوات"),
+              t("More than 5 years", "أكثر من 5 سنوات"),
+            ],
+          },
+        ],
+      },
+      {
+        title: t("Management and growth", "الإدارة والتطور"),
+        questions: [
+          {
+            spec_id: "p2_q1",
+            type: "scale",
+            required: true,
+            text: t("My manager gives me useful feedback.", "يقدم لي مديري ملاحظات مفيدة."),
+            scale: AGREEMENT_SCALE,
+          },
+          {
+            spec_id: "p2_q2",
+            type: "scale",
+            required: true,
+            text: t("I see opportunities to grow my career here.", "أرى فرصًا لتطوير مسيرتي المهنية هنا."),
+            scale: AGREEMENT_SCALE,
+          },
+          {
+            spec_id: "p2_q3",
+            type: "radio",
+            required: true,
+            text: t("Do you see yourself working here in two years?", "هل ترى نفسك تعمل هنا بعد سنتين؟"),
+            options: [t("Yes", "نعم"), t("Not sure", "لست متأكدًا"), t("No", "لا")],
+          },
+          {
+            spec_id: "p2_q4",
+            type: "text_area",
+            required: false,
+            text: t("What is the main reason you might leave?", "ما السبب الرئيسي الذي قد يدفعك إلى المغادرة؟"),
+          },
+        ],
+      },
+    ],
+  }),
+  rules: [
+    {
+      meta_rule: {
+        rule_id: "R1",
+        rule_type: "show_question",
+        description_en: "Ask for the reason when the employee may not stay",
+        description_ar: "اسأل عن السبب عندما قد لا يبقى الموظف",
+      },
+      conditions: [
+        { left_side: { type: "question", question_id: "p2_q3" }, operator: "in", right_side: { type: "value", value: ["Not sure / لست متأكدًا", "No / لا"] } },
+      ],
+      actions: [{ type: "show_question", action_element: "p2_q4" }],
+    },
+  ] satisfies SurveyRule[],
+};
+
+const customerNps: InsertSurveyTemplate = {
+  name: "Customer NPS",
+  description: "Net Promoter Score with a follow-up for detractors.",
+  category: "business",
+  builtIn: true,
+  structure: structure({
+    sections: [
+      {
+        title: t("Your experience", "تجربتك"),
+        questions: [
+          {
+            spec_id: "p1_q1",
+            type: "scale",
+            required: true,
+            text: t(
+              "How likely are you to recommend us to a friend or colleague?",
+              "ما مدى احتمال أن توصي بنا لصديق أو زميل؟",
+            ),
+            scale: { min: 0, max: 10, labels: { min: t("Not at all likely", "غير محتمل إطلاقًا"), max: t("Extremely likely", "محتمل جدًا") } },
+          },
+          {
+            spec_id: "p1_q2",
+            type: "text_area",
+            required: false,
+            text: t("What is the main reason for your score?", "ما السبب الرئيسي لتقييمك؟"),
+          },
+          {
+            spec_id: "p1_q3",
+            type: "text_area",
+            required: false,
+            text: t("What could we do better?", "ما الذي يمكننا تحسينه؟"),
+          },
+          {
+            spec_id: "p1_q4",
+            type: "radio",
+            required: true,
+            text: t("How often do you use our products or services?", "كم مرة تستخدم منتجاتنا أو خدماتنا؟"),
+            options: [
+              t("Daily", "يوميًا"),
+              t("Weekly", "أسبوعيًا"),
+              t("Monthly", "شهريًا"),
+              t("Less often", "أقل من ذلك"),
+            ],
+          },
+        ],
+      },
+    ],
+  }),
+  rules: [
+    {
+      meta_rule: {
+        rule_id: "R1",
+        rule_type: "show_question",
+        description_en: "Ask detractors (0-6) what could be better",
+        description_ar: "اسأل غير الراضين (0-6) عما يمكن تحسينه",
+      },
+      conditions: [
+        { left_side: { type: "question", question_id: "p1_q1" }, operator: "less_than_or_equal", right_side: { type: "value", value: 6 } },
+      ],
+      actions: [{ type: "show_question", action_element: "p1_q3" }],
+    },
+  ] satisfies SurveyRule[],
+};
+
+const eventFeedback: InsertSurveyTemplate = {
+  name: "Event Feedback",
+  description: "Post-event ratings of content, speakers and organisation.",
+  category: "events",
+  builtIn: true,
+  structure: structure({
+    sections: [
+      {
+        title: t("The event", "الفعالية"),
+        questions: [
+          {
+            spec_id: "p1_q1",
+            type: "star_rating",
+            required: true,
+            text: t("How would you rate the event overall?", "كيف تقيّم الفعالية بشكل عام؟"),
+            scale: { min: 1, max: 5 },
+          },
+          {
+            spec_id: "p1_q2",
+            type: "checkbox_list",
+            required: false,
+            text: t("Which parts of the event were most valuable?", "ما هي أكثر أجزاء الفعالية فائدة؟"),
+            options: [
+              t("Keynotes", "الكلمات الرئيسية"),
+              t("Workshops", "ورش العمل"),
+              t("Panel discussions", "الجلسات الحوارية"),
+              t("Networking", "التواصل مع الآخرين"),
+            ],
+          },
+          {
+            spec_id: "p1_q3",
+            type: "scale",
+            required: true,
+            text: t("The event was well organised.", "كانت الفعالية منظمة بشكل جيد."),
+            scale: AGREEMENT_SCALE,
+          },
+        ],
+      },
+      {
+        title: t("Next time", "في المرة القادمة"),
+        questions: [
+          {
+            spec_id: "p2_q1",
+            type: "radio",
+            required: true,
+            text: t("Would you attend this event again?", "هل ستحضر هذه الفعالية مرة أخرى؟"),
+            options: [t("Yes", "نعم"), t("Maybe", "ربما"), t("No", "لا")],
+          },
+          {
+            spec_id: "p2_q2",
+            type: "text_area",
+            required: false,
+            text: t("Which topics would you like us to cover next time?", "ما المواضيع التي تود أن نتناولها في المرة القادمة؟"),
+          },
+        ],
+      },
+    ],
+  }),
+};
+
+const trainingEvaluation: InsertSurveyTemplate = {
+  name: "Training Evaluation",
+  description: "Course content, trainer and how the training will be applied.",
+  category: "education",
+  builtIn: true,
+  structure: structure({
+    sections: [
+      {
+        title: t("The training", "التدريب"),
+        questions: [
+          {
+            spec_id: "p1_q1",
+            type: "scale",
+            required: true,
+            text: t("The training content was relevant to my work.", "كان محتوى التدريب ذا صلة بعملي."),
+            scale: AGREEMENT_SCALE,
+          },
+          {
+            spec_id: "p1_q2",
+            type: "scale",
+            required: true,
+            text: t("The trainer explained the material clearly.", "شرح المدرب المادة بوضوح."),
+            scale: AGREEMENT_SCALE,
+          },
+          {
+            spec_id: "p1_q3",
+            type: "radio",
+            required: true,
+            text: t("How was the length of the training?", "كيف كانت مدة التدريب؟"),
+            options: [t("Too short", "قصيرة جدًا"), t("About right", "مناسبة"), t("Too long", "طويلة جدًا")],
+          },
+          {
+            spec_id: "p1_q4",
+            type: "text_area",
+            required: false,
+            text: t("How will you apply what you learned?", "كيف ستطبق ما تعلمته؟"),
+          },
+        ],
+      },
+    ],
+  }),
+};
+
+export const BUILT_IN_TEMPLATES: InsertSurveyTemplate[] = [
+  employeeSatisfaction,
+  customerNps,
+  eventFeedback,
+  trainingEvaluation,
+];
+
+function isBilingualText(value: unknown): value is Bilingual {
+  return typeof value === "object" && value !== null && "en" in value && "ar" in value;
+}
+
+/**
+ * Structure of a bilingual template in the language of the survey it creates:
+ * bilingual surveys keep {en, ar}, English / Arabic surveys get plain strings.
+ */
+export function localizeStructure(source: SurveyStructure, language: Survey["language"]): SurveyStructure {
+  if (language === "Bilingual") return source;
+  const lang = language === "Arabic" ? "ar" : "en";
+  const localize = (value: unknown): any => (isBilingualText(value) ? value[lang] || value.en : value);
+  return {
+    ...source,
+    sections: source.sections.map(section => ({
+      ...section,
+      title: localize(section.title),
+      questions: section.questions.map(question => ({
+        ...question,
+        text: localize(question.text),
+        options: question.options?.map(localize),
+        scale: question.scale?.labels
+          ? { ...question.scale, labels: { min: localize(question.scale.labels.min), max: localize(question.scale.labels.max) } }
+          : question.scale,
+      })),
+    })),
+  };
+}
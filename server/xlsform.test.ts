@@ -0,0 +1,170 @@
+import { describe, expect, it } from "vitest";
+import * as XLSX from "xlsx";
+import type { Survey, SurveyStructure } from "@shared/schema";
+import type { SurveyRule } from "@shared/rules";
+import { buildXlsForm, parseXlsForm } from "./xlsform";
+import { importQuestionnaire } from "./surveyImport";
+
+const makeSurvey = (overrides: Partial<Survey>): Survey => ({
+  id: 7, name: "Household survey", language: "English", collectionMode: "field", status: "draft",
+  createdAt: new Date("2026-01-01T00:00:00Z"), updatedAt: null, archivedAt: null,
+  opensAt: null, closesAt: null, publishedAt: null, closedAt: null,
+  structure: { sections: [] }, structureVersion: 3,
+  rules: [], rulesMetadata: null, rulesStructureVersion: null, rulesStale: false,
+  ...overrides,
+});
+
+const structure: SurveyStructure = {
+  sections: [
+    {
+      title: "About you",
+      questions: [
+        { spec_id: "p1_q1", text: "Your name", type: "text_field", required: true, validation: { max_length: 40 } },
+        { spec_id: "p1_q2", text: "Your email", type: "email" },
+        { spec_id: "p1_q3", text: "Household size", type: "number", validation: { min: 1, max: 20 } },
+      ],
+    },
+    {
+      title: "Opinions",
+      questions: [
+        { spec_id: "p2_q1", text: "Favourite colour", type: "radio", options: ["Red", "Blue"] },
+        { spec_id: "p2_q2", text: "Pets", type: "checkbox_list", options: ["Cat", "Dog"] },
+        { spec_id: "p2_q3", text: "Channel", type: "dropdown_list", options: ["TV", "Radio"] },
+        { spec_id: "p2_q4", text: "Satisfaction", type: "scale", scale: { min: 1, max: 5, labels: { min: "Low", max: "High" } } },
+        { spec_id: "p2_q5", text: "Rate us", type: "star_rating" },
+        { spec_id: "p2_q6", text: "Comments", type: "text_area" },
+        { spec_id: "p2_q7", text: "I agree", type: "checkbox", required: true },
+      ],
+    },
+  ],
+};
+
+const rule = (rule_id: string, conditions: SurveyRule["conditions"], actions: SurveyRule["actions"]): SurveyRule => ({
+  meta_rule: { rule_id, rule_type: actions[0]?.type ?? "", description_en: `Rule ${rule_id}`, description_ar: "" },
+  conditions,
+  actions,
+});
+
+// Export a survey and read the "survey" sheet back as rows
+function exportRows(survey: Survey) {
+  const { content, skippedRules } = buildXlsForm(survey);
+  const workbook = XLSX.read(content, { type: "buffer" });
+  const rows = XLSX.utils.sheet_to_json<Record<string, string>>(workbook.Sheets.survey, { defval: "" });
+  return { workbook, rows, skippedRules, row: (name: string) => rows.find(row => row.name === name)! };
+}
+
+describe("buildXlsForm", () => {
+  it("writes pages as field-list groups with XLSForm types", () => {
+    const { rows, workbook } = exportRows(makeSurvey({ structure }));
+    expect(rows.map(row => row.type)).toEqual([
+      "begin group", "text", "text", "integer", "end group",
+      "begin group", "select_one p2_q1", "select_multiple p2_q2", "select_one p2_q3", "select_one p2_q4",
+      "range", "text", "acknowledge", "end group",
+    ]);
+    expect(rows[0]).toMatchObject({ name: "page_1", "label::English": "About you", appearance: "field-list" });
+    expect(XLSX.utils.sheet_to_json(workbook.Sheets.settings)).toEqual([
+      { form_title: "Household survey", form_id: "survey_7", version: "3", default_language: "English" },
+    ]);
+  });
+
+  it("turns rules into relevant, required and constraint expressions", () => {
+    const rules = [
+      rule("R1", [{ left_side: { type: "question", question_id: "p2_q1" }, operator: "equals", right_side: { type: "value", value: "Red" } }], [
+        { type: "show_question", action_element: "p2_q2" },
+        { type: "require_question", action_element: "p2_q6" },
+      ]),
+      rule("R2", [{ left_side: { type: "question", question_id: "p1_q3" }, operator: ">", right_side: { type: "value", value: 10 } }], [
+        { type: "error_message", action_element: "", message_en: "Too many people" },
+      ]),
+    ];
+    const { row, skippedRules } = exportRows(makeSurvey({ structure, rules }));
+    expect(row("p2_q2").relevant).toBe("${p2_q1} = 'red'");
+    expect(row("p2_q6").required).toBe("(false() or ${p2_q1} = 'red')");
+    expect(row("p1_q3").constraint).toBe(". >= 1 and . <= 20 and not(${p1_q3} > 10)");
+    expect(row("p1_q3")["constraint_message::English"]).toBe("Too many people");
+    expect(skippedRules).toEqual([]);
+  });
+
+  it("reports the rules it leaves out", () => {
+    const rules = [
+      rule("R1", [{ left_side: { type: "question", question_id: "p2_q1" }, operator: "equals", right_side: { type: "value", value: "Green" } }], [
+        { type: "hide_question", action_element: "p2_q2" },
+      ]),
+      rule("R2", [], [{ type: "hide_answer", action_element: "p2_q2", action_answer: "Fish" }]),
+    ];
+    const { row, skippedRules } = exportRows(makeSurvey({ structure, rules }));
+    expect(row("p2_q2").relevant).toBe("");
+    expect(skippedRules).toEqual([
+      { rule_id: "R1", description: "Rule R1", reason: "a condition can't be expressed in XLSForm" },
+      { rule_id: "R2", description: "Rule R2", reason: "\"Fish\" isn't one of the answers of p2_q2" },
+    ]);
+  });
+
+  it("quotes text values with an apostrophe", () => {
+    const comment = (value: string) => [{ left_side: { type: "question", question_id: "p2_q6" }, operator: "contains", right_side: { type: "value", value } }];
+    const rules = [
+      rule("R1", comment("don't"), [{ type: "show_question", action_element: "p2_q7" }]),
+      rule("R2", comment("\"can't\""), [{ type: "hide_question", action_element: "p2_q5" }]),
+    ];
+    const { row, skippedRules } = exportRows(makeSurvey({ structure, rules }));
+    expect(row("p2_q7").relevant).toBe(`contains(\${p2_q6}, "don't")`);
+    expect(row("p2_q5").relevant).toBe("");
+    expect(skippedRules).toEqual([{ rule_id: "R2", description: "Rule R2", reason: "a condition can't be expressed in XLSForm" }]);
+  });
+});
+
+describe("XLSForm round trip", () => {
+  it("imports an exported survey back to the same questions", () => {
+    const { content } = buildXlsForm(makeSurvey({ structure }));
+    const result = importQuestionnaire("survey.xlsx", content as Buffer);
+
+    expect(result.language).toBe("English");
+    expect(result.issues).toEqual([]);
+    expect(result.structure.sections.map(section => section.title)).toEqual(["About you", "Opinions"]);
+    const simplify = (sections: SurveyStructure["sections"]) => sections.flatMap(section => section.questions.map(question => ({
+      text: question.text,
+      type: question.type,
+      options: question.options,
+      required: !!question.required,
+    })));
+    expect(simplify(result.structure.sections)).toEqual(simplify(structure.sections));
+    expect(result.structure.sections[1].questions[3].scale).toEqual({ min: 1, max: 5, labels: { min: "Low", max: "High" } });
+    expect(result.structure.sections[0].questions[0].validation).toEqual({ max_length: 40 });
+    expect(result.structure.sections[0].questions[2].validation).toEqual({ min: 1, max: 20 });
+  });
+
+  it("keeps both languages of a bilingual survey", () => {
+    const bilingual: SurveyStructure = {
+      sections: [{
+        title: "Page / صفحة",
+        questions: [{ spec_id: "q1", text: "Colour / اللون", type: "radio", options: ["Red / أحمر", "Blue / أزرق"] }],
+      }],
+    };
+    const { content } = buildXlsForm(makeSurvey({ language: "Bilingual", structure: bilingual }));
+    const result = importQuestionnaire("survey.xlsx", content as Buffer);
+    expect(result.language).toBe("Bilingual");
+    expect(result.structure.sections[0]).toEqual({
+      title: { en: "Page", ar: "صفحة" },
+      questions: [{
+        spec_id: "p1_q1",
+        text: { en: "Colour", ar: "اللون" },
+        type: "radio",
+        required: false,
+        options: [{ en: "Red", ar: "أحمر" }, { en: "Blue", ar: "أزرق" }],
+      }],
+    });
+  });
+
+  it("reports exported skip logic instead of importing it", () => {
+    const rules = [
+      rule("R1", [{ left_side: { type: "question", question_id: "p2_q1" }, operator: "equals", right_side: { type: "value", value: "Red" } }], [
+        { type: "show_question", action_element: "p2_q2" },
+      ]),
+    ];
+    const { content } = buildXlsForm(makeSurvey({ structure, rules }));
+    const workbook = XLSX.read(content, { type: "buffer" });
+    expect(parseXlsForm(workbook).issues).toEqual([
+      { code: "skip_logic", row: 9, message: "\"p2_q2\" has skip logic that wasn't imported: ${p2_q1} = 'red'" },
+    ]);
+  });
+});
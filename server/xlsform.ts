@@ -0,0 +1,707 @@
+import * as XLSX from "xlsx";
+import type { Survey, SurveyQuestion, SurveyStructure } from "@shared/schema";
+import type { ImportIssue, ImportQuestionnaireResult } from "@shared/routes";
+import { getOptionValues, getQuestionKey, normalizeQuestionType } from "@shared/answers";
+import {
+  getActionTargets,
+  getActionType,
+  normalizeOperator,
+  type RuleCondition,
+  type SurveyRule,
+} from "@shared/rules";
+import { getExportLanguages, LANGUAGE_NAMES, scaleRange, splitText, textIn, type Lang } from "./exporters/text";
+import { SkippedRules, type SurveyExport } from "./exporters/skipped";
+
+/**
+ * XLSForm export and import for field collection (ODK Collect / KoboToolbox).
+ *
+ * Each page becomes a `field-list` group, question types map onto XLSForm
+ * types (radio → select_one, checkbox_list → select_multiple, rank → rank...),
+ * and text goes into `label::English` / `label::Arabic` columns depending on
+ * the survey language.
+ *
+ * Rules map onto XLSForm's per-question expressions:
+ * - show/hide and enable/disable → `relevant` (XLSForm can't disable a question)
+ * - require/optional → `required` expression
+ * - error_message → `constraint` + `constraint_message`
+ * - warning_message → a `note` shown after the question while the rule fires
+ * - show/hide_answer → `choice_filter`
+ * Rules without conditions always apply, as at runtime (`true()`). Rules with
+ * a condition XLSForm can't express (unknown operator, a value that isn't one
+ * of the options, a text with both quote marks), and answer filters on an
+ * answer that isn't a choice, are left out and reported as skipped.
+ *
+ * Import (parseXlsForm) goes the other way for the parts our structure can
+ * hold; XLSForm expressions aren't turned back into rules but reported.
+ */
+
+type Row = Record<string, string>;
+
+// Question types answered by picking from a choice list
+const SELECT_TYPES: Record<string, string> = {
+  radio: "select_one",
+  dropdown_list: "select_one",
+  checkbox_list: "select_multiple",
+  rank: "rank",
+  scale: "select_one",
+  emoji_question: "select_one",
+};
+
+const APPEARANCES: Record<string, string> = {
+  dropdown_list: "minimal",
+  text_area: "multiline",
+  scale: "likert",
+  emoji_question: "likert",
+  star_rating: "rating",
+};
+
+// XLSForm and the runtime validate emails with the same pattern
+const EMAIL_CONSTRAINT = "regex(., '^[^\\s@]+@[^\\s@]+\\.[^\\s@]+$')";
+
+interface ExportQuestion {
+  key: string;
+  name: string;
+  type: string;
+  question: SurveyQuestion;
+  /** Choice list name for select types */
+  listName?: string;
+  /** Choice name by every value a rule may use for it (both languages, "English / Arabic") */
+  choiceNames: Map<string, string>;
+}
+
+// Fill one "column::Language" cell per export language, falling back to the other language
+function labelColumns(column: string, value: unknown, langs: Lang[]): Row {
+  return Object.fromEntries(langs.map(lang => [`${column}::${LANGUAGE_NAMES[lang]}`, textIn(value, lang)]));
+}
+
+// XLSForm names must be valid XML names
+function toXmlName(value: string, fallback: string): string {
+  const name = value.trim().replace(/[^A-Za-z0-9_.-]+/g, "_").replace(/^_+|_+$/g, "");
+  if (!name) return fallback;
+  return /^[A-Za-z_]/.test(name) ? name : `_${name}`;
+}
+
+function uniqueName(base: string, used: Set<string>): string {
+  let name = base;
+  for (let n = 2; used.has(name); n++) name = `${base}_${n}`;
+  used.add(name);
+  return name;
+}
+
+// XPath strings have no escapes: quote with whichever mark the text doesn't use, null when it uses both
+function quote(value: unknown): string | null {
+  const text = String(value);
+  if (!text.includes("'")) return `'${text}'`;
+  return text.includes('"') ? null : `"${text}"`;
+}
+
+function getXlsType(question: SurveyQuestion): string {
+  const type = normalizeQuestionType(question.type);
+  if (SELECT_TYPES[type]) return SELECT_TYPES[type];
+  switch (type) {
+    case "checkbox":
+      return "acknowledge";
+    case "star_rating":
+      return "range";
+    case "number": {
+      const validation = question.validation ?? {};
+      const bounds = [validation.min, validation.max, validation.min_value, validation.max_value, validation.step];
+      return validation.decimal === true || bounds.some(value => typeof value === "number" && !Number.isInteger(value))
+        ? "decimal"
+        : "integer";
+    }
+    default:
+      // text_field, text_area, email and anything unknown are collected as text
+      return "text";
+  }
+}
+
+// Choice rows of a select question; scales get one choice per point with the end labels
+function buildChoices(question: SurveyQuestion, listName: string, langs: Lang[], choiceNames: Map<string, string>): Row[] {
+  const type = normalizeQuestionType(question.type);
+  if (type === "scale" || type === "emoji_question") {
+    const { min, max } = scaleRange(question);
+    const labels = question.scale?.labels ?? {};
+    const rows: Row[] = [];
+    for (let point = min; point <= max; point++) {
+      const end = point === min ? labels.min : point === max ? labels.max : undefined;
+      const label = splitText(end);
+      const text = { en: label.en ? `${point} - ${label.en}` : String(point), ar: label.ar ? `${point} - ${label.ar}` : String(point) };
+      rows.push({ list_name: listName, name: String(point), ...labelColumns("label", text, langs) });
+      choiceNames.set(String(point), String(point));
+    }
+    return rows;
+  }
+
+  const used = new Set<string>();
+  return (question.options ?? []).map((option, idx) => {
+    const name = uniqueName(toXmlName(splitText(option).en.toLowerCase(), `option_${idx + 1}`), used);
+    getOptionValues(option).forEach(value => choiceNames.set(value.trim().toLowerCase(), name));
+    return { list_name: listName, name, ...labelColumns("label", option, langs) };
+  });
+}
+
+// Literal for a value as the form stores it: the choice name for select questions;
+// null when it can't be matched (acknowledge questions are handled by the caller)
+function toFormValue(question: ExportQuestion, value: unknown): string | null {
+  if (question.listName) {
+    const name = question.choiceNames.get(String(value).trim().toLowerCase());
+    return name ? quote(name) : null;
+  }
+  if (question.type === "acknowledge") return null;
+  if (typeof value === "number" || (typeof value === "string" && value.trim() !== "" && !Number.isNaN(Number(value)))) {
+    return question.type === "text" ? quote(value) : String(Number(value));
+  }
+  return quote(value);
+}
+
+const toList = (value: unknown): unknown[] =>
+  Array.isArray(value) ? value : typeof value === "string" && value.includes(",") ? value.split(",").map(item => item.trim()) : [value];
+
+const joinAll = (parts: string[], operator: "and" | "or") =>
+  parts.length === 1 ? parts[0] : `(${parts.join(` ${operator} `)})`;
+
+/**
+ * Convert one rule condition into an XPath expression, or null when XLSForm can't express it.
+ */
+function conditionToXPath(condition: RuleCondition, questions: Map<string, ExportQuestion>): string | null {
+  const operator = normalizeOperator(condition.operator);
+  const question = questions.get(condition.left_side?.question_id);
+  if (!operator || !question) return null;
+  const ref = `\${${question.name}}`;
+
+  if (operator === "is_empty") return `${ref} = ''`;
+  if (operator === "is_not_empty") return `${ref} != ''`;
+
+  // Acknowledge questions are "OK" when ticked and empty otherwise
+  if (question.type === "acknowledge") {
+    const ticked = String(condition.right_side?.value).toLowerCase() === "true";
+    if (operator === "equals") return ticked ? `${ref} = 'OK'` : `${ref} != 'OK'`;
+    if (operator === "not_equals") return ticked ? `${ref} != 'OK'` : `${ref} = 'OK'`;
+    return null;
+  }
+
+  let expected: string | null;
+  if (condition.right_side?.type === "question") {
+    const other = questions.get(String(condition.right_side.value));
+    expected = other ? `\${${other.name}}` : null;
+  } else {
+    expected = toFormValue(question, condition.right_side?.value);
+  }
+  const isMultiple = question.type === "select_multiple" || question.type === "rank";
+  const matches = (value: string) => isMultiple ? `selected(${ref}, ${value})` : `${ref} = ${value}`;
+  // Numeric comparisons use the number itself, also for scale choices
+  const bound = (value: unknown) => {
+    if (condition.right_side?.type === "question") return expected;
+    const number = typeof value === "string" && value.trim() === "" ? NaN : Number(value);
+    return Number.isFinite(number) ? String(number) : null;
+  };
+  const compare = (operator: string, value: unknown = condition.right_side?.value) => {
+    const limit = bound(value);
+    return limit && `${ref} ${operator} ${limit}`;
+  };
+  const values = () => {
+    const items = toList(condition.right_side?.value).map(item => toFormValue(question, item));
+    return items.length > 0 && items.every(Boolean) ? (items as string[]) : null;
+  };
+
+  switch (operator) {
+    case "equals":
+    case "contains":
+      if (!expected) return null;
+      return operator === "contains" && question.type === "text" ? `contains(${ref}, ${expected})` : matches(expected);
+    case "not_equals":
+    case "not_contains":
+      if (!expected) return null;
+      return operator === "not_contains" && question.type === "text" ? `not(contains(${ref}, ${expected}))` : `not(${matches(expected)})`;
+    case "greater_than":
+      return compare(">");
+    case "greater_than_or_equal":
+      return compare(">=");
+    case "less_than":
+      return compare("<");
+    case "less_than_or_equal":
+      return compare("<=");
+    case "between": {
+      const bounds = toList(condition.right_side?.value);
+      if (condition.right_side?.type === "question" || bounds.length !== 2) return null;
+      const [min, max] = bounds;
+      const lower = compare(">=", min);
+      const upper = compare("<=", max);
+      return lower && upper ? `(${lower} and ${upper})` : null;
+    }
+    case "in":
+    case "not_in": {
+      const items = values();
+      if (!items) return null;
+      const any = joinAll(items.map(matches), "or");
+      return operator === "in" ? any : `not(${any})`;
+    }
+  }
+}
+
+// All conditions of a rule must hold; null when any of them can't be expressed
+function ruleToXPath(rule: SurveyRule, questions: Map<string, ExportQuestion>): string | null {
+  const parts = (rule.conditions ?? []).map(condition => conditionToXPath(condition, questions));
+  if (parts.some(part => part === null)) return null;
+  return parts.length === 0 ? "true()" : joinAll(parts as string[], "and");
+}
+
+interface QuestionExpressions {
+  show: string[];
+  hide: string[];
+  require: string[];
+  optional: string[];
+  errors: { condition: string; rule: SurveyRule; message_en?: string; message_ar?: string }[];
+  warnings: { condition: string; rule: SurveyRule; message_en?: string; message_ar?: string }[];
+  hiddenChoices: string[];
+  shownChoices: Map<string, string[]>;
+}
+
+function collectExpressions(
+  rules: SurveyRule[],
+  questions: Map<string, ExportQuestion>,
+  skipped: SkippedRules,
+): Map<string, QuestionExpressions> {
+  const byQuestion = new Map<string, QuestionExpressions>();
+  const get = (key: string) => {
+    if (!byQuestion.has(key)) {
+      byQuestion.set(key, { show: [], hide: [], require: [], optional: [], errors: [], warnings: [], hiddenChoices: [], shownChoices: new Map() });
+    }
+    return byQuestion.get(key)!;
+  };
+
+  for (const rule of rules) {
+    const condition = ruleToXPath(rule, questions);
+    if (!condition) {
+      skipped.add(rule, "a condition can't be expressed in XLSForm");
+      continue;
+    }
+    for (const action of rule.actions ?? []) {
+      const type = getActionType(action, rule);
+      const targets = getActionTargets(action);
+      // Messages without an explicit target belong to the question the rule checks
+      if ((type === "error_message" || type === "warning_message") && targets.length === 0) {
+        const source = rule.conditions?.[0]?.left_side?.question_id;
+        if (source) targets.push(source);
+      }
+
+      for (const target of targets) {
+        const question = questions.get(target);
+        if (!question) continue;
+        const expressions = get(target);
+        const message = { condition, rule, message_en: action.message_en, message_ar: action.message_ar };
+        switch (type) {
+          case "show_question":
+          case "enable_question":
+            expressions.show.push(condition);
+            break;
+          case "hide_question":
+          case "disable_question":
+            expressions.hide.push(condition);
+            break;
+          case "require_question": expressions.require.push(condition); break;
+          case "optional_question": expressions.optional.push(condition); break;
+          case "error_message": expressions.errors.push(message); break;
+          case "warning_message": expressions.warnings.push(message); break;
+          case "hide_answer":
+          case "show_answer": {
+            const choice = action.action_answer && question.listName ? toFormValue(question, action.action_answer) : null;
+            if (!choice) {
+              skipped.add(rule, action.action_answer
+                ? `"${action.action_answer}" isn't one of the answers of ${target}`
+                : `no answer of ${target} is chosen to filter`);
+              break;
+            }
+            if (type === "hide_answer") {
+              expressions.hiddenChoices.push(`not(name = ${choice} and ${condition})`);
+            } else {
+              expressions.shownChoices.set(choice, [...(expressions.shownChoices.get(choice) ?? []), condition]);
+            }
+            break;
+          }
+        }
+      }
+    }
+  }
+  return byQuestion;
+}
+
+function messageColumns(messages: { rule: SurveyRule; message_en?: string; message_ar?: string }[], column: string, langs: Lang[]): Row {
+  const text = {
+    en: messages.map(m => m.message_en || m.rule.meta_rule.description_en).filter(Boolean).join("; "),
+    ar: messages.map(m => m.message_ar || m.rule.meta_rule.description_ar).filter(Boolean).join("; "),
+  };
+  return labelColumns(column, text, langs);
+}
+
+function questionRows(question: ExportQuestion, expressions: QuestionExpressions | undefined, langs: Lang[]): Row[] {
+  const { question: source } = question;
+  const type = normalizeQuestionType(source.type);
+  const row: Row = {
+    type: question.listName ? `${question.type} ${question.listName}` : question.type,
+    name: question.name,
+    ...labelColumns("label", source.text, langs),
+    appearance: APPEARANCES[type] ?? "",
+  };
+  if (type === "star_rating") row.parameters = "start=1 end=5 step=1";
+
+  const relevant = [
+    ...(expressions?.show.length ? [joinAll(expressions.show, "or")] : []),
+    ...(expressions?.hide ?? []).map(condition => `not(${condition})`),
+  ];
+  if (relevant.length) row.relevant = relevant.join(" and ");
+
+  const required = expressions?.require ?? [];
+  const optional = expressions?.optional ?? [];
+  if (required.length || optional.length) {
+    const base = joinAll([source.required ? "true()" : "false()", ...required], "or");
+    row.required = [base, ...optional.map(condition => `not(${condition})`)].join(" and ");
+  } else if (source.required) {
+    row.required = "yes";
+  }
+
+  const constraints: string[] = [];
+  if (type === "email") constraints.push(EMAIL_CONSTRAINT);
+  const validation = source.validation ?? {};
+  const min = validation.min ?? validation.min_value;
+  const max = validation.max ?? validation.max_value;
+  if (type === "number" && typeof min === "number") constraints.push(`. >= ${min}`);
+  if (type === "number" && typeof max === "number") constraints.push(`. <= ${max}`);
+  if ((type === "text_field" || type === "text_area") && typeof validation.max_length === "number") {
+    constraints.push(`string-length(.) <= ${validation.max_length}`);
+  }
+  constraints.push(...(expressions?.errors ?? []).map(({ condition }) => `not(${condition})`));
+  if (constraints.length) {
+    row.constraint = constraints.join(" and ");
+    if (expressions?.errors.length) Object.assign(row, messageColumns(expressions.errors, "constraint_message", langs));
+  }
+
+  const choiceFilters = [
+    ...(expressions?.hiddenChoices ?? []),
+    ...Array.from(expressions?.shownChoices.entries() ?? []).map(([choice, conditions]) => `(name != ${choice} or ${joinAll(conditions, "or")})`),
+  ];
+  if (choiceFilters.length) row.choice_filter = choiceFilters.join(" and ");
+
+  // XLSForm has no soft warnings, so show them as notes while the rule fires
+  const notes = (expressions?.warnings ?? []).map((warning, idx): Row => ({
+    type: "note",
+    name: `${question.name}_warning_${idx + 1}`,
+    ...messageColumns([warning], "label", langs),
+    relevant: warning.condition,
+  }));
+
+  return [row, ...notes];
+}
+
+/**
+ * Build the XLSForm workbook of a survey.
+ *
+ * @returns The .xlsx file contents and the rules it leaves out
+ */
+export function buildXlsForm(survey: Survey): SurveyExport {
+  const langs = getExportLanguages(survey.language);
+  const sections = survey.structure?.sections ?? [];
+
+  const usedNames = new Set<string>();
+  const questions = new Map<string, ExportQuestion>();
+  const choices: Row[] = [];
+  sections.forEach((section, sectionIdx) => section.questions.forEach((question, questionIdx) => {
+    const key = getQuestionKey(question, sectionIdx, questionIdx);
+    const name = uniqueName(toXmlName(key, `q_${sectionIdx + 1}_${questionIdx + 1}`), usedNames);
+    const type = getXlsType(question);
+    const exportQuestion: ExportQuestion = { key, name, type, question, choiceNames: new Map() };
+    if (SELECT_TYPES[normalizeQuestionType(question.type)]) {
+      exportQuestion.listName = name;
+      choices.push(...buildChoices(question, name, langs, exportQuestion.choiceNames));
+    }
+    questions.set(key, exportQuestion);
+  }));
+
+  const skipped = new SkippedRules();
+  const expressions = collectExpressions(survey.rules ?? [], questions, skipped);
+  const rows: Row[] = [];
+  sections.forEach((section, sectionIdx) => {
+    const groupName = uniqueName(`page_${sectionIdx + 1}`, usedNames);
+    rows.push({ type: "begin group", name: groupName, ...labelColumns("label", section.title, langs), appearance: "field-list" });
+    section.questions.forEach((question, questionIdx) => {
+      const exportQuestion = questions.get(getQuestionKey(question, sectionIdx, questionIdx))!;
+      rows.push(...questionRows(exportQuestion, expressions.get(exportQuestion.key), langs));
+    });
+    rows.push({ type: "end group", name: groupName });
+  });
+
+  const labelHeaders = (column: string) => langs.map(lang => `${column}::${LANGUAGE_NAMES[lang]}`);
+  const surveySheet = XLSX.utils.json_to_sheet(rows, {
+    header: [
+      "type", "name", ...labelHeaders("label"), "required", "relevant", "constraint",
+      ...labelHeaders("constraint_message"), "choice_filter", "appearance", "parameters",
+    ],
+  });
+  const choicesSheet = XLSX.utils.json_to_sheet(choices, { header: ["list_name", "name", ...labelHeaders("label")] });
+  const settingsSheet = XLSX.utils.json_to_sheet([{
+    form_title: survey.name,
+    form_id: `survey_${survey.id}`,
+    version: String(survey.structureVersion),
+    default_language: LANGUAGE_NAMES[langs[0]],
+  }]);
+
+  const workbook = XLSX.utils.book_new();
+  XLSX.utils.book_append_sheet(workbook, surveySheet, "survey");
+  XLSX.utils.book_append_sheet(workbook, choicesSheet, "choices");
+  XLSX.utils.book_append_sheet(workbook, settingsSheet, "settings");
+  const content = XLSX.write(workbook, { type: "buffer", bookType: "xlsx" }) as Buffer;
+  return { content, skippedRules: skipped.list() };
+}
+
+// === IMPORT ===
+
+type SheetRow = Record<string, string>;
+
+// Types that hold no answer a respondent gives, so there is nothing to import
+const METADATA_TYPES = [
+  "start", "end", "today", "deviceid", "subscriberid", "simserial", "phonenumber",
+  "username", "email", "audit", "start-geopoint", "background-audio", "calculate", "hidden",
+];
+// Answer types we don't have, collected as short text instead
+const TEXT_FALLBACK_TYPES = ["date", "time", "datetime", "barcode"];
+// Columns the import understands; anything else with content is reported once
+const HANDLED_COLUMNS = /^(type|name|label|required|required_message|appearance|parameters|relevant|constraint|constraint_message|choice_filter|calculation)(::.*)?$/;
+
+// Rows of a sheet with lowercased header names and every cell as text
+function readSheet(workbook: XLSX.WorkBook, name: string): SheetRow[] {
+  const sheetName = workbook.SheetNames.find(sheet => sheet.trim().toLowerCase() === name);
+  if (!sheetName) return [];
+  const rows = XLSX.utils.sheet_to_json<Record<string, unknown>>(workbook.Sheets[sheetName], { defval: "", raw: false });
+  return rows.map(row => Object.fromEntries(
+    Object.entries(row).map(([key, value]) => [key.trim().toLowerCase(), String(value ?? "").trim()]),
+  ));
+}
+
+// Language of a "label::Language (code)" column; plain "label" is the form's default language
+function columnLanguage(column: string, defaultLang: Lang): Lang | null {
+  const suffix = column.split("::")[1];
+  if (suffix === undefined) return defaultLang;
+  if (/arab|\(ar\)/.test(suffix)) return "ar";
+  if (/english|\(en\)/.test(suffix)) return "en";
+  return null;
+}
+
+/**
+ * Read a text column in every language, e.g. label::English and label::Arabic.
+ * Both languages give {en, ar}, one gives a plain string.
+ */
+function readText(row: SheetRow, column: string, defaultLang: Lang, used: Set<Lang>): string | Record<Lang, string> {
+  const text: Record<Lang, string> = { en: "", ar: "" };
+  for (const [key, value] of Object.entries(row)) {
+    if (!value || (key !== column && !key.startsWith(`${column}::`))) continue;
+    const lang = columnLanguage(key, defaultLang);
+    if (lang && !text[lang]) text[lang] = value;
+  }
+  (["en", "ar"] as Lang[]).forEach(lang => text[lang] && used.add(lang));
+  // The export repeats untranslated text in both columns
+  return text.en && text.ar && text.en !== text.ar ? text : text.en || text.ar;
+}
+
+const isYes = (value: string) => /^(yes|true|true\(\)|1)$/i.test(value.trim());
+const isNo = (value: string) => value.trim() === "" || /^(no|false|false\(\)|0)$/i.test(value.trim());
+
+// Strip the "3 - " prefix the export puts on scale end labels
+function scaleLabel(label: string | Record<Lang, string>): string | Record<Lang, string> | undefined {
+  const strip = (value: string) => value.replace(/^-?\d+\s*-\s*/, "");
+  if (typeof label === "string") return strip(label) && strip(label) !== label.trim() ? strip(label) : undefined;
+  const stripped = { en: strip(label.en), ar: strip(label.ar) };
+  return stripped.en !== label.en || stripped.ar !== label.ar ? stripped : undefined;
+}
+
+function parseParameters(value: string): Record<string, string> {
+  return Object.fromEntries(value.split(/[\s;,]+/).map(pair => pair.split("=")).filter(pair => pair.length === 2));
+}
+
+/**
+ * Read the validation a constraint expresses: min/max for numbers, max_length
+ * for text and the email pattern. Parts that aren't one of those are returned
+ * so they can be reported.
+ */
+function parseConstraint(constraint: string): { validation: Record<string, number>; isEmail: boolean; rest: string[] } {
+  const validation: Record<string, number> = {};
+  let isEmail = false;
+  const rest: string[] = [];
+  for (const part of constraint.split(/\s+and\s+/)) {
+    const trimmed = part.trim().replace(/^\((.*)\)$/, "$1");
+    const min = trimmed.match(/^\.\s*>=\s*(-?\d+(?:\.\d+)?)$/);
+    const max = trimmed.match(/^\.\s*<=\s*(-?\d+(?:\.\d+)?)$/);
+    const maxLength = trimmed.match(/^string-length\(\s*\.\s*\)\s*<=\s*(\d+)$/);
+    if (min) validation.min = Number(min[1]);
+    else if (max) validation.max = Number(max[1]);
+    else if (maxLength) validation.max_length = Number(maxLength[1]);
+    else if (/^regex\(\s*\.\s*,/.test(trimmed) && trimmed.includes("@")) isEmail = true;
+    else if (trimmed) rest.push(trimmed);
+  }
+  return { validation, isEmail, rest };
+}
+
+/**
+ * Read an XLSForm workbook (survey, choices and settings sheets) into a structure.
+ *
+ * Groups become pages (nested groups are merged into their page), questions
+ * get positional spec_ids, and everything that can't be represented - skip
+ * logic, unsupported types, custom constraints - is reported as an issue.
+ */
+export function parseXlsForm(workbook: XLSX.WorkBook): ImportQuestionnaireResult {
+  const settings = readSheet(workbook, "settings")[0] ?? {};
+  const defaultLang: Lang = columnLanguage(`label::${settings.default_language ?? ""}`, "en") ?? "en";
+  const usedLangs = new Set<Lang>();
+  const issues: ImportIssue[] = [];
+
+  const choiceLists = new Map<string, { name: string; label: string | Record<Lang, string> }[]>();
+  readSheet(workbook, "choices").forEach(row => {
+    const listName = row.list_name || row["list name"];
+    if (!listName || !row.name) return;
+    const choices = choiceLists.get(listName) ?? [];
+    choices.push({ name: row.name, label: readText(row, "label", defaultLang, usedLangs) || row.name });
+    choiceLists.set(listName, choices);
+  });
+
+  const rows = readSheet(workbook, "survey");
+  const ignoredColumns = new Map<string, number>();
+  const sections: SurveyStructure["sections"] = [];
+  let current: SurveyStructure["sections"][number] | null = null;
+  let depth = 0;
+
+  rows.forEach((row, idx) => {
+    const rowNumber = idx + 2;
+    const [rawType, listName] = (row.type ?? "").replace(/^(begin|end|select)[ _](group|repeat|one|multiple)\b/, "$1_$2").split(/\s+/);
+    const type = rawType?.toLowerCase() ?? "";
+    if (!type) return;
+    const label = `"${row.name || `row ${rowNumber}`}"`;
+
+    if (type === "begin_group" || type === "begin_repeat") {
+      if (type === "begin_repeat") {
+        issues.push({ code: "converted_type", row: rowNumber, message: `Repeat ${label} isn't supported; its questions are asked once` });
+      }
+      if (depth === 0) {
+        current = { title: readText(row, "label", defaultLang, usedLangs) as string, questions: [] };
+        sections.push(current);
+      } else {
+        issues.push({ code: "converted_type", row: rowNumber, message: `Nested group ${label} was merged into its page` });
+      }
+      depth++;
+      return;
+    }
+    if (type === "end_group" || type === "end_repeat") {
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) current = null;
+      return;
+    }
+
+    if (type === "note") {
+      issues.push({ code: "unsupported_type", row: rowNumber, message: `Note ${label} was skipped; notes aren't supported` });
+      return;
+    }
+    if (METADATA_TYPES.includes(type)) {
+      issues.push({ code: "unsupported_type", row: rowNumber, message: `${label} (${type}) is filled in by the collection app and was skipped` });
+      return;
+    }
+
+    for (const [column, value] of Object.entries(row)) {
+      if (value && !HANDLED_COLUMNS.test(column)) ignoredColumns.set(column, (ignoredColumns.get(column) ?? 0) + 1);
+    }
+
+    const appearance = (row.appearance ?? "").toLowerCase();
+    const question: SurveyQuestion = {
+      text: readText(row, "label", defaultLang, usedLangs) as string || row.name,
+      type: "",
+      required: isYes(row.required ?? ""),
+    };
+    if (!isYes(row.required ?? "") && !isNo(row.required ?? "")) {
+      issues.push({ code: "skip_logic", row: rowNumber, message: `${label} is only required when ${row.required}; it was imported as optional` });
+    }
+
+    if (type === "select_one" || type === "select_multiple" || type === "rank") {
+      const choices = choiceLists.get(listName ?? "") ?? [];
+      const points = choices.map(choice => Number(choice.name));
+      if (type === "select_one" && appearance.includes("likert") && choices.length > 1 && points.every(Number.isInteger)) {
+        const first = scaleLabel(choices[0].label);
+        const last = scaleLabel(choices[choices.length - 1].label);
+        question.type = "scale";
+        question.scale = { min: Math.min(...points), max: Math.max(...points), ...(first || last ? { labels: { min: first ?? "", max: last ?? "" } } : {}) };
+      } else {
+        question.type = type === "select_multiple" ? "checkbox_list" : type === "rank" ? "rank" : appearance.includes("minimal") ? "dropdown_list" : "radio";
+        question.options = choices.map(choice => choice.label as string);
+        if (choices.length === 0) {
+          issues.push({ code: "missing_options", row: rowNumber, message: `${label} uses choice list "${listName ?? ""}", which has no choices` });
+        }
+      }
+    } else if (type === "range") {
+      const params = parseParameters(row.parameters ?? "");
+      const start = Number(params.start ?? 1);
+      const end = Number(params.end ?? 10);
+      if (appearance.includes("rating") && start === 1 && end === 5) {
+        question.type = "star_rating";
+      } else {
+        question.type = "scale";
+        question.scale = { min: start, max: end };
+        if (params.step && Number(params.step) !== 1) {
+          issues.push({ code: "converted_type", row: rowNumber, message: `${label} has step ${params.step}; it was imported as a ${start}-${end} scale` });
+        }
+      }
+    } else if (type === "integer" || type === "decimal") {
+      question.type = "number";
+      if (type === "decimal") question.validation = { decimal: true };
+    } else if (type === "acknowledge") {
+      question.type = "checkbox";
+    } else if (type === "text") {
+      question.type = appearance.includes("multiline") ? "text_area" : "text_field";
+    } else if (TEXT_FALLBACK_TYPES.includes(type)) {
+      question.type = "text_field";
+      issues.push({ code: "converted_type", row: rowNumber, message: `${label} is a ${type} question; it was imported as short text` });
+    } else {
+      issues.push({ code: "unsupported_type", row: rowNumber, message: `${label} has type "${type}", which isn't supported; it was skipped` });
+      return;
+    }
+
+    if (row.constraint) {
+      const { validation, isEmail, rest } = parseConstraint(row.constraint);
+      if (isEmail && question.type === "text_field") question.type = "email";
+      if (Object.keys(validation).length) question.validation = { ...question.validation, ...validation };
+      if (rest.length) {
+        issues.push({ code: "validation", row: rowNumber, message: `${label} has a constraint that wasn't imported: ${rest.join(" and ")}` });
+      }
+    }
+    if (row.relevant) {
+      issues.push({ code: "skip_logic", row: rowNumber, message: `${label} has skip logic that wasn't imported: ${row.relevant}` });
+    }
+    if (row.choice_filter) {
+      issues.push({ code: "skip_logic", row: rowNumber, message: `${label} has a choice filter that wasn't imported: ${row.choice_filter}` });
+    }
+
+    if (!current) {
+      current = { title: "", questions: [] };
+      sections.push(current);
+    }
+    current.questions.push(question);
+  });
+
+  ignoredColumns.forEach((count, column) => {
+    issues.push({ code: "ignored_column", message: `Column "${column}" isn't supported and was ignored (${count} row${count === 1 ? "" : "s"})` });
+  });
+
+  return {
+    structure: { sections: assignSpecIds(sections) },
+    language: usedLangs.has("en") && usedLangs.has("ar") ? "Bilingual" : usedLangs.has("ar") ? "Arabic" : "English",
+    issues,
+  };
+}
+
+/**
+ * Drop empty pages and give every question a positional spec_id (p1_q1, p1_q2...).
+ */
+export function assignSpecIds(sections: SurveyStructure["sections"]): SurveyStructure["sections"] {
+  return sections
+    .filter(section => section.questions.length > 0)
+    .map((section, sectionIdx) => ({
+      ...section,
+      questions: section.questions.map((question, questionIdx) => ({ ...question, spec_id: `p${sectionIdx + 1}_q${questionIdx + 1}` })),
+    }));
+}
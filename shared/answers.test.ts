@@ -0,0 +1,122 @@
+import { describe, expect, it } from "vitest";
+import { getOptionValues, getQuestionKey, isAnswerEmpty, validateAnswer, validateAnswers } from "./answers";
+import { evaluateRules, type SurveyRule } from "./rules";
+
+const structure = {
+  sections: [
+    {
+      questions: [
+        { spec_id: "name", text: "Name", type: "text_field", required: true, validation: { max_length: 5 } },
+        { spec_id: "color", text: "Color", type: "radio", options: ["Red / أحمر", { en: "Blue", ar: "أزرق" }] },
+        { spec_id: "pets", text: "Pets", type: "checkbox_list", options: ["Cat", "Dog"] },
+      ],
+    },
+    {
+      questions: [
+        { text: "Age", type: "number", validation: { min: 18, max: 99 } },
+        { spec_id: "rating", text: "Rating", type: "scale", scale: { min: 0, max: 10 } },
+      ],
+    },
+  ],
+};
+
+describe("getQuestionKey", () => {
+  it("falls back to the 1-indexed position without a spec_id", () => {
+    expect(getQuestionKey({ spec_id: "q1" }, 0, 0)).toBe("q1");
+    expect(getQuestionKey({}, 1, 2)).toBe("p2_q3");
+  });
+});
+
+describe("isAnswerEmpty", () => {
+  it("treats blank text, empty lists and unticked boxes as unanswered", () => {
+    expect(isAnswerEmpty(undefined)).toBe(true);
+    expect(isAnswerEmpty("  ")).toBe(true);
+    expect(isAnswerEmpty([])).toBe(true);
+    expect(isAnswerEmpty(false)).toBe(true);
+    expect(isAnswerEmpty(0)).toBe(false);
+    expect(isAnswerEmpty(["a"])).toBe(false);
+  });
+});
+
+describe("getOptionValues", () => {
+  it("accepts every language variant of an option", () => {
+    expect(getOptionValues("Yes / نعم")).toEqual(["Yes / نعم", "Yes", "نعم"]);
+    expect(getOptionValues({ en: "No", ar: "لا" })).toEqual(["No", "لا"]);
+    expect(getOptionValues(3)).toEqual([]);
+  });
+});
+
+describe("validateAnswer", () => {
+  it("checks required answers only when empty", () => {
+    expect(validateAnswer({ type: "text_field", required: true }, "")).toBe("This question is required");
+    expect(validateAnswer({ type: "text_field" }, "")).toBeNull();
+  });
+
+  it("checks scale and number bounds", () => {
+    expect(validateAnswer({ type: "scale", scale: { min: 1, max: 3 } }, 4)).toBe("Expected a value between 1 and 3");
+    expect(validateAnswer({ type: "star_rating" }, 2.5)).toBe("Expected a whole number");
+    expect(validateAnswer({ type: "number", validation: { min_value: 1 } }, 0)).toBe("Must be at least 1");
+  });
+
+  it("rejects repeated and unknown options", () => {
+    expect(validateAnswer({ type: "rank", options: ["A", "B"] }, ["A", "A"])).toBe("Options must not repeat");
+    expect(validateAnswer({ type: "checkbox_list", options: ["A", "B"] }, ["C"])).toBe('"C" is not one of the options');
+  });
+
+  it("validates emails and legacy types", () => {
+    expect(validateAnswer({ type: "email" }, "not an email")).toBe("Expected a valid email address");
+    expect(validateAnswer({ type: "email" }, " a@b.co ")).toBeNull();
+    // "choice" is the legacy name of radio
+    expect(validateAnswer({ type: "choice", options: ["A"] }, "B")).toBe('"B" is not one of the options');
+  });
+});
+
+describe("validateAnswers", () => {
+  it("accepts a valid submission in either language", () => {
+    const answers = { name: "Ali", color: "أحمر", pets: ["Cat"], p2_q1: 30, rating: 0 };
+    expect(validateAnswers(structure, answers)).toEqual([]);
+    expect(validateAnswers(structure, { ...answers, color: "Blue" })).toEqual([]);
+  });
+
+  it("reports every problem with its question key", () => {
+    const issues = validateAnswers(structure, { name: "Too long", color: "Green", p2_q1: 12, extra: "x" });
+    expect(issues).toEqual([
+      { spec_id: "name", message: "Must be at most 5 characters" },
+      { spec_id: "color", message: '"Green" is not one of the options' },
+      { spec_id: "p2_q1", message: "Must be at least 18" },
+      { spec_id: "extra", message: "Answer does not match any question in this survey" },
+    ]);
+  });
+
+  describe("with a rule evaluation", () => {
+    const rules: SurveyRule[] = [
+      {
+        meta_rule: { rule_id: "R1", rule_type: "hide_question", description_en: "Hide pets for red", description_ar: "" },
+        conditions: [{ left_side: { type: "question", question_id: "color" }, operator: "equals", right_side: { type: "value", value: "Red" } }],
+        actions: [
+          { type: "hide_question", action_element: "pets" },
+          { type: "optional_question", action_element: "name" },
+        ],
+      },
+      {
+        meta_rule: { rule_id: "R2", rule_type: "error_message", description_en: "Ratings above 8 are not allowed", description_ar: "" },
+        conditions: [{ left_side: { type: "question", question_id: "rating" }, operator: "greater_than", right_side: { type: "value", value: 8 } }],
+        actions: [{ type: "error_message", action_element: "rating" }],
+      },
+    ];
+
+    it("rejects answers to hidden questions and lets rules change required", () => {
+      const answers = { color: "Red", pets: ["Dog"] };
+      expect(validateAnswers(structure, answers, evaluateRules(structure, rules, answers))).toEqual([
+        { spec_id: "pets", message: "This question is not available and must not be answered" },
+      ]);
+    });
+
+    it("reports fired error messages", () => {
+      const answers = { name: "Ali", rating: 9 };
+      expect(validateAnswers(structure, answers, evaluateRules(structure, rules, answers))).toEqual([
+        { spec_id: "rating", message: "Ratings above 8 are not allowed" },
+      ]);
+    });
+  });
+});
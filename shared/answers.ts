@@ -0,0 +1,237 @@
+/**
+ * Respondent answer helpers.
+ *
+ * Shared between the respondent-facing runtime (client) and anything that
+ * needs to reason about collected answers. Answers are keyed by the question's
+ * spec_id; questions without a spec_id (fast mode / legacy structures) fall
+ * back to the planner's positional format "p{page}_q{question}".
+ */
+import type { RuleEvaluation } from "./rules";
+
+/**
+ * A single answer value. The shape depends on the question type:
+ * - scale, star_rating, emoji_question, number → number
+ * - radio, dropdown_list, text_field, text_area, email → string
+ * - checkbox → boolean
+ * - checkbox_list → string[] (selected options)
+ * - rank → string[] (options in ranked order)
+ */
+export type AnswerValue = string | number | boolean | string[] | null;
+
+/**
+ * All answers of one respondent, keyed by question key (spec_id).
+ */
+export type AnswerSet = Record<string, AnswerValue>;
+
+/**
+ * Map legacy question types to the current planner types.
+ * Mirrors the mapping QuestionCard uses for rendering.
+ */
+export function normalizeQuestionType(type: string): string {
+  if (type === "rating") return "star_rating";
+  if (type === "text") return "text_area";
+  if (type === "choice") return "radio";
+  return type;
+}
+
+/**
+ * Get the key under which a question's answer is stored.
+ *
+ * @param question - Question from the survey structure
+ * @param sectionIdx - 0-indexed section (page) position
+ * @param questionIdx - 0-indexed question position within the section
+ * @returns The question's spec_id, or "p{page}_q{question}" (1-indexed) when missing
+ */
+export function getQuestionKey(
+  question: { spec_id?: string },
+  sectionIdx: number,
+  questionIdx: number,
+): string {
+  return question.spec_id || `p${sectionIdx + 1}_q${questionIdx + 1}`;
+}
+
+/**
+ * Check whether an answer counts as "not answered" for required-field checks.
+ * A single unchecked checkbox is treated as empty so required consent boxes must be ticked.
+ */
+export function isAnswerEmpty(value: AnswerValue | undefined): boolean {
+  if (value === undefined || value === null) return true;
+  if (typeof value === "string") return value.trim().length === 0;
+  if (typeof value === "number") return Number.isNaN(value);
+  if (typeof value === "boolean") return value === false;
+  if (Array.isArray(value)) return value.length === 0;
+  return false;
+}
+
+/**
+ * A single problem found while validating a submitted answer set.
+ */
+export interface AnswerValidationIssue {
+  /** Question key (spec_id) the issue belongs to */
+  spec_id: string;
+  message: string;
+}
+
+// Loose structural type so both the DB structure and planner-rendered questions can be validated
+type ValidatableQuestion = {
+  text?: unknown;
+  type: string;
+  options?: unknown[];
+  spec_id?: string;
+  required?: boolean;
+  validation?: any;
+  scale?: any;
+};
+
+const EMAIL_PATTERN = /^[^\s@]+@[^\s@]+\.[^\s@]+$/;
+// Question types answered by picking from `options`
+export const OPTION_TYPES = ["radio", "dropdown_list", "checkbox_list", "rank"];
+
+/**
+ * Get every string a respondent may legitimately submit for one option.
+ * Options can be plain strings, bilingual objects {en, ar} or combined "English / Arabic"
+ * strings; the runtime submits the English part for bilingual surveys.
+ */
+export function getOptionValues(option: unknown): string[] {
+  if (typeof option === "string") {
+    const match = option.match(/^(.+?)\s*\/\s*(.+)$/);
+    return match ? [option, match[1].trim(), match[2].trim()] : [option];
+  }
+  if (option && typeof option === "object" && "en" in option && "ar" in option) {
+    const bilingual = option as { en: string; ar: string };
+    return [bilingual.en, bilingual.ar];
+  }
+  return [];
+}
+
+/**
+ * Validate one answer against its question's type, options, scale and validation settings.
+ * Empty answers are only checked against `required`.
+ *
+ * @returns A human-readable problem, or null when the answer is acceptable
+ */
+export function validateAnswer(question: ValidatableQuestion, value: AnswerValue | undefined): string | null {
+  if (isAnswerEmpty(value)) {
+    return question.required ? "This question is required" : null;
+  }
+
+  const type = normalizeQuestionType(question.type);
+  const allowed = new Set((question.options || []).flatMap(getOptionValues));
+  const hasOptions = OPTION_TYPES.includes(type) && allowed.size > 0;
+
+  switch (type) {
+    case "scale":
+    case "emoji_question":
+    case "star_rating": {
+      if (typeof value !== "number" || !Number.isInteger(value)) return "Expected a whole number";
+      const min = type === "star_rating" ? 1 : question.scale?.min ?? 1;
+      const max = type === "star_rating" ? 5 : question.scale?.max ?? 5;
+      if (value < min || value > max) return `Expected a value between ${min} and ${max}`;
+      return null;
+    }
+    case "number": {
+      if (typeof value !== "number" || !Number.isFinite(value)) return "Expected a number";
+      const min = question.validation?.min ?? question.validation?.min_value;
+      const max = question.validation?.max ?? question.validation?.max_value;
+      if (typeof min === "number" && value < min) return `Must be at least ${min}`;
+      if (typeof max === "number" && value > max) return `Must be at most ${max}`;
+      return null;
+    }
+    case "radio":
+    case "dropdown_list":
+      if (typeof value !== "string") return "Expected a single option";
+      if (hasOptions && !allowed.has(value)) return `"${value}" is not one of the options`;
+      return null;
+    case "checkbox_list":
+    case "rank": {
+      if (!Array.isArray(value)) return "Expected a list of options";
+      if (new Set(value).size !== value.length) return "Options must not repeat";
+      const unknown = hasOptions ? value.find(item => !allowed.has(item)) : undefined;
+      if (unknown !== undefined) return `"${unknown}" is not one of the options`;
+      return null;
+    }
+    case "checkbox":
+      return typeof value === "boolean" ? null : "Expected true or false";
+    case "email":
+      if (typeof value !== "string") return "Expected text";
+      return EMAIL_PATTERN.test(value.trim()) ? null : "Expected a valid email address";
+    case "text_field":
+    case "text_area": {
+      if (typeof value !== "string") return "Expected text";
+      const maxLength = question.validation?.max_length;
+      if (typeof maxLength === "number" && value.length > maxLength) {
+        return `Must be at most ${maxLength} characters`;
+      }
+      return null;
+    }
+    default:
+      // Unknown types are stored as-is
+      return null;
+  }
+}
+
+/**
+ * Validate a full answer set against a survey structure.
+ * Reports answers for questions that don't exist, type/option mismatches and missing required answers.
+ *
+ * When a rule evaluation is given, hidden/disabled questions must be left unanswered,
+ * `required` comes from the rules, hidden options are rejected and fired error_message
+ * rules are reported.
+ *
+ * @param structure - The survey's structure (sections with questions)
+ * @param answers - Submitted answers keyed by question key
+ * @param evaluation - Result of evaluateRules() for the same answers (optional)
+ * @returns All issues found (empty when the submission is valid)
+ */
+export function validateAnswers(
+  structure: { sections: { questions: ValidatableQuestion[] }[] },
+  answers: AnswerSet,
+  evaluation?: RuleEvaluation,
+): AnswerValidationIssue[] {
+  const issues: AnswerValidationIssue[] = [];
+  const knownKeys = new Set<string>();
+
+  structure.sections.forEach((section, sectionIdx) => {
+    section.questions.forEach((question, questionIdx) => {
+      const key = getQuestionKey(question, sectionIdx, questionIdx);
+      knownKeys.add(key);
+      const state = evaluation?.questions[key];
+
+      if (state && (!state.visible || !state.enabled)) {
+        if (!isAnswerEmpty(answers[key])) {
+          issues.push({ spec_id: key, message: "This question is not available and must not be answered" });
+        }
+        return;
+      }
+
+      const message = validateAnswer(state ? { ...question, required: state.required } : question, answers[key]);
+      if (message) {
+        issues.push({ spec_id: key, message });
+        return;
+      }
+
+      const value = answers[key];
+      const selected = Array.isArray(value) ? value : typeof value === "string" ? [value] : [];
+      const hiddenOption = state?.hiddenOptions.length
+        ? selected.find(item => state.hiddenOptions.flatMap(getOptionValues).includes(item))
+        : undefined;
+      if (hiddenOption !== undefined) {
+        issues.push({ spec_id: key, message: `"${hiddenOption}" is not available for this question` });
+      }
+    });
+  });
+
+  for (const key of Object.keys(answers)) {
+    if (!knownKeys.has(key)) {
+      issues.push({ spec_id: key, message: "Answer does not match any question in this survey" });
+    }
+  }
+
+  for (const message of evaluation?.messages || []) {
+    if (message.level === "error") {
+      issues.push({ spec_id: message.spec_id, message: message.message_en });
+    }
+  }
+
+  return issues;
+}
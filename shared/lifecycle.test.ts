@@ -0,0 +1,82 @@
+import { describe, expect, it } from "vitest";
+import { canTransition, getCollectionState, getPublishIssues, isStructureLocked } from "./lifecycle";
+import type { Survey, SurveyStructure } from "./schema";
+
+type PublishCheck = Parameters<typeof getPublishIssues>[0];
+
+const survey = (structure: SurveyStructure, overrides: Partial<PublishCheck> = {}): PublishCheck => ({
+  language: "English",
+  structure,
+  rules: [],
+  rulesStale: false,
+  ...overrides,
+});
+
+describe("canTransition", () => {
+  it("only allows the lifecycle's transitions", () => {
+    expect(canTransition("draft", "publish")).toBe(true);
+    expect(canTransition("active", "publish")).toBe(false);
+    expect(canTransition("active", "close")).toBe(true);
+    expect(canTransition("completed", "reopen")).toBe(true);
+    expect(canTransition("draft", "reopen")).toBe(false);
+  });
+});
+
+describe("isStructureLocked", () => {
+  it("locks everything but drafts", () => {
+    expect(isStructureLocked({ status: "draft" })).toBe(false);
+    expect(isStructureLocked({ status: "active" })).toBe(true);
+    expect(isStructureLocked({ status: "completed" })).toBe(true);
+  });
+});
+
+describe("getPublishIssues", () => {
+  it("needs at least one question", () => {
+    expect(getPublishIssues(survey({ sections: [{ title: "Empty", questions: [] }] })).map(issue => issue.code))
+      .toEqual(["no_questions"]);
+  });
+
+  it("flags stale rules only when there are rules", () => {
+    const structure = { sections: [{ title: "P", questions: [{ text: "Q", type: "text_field" }] }] };
+    const rule = { meta_rule: { rule_id: "R1", rule_type: "hide_question", description_en: "", description_ar: "" }, conditions: [], actions: [] };
+    expect(getPublishIssues(survey(structure, { rulesStale: true }))).toEqual([]);
+    expect(getPublishIssues(survey(structure, { rulesStale: true, rules: [rule] })).map(issue => issue.code))
+      .toEqual(["stale_rules"]);
+  });
+
+  it("needs Arabic text everywhere in a bilingual survey", () => {
+    const structure: SurveyStructure = {
+      sections: [{
+        title: "Page / صفحة",
+        questions: [
+          { spec_id: "q1", text: "Color / اللون", type: "radio", options: ["Red / أحمر", "Blue"] },
+          { spec_id: "q2", text: "Rate us", type: "scale", scale: { min: 1, max: 5, labels: { min: "Bad / سيء", max: "Good" } } },
+        ],
+      }, {
+        title: "Untranslated",
+        questions: [{ spec_id: "q3", text: "سؤال / Question", type: "text_field" }],
+      }],
+    };
+    expect(getPublishIssues(survey(structure, { language: "Bilingual" }))).toEqual([
+      { code: "missing_arabic", message: "Question q1 has no Arabic options", spec_id: "q1" },
+      { code: "missing_arabic", message: "Question q2 has no Arabic text, scale labels", spec_id: "q2" },
+      { code: "missing_arabic", message: "Page 2 title has no Arabic text" },
+    ]);
+    expect(getPublishIssues(survey(structure))).toEqual([]);
+  });
+});
+
+describe("getCollectionState", () => {
+  const now = new Date("2026-05-01T12:00:00Z");
+  const state = (status: Survey["status"], opensAt: Date | null = null, closesAt: Date | null = null) =>
+    getCollectionState({ status, opensAt, closesAt }, now);
+
+  it("follows the status and the collection window", () => {
+    expect(state("draft")).toBe("draft");
+    expect(state("completed")).toBe("closed");
+    expect(state("active")).toBe("open");
+    expect(state("active", new Date("2026-05-02T00:00:00Z"))).toBe("scheduled");
+    expect(state("active", null, new Date("2026-05-01T12:00:00Z"))).toBe("closed");
+    expect(state("active", new Date("2026-04-01T00:00:00Z"), new Date("2026-06-01T00:00:00Z"))).toBe("open");
+  });
+});
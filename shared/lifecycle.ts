@@ -0,0 +1,126 @@
+/**
+ * Survey lifecycle helpers.
+ *
+ * A survey starts as a draft, is published (active) to collect responses and
+ * is closed (completed) when collection ends; a completed survey can be
+ * reopened. Status only changes through these transitions, never through a
+ * plain update.
+ *
+ * Shared so the builder can show why a survey can't be published before the
+ * server refuses it.
+ */
+import { getQuestionKey, OPTION_TYPES, normalizeQuestionType } from "./answers";
+import type { Survey, SurveyStatus } from "./schema";
+
+export const SURVEY_TRANSITIONS = {
+  publish: { from: ["draft"], to: "active" },
+  close: { from: ["active"], to: "completed" },
+  reopen: { from: ["completed"], to: "active" },
+} as const satisfies Record<string, { from: readonly SurveyStatus[]; to: SurveyStatus }>;
+
+export type SurveyTransition = keyof typeof SURVEY_TRANSITIONS;
+
+/**
+ * Check whether a survey in the given status can go through a transition.
+ */
+export function canTransition(status: SurveyStatus, transition: SurveyTransition): boolean {
+  return (SURVEY_TRANSITIONS[transition].from as readonly SurveyStatus[]).includes(status);
+}
+
+/**
+ * Questions and rules can only be changed while the survey is a draft, so every
+ * response of a published survey was collected against the same questionnaire.
+ */
+export function isStructureLocked(survey: Pick<Survey, "status">): boolean {
+  return survey.status !== "draft";
+}
+
+/**
+ * A problem that keeps a survey from being published.
+ */
+export interface PublishIssue {
+  code: "no_questions" | "stale_rules" | "missing_arabic";
+  message: string;
+  /** Question key (spec_id) the issue belongs to, for question-level issues */
+  spec_id?: string;
+}
+
+const ARABIC_PATTERN = /[\u0600-\u06FF]/;
+
+// Text counts as translated when it is {en, ar} with non-empty Arabic, or a
+// string with Arabic in it (the combined "English / Arabic" format)
+function hasArabicText(value: unknown): boolean {
+  if (typeof value === "string") return ARABIC_PATTERN.test(value);
+  return typeof value === "object" && value !== null && "ar" in value &&
+    typeof (value as { ar: unknown }).ar === "string" && (value as { ar: string }).ar.trim().length > 0;
+}
+
+/**
+ * Everything that has to be fixed before the survey can be published: it needs
+ * at least one question, its rules must match the current questions, and a
+ * Bilingual survey needs Arabic text for every page title, question, option
+ * and scale label.
+ */
+export function getPublishIssues(
+  survey: Pick<Survey, "language" | "structure" | "rules" | "rulesStale">,
+): PublishIssue[] {
+  const sections = survey.structure?.sections ?? [];
+  const issues: PublishIssue[] = [];
+
+  if (!sections.some(section => section.questions.length > 0)) {
+    issues.push({ code: "no_questions", message: "The survey has no questions" });
+  }
+  if (survey.rulesStale && survey.rules?.length) {
+    issues.push({
+      code: "stale_rules",
+      message: "The questions changed after the rules were saved. Review and save the rules again.",
+    });
+  }
+
+  if (survey.language === "Bilingual") {
+    sections.forEach((section, sectionIdx) => {
+      if (section.title && !hasArabicText(section.title)) {
+        issues.push({ code: "missing_arabic", message: `Page ${sectionIdx + 1} title has no Arabic text` });
+      }
+      section.questions.forEach((question, questionIdx) => {
+        const key = getQuestionKey(question, sectionIdx, questionIdx);
+        const labels = question.scale?.labels;
+        const missing = [
+          !hasArabicText(question.text) && "text",
+          OPTION_TYPES.includes(normalizeQuestionType(question.type)) &&
+            question.options?.some(option => !hasArabicText(option)) && "options",
+          labels && ((labels.min && !hasArabicText(labels.min)) || (labels.max && !hasArabicText(labels.max))) && "scale labels",
+        ].filter(Boolean);
+        if (missing.length > 0) {
+          issues.push({
+            code: "missing_arabic",
+            message: `Question ${key} has no Arabic ${missing.join(", ")}`,
+            spec_id: key,
+          });
+        }
+      });
+    });
+  }
+
+  return issues;
+}
+
+/**
+ * Whether respondents can submit right now:
+ * - draft: not published yet
+ * - scheduled: published, but opensAt is still in the future
+ * - open: accepting responses
+ * - closed: completed, or past closesAt
+ */
+export type CollectionState = "draft" | "scheduled" | "open" | "closed";
+
+export function getCollectionState(
+  survey: Pick<Survey, "status" | "opensAt" | "closesAt">,
+  now: Date = new Date(),
+): CollectionState {
+  if (survey.status === "draft") return "draft";
+  if (survey.status === "completed") return "closed";
+  if (survey.closesAt && new Date(survey.closesAt) <= now) return "closed";
+  if (survey.opensAt && new Date(survey.opensAt) > now) return "scheduled";
+  return "open";
+}
@@ -1,5 +1,6 @@
 import { z } from 'zod';
-import { insertSurveySchema, surveys, generateSurveySchema } from './schema';
+import { insertSurveySchema, surveys, surveyRevisions, questionBank, surveyTemplates, generateSurveySchema, REVISION_SOURCES, SURVEY_LANGUAGES, SURVEY_STATUSES, COLLECTION_MODES, type SubmittedResponse } from './schema';
+import type { PublishIssue } from './lifecycle';
 
 // ============================================
 // SHARED ERROR SCHEMAS
@@ -15,6 +16,11 @@ export const errorSchemas = {
   internal: z.object({
     message: z.string(),
   }),
+  // The survey's lifecycle state doesn't allow the request (e.g. editing a published survey)
+  conflict: z.object({
+    message: z.string(),
+    issues: z.array(z.custom<PublishIssue>()).optional(),
+  }),
 };
 
 // ============================================
@@ -219,6 +225,300 @@ export const generateValidateFixResponseSchema = z.object({
   saved: z.boolean().optional(),
 });
 
+// ============================================
+// RESPONSE (RESPONDENT RUNTIME) TYPES
+// ============================================
+
+// A single answer value - see AnswerValue in shared/answers.ts
+export const answerValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.array(z.string()),
+  z.null(),
+]);
+
+// Request schema for submitting a respondent's answers (keyed by spec_id)
+export const submitResponseSchema = z.object({
+  answers: z.record(answerValueSchema),
+});
+
+// Per-question problem reported when a submission fails server-side validation
+export const answerValidationIssueSchema = z.object({
+  spec_id: z.string(),
+  message: z.string(),
+});
+
+// ============================================
+// SURVEY RULES TYPES
+// ============================================
+
+// Literal a condition compares against (lists for in/not_in/between)
+export const ruleValueSchema = z.union([
+  z.string(),
+  z.number(),
+  z.boolean(),
+  z.null(),
+  z.array(z.union([z.string(), z.number()])),
+]);
+
+// Rule shape from rules generation - see SurveyRule in shared/rules.ts
+export const ruleConditionSchema = z.object({
+  left_side: z.object({
+    type: z.string(),
+    question_id: z.string(),
+    data_type: z.string().optional(),
+  }),
+  operator: z.string(),
+  right_side: z.object({
+    type: z.string(),
+    value: ruleValueSchema,
+    data_type: z.string().optional(),
+  }),
+});
+
+export const ruleActionSchema = z.object({
+  type: z.string(),
+  action_element: z.string(),
+  message_en: z.string().optional(),
+  message_ar: z.string().optional(),
+  sequence: z.number().optional(),
+  action_answer: z.string().optional(),
+});
+
+export const surveyRuleSchema = z.object({
+  meta_rule: z.object({
+    rule_id: z.string().min(1, "Rule ID is required"),
+    rule_type: z.string(),
+    description_en: z.string(),
+    description_ar: z.string(),
+  }),
+  conditions: z.array(ruleConditionSchema),
+  actions: z.array(ruleActionSchema),
+});
+
+// Request schema for saving a survey's rules
+export const saveSurveyRulesSchema = z.object({
+  rules: z.array(surveyRuleSchema),
+  metadata: z.object({
+    thread_id: z.string().optional(),
+    rules_source: z.string().optional(),
+    critique_summary: z.any().optional(),
+    survey_version: z.string().optional(),
+    rules_survey_version: z.string().optional(),
+  }).optional(),
+});
+
+// Where a structure change came from, recorded with its revision
+export const revisionInfoSchema = z.object({
+  source: z.enum(REVISION_SOURCES),
+  author: z.string().max(200).optional(),
+});
+
+// Request for alternative wordings of one saved question
+export const questionAlternativesRequestSchema = z.object({
+  // Optional steer for the model, e.g. "simpler wording" or "add a neutral option"
+  instructions: z.string().max(500).optional(),
+});
+
+// One suggested alternative for a question (same type as the original)
+export const questionAlternativeSchema = z.object({
+  text: bilingualTextSchema,
+  options: z.array(bilingualTextSchema).optional(),
+  // Why this alternative may be better, for the reviewer
+  rationale: z.string().optional(),
+});
+
+// ============================================
+// QUESTION BANK TYPES
+// ============================================
+
+// A question as stored in a survey structure
+export const surveyQuestionSchema = z.object({
+  text: bilingualTextSchema,
+  type: z.string().min(1, "Question type is required"),
+  options: z.array(bilingualTextSchema).optional(),
+  spec_id: z.string().optional(),
+  required: z.boolean().optional(),
+  validation: z.any().optional(),
+  skip_logic: z.any().optional(),
+  scale: z.any().optional(),
+});
+
+// Request schema for saving a question to the bank (tags are lowercased and de-duplicated)
+export const questionBankItemInputSchema = z.object({
+  question: surveyQuestionSchema,
+  tags: z
+    .array(z.string().trim().min(1).max(50))
+    .max(20)
+    .default([])
+    .transform(tags => Array.from(new Set(tags.map(tag => tag.toLowerCase())))),
+  language: z.enum(SURVEY_LANGUAGES).default("English"),
+});
+
+// Query parameters for searching the bank
+export const listQuestionBankQuerySchema = z.object({
+  // Matched against the question text and options
+  search: z.string().trim().max(200).optional(),
+  tag: z.string().trim().toLowerCase().optional(),
+  language: z.enum(SURVEY_LANGUAGES).optional(),
+});
+
+// ============================================
+// SURVEY TEMPLATE TYPES
+// ============================================
+
+// Request schema for creating a survey from a template
+export const createSurveyFromTemplateSchema = insertSurveySchema.pick({
+  name: true,
+  language: true,
+  collectionMode: true,
+});
+
+// Request schema for saving an existing survey as a template
+export const saveSurveyAsTemplateSchema = z.object({
+  name: z.string().trim().min(3, "Name must be at least 3 characters").max(200),
+  description: z.string().trim().max(500).default(""),
+  category: z.string().trim().min(1).default("general"),
+  // Copy the survey's rules into the template
+  includeRules: z.boolean().default(true),
+});
+
+// ============================================
+// QUESTIONNAIRE IMPORT TYPES
+// ============================================
+
+// Largest questionnaire file accepted for import, in bytes
+export const MAX_IMPORT_FILE_SIZE = 2 * 1024 * 1024;
+
+// Uploaded XLSForm (.xlsx / .xls) or CSV question list
+export const importQuestionnaireSchema = z.object({
+  fileName: z.string().trim().min(1, "File name is required"),
+  // File contents, base64-encoded
+  content: z.string()
+    .min(1, "The file is empty")
+    .max(Math.ceil(MAX_IMPORT_FILE_SIZE / 3) * 4, "The file is larger than 2 MB"),
+});
+
+// Something in the file that couldn't be imported as-is
+export const importIssueSchema = z.object({
+  code: z.enum(["unsupported_type", "converted_type", "skip_logic", "validation", "missing_options", "ignored_column"]),
+  message: z.string(),
+  // 1-based spreadsheet row (the header is row 1)
+  row: z.number().optional(),
+});
+
+export const importQuestionnaireResultSchema = z.object({
+  structure: z.object({
+    sections: z.array(z.object({
+      title: bilingualTextSchema,
+      questions: z.array(surveyQuestionSchema),
+    })),
+  }),
+  // Detected from the label columns (English, Arabic or both)
+  language: z.enum(SURVEY_LANGUAGES),
+  issues: z.array(importIssueSchema),
+});
+
+// Request schema for creating a survey from an imported structure
+export const createSurveyFromImportSchema = createSurveyFromTemplateSchema.extend({
+  structure: importQuestionnaireResultSchema.shape.structure.refine(
+    structure => structure.sections.some(section => section.questions.length > 0),
+    "The imported questionnaire has no questions",
+  ),
+});
+
+// ============================================
+// SURVEY EXPORT TYPES
+// ============================================
+
+// An export format the server can produce (see server/exporters)
+export const exportFormatSchema = z.object({
+  // Value of the ?format= query parameter
+  format: z.string(),
+  label: z.string(),
+  // File extension without the dot
+  extension: z.string(),
+});
+
+// A rule an export format can't express (or one of its actions), left out of the file
+export const skippedRuleSchema = z.object({
+  rule_id: z.string(),
+  description: z.string(),
+  // Why it was left out, e.g. "a condition can't be expressed in SurveyJS"
+  reason: z.string(),
+});
+
+// Response header of a survey export listing its skipped rules (URI-encoded JSON array)
+export const SKIPPED_RULES_HEADER = "X-Skipped-Rules";
+export const skippedRulesHeaderSchema = z.array(skippedRuleSchema);
+
+// Query parameters for exporting a survey
+export const exportSurveyQuerySchema = z.object({
+  format: z.string().trim().min(1, "Choose an export format"),
+});
+
+// Response exports: wide CSV, XLSX with a codebook sheet, or SPSS syntax reading the CSV
+export const RESPONSE_EXPORT_FORMATS = ["csv", "xlsx", "sps"] as const;
+
+export const exportResponsesQuerySchema = z.object({
+  format: z.enum(RESPONSE_EXPORT_FORMATS).default("xlsx"),
+});
+
+// ============================================
+// SURVEY LIST TYPES
+// ============================================
+
+export const SURVEY_SORT_FIELDS = ["createdAt", "updatedAt", "name"] as const;
+
+// Query parameters for the survey list (dashboard and history sidebar)
+export const listSurveysQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(20),
+  // Case-insensitive match on the survey name
+  search: z.string().trim().max(200).optional(),
+  status: z.enum(SURVEY_STATUSES).optional(),
+  language: z.enum(SURVEY_LANGUAGES).optional(),
+  collectionMode: z.enum(COLLECTION_MODES).optional(),
+  // Inclusive createdAt range (ISO dates or timestamps)
+  createdFrom: z.coerce.date().optional(),
+  createdTo: z.coerce.date().optional(),
+  sort: z.enum(SURVEY_SORT_FIELDS).default("createdAt"),
+  order: z.enum(["asc", "desc"]).default("desc"),
+  // Archived surveys are hidden unless asked for
+  archived: z.enum(["exclude", "include", "only"]).default("exclude"),
+});
+
+// Request schema for dashboard bulk actions; status changes go through the lifecycle transitions
+export const bulkSurveyActionSchema = z.object({
+  action: z.enum(["archive", "unarchive", "delete", "publish", "close", "reopen"]),
+  ids: z.array(z.number().int()).min(1).max(100),
+});
+
+// ============================================
+// SURVEY LIFECYCLE TYPES
+// ============================================
+
+// Request schema for publishing a draft; without a schedule it opens now and stays open until closed
+export const publishSurveySchema = z.object({
+  opensAt: z.coerce.date().nullable().optional(),
+  closesAt: z.coerce.date().nullable().optional(),
+}).refine(
+  ({ opensAt, closesAt }) => !opensAt || !closesAt || closesAt > opensAt,
+  { message: "The close time must be after the open time", path: ["closesAt"] },
+);
+
+// Request schema for reopening a completed survey, optionally with a new close time
+export const reopenSurveySchema = z.object({
+  closesAt: z.coerce.date().nullable().optional(),
+});
+
+// Query parameters for listing a survey's responses
+export const listResponsesQuerySchema = z.object({
+  page: z.coerce.number().int().min(1).default(1),
+  pageSize: z.coerce.number().int().min(1).max(100).default(25),
+});
+
 // ============================================
 // API CONTRACT
 // ============================================
@@ -227,8 +527,30 @@ export const api = {
     list: {
       method: 'GET' as const,
       path: '/api/surveys',
+      query: listSurveysQuerySchema,
       responses: {
-        200: z.array(z.custom<typeof surveys.$inferSelect>()),
+        200: z.object({
+          items: z.array(z.custom<typeof surveys.$inferSelect>()),
+          total: z.number(),
+          page: z.number(),
+          pageSize: z.number(),
+        }),
+        400: errorSchemas.validation,
+      },
+    },
+    bulk: {
+      method: 'POST' as const,
+      path: '/api/surveys/bulk',
+      input: bulkSurveyActionSchema,
+      responses: {
+        200: z.object({
+          // Surveys the action was applied to; missing ids are skipped
+          affected: z.array(z.number()),
+          notFound: z.array(z.number()),
+          // Surveys whose lifecycle state doesn't allow the action (e.g. publishing an active survey)
+          skipped: z.array(z.object({ id: z.number(), message: z.string() })),
+        }),
+        400: errorSchemas.validation,
       },
     },
     get: {
@@ -242,7 +564,8 @@ export const api = {
     create: {
       method: 'POST' as const,
       path: '/api/surveys',
-      input: insertSurveySchema,
+      // New surveys are always drafts; see publish
+      input: insertSurveySchema.omit({ status: true }),
       responses: {
         201: z.custom<typeof surveys.$inferSelect>(),
         400: errorSchemas.validation,
@@ -251,13 +574,94 @@ export const api = {
     update: {
       method: 'PUT' as const,
       path: '/api/surveys/:id',
+      // status can't be changed here (see publish / close / reopen), and the structure is locked once published
       input: insertSurveySchema.partial().extend({
-        structure: z.custom<any>().optional()
+        structure: z.custom<any>().optional(),
+        revision: revisionInfoSchema.optional(),
       }),
       responses: {
         200: z.custom<typeof surveys.$inferSelect>(),
         400: errorSchemas.validation,
         404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+    publish: {
+      method: 'POST' as const,
+      path: '/api/surveys/:id/publish',
+      input: publishSurveySchema,
+      responses: {
+        200: z.custom<typeof surveys.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+    close: {
+      method: 'POST' as const,
+      path: '/api/surveys/:id/close',
+      responses: {
+        200: z.custom<typeof surveys.$inferSelect>(),
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+    reopen: {
+      method: 'POST' as const,
+      path: '/api/surveys/:id/reopen',
+      input: reopenSurveySchema,
+      responses: {
+        200: z.custom<typeof surveys.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+    // Parse an uploaded questionnaire into a structure without saving anything
+    parseImport: {
+      method: 'POST' as const,
+      path: '/api/surveys/import/parse',
+      input: importQuestionnaireSchema,
+      responses: {
+        200: importQuestionnaireResultSchema,
+        400: errorSchemas.validation,
+      },
+    },
+    createFromImport: {
+      method: 'POST' as const,
+      path: '/api/surveys/import',
+      input: createSurveyFromImportSchema,
+      responses: {
+        201: z.custom<typeof surveys.$inferSelect>(),
+        400: errorSchemas.validation,
+      },
+    },
+    // XLSForm workbook (.xlsx) for ODK Collect / KoboToolbox field collection
+    exportXlsform: {
+      method: 'GET' as const,
+      path: '/api/surveys/:id/export/xlsform',
+      responses: {
+        200: z.custom<Buffer>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    export: {
+      method: 'GET' as const,
+      path: '/api/surveys/:id/export',
+      query: exportSurveyQuerySchema,
+      responses: {
+        200: z.custom<Buffer | string>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    exportFormats: {
+      method: 'GET' as const,
+      // Outside /api/surveys/:id so it isn't read as a survey id
+      path: '/api/export-formats',
+      responses: {
+        200: z.array(exportFormatSchema),
       },
     },
     delete: {
@@ -268,6 +672,167 @@ export const api = {
         404: errorSchemas.notFound,
       },
     },
+    duplicate: {
+      method: 'POST' as const,
+      path: '/api/surveys/:id/duplicate',
+      input: z.object({
+        // Defaults to "<name> (copy)"
+        name: z.string().trim().min(3, "Name must be at least 3 characters").max(200).optional(),
+      }),
+      responses: {
+        201: z.custom<typeof surveys.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    saveRules: {
+      method: 'PUT' as const,
+      path: '/api/surveys/:id/rules',
+      input: saveSurveyRulesSchema,
+      responses: {
+        200: z.custom<typeof surveys.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+  },
+  revisions: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/surveys/:id/revisions',
+      responses: {
+        200: z.array(z.custom<typeof surveyRevisions.$inferSelect>()),
+        404: errorSchemas.notFound,
+      },
+    },
+    restore: {
+      method: 'POST' as const,
+      path: '/api/surveys/:id/revisions/:revisionId/restore',
+      input: z.object({
+        author: z.string().max(200).optional(),
+      }),
+      responses: {
+        200: z.custom<typeof surveys.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        409: errorSchemas.conflict,
+      },
+    },
+  },
+  responses: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/surveys/:id/responses',
+      query: listResponsesQuerySchema,
+      responses: {
+        200: z.object({
+          items: z.array(z.custom<SubmittedResponse>()),
+          total: z.number(),
+          page: z.number(),
+          pageSize: z.number(),
+        }),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/surveys/:id/responses',
+      input: submitResponseSchema,
+      responses: {
+        201: z.custom<SubmittedResponse>(),
+        400: errorSchemas.validation.extend({
+          issues: z.array(answerValidationIssueSchema).optional(),
+        }),
+        404: errorSchemas.notFound,
+      },
+    },
+    export: {
+      method: 'GET' as const,
+      path: '/api/surveys/:id/responses/export',
+      query: exportResponsesQuerySchema,
+      responses: {
+        200: z.custom<Buffer | string>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  templates: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/templates',
+      responses: {
+        200: z.array(z.custom<typeof surveyTemplates.$inferSelect>()),
+      },
+    },
+    createSurvey: {
+      method: 'POST' as const,
+      path: '/api/templates/:id/surveys',
+      input: createSurveyFromTemplateSchema,
+      responses: {
+        201: z.custom<typeof surveys.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    saveFromSurvey: {
+      method: 'POST' as const,
+      path: '/api/surveys/:id/template',
+      input: saveSurveyAsTemplateSchema,
+      responses: {
+        201: z.custom<typeof surveyTemplates.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+  },
+  questionBank: {
+    list: {
+      method: 'GET' as const,
+      path: '/api/question-bank',
+      query: listQuestionBankQuerySchema,
+      responses: {
+        200: z.array(z.custom<typeof questionBank.$inferSelect>()),
+        400: errorSchemas.validation,
+      },
+    },
+    get: {
+      method: 'GET' as const,
+      path: '/api/question-bank/:id',
+      responses: {
+        200: z.custom<typeof questionBank.$inferSelect>(),
+        404: errorSchemas.notFound,
+      },
+    },
+    create: {
+      method: 'POST' as const,
+      path: '/api/question-bank',
+      input: questionBankItemInputSchema,
+      responses: {
+        201: z.custom<typeof questionBank.$inferSelect>(),
+        400: errorSchemas.validation,
+      },
+    },
+    update: {
+      method: 'PUT' as const,
+      path: '/api/question-bank/:id',
+      input: questionBankItemInputSchema.partial(),
+      responses: {
+        200: z.custom<typeof questionBank.$inferSelect>(),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+      },
+    },
+    delete: {
+      method: 'DELETE' as const,
+      path: '/api/question-bank/:id',
+      responses: {
+        204: z.void(),
+        404: errorSchemas.notFound,
+      },
+    },
   },
   ai: {
     generate: {
@@ -298,6 +863,20 @@ export const api = {
         500: errorSchemas.internal
       }
     },
+    alternatives: {
+      method: 'POST' as const,
+      path: '/api/surveys/:id/questions/:specId/alternatives',
+      input: questionAlternativesRequestSchema,
+      responses: {
+        200: z.object({
+          spec_id: z.string(),
+          alternatives: z.array(questionAlternativeSchema),
+        }),
+        400: errorSchemas.validation,
+        404: errorSchemas.notFound,
+        500: errorSchemas.internal,
+      }
+    },
     rephrase: {
       method: 'POST' as const,
       path: '/api/ai/rephrase',
@@ -393,6 +972,28 @@ export type RenderedQuestion = z.infer<typeof renderedQuestionSchema>;
 export type RenderedPage = z.infer<typeof renderedPageSchema>;
 export type ValidationResult = z.infer<typeof validationResultSchema>;
 export type GenerateValidateFixResponse = z.infer<typeof generateValidateFixResponseSchema>;
+export type SubmitResponseRequest = z.infer<typeof submitResponseSchema>;
+export type SaveSurveyRulesRequest = z.infer<typeof saveSurveyRulesSchema>;
+export type RevisionInfo = z.infer<typeof revisionInfoSchema>;
+export type QuestionAlternative = z.infer<typeof questionAlternativeSchema>;
+export type ListResponsesQuery = z.infer<typeof listResponsesQuerySchema>;
+export type ListSurveysQuery = z.infer<typeof listSurveysQuerySchema>;
+export type ListSurveysResult = z.infer<typeof api.surveys.list.responses[200]>;
+export type BulkSurveyAction = z.infer<typeof bulkSurveyActionSchema>;
+export type PublishSurveyRequest = z.infer<typeof publishSurveySchema>;
+export type ReopenSurveyRequest = z.infer<typeof reopenSurveySchema>;
+export type CreateSurveyFromTemplateRequest = z.infer<typeof createSurveyFromTemplateSchema>;
+export type SaveSurveyAsTemplateRequest = z.infer<typeof saveSurveyAsTemplateSchema>;
+export type ImportQuestionnaireRequest = z.infer<typeof importQuestionnaireSchema>;
+export type ImportIssue = z.infer<typeof importIssueSchema>;
+export type ImportQuestionnaireResult = z.infer<typeof importQuestionnaireResultSchema>;
+export type CreateSurveyFromImportRequest = z.infer<typeof createSurveyFromImportSchema>;
+export type ExportFormat = z.infer<typeof exportFormatSchema>;
+export type SkippedRule = z.infer<typeof skippedRuleSchema>;
+export type ResponseExportFormat = typeof RESPONSE_EXPORT_FORMATS[number];
+export type QuestionBankItemInput = z.infer<typeof questionBankItemInputSchema>;
+export type ListQuestionBankQuery = z.infer<typeof listQuestionBankQuerySchema>;
+export type ListResponsesResult = z.infer<typeof api.responses.list.responses[200]>;
 
 // ============================================
 // TYPE HELPERS
@@ -0,0 +1,145 @@
+import { describe, expect, it } from "vitest";
+import {
+  evaluateCondition,
+  evaluateRules,
+  getActiveAnswers,
+  isOptionHidden,
+  normalizeOperator,
+  type RuleAction,
+  type RuleCondition,
+  type SurveyRule,
+} from "./rules";
+
+const condition = (question_id: string, operator: string, value: unknown): RuleCondition => ({
+  left_side: { type: "question", question_id },
+  operator,
+  right_side: { type: "value", value },
+});
+
+const rule = (rule_id: string, conditions: RuleCondition[], actions: RuleAction[]): SurveyRule => ({
+  meta_rule: { rule_id, rule_type: actions[0]?.type ?? "", description_en: `Rule ${rule_id}`, description_ar: "" },
+  conditions,
+  actions,
+});
+
+const structure = {
+  sections: [{
+    questions: [
+      { spec_id: "q1", type: "radio" },
+      { spec_id: "q2", type: "number", required: true },
+      { spec_id: "q3", type: "text_field" },
+      { spec_id: "q4", type: "checkbox_list" },
+    ],
+  }],
+};
+
+describe("normalizeOperator", () => {
+  it("maps the planner's spellings onto canonical operators", () => {
+    expect(normalizeOperator("==")).toBe("equals");
+    expect(normalizeOperator("Greater Than")).toBe("greater_than");
+    expect(normalizeOperator("is-not-answered")).toBe("is_empty");
+    expect(normalizeOperator("matches")).toBeNull();
+  });
+});
+
+describe("evaluateCondition", () => {
+  it("compares numbers numerically and options in any language", () => {
+    expect(evaluateCondition(condition("q", "equals", "5"), { q: 5 })).toBe(true);
+    expect(evaluateCondition(condition("q", "equals", "Yes / نعم"), { q: "نعم" })).toBe(true);
+    expect(evaluateCondition(condition("q", "between", [1, 3]), { q: 3 })).toBe(true);
+    expect(evaluateCondition(condition("q", "in", "a, b"), { q: "b" })).toBe(true);
+  });
+
+  it("matches multi-select answers when any option matches", () => {
+    expect(evaluateCondition(condition("q", "contains", "Dog"), { q: ["Cat", "Dog"] })).toBe(true);
+    expect(evaluateCondition(condition("q", "not_contains", "Dog"), { q: ["Cat"] })).toBe(true);
+  });
+
+  it("lets unanswered questions satisfy only negative and emptiness operators", () => {
+    expect(evaluateCondition(condition("q", "equals", "x"), {})).toBe(false);
+    expect(evaluateCondition(condition("q", "not_equals", "x"), {})).toBe(true);
+    expect(evaluateCondition(condition("q", "greater_than", 1), {})).toBe(false);
+    expect(evaluateCondition(condition("q", "is_empty", null), {})).toBe(true);
+  });
+
+  it("compares against another question's answer", () => {
+    const byQuestion: RuleCondition = { ...condition("a", "greater_than", "b"), right_side: { type: "question", value: "b" } };
+    expect(evaluateCondition(byQuestion, { a: 3, b: 2 })).toBe(true);
+    expect(evaluateCondition(byQuestion, { a: 1, b: 2 })).toBe(false);
+  });
+
+  it("never matches an unsupported operator", () => {
+    expect(evaluateCondition(condition("q", "matches", "x"), { q: "x" })).toBe(false);
+  });
+});
+
+describe("evaluateRules", () => {
+  it("leaves everything visible without rules", () => {
+    const evaluation = evaluateRules(structure, undefined, {});
+    expect(evaluation.questions.q2).toEqual({ visible: true, enabled: true, required: true, hiddenOptions: [] });
+    expect(evaluation.firedRuleIds).toEqual([]);
+  });
+
+  it("hides show_question targets until the rule fires", () => {
+    const rules = [rule("R1", [condition("q1", "equals", "Yes")], [{ type: "show_question", action_element: "q2, q3" }])];
+    const before = evaluateRules(structure, rules, {});
+    expect(before.questions.q2.visible).toBe(false);
+    // Hidden questions are never required
+    expect(before.questions.q2.required).toBe(false);
+
+    const after = evaluateRules(structure, rules, { q1: "Yes" });
+    expect(after.questions.q2.visible).toBe(true);
+    expect(after.questions.q3.visible).toBe(true);
+    expect(after.firedRuleIds).toEqual(["R1"]);
+  });
+
+  it("applies rules without conditions always", () => {
+    const rules = [rule("R1", [], [{ type: "disable_question", action_element: "q3" }])];
+    expect(evaluateRules(structure, rules, {}).questions.q3.enabled).toBe(false);
+  });
+
+  it("switches off rules that depend on hidden questions", () => {
+    const rules = [
+      rule("R1", [condition("q1", "equals", "No")], [{ type: "hide_question", action_element: "q2" }]),
+      rule("R2", [condition("q2", "greater_than", 10)], [{ type: "require_question", action_element: "q3" }]),
+    ];
+    const evaluation = evaluateRules(structure, rules, { q1: "No", q2: 20 });
+    expect(evaluation.questions.q2.visible).toBe(false);
+    expect(evaluation.questions.q3.required).toBe(false);
+    expect(evaluation.firedRuleIds).toEqual(["R1"]);
+    expect(getActiveAnswers({ q1: "No", q2: 20 }, evaluation)).toEqual({ q1: "No" });
+  });
+
+  it("hides and shows answers", () => {
+    const rules = [
+      rule("R1", [condition("q1", "equals", "A")], [{ type: "hide_answer", action_element: "q4", action_answer: "Dog" }]),
+      rule("R2", [condition("q1", "equals", "B")], [{ type: "show_answer", action_element: "q4", action_answer: "Fish" }]),
+    ];
+    const evaluation = evaluateRules(structure, rules, { q1: "A" });
+    expect(evaluation.questions.q4.hiddenOptions).toEqual(["Dog", "Fish"]);
+    expect(isOptionHidden(evaluation.questions.q4, "Dog / كلب")).toBe(true);
+    expect(evaluateRules(structure, rules, { q1: "B" }).questions.q4.hiddenOptions).toEqual([]);
+  });
+
+  it("raises messages on the targeted or checked question", () => {
+    const rules = [
+      rule("R1", [condition("q2", "less_than", 0)], [{ type: "error_message", action_element: "", message_en: "Must be positive" }]),
+      rule("R2", [condition("q2", "greater_than", 100)], [{ type: "warning_message", action_element: "q3" }]),
+    ];
+    expect(evaluateRules(structure, rules, { q2: -1 }).messages).toEqual([
+      { rule_id: "R1", spec_id: "q2", level: "error", message_en: "Must be positive", message_ar: undefined },
+    ]);
+    expect(evaluateRules(structure, rules, { q2: 101 }).messages).toEqual([
+      { rule_id: "R2", spec_id: "q3", level: "warning", message_en: "Rule R2", message_ar: undefined },
+    ]);
+  });
+
+  it("stops on rules that hide each other's sources", () => {
+    const rules = [
+      rule("R1", [condition("q1", "is_not_empty", null)], [{ type: "hide_question", action_element: "q2" }]),
+      rule("R2", [condition("q2", "is_not_empty", null)], [{ type: "hide_question", action_element: "q1" }]),
+    ];
+    const evaluation = evaluateRules(structure, rules, { q1: "A", q2: 1 });
+    expect(Object.keys(evaluation.questions)).toHaveLength(4);
+  });
+});
@@ -0,0 +1,521 @@
+/**
+ * Survey rule engine.
+ *
+ * Evaluates the rules produced by the planner's rules generation
+ * (`survey_rules`: conditions on question answers + actions on questions/options)
+ * against a partial answer set. Shared between the respondent runtime (client),
+ * which uses it to show/hide/disable questions live, and the server's submission
+ * validator, which uses the same result so both sides always agree.
+ */
+import {
+  getOptionValues,
+  getQuestionKey,
+  isAnswerEmpty,
+  normalizeQuestionType,
+  type AnswerSet,
+  type AnswerValue,
+} from "./answers";
+
+// === RULE TYPES (planner rules API shape) ===
+
+export interface RuleCondition {
+  left_side: {
+    type: string;
+    question_id: string;
+    data_type?: string;
+  };
+  operator: string;
+  right_side: {
+    type: string;
+    value: any;
+    data_type?: string;
+  };
+}
+
+export interface RuleAction {
+  type: string;
+  /** Target spec_id(s); several targets are joined with ", " */
+  action_element: string;
+  message_en?: string;
+  message_ar?: string;
+  sequence?: number;
+  /** Target option for hide_answer / show_answer */
+  action_answer?: string;
+}
+
+export interface SurveyRule {
+  meta_rule: {
+    rule_id: string;
+    rule_type: string;
+    description_en: string;
+    description_ar: string;
+  };
+  conditions: RuleCondition[];
+  actions: RuleAction[];
+}
+
+/**
+ * Generation details stored with a survey's rules (surveys.rules_metadata).
+ */
+export interface SurveyRulesMetadata {
+  thread_id?: string;
+  /** "ai_generate" for planner rules, "custom" once edited by hand */
+  rules_source?: string;
+  critique_summary?: any;
+  /** Planner-side versions reported by rules generation */
+  survey_version?: string;
+  rules_survey_version?: string;
+}
+
+// === EVALUATION RESULT TYPES ===
+
+/**
+ * Effective state of one question after applying the rules.
+ */
+export interface QuestionRuleState {
+  visible: boolean;
+  enabled: boolean;
+  /** Question's own `required` flag combined with require/optional rules; never true when hidden or disabled */
+  required: boolean;
+  /** action_answer values of options hidden by hide_answer / show_answer rules */
+  hiddenOptions: string[];
+}
+
+/**
+ * Message raised by a fired error_message / warning_message rule.
+ * Errors block submission, warnings are informational.
+ */
+export interface RuleMessage {
+  rule_id: string;
+  spec_id: string;
+  level: "error" | "warning";
+  message_en: string;
+  message_ar?: string;
+}
+
+export interface RuleEvaluation {
+  /** State of every question, keyed by question key (spec_id) */
+  questions: Record<string, QuestionRuleState>;
+  messages: RuleMessage[];
+  /** rule_id of every rule whose conditions matched */
+  firedRuleIds: string[];
+}
+
+// === OPERATORS ===
+
+/**
+ * Canonical condition operators. The planner isn't consistent in how it spells
+ * operators ("equals", "==", "is", "greater than"...), so every spelling is
+ * mapped onto one of these before evaluation.
+ */
+export const RULE_OPERATORS = [
+  "equals",
+  "not_equals",
+  "greater_than",
+  "greater_than_or_equal",
+  "less_than",
+  "less_than_or_equal",
+  "between",
+  "contains",
+  "not_contains",
+  "in",
+  "not_in",
+  "is_empty",
+  "is_not_empty",
+] as const;
+
+export type RuleOperator = typeof RULE_OPERATORS[number];
+
+const OPERATOR_ALIASES: Record<string, RuleOperator> = {
+  "=": "equals",
+  "==": "equals",
+  "===": "equals",
+  eq: "equals",
+  equal: "equals",
+  is: "equals",
+  "!=": "not_equals",
+  "!==": "not_equals",
+  "<>": "not_equals",
+  ne: "not_equals",
+  neq: "not_equals",
+  not_equal: "not_equals",
+  is_not: "not_equals",
+  ">": "greater_than",
+  gt: "greater_than",
+  ">=": "greater_than_or_equal",
+  gte: "greater_than_or_equal",
+  greater_or_equal: "greater_than_or_equal",
+  greater_than_or_equal_to: "greater_than_or_equal",
+  "<": "less_than",
+  lt: "less_than",
+  "<=": "less_than_or_equal",
+  lte: "less_than_or_equal",
+  less_or_equal: "less_than_or_equal",
+  less_than_or_equal_to: "less_than_or_equal",
+  includes: "contains",
+  does_not_contain: "not_contains",
+  not_includes: "not_contains",
+  any_of: "in",
+  one_of: "in",
+  none_of: "not_in",
+  empty: "is_empty",
+  not_answered: "is_empty",
+  is_not_answered: "is_empty",
+  not_empty: "is_not_empty",
+  answered: "is_not_empty",
+  is_answered: "is_not_empty",
+};
+
+/**
+ * Map an operator as written by the planner onto a canonical RuleOperator.
+ * @returns The canonical operator, or null when it isn't supported
+ */
+export function normalizeOperator(operator: string): RuleOperator | null {
+  const key = String(operator || "").trim().toLowerCase().replace(/[\s-]+/g, "_");
+  if ((RULE_OPERATORS as readonly string[]).includes(key)) return key as RuleOperator;
+  return OPERATOR_ALIASES[key] ?? null;
+}
+
+const EMPTINESS_OPERATORS: RuleOperator[] = ["is_empty", "is_not_empty"];
+
+/**
+ * Operators that make sense for a question type, e.g. no greater_than on text.
+ * Used by the rule editor's operator picker and the rule linter.
+ */
+export function getOperatorsForQuestionType(type: string): RuleOperator[] {
+  switch (normalizeQuestionType(type)) {
+    case "number":
+    case "scale":
+    case "star_rating":
+    case "emoji_question":
+      return [
+        "equals", "not_equals", "greater_than", "greater_than_or_equal",
+        "less_than", "less_than_or_equal", "between", "in", "not_in", ...EMPTINESS_OPERATORS,
+      ];
+    case "radio":
+    case "dropdown_list":
+      return ["equals", "not_equals", "in", "not_in", ...EMPTINESS_OPERATORS];
+    case "checkbox_list":
+    case "rank":
+      return ["contains", "not_contains", "equals", "not_equals", "in", "not_in", ...EMPTINESS_OPERATORS];
+    case "checkbox":
+      return ["equals", "not_equals", ...EMPTINESS_OPERATORS];
+    case "text_field":
+    case "text_area":
+    case "email":
+      return ["equals", "not_equals", "contains", "not_contains", "in", "not_in", ...EMPTINESS_OPERATORS];
+    default:
+      return [...RULE_OPERATORS];
+  }
+}
+
+// === ACTIONS ===
+
+/**
+ * Action types the engine applies. Anything else is ignored at runtime.
+ */
+export const RULE_ACTION_TYPES = [
+  "hide_question",
+  "show_question",
+  "hide_answer",
+  "show_answer",
+  "disable_question",
+  "enable_question",
+  "require_question",
+  "optional_question",
+  "error_message",
+  "warning_message",
+] as const;
+
+export type RuleActionType = typeof RULE_ACTION_TYPES[number];
+
+/**
+ * Split an action_element into its target spec_ids.
+ */
+export function getActionTargets(action: Pick<RuleAction, "action_element">): string[] {
+  return String(action.action_element || "")
+    .split(",")
+    .map(target => target.trim())
+    .filter(Boolean);
+}
+
+/**
+ * Get the effective action type: actions converted from older responses
+ * sometimes only carry the type on the rule itself.
+ */
+export function getActionType(action: RuleAction, rule: SurveyRule): string {
+  return action.type || rule.meta_rule.rule_type;
+}
+
+// === CONDITION EVALUATION ===
+
+function toNumber(value: unknown): number | null {
+  if (typeof value === "number") return Number.isFinite(value) ? value : null;
+  if (typeof value === "string" && value.trim() !== "") {
+    const parsed = Number(value);
+    return Number.isFinite(parsed) ? parsed : null;
+  }
+  return null;
+}
+
+// Right-hand values can be arrays, comma-separated strings or single values
+function toList(value: unknown): unknown[] {
+  if (Array.isArray(value)) return value;
+  if (typeof value === "string" && value.includes(",")) return value.split(",").map(item => item.trim());
+  return [value];
+}
+
+/**
+ * Get the literal value(s) a condition compares against (list operators may use arrays
+ * or comma-separated strings). Question references on the right side yield no values.
+ */
+export function getConditionValues(condition: RuleCondition): unknown[] {
+  if (condition.right_side?.type === "question") return [];
+  const value = condition.right_side?.value;
+  if (value === undefined || value === null || value === "") return [];
+  return toList(value);
+}
+
+// Loose equality: numbers compare numerically, strings match any language variant of an option
+function looselyEquals(answer: unknown, expected: unknown): boolean {
+  const answerNumber = toNumber(answer);
+  const expectedNumber = toNumber(expected);
+  if (answerNumber !== null && expectedNumber !== null) return answerNumber === expectedNumber;
+  if (typeof answer === "boolean" || typeof expected === "boolean") {
+    return String(answer).toLowerCase() === String(expected).toLowerCase();
+  }
+  const variants = getOptionValues(expected).map(v => v.trim().toLowerCase());
+  return variants.includes(String(answer ?? "").trim().toLowerCase());
+}
+
+function includesValue(answer: AnswerValue | undefined, expected: unknown): boolean {
+  if (Array.isArray(answer)) return answer.some(item => looselyEquals(item, expected));
+  if (typeof answer === "string") return answer.toLowerCase().includes(String(expected ?? "").toLowerCase());
+  return looselyEquals(answer, expected);
+}
+
+// Multi-select answers match when any selected option matches
+function matchesValue(answer: AnswerValue | undefined, expected: unknown): boolean {
+  return Array.isArray(answer) ? includesValue(answer, expected) : looselyEquals(answer, expected);
+}
+
+function compareNumbers(answer: AnswerValue | undefined, expected: unknown, compare: (a: number, b: number) => boolean): boolean {
+  const a = toNumber(answer);
+  const b = toNumber(expected);
+  return a !== null && b !== null && compare(a, b);
+}
+
+/**
+ * Evaluate a single condition against the answers.
+ * Unanswered questions only satisfy is_empty / not_equals / not_contains / not_in;
+ * unsupported operators never match.
+ */
+export function evaluateCondition(condition: RuleCondition, answers: AnswerSet): boolean {
+  const operator = normalizeOperator(condition.operator);
+  if (!operator) return false;
+
+  const answer = answers[condition.left_side?.question_id];
+  // The right side may reference another question's answer instead of a literal
+  const expected = condition.right_side?.type === "question"
+    ? answers[String(condition.right_side.value)]
+    : condition.right_side?.value;
+
+  if (operator === "is_empty") return isAnswerEmpty(answer);
+  if (operator === "is_not_empty") return !isAnswerEmpty(answer);
+
+  const answered = !isAnswerEmpty(answer);
+  switch (operator) {
+    case "equals":
+      return answered && matchesValue(answer, expected);
+    case "not_equals":
+      return !answered || !matchesValue(answer, expected);
+    case "greater_than":
+      return compareNumbers(answer, expected, (a, b) => a > b);
+    case "greater_than_or_equal":
+      return compareNumbers(answer, expected, (a, b) => a >= b);
+    case "less_than":
+      return compareNumbers(answer, expected, (a, b) => a < b);
+    case "less_than_or_equal":
+      return compareNumbers(answer, expected, (a, b) => a <= b);
+    case "between": {
+      const [min, max] = toList(expected);
+      return compareNumbers(answer, min, (a, b) => a >= b) && compareNumbers(answer, max, (a, b) => a <= b);
+    }
+    case "contains":
+      return answered && includesValue(answer, expected);
+    case "not_contains":
+      return !answered || !includesValue(answer, expected);
+    case "in":
+      return answered && toList(expected).some(item => matchesValue(answer, item));
+    case "not_in":
+      return !answered || !toList(expected).some(item => matchesValue(answer, item));
+  }
+}
+
+/**
+ * Check whether all conditions of a rule hold. Rules without conditions always apply.
+ */
+export function isRuleFired(rule: SurveyRule, answers: AnswerSet): boolean {
+  return (rule.conditions || []).every(condition => evaluateCondition(condition, answers));
+}
+
+// === RULE EVALUATION ===
+
+type RuleTargetQuestion = {
+  type: string;
+  spec_id?: string;
+  required?: boolean;
+};
+
+/**
+ * Check whether an option is hidden for a question.
+ * Matches every language variant, so "Yes / نعم" is hidden by a rule on "Yes".
+ */
+export function isOptionHidden(state: QuestionRuleState | undefined, option: unknown): boolean {
+  if (!state || state.hiddenOptions.length === 0) return false;
+  const hidden = new Set(state.hiddenOptions.flatMap(getOptionValues));
+  return getOptionValues(option).some(value => hidden.has(value));
+}
+
+// Apply the rules once with a fixed answer set
+function applyRules(
+  questions: { key: string; question: RuleTargetQuestion }[],
+  rules: SurveyRule[],
+  answers: AnswerSet,
+): RuleEvaluation {
+  // Targets of show_* / enable_* rules start hidden / disabled until one of those rules fires
+  const showTargets = new Set<string>();
+  const showAnswerTargets = new Map<string, Set<string>>();
+  const enableTargets = new Set<string>();
+  rules.forEach(rule => (rule.actions || []).forEach(action => {
+    const type = getActionType(action, rule);
+    getActionTargets(action).forEach(target => {
+      if (type === "show_question") showTargets.add(target);
+      if (type === "enable_question") enableTargets.add(target);
+      if (type === "show_answer" && action.action_answer) {
+        if (!showAnswerTargets.has(target)) showAnswerTargets.set(target, new Set());
+        showAnswerTargets.get(target)!.add(action.action_answer);
+      }
+    });
+  }));
+
+  const hidden = new Set<string>();
+  const shown = new Set<string>();
+  const disabled = new Set<string>();
+  const enabled = new Set<string>();
+  const requiredByRule = new Set<string>();
+  const optionalByRule = new Set<string>();
+  const hiddenOptions = new Map<string, Set<string>>();
+  const shownOptions = new Map<string, Set<string>>();
+  const messages: RuleMessage[] = [];
+  const firedRuleIds: string[] = [];
+
+  const addOption = (map: Map<string, Set<string>>, target: string, option?: string) => {
+    if (!option) return;
+    if (!map.has(target)) map.set(target, new Set());
+    map.get(target)!.add(option);
+  };
+
+  for (const rule of rules) {
+    if (!isRuleFired(rule, answers)) continue;
+    firedRuleIds.push(rule.meta_rule.rule_id);
+
+    for (const action of rule.actions || []) {
+      const type = getActionType(action, rule);
+      const targets = getActionTargets(action);
+      for (const target of targets) {
+        switch (type) {
+          case "hide_question": hidden.add(target); break;
+          case "show_question": shown.add(target); break;
+          case "disable_question": disabled.add(target); break;
+          case "enable_question": enabled.add(target); break;
+          case "require_question": requiredByRule.add(target); break;
+          case "optional_question": optionalByRule.add(target); break;
+          case "hide_answer": addOption(hiddenOptions, target, action.action_answer); break;
+          case "show_answer": addOption(shownOptions, target, action.action_answer); break;
+        }
+      }
+      if (type === "error_message" || type === "warning_message") {
+        messages.push({
+          rule_id: rule.meta_rule.rule_id,
+          // Messages without an explicit target belong to the question the rule checks
+          spec_id: targets[0] || rule.conditions?.[0]?.left_side?.question_id || "",
+          level: type === "error_message" ? "error" : "warning",
+          message_en: action.message_en || rule.meta_rule.description_en,
+          message_ar: action.message_ar || rule.meta_rule.description_ar || undefined,
+        });
+      }
+    }
+  }
+
+  const states: Record<string, QuestionRuleState> = {};
+  for (const { key, question } of questions) {
+    const visible = !hidden.has(key) && (!showTargets.has(key) || shown.has(key));
+    const isEnabled = !disabled.has(key) && (!enableTargets.has(key) || enabled.has(key));
+    const isRequired = (question.required === true || requiredByRule.has(key)) && !optionalByRule.has(key);
+    const shownForQuestion = shownOptions.get(key);
+    const optionsHidden = [
+      ...Array.from(hiddenOptions.get(key) || []),
+      ...Array.from(showAnswerTargets.get(key) || []).filter(option => !shownForQuestion?.has(option)),
+    ];
+    states[key] = {
+      visible,
+      enabled: isEnabled,
+      required: visible && isEnabled && isRequired,
+      hiddenOptions: Array.from(new Set(optionsHidden)),
+    };
+  }
+
+  return { questions: states, messages, firedRuleIds };
+}
+
+/**
+ * Evaluate survey rules against a (partial) answer set.
+ *
+ * Answers to hidden or disabled questions don't count, so hiding a question
+ * also switches off rules that depend on it. The rules are re-applied until
+ * the set of hidden/disabled questions stops changing.
+ *
+ * @param structure - The survey's structure (sections with questions)
+ * @param rules - survey_rules from rules generation (missing → everything visible)
+ * @param answers - Answers collected so far, keyed by question key
+ * @returns Per-question state plus messages from fired message rules
+ */
+export function evaluateRules(
+  structure: { sections: { questions: RuleTargetQuestion[] }[] },
+  rules: SurveyRule[] | undefined | null,
+  answers: AnswerSet,
+): RuleEvaluation {
+  const questions = structure.sections.flatMap((section, sectionIdx) =>
+    section.questions.map((question, questionIdx) => ({
+      key: getQuestionKey(question, sectionIdx, questionIdx),
+      question,
+    })),
+  );
+  const ruleList = Array.isArray(rules) ? rules : [];
+
+  let effectiveAnswers = answers;
+  let evaluation = applyRules(questions, ruleList, effectiveAnswers);
+  // Bounded so rules that hide each other's sources can't loop forever
+  for (let pass = 0; pass < questions.length; pass++) {
+    const nextAnswers = getActiveAnswers(answers, evaluation);
+    if (Object.keys(nextAnswers).join("|") === Object.keys(effectiveAnswers).join("|")) break;
+    effectiveAnswers = nextAnswers;
+    evaluation = applyRules(questions, ruleList, effectiveAnswers);
+  }
+
+  return evaluation;
+}
+
+/**
+ * Drop answers to questions that are hidden or disabled by the rules.
+ * The runtime submits only these so stale answers of hidden questions are not stored.
+ */
+export function getActiveAnswers(answers: AnswerSet, evaluation: RuleEvaluation): AnswerSet {
+  return Object.fromEntries(
+    Object.entries(answers).filter(([key]) => {
+      const state = evaluation.questions[key];
+      return !state || (state.visible && state.enabled);
+    }),
+  );
+}
@@ -1,18 +1,32 @@
 import { pgTable, text, serial, integer, boolean, timestamp, jsonb } from "drizzle-orm/pg-core";
 import { createInsertSchema } from "drizzle-zod";
 import { z } from "zod";
+import type { AnswerValue, AnswerSet } from "./answers";
+import type { SurveyRule, SurveyRulesMetadata } from "./rules";
 
 export * from "./models/chat";
 
 // === TABLE DEFINITIONS ===
+export const SURVEY_LANGUAGES = ["English", "Arabic", "Bilingual"] as const;
+export const SURVEY_STATUSES = ["draft", "active", "completed"] as const;
+export const COLLECTION_MODES = ["field", "web"] as const;
+
 export const surveys = pgTable("surveys", {
   id: serial("id").primaryKey(),
   name: text("name").notNull(),
-  language: text("language", { enum: ["English", "Arabic", "Bilingual"] }).notNull().default("English"),
-  collectionMode: text("collection_mode", { enum: ["field", "web"] }).notNull().default("web"),
-  status: text("status", { enum: ["draft", "active", "completed"] }).notNull().default("draft"),
+  language: text("language", { enum: SURVEY_LANGUAGES }).notNull().default("English"),
+  collectionMode: text("collection_mode", { enum: COLLECTION_MODES }).notNull().default("web"),
+  status: text("status", { enum: SURVEY_STATUSES }).notNull().default("draft"),
   createdAt: timestamp("created_at").defaultNow(),
   updatedAt: timestamp("updated_at").defaultNow(),
+  // Set when archived from the dashboard; archived surveys are hidden from lists by default
+  archivedAt: timestamp("archived_at"),
+  // Lifecycle (see shared/lifecycle.ts): responses are accepted from opensAt until closesAt
+  // while active; both are optional and set when publishing
+  opensAt: timestamp("opens_at"),
+  closesAt: timestamp("closes_at"),
+  publishedAt: timestamp("published_at"),
+  closedAt: timestamp("closed_at"),
   // Store the generated structure as JSON
   structure: jsonb("structure").$type<{
     sections: {
@@ -30,6 +44,72 @@ export const surveys = pgTable("surveys", {
       }[];
     }[];
   }>(),
+  // Bumped by PUT /api/surveys/:id whenever the structure's sections change
+  structureVersion: integer("structure_version").notNull().default(1),
+  // Rules from rules generation / the rule editor, evaluated by the runtime and the submission validator
+  rules: jsonb("rules").$type<SurveyRule[]>(),
+  rulesMetadata: jsonb("rules_metadata").$type<SurveyRulesMetadata>(),
+  // structureVersion the rules were saved against
+  rulesStructureVersion: integer("rules_structure_version"),
+  // Set when the structure changed after the rules were saved
+  rulesStale: boolean("rules_stale").notNull().default(false),
+});
+
+// One respondent's submission of a survey
+export const responses = pgTable("responses", {
+  id: serial("id").primaryKey(),
+  surveyId: integer("survey_id").notNull().references(() => surveys.id, { onDelete: "cascade" }),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Individual answers of a response, one row per question (spec_id)
+export const answers = pgTable("answers", {
+  id: serial("id").primaryKey(),
+  responseId: integer("response_id").notNull().references(() => responses.id, { onDelete: "cascade" }),
+  specId: text("spec_id").notNull(),
+  value: jsonb("value").$type<AnswerValue>(),
+});
+
+// What caused a structure revision (shown in the builder's history)
+export const REVISION_SOURCES = ["manual", "ai_update", "regenerate", "delete_page", "delete_question", "restore", "undo", "redo", "reorder", "template", "duplicate", "import"] as const;
+
+// Snapshot of a survey's structure, recorded by the server every time the structure changes
+export const surveyRevisions = pgTable("survey_revisions", {
+  id: serial("id").primaryKey(),
+  surveyId: integer("survey_id").notNull().references(() => surveys.id, { onDelete: "cascade" }),
+  // surveys.structureVersion this snapshot became
+  structureVersion: integer("structure_version").notNull(),
+  structure: jsonb("structure").$type<NonNullable<Survey['structure']>>().notNull(),
+  source: text("source", { enum: REVISION_SOURCES }).notNull().default("manual"),
+  author: text("author"),
+  createdAt: timestamp("created_at").defaultNow(),
+});
+
+// Questions saved for reuse across surveys (a copy; later survey edits don't change it)
+export const questionBank = pgTable("question_bank", {
+  id: serial("id").primaryKey(),
+  question: jsonb("question").$type<SurveyQuestion>().notNull(),
+  tags: jsonb("tags").$type<string[]>().notNull().default([]),
+  // Language of the question text; Bilingual questions store {en, ar}
+  language: text("language", { enum: SURVEY_LANGUAGES }).notNull().default("English"),
+  createdAt: timestamp("created_at").defaultNow(),
+  updatedAt: timestamp("updated_at").defaultNow(),
+});
+
+// Reusable survey starting points: the built-in catalog (seeded) and surveys saved as templates
+export const surveyTemplates = pgTable("survey_templates", {
+  id: serial("id").primaryKey(),
+  name: text("name").notNull(),
+  description: text("description").notNull().default(""),
+  // Survey type from the config wizard (e.g. "human_resources", "events")
+  category: text("category").notNull().default("general"),
+  // Language of the structure; Bilingual templates can create surveys in any language
+  language: text("language", { enum: SURVEY_LANGUAGES }).notNull().default("Bilingual"),
+  structure: jsonb("structure").$type<SurveyStructure>().notNull(),
+  rules: jsonb("rules").$type<SurveyRule[]>(),
+  // Catalog templates are seeded by the server; the rest were saved from surveys
+  builtIn: boolean("built_in").notNull().default(false),
+  createdAt: timestamp("created_at").defaultNow(),
 });
 
 // === BASE SCHEMAS ===
@@ -37,18 +117,61 @@ export const insertSurveySchema = createInsertSchema(surveys).omit({
   id: true, 
   createdAt: true, 
   updatedAt: true,
-  structure: true // Structure is usually generated or updated separately
+  archivedAt: true, // Archived through POST /api/surveys/bulk
+  // Set by the publish / close / reopen endpoints
+  opensAt: true,
+  closesAt: true,
+  publishedAt: true,
+  closedAt: true,
+  structure: true, // Structure is usually generated or updated separately
+  // Rules and versions are managed by the server (see PUT /api/surveys/:id/rules)
+  structureVersion: true,
+  rules: true,
+  rulesMetadata: true,
+  rulesStructureVersion: true,
+  rulesStale: true,
 });
 
 // === EXPLICIT API CONTRACT TYPES ===
 export type Survey = typeof surveys.$inferSelect;
 export type InsertSurvey = z.infer<typeof insertSurveySchema>;
+export type SurveyStatus = typeof SURVEY_STATUSES[number];
+
+// Survey structure helpers - the JSON stored in surveys.structure
+export type SurveyStructure = NonNullable<Survey['structure']>;
+export type SurveySection = SurveyStructure['sections'][number];
+export type SurveyQuestion = SurveySection['questions'][number];
+
+export type SurveyResponseRow = typeof responses.$inferSelect;
+export type AnswerRow = typeof answers.$inferSelect;
+
+export type SurveyRevision = typeof surveyRevisions.$inferSelect;
+export type InsertSurveyRevision = typeof surveyRevisions.$inferInsert;
+export type RevisionSource = typeof REVISION_SOURCES[number];
+
+export type SurveyTemplate = typeof surveyTemplates.$inferSelect;
+export type InsertSurveyTemplate = typeof surveyTemplates.$inferInsert;
+
+export type QuestionBankItem = typeof questionBank.$inferSelect;
+export type InsertQuestionBankItem = typeof questionBank.$inferInsert;
+
+// A response together with its answers keyed by spec_id (API shape)
+export type SubmittedResponse = SurveyResponseRow & {
+  answers: AnswerSet;
+};
 
 export type CreateSurveyRequest = InsertSurvey;
 export type UpdateSurveyRequest = Partial<InsertSurvey> & {
   structure?: Survey['structure'];
 };
 
+// Server-managed survey fields that storage may update alongside a request
+export type SurveyRulesState = Pick<
+  Survey,
+  | 'structureVersion' | 'rules' | 'rulesMetadata' | 'rulesStructureVersion' | 'rulesStale' | 'archivedAt'
+  | 'opensAt' | 'closesAt' | 'publishedAt' | 'closedAt'
+>;
+
 // AI Generation types
 export const generateSurveySchema = z.object({
   prompt: z.string().min(10),